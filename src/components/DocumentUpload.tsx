@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { toast } from 'sonner';
 import { uploadDocument } from '@/services/documentService';
+import { detectDocumentFormat, SUPPORTED_FILE_EXTENSIONS } from '@/utils/documentExtractors';
 
 interface UploadedFile {
   file: File;
@@ -27,11 +28,10 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onUpload, isOpen, onClo
     if (!files) return;
 
     const validFiles = Array.from(files).filter(file => {
-      const validTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain'];
       const maxSize = 100 * 1024 * 1024; // 100MB
       
-      if (!validTypes.includes(file.type)) {
-        toast.error(`${file.name} is not a supported file type. Please upload PDF, DOCX, or TXT files.`);
+      if (!detectDocumentFormat(file)) {
+        toast.error(`${file.name} is not a supported file type. Please upload PDF, DOCX, RTF, HTML, EML, MSG, or TXT files.`);
         return false;
       }
       
@@ -181,7 +181,7 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onUpload, isOpen, onClo
             <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <p className="text-lg font-medium mb-2">Drop files here or click to browse</p>
             <p className="text-sm text-muted-foreground mb-4">
-              Supports PDF, DOCX, and TXT files up to 100MB each. Files will be processed with AI for intelligent search.
+              Supports PDF, DOCX, RTF, HTML, email (EML/MSG) and TXT files up to 100MB each. Files will be processed with AI for intelligent search.
             </p>
             <Button
               onClick={() => fileInputRef.current?.click()}
@@ -193,7 +193,7 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onUpload, isOpen, onClo
               ref={fileInputRef}
               type="file"
               multiple
-              accept=".pdf,.docx,.txt"
+              accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
               onChange={(e) => handleFileSelect(e.target.files)}
               className="hidden"
             />
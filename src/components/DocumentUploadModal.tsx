@@ -1,20 +1,34 @@
 import React, { useState, useRef } from 'react';
-import { Upload, X, FileText, File } from 'lucide-react';
+import { Upload, X, FileText, File, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
 import { uploadDocument } from '@/services/documentService';
+import { detectDocumentFormat, SUPPORTED_FILE_EXTENSIONS } from '@/utils/documentExtractors';
 import { getClients, Client, getFolders, Folder } from '@/services/clientService';
+import {
+  IngestionJob,
+  getIngestionProgress,
+  isIngestionJobActive,
+  resumeIngestionJob,
+  retryIngestionJob,
+  subscribeToIngestionJob
+} from '@/services/ingestionJobService';
 
 interface UploadedFile {
   file: File;
   id: string;
   progress: number;
-  status: 'uploading' | 'processing' | 'completed' | 'error';
+  status: 'uploading' | 'processing' | 'indexing' | 'completed' | 'error';
+  job?: IngestionJob;
+  error?: string;
 }
 
+// Extraction and upload take the first part of the bar; embedding progress fills the rest
+const UPLOAD_PROGRESS_SHARE = 30;
+
 interface DocumentUploadModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -39,6 +53,16 @@ const DocumentUploadModal: React.FC<DocumentUploadModalProps> = ({
   const [isLoadingClients, setIsLoadingClients] = useState(false);
   const [isLoadingFolders, setIsLoadingFolders] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const jobSubscriptions = useRef(new Map<string, () => void>());
+
+  // Stop listening for job progress when the modal goes away
+  React.useEffect(() => {
+    const subscriptions = jobSubscriptions.current;
+    return () => {
+      subscriptions.forEach(unsubscribe => unsubscribe());
+      subscriptions.clear();
+    };
+  }, []);
 
   React.useEffect(() => {
     if (isOpen) {
@@ -102,11 +126,10 @@ const DocumentUploadModal: React.FC<DocumentUploadModalProps> = ({
     if (!files) return;
 
     const validFiles = Array.from(files).filter(file => {
-      const validTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain'];
       const maxSize = 100 * 1024 * 1024; // 100MB
       
-      if (!validTypes.includes(file.type)) {
-        toast.error(`${file.name} is not a supported file type. Please upload PDF, DOCX, or TXT files.`);
+      if (!detectDocumentFormat(file)) {
+        toast.error(`${file.name} is not a supported file type. Please upload PDF, DOCX, RTF, HTML, EML, MSG, or TXT files.`);
         return false;
       }
       
@@ -141,7 +164,7 @@ const DocumentUploadModal: React.FC<DocumentUploadModalProps> = ({
       setUploadedFiles(prev => 
         prev.map(f => 
           f.id === uploadFile.id 
-            ? { ...f, status: 'processing', progress: 25 }
+            ? { ...f, status: 'processing', progress: 10 }
             : f
         )
       );
@@ -156,7 +179,7 @@ const DocumentUploadModal: React.FC<DocumentUploadModalProps> = ({
       setUploadedFiles(prev => 
         prev.map(f => 
           f.id === uploadFile.id 
-            ? { ...f, progress: 75 }
+            ? { ...f, progress: 20 }
             : f
         )
       );
@@ -169,16 +192,21 @@ const DocumentUploadModal: React.FC<DocumentUploadModalProps> = ({
 
       console.log('Upload result:', result);
 
-      // Mark as completed
-      setUploadedFiles(prev => 
-        prev.map(f => 
-          f.id === uploadFile.id 
-            ? { ...f, status: 'completed', progress: 100 }
-            : f
-        )
-      );
-
-      toast.success(`Successfully processed ${uploadFile.file.name}`);
+      if (result?.job) {
+        // Embeddings are generated in the background; follow the job until it finishes
+        trackIngestionJob(uploadFile, result.job);
+      } else {
+        // Mark as completed
+        setUploadedFiles(prev => 
+          prev.map(f => 
+            f.id === uploadFile.id 
+              ? { ...f, status: 'completed', progress: 100 }
+              : f
+          )
+        );
+
+        toast.success(`Successfully processed ${uploadFile.file.name}`);
+      }
 
     } catch (error) {
       console.error('Error processing file:', error);
@@ -193,6 +221,62 @@ const DocumentUploadModal: React.FC<DocumentUploadModalProps> = ({
     }
   };
 
+  const applyJobUpdate = (uploadFile: UploadedFile, job: IngestionJob) => {
+    const progress = UPLOAD_PROGRESS_SHARE + Math.round(getIngestionProgress(job) * (100 - UPLOAD_PROGRESS_SHARE));
+
+    setUploadedFiles(prev =>
+      prev.map(f => {
+        if (f.id !== uploadFile.id) return f;
+        if (job.status === 'completed') {
+          return { ...f, job, status: 'completed', progress: 100, error: undefined };
+        }
+        if (job.status === 'failed') {
+          return { ...f, job, status: 'error', progress, error: job.last_error || 'Embedding failed' };
+        }
+        return { ...f, job, status: 'indexing', progress, error: undefined };
+      })
+    );
+
+    // Realtime and the stall check can both report the final state; only announce it once
+    const unsubscribe = jobSubscriptions.current.get(uploadFile.id);
+    if (!isIngestionJobActive(job) && unsubscribe) {
+      unsubscribe();
+      jobSubscriptions.current.delete(uploadFile.id);
+
+      if (job.status === 'completed') {
+        toast.success(`Successfully processed ${uploadFile.file.name}`);
+      } else {
+        toast.error(`${uploadFile.file.name} was only partly indexed: ${job.last_error || 'embedding failed'}`);
+      }
+    }
+  };
+
+  const trackIngestionJob = (uploadFile: UploadedFile, job: IngestionJob) => {
+    jobSubscriptions.current.get(uploadFile.id)?.();
+
+    let unsubscribe = () => {};
+    jobSubscriptions.current.set(uploadFile.id, () => unsubscribe());
+    if (isIngestionJobActive(job)) {
+      unsubscribe = subscribeToIngestionJob(job.id, updated => applyJobUpdate(uploadFile, updated));
+    }
+    applyJobUpdate(uploadFile, job);
+  };
+
+  const retryIngestion = async (uploadFile: UploadedFile) => {
+    if (!uploadFile.job) return;
+
+    try {
+      const job = await retryIngestionJob(uploadFile.job);
+      trackIngestionJob(uploadFile, job);
+      resumeIngestionJob(job.id).catch(error => {
+        console.error('Error resuming ingestion job:', error);
+      });
+    } catch (error) {
+      console.error('Error retrying ingestion job:', error);
+      toast.error(`Failed to retry ${uploadFile.file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(true);
@@ -210,6 +294,8 @@ const DocumentUploadModal: React.FC<DocumentUploadModalProps> = ({
   };
 
   const removeFile = (id: string) => {
+    jobSubscriptions.current.get(id)?.();
+    jobSubscriptions.current.delete(id);
     setUploadedFiles(prev => prev.filter(f => f.id !== id));
   };
 
@@ -237,15 +323,19 @@ const DocumentUploadModal: React.FC<DocumentUploadModalProps> = ({
       case 'completed': return 'bg-green-500';
       case 'error': return 'bg-red-500';
       case 'processing': return 'bg-yellow-500';
+      case 'indexing': return 'bg-blue-500';
       default: return 'bg-primary';
     }
   };
 
-  const getStatusText = (status: string) => {
-    switch (status) {
+  const getStatusText = (file: UploadedFile) => {
+    switch (file.status) {
       case 'completed': return 'Processed';
-      case 'error': return 'Error';
+      case 'error': return file.error ? `Error: ${file.error}` : 'Error';
       case 'processing': return 'Processing...';
+      case 'indexing': return file.job
+        ? `Indexing ${file.job.processed_chunks}/${file.job.total_chunks} chunks...`
+        : 'Indexing...';
       default: return 'Uploading...';
     }
   };
@@ -321,7 +411,7 @@ const DocumentUploadModal: React.FC<DocumentUploadModalProps> = ({
             <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <p className="text-lg font-medium mb-2">Drop files here or click to browse</p>
             <p className="text-sm text-muted-foreground mb-4">
-              Supports PDF, DOCX, and TXT files up to 100MB each. Files will be processed with AI for intelligent search.
+              Supports PDF, DOCX, RTF, HTML, email (EML/MSG) and TXT files up to 100MB each. Files will be processed with AI for intelligent search.
             </p>
             <Button
               onClick={() => fileInputRef.current?.click()}
@@ -333,7 +423,7 @@ const DocumentUploadModal: React.FC<DocumentUploadModalProps> = ({
               ref={fileInputRef}
               type="file"
               multiple
-              accept=".pdf,.docx,.txt"
+              accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
               onChange={(e) => handleFileSelect(e.target.files)}
               className="hidden"
             />
@@ -349,7 +439,7 @@ const DocumentUploadModal: React.FC<DocumentUploadModalProps> = ({
                     <div className="flex-1">
                       <p className="text-sm font-medium truncate">{file.file.name}</p>
                       <p className="text-xs text-muted-foreground">
-                        {(file.file.size / 1024 / 1024).toFixed(1)} MB • {getStatusText(file.status)}
+                        {(file.file.size / 1024 / 1024).toFixed(1)} MB • {getStatusText(file)}
                       </p>
                       <div className="w-full bg-gray-200 rounded-full h-1 mt-1">
                         <div
@@ -358,6 +448,17 @@ const DocumentUploadModal: React.FC<DocumentUploadModalProps> = ({
                         />
                       </div>
                     </div>
+                    {file.status === 'error' && file.job && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => retryIngestion(file)}
+                        className="h-8 w-8"
+                        title="Retry failed chunks"
+                      >
+                        <RotateCcw className="h-3 w-3" />
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="icon"
@@ -1,7 +1,10 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { Editor } from '@monaco-editor/react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { editor as MonacoEditor } from 'monaco-editor';
+import { MonacoBinding } from 'y-monaco';
+import { UndoManager, type YTextEvent } from 'yjs';
 import { Textarea } from '@/components/ui/textarea';
-// Removed YJS imports - using Supabase Realtime instead
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
@@ -17,10 +20,35 @@ import {
   Camera,
   FileText,
   Clock,
-  Eye
+  Eye,
+  MessageSquare,
+  MessageSquarePlus,
+  FilePen
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useYjsDocument } from '@/hooks/useYjsDocument';
+import { useDocumentLock } from '@/hooks/useDocumentLock';
+import { EncodedSelection, encodeSelection, remoteCursorStyles, useRemoteCursors } from '@/hooks/useRemoteCursors';
+import { AnchoredRange, useCommentAnchors } from '@/hooks/useCommentAnchors';
+import { resolveSuggestion, useSuggestionMarks } from '@/hooks/useSuggestionMarks';
+import { createCommentThread, getCommentThreads, subscribeToDocumentComments } from '@/services/commentService';
+import {
+  DocumentSuggestion,
+  createSuggestion,
+  diffSuggestedChange,
+  getPendingSuggestions,
+  recordAcceptedSuggestions,
+  subscribeToDocumentSuggestions
+} from '@/services/suggestionService';
+import { saveDocumentContent, waitForRelayContent } from '@/services/documentContentService';
+import { acquireDocumentLock, isDocumentEditBlocked, releaseDocumentLock, setSnapshotLocked } from '@/services/documentLockService';
+import { DocumentSnapshot, createDocumentSnapshot, exportSnapshotAsPDF, getDocumentSnapshots } from '@/services/snapshotService';
+import { downloadPDF } from '@/services/pdfExportService';
+import { encodeTextPosition } from '@/utils/relativePositions';
+import CommentsGutter, { PendingComment } from './CommentsGutter';
+import SuggestionsPanel, { PendingSuggestion } from './SuggestionsPanel';
+import '@/lib/monaco';
 import { format } from 'date-fns';
 
 // Collaborator colors for user identification
@@ -29,18 +57,51 @@ const COLLABORATOR_COLORS = [
   '#DDA0DD', '#98D8C8', '#F7DC6F', '#BB8FCE', '#85C1E9'
 ];
 
+const REMOTE_CURSOR_CSS = remoteCursorStyles(COLLABORATOR_COLORS);
+
+// A collaborator is typing for this long after a keystroke, and idle once this long passes without any activity
+const TYPING_WINDOW_MS = 3000;
+const IDLE_AFTER_MS = 2 * 60 * 1000;
+
+// Cursor positions are written to collaborative_sessions at most this often
+const CURSOR_PERSIST_INTERVAL_MS = 5000;
+
+type CollaboratorActivity = 'typing' | 'active' | 'idle';
+
+const ACTIVITY_STYLES: Record<CollaboratorActivity, { label: string; dot: string }> = {
+  typing: { label: 'Typing...', dot: 'bg-blue-500 animate-pulse' },
+  active: { label: 'Active', dot: 'bg-green-500' },
+  idle: { label: 'Idle', dot: 'bg-gray-400' },
+};
+
+// Derived from the user ID so a collaborator has the same color in everyone's editor
+const getColorIndex = (userId: string) =>
+  Array.from(userId).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 0) % COLLABORATOR_COLORS.length;
+
 interface CollaboratorInfo {
   id: string;
   name: string;
   email: string;
   color: string;
-  cursor?: {
-    line: number;
-    column: number;
-  };
+  colorIndex: number;
+  selection?: EncodedSelection;
+  lastActiveAt: number;
+  lastTypedAt: number | null;
   isActive: boolean;
 }
 
+interface CursorUpdatePayload {
+  userId: string;
+  selection: EncodedSelection;
+  typing: boolean;
+  timestamp: number;
+}
+
+const getActivity = (collaborator: CollaboratorInfo, now: number): CollaboratorActivity => {
+  if (collaborator.lastTypedAt && now - collaborator.lastTypedAt < TYPING_WINDOW_MS) return 'typing';
+  return now - collaborator.lastActiveAt > IDLE_AFTER_MS ? 'idle' : 'active';
+};
+
 interface DocumentVersion {
   id: string;
   versionNumber: number;
@@ -51,16 +112,6 @@ interface DocumentVersion {
   isAutoSave: boolean;
 }
 
-interface DocumentSnapshot {
-  id: string;
-  label: string;
-  description?: string;
-  createdAt: string;
-  createdBy: string;
-  versionId: string;
-  isLocked: boolean;
-}
-
 interface CollaborativeDocumentEditorProps {
   documentId: string;
   documentTitle: string;
@@ -73,6 +124,8 @@ interface CollaborativeDocumentEditorProps {
   onVersionHistoryToggle: () => void;
   showVersionHistory: boolean;
   onDocumentUpdate?: (content: string) => void;
+  canEdit?: boolean;
+  canComment?: boolean;
 }
 
 
@@ -83,25 +136,315 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
   currentUser,
   onVersionHistoryToggle,
   showVersionHistory,
-  onDocumentUpdate
+  onDocumentUpdate,
+  canEdit = true,
+  canComment = true
 }) => {
   const editorRef = useRef<any>(null);
   const monacoRef = useRef<any>(null);
   const realtimeChannelRef = useRef<any>(null);
   const lastSaveTimeRef = useRef<number>(Date.now());
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  
+  const sharedTextRef = useRef<ReturnType<typeof useYjsDocument>['text']>(null);
+  const lastLocalEditRef = useRef(0);
+  const pendingCursorRef = useRef<{ anchorOffset: number; headOffset: number } | null>(null);
+  const cursorPersistTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const addCommentRef = useRef<() => void>(() => {});
+  const suggestEditRef = useRef<() => void>(() => {});
+
+  const [editorInstance, setEditorInstance] = useState<MonacoEditor.IStandaloneCodeEditor | null>(null);
   const [collaborators, setCollaborators] = useState<CollaboratorInfo[]>([]);
-  const [isConnected, setIsConnected] = useState(false);
+  const [now, setNow] = useState(Date.now());
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
-  const [isLocked, setIsLocked] = useState(false);
   const [versions, setVersions] = useState<DocumentVersion[]>([]);
-  const [snapshots, setSnapshots] = useState<DocumentSnapshot[]>([]);
   const [isCreatingSnapshot, setIsCreatingSnapshot] = useState(false);
   const [editorError, setEditorError] = useState<string | null>(null);
   const [fallbackContent, setFallbackContent] = useState(initialContent);
+  const [sidePanel, setSidePanel] = useState<'comments' | 'suggestions' | null>('comments');
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [pendingComment, setPendingComment] = useState<PendingComment | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [activeSuggestionId, setActiveSuggestionId] = useState<string | null>(null);
+  const [pendingSuggestion, setPendingSuggestion] = useState<PendingSuggestion | null>(null);
   
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { text: sharedText, status: collaborationStatus, isLoaded } = useYjsDocument(documentId);
+
+  const { data: commentThreads = [] } = useQuery({
+    queryKey: ['document-comments', documentId],
+    queryFn: () => getCommentThreads(documentId),
+  });
+
+  const { data: snapshots = [] } = useQuery({
+    queryKey: ['document-snapshots', documentId],
+    queryFn: () => getDocumentSnapshots(documentId),
+  });
+
+  const { data: suggestions = [] } = useQuery({
+    queryKey: ['document-suggestions', documentId],
+    queryFn: () => getPendingSuggestions(documentId),
+  });
+
+  // Only the owner (or an admin share) reviews suggestions
+  const { data: permission } = useQuery({
+    queryKey: ['document-permission', documentId, currentUser.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_user_document_permission', {
+        doc_id: documentId,
+        user_id: currentUser.id
+      });
+      if (error) throw error;
+      return data;
+    },
+  });
+  const canReview = permission === 'admin';
+
+  const documentLock = useDocumentLock(documentId, currentUser.id);
+  const isEditable = canEdit && !documentLock.isReadOnly;
+
+  // Other editors suggest rather than edit by default; they can switch to direct editing
+  useEffect(() => {
+    if (permission) {
+      setIsSuggesting(canEdit && permission !== 'admin');
+    }
+  }, [permission, canEdit]);
+
+  // Pick up comments added, resolved or deleted by others
+  useEffect(() => {
+    return subscribeToDocumentComments(documentId, () => {
+      queryClient.invalidateQueries({ queryKey: ['document-comments', documentId] });
+    });
+  }, [documentId, queryClient]);
+
+  useEffect(() => {
+    return subscribeToDocumentSuggestions(documentId, () => {
+      queryClient.invalidateQueries({ queryKey: ['document-suggestions', documentId] });
+    });
+  }, [documentId, queryClient]);
+
+  // Bind the editor to the shared Yjs text: local edits become CRDT updates and remote ones are
+  // applied as edits, so concurrent typing merges and cursors stay put
+  useEffect(() => {
+    const model = editorInstance?.getModel();
+    if (!editorInstance || !model || !sharedText) return;
+
+    const binding = new MonacoBinding(sharedText, model, new Set([editorInstance]));
+    return () => binding.destroy();
+  }, [editorInstance, sharedText]);
+
+  // Only edits made here count as typing; remote updates arrive in non-local transactions
+  useEffect(() => {
+    sharedTextRef.current = sharedText;
+    if (!sharedText) return;
+
+    const handleChange = (event: YTextEvent) => {
+      if (event.transaction.local) {
+        lastLocalEditRef.current = Date.now();
+      }
+    };
+    sharedText.observe(handleChange);
+    return () => sharedText.unobserve(handleChange);
+  }, [sharedText]);
+
+  // Re-evaluate typing and idle states while anyone else is here
+  useEffect(() => {
+    if (collaborators.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [collaborators.length]);
+
+  const remoteCursors = useMemo(
+    () => collaborators.flatMap(collaborator => collaborator.selection
+      ? [{
+          userId: collaborator.id,
+          name: collaborator.name,
+          colorIndex: collaborator.colorIndex,
+          selection: collaborator.selection,
+          isIdle: getActivity(collaborator, now) === 'idle',
+        }]
+      : []),
+    [collaborators, now]
+  );
+
+  useRemoteCursors(editorInstance, sharedText, remoteCursors);
+
+  const commentRanges = useCommentAnchors(editorInstance, sharedText, commentThreads, activeThreadId, (threadId) => {
+    setActiveThreadId(threadId);
+    setSidePanel('comments');
+  });
+
+  const suggestionRanges = useSuggestionMarks(editorInstance, sharedText, suggestions, activeSuggestionId, (suggestionId) => {
+    setActiveSuggestionId(suggestionId);
+    setSidePanel('suggestions');
+  });
+
+  const revealOffsets = (range: AnchoredRange) => {
+    const model = editorRef.current?.getModel();
+    if (!model) return;
+
+    const start = model.getPositionAt(range.start);
+    const end = model.getPositionAt(range.end);
+    editorRef.current.revealRangeInCenterIfOutsideViewport({
+      startLineNumber: start.lineNumber,
+      startColumn: start.column,
+      endLineNumber: end.lineNumber,
+      endColumn: end.column,
+    });
+  };
+
+  // Start a new thread on the current selection
+  const handleAddComment = () => {
+    const model = editorRef.current?.getModel();
+    const selection = editorRef.current?.getSelection();
+    if (!model || !selection || selection.isEmpty()) {
+      toast({
+        title: "Select Text",
+        description: "Select the text you want to comment on",
+      });
+      return;
+    }
+
+    setPendingComment({
+      start: model.getOffsetAt(selection.getStartPosition()),
+      end: model.getOffsetAt(selection.getEndPosition()),
+      quotedText: model.getValueInRange(selection),
+    });
+    setActiveThreadId(null);
+    setSidePanel('comments');
+  };
+  addCommentRef.current = handleAddComment;
+
+  const handleCreateThread = async (body: string, mentionedUserIds: string[]) => {
+    if (!pendingComment || !sharedText) return;
+
+    const comment = await createCommentThread({
+      documentId,
+      author: { id: currentUser.id, name: currentUser.name || currentUser.email },
+      body,
+      mentionedUserIds,
+      anchor: {
+        start: encodeTextPosition(sharedText, pendingComment.start),
+        end: encodeTextPosition(sharedText, pendingComment.end),
+      },
+      quotedText: pendingComment.quotedText,
+      anchorOffset: pendingComment.start,
+    });
+    setPendingComment(null);
+    setActiveThreadId(comment.id);
+  };
+
+  // Selecting a thread in the gutter scrolls its text into view
+  const handleSelectThread = (threadId: string | null) => {
+    setActiveThreadId(threadId);
+    const range = threadId ? commentRanges.get(threadId) : null;
+    if (range) revealOffsets(range);
+  };
+
+  // Propose a rewrite of the selection, or an insert at the cursor when nothing is selected
+  const handleSuggestEdit = () => {
+    const model = editorRef.current?.getModel();
+    const selection = editorRef.current?.getSelection();
+    if (!model || !selection || !isEditable) return;
+
+    setPendingSuggestion({
+      start: model.getOffsetAt(selection.getStartPosition()),
+      end: model.getOffsetAt(selection.getEndPosition()),
+      original: model.getValueInRange(selection),
+    });
+    setActiveSuggestionId(null);
+    setSidePanel('suggestions');
+  };
+  suggestEditRef.current = handleSuggestEdit;
+
+  const handleCreateSuggestion = async (replacement: string) => {
+    if (!pendingSuggestion || !sharedText) return;
+
+    const change = diffSuggestedChange(pendingSuggestion.start, pendingSuggestion.original, replacement);
+    if (!change) {
+      setPendingSuggestion(null);
+      return;
+    }
+
+    const suggestion = await createSuggestion({
+      documentId,
+      author: { id: currentUser.id, name: currentUser.name || currentUser.email },
+      change,
+      anchor: {
+        start: encodeTextPosition(sharedText, change.start),
+        end: encodeTextPosition(sharedText, change.end),
+      },
+    });
+    setPendingSuggestion(null);
+    setActiveSuggestionId(suggestion.id);
+  };
+
+  // Apply accepted suggestions to the shared text in one transaction and record them as a new version.
+  // Suggestions whose text was edited since they were made are left pending.
+  const handleAcceptSuggestions = async (accepted: DocumentSuggestion[]) => {
+    if (!sharedText?.doc) return;
+
+    // The relay would drop the edit while someone else holds the lock, leaving the suggestions accepted
+    // against text that never changed
+    if (await isDocumentEditBlocked(documentId, currentUser.id)) {
+      throw new Error('The document is locked for editing');
+    }
+
+    // Suggestions are taken oldest first; one whose range overlaps a change already taken, or that
+    // inserts at the same spot, stays pending since the two can't both apply as written
+    const current = sharedText.toString();
+    const edits: { suggestion: DocumentSuggestion; range: AnchoredRange }[] = [];
+    [...accepted]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .forEach(suggestion => {
+        const range = resolveSuggestion(suggestion, sharedText);
+        if (!range || current.slice(range.start, range.end) !== suggestion.old_content) return;
+        const overlaps = edits.some(edit =>
+          (range.start < edit.range.end && edit.range.start < range.end) || range.start === edit.range.start
+        );
+        if (!overlaps) edits.push({ suggestion, range });
+      });
+
+    if (edits.length === 0) {
+      throw new Error('The suggested text has changed since these suggestions were made');
+    }
+
+    // Later edits first so earlier offsets stay valid. Tracked under their own origin so they can be
+    // taken back if the suggestions can't be recorded as accepted.
+    edits.sort((a, b) => b.range.start - a.range.start);
+    const origin = { acceptSuggestions: true };
+    const undoManager = new UndoManager(sharedText, { trackedOrigins: new Set([origin]) });
+    sharedText.doc.transact(() => {
+      edits.forEach(({ suggestion, range }) => {
+        if (range.end > range.start) sharedText.delete(range.start, range.end - range.start);
+        if (suggestion.new_content) sharedText.insert(range.start, suggestion.new_content);
+      });
+    }, origin);
+
+    // Marked accepted only once the edit is in the document
+    try {
+      await recordAcceptedSuggestions(documentId, edits.map(edit => edit.suggestion), sharedText.toString(), currentUser.id);
+    } catch (error) {
+      undoManager.undo();
+      throw error;
+    } finally {
+      undoManager.destroy();
+    }
+    setActiveSuggestionId(null);
+
+    const skipped = accepted.length - edits.length;
+    toast({
+      title: "Suggestions Accepted",
+      description: `${edits.length} change${edits.length === 1 ? '' : 's'} applied and saved as a new version` +
+        (skipped > 0 ? `; ${skipped} left pending because the text changed or they overlap another change` : ''),
+    });
+  };
+
+  const handleSelectSuggestion = (suggestionId: string | null) => {
+    setActiveSuggestionId(suggestionId);
+    const range = suggestionId ? suggestionRanges.get(suggestionId) : null;
+    if (range) revealOffsets(range);
+  };
 
   // Initialize collaborative editing function
   const initializeCollaboration = useCallback(() => {
@@ -112,12 +455,7 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
     
     console.log('Initializing collaborative editing...');
 
-    // Set initial content in Monaco editor
-    if (initialContent) {
-      editorRef.current.setValue(initialContent);
-    }
-
-    // Set up Supabase Realtime for collaborative editing
+    // Content itself syncs through Yjs; this channel carries presence and cursors
     const channel = supabase.channel(`document-${documentId}`, {
       config: {
         broadcast: { self: true },
@@ -125,20 +463,6 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
       }
     });
 
-    // Listen for document content changes from other users
-    channel.on('broadcast', { event: 'document_change' }, (payload: any) => {
-      if (payload.payload.userId !== currentUser.id && editorRef.current) {
-        const currentContent = editorRef.current.getValue();
-        if (currentContent !== payload.payload.content) {
-          const position = editorRef.current.getPosition();
-          editorRef.current.setValue(payload.payload.content);
-          if (position) {
-            editorRef.current.setPosition(position);
-          }
-        }
-      }
-    });
-
     // Listen for cursor position updates
     channel.on('broadcast', { event: 'cursor_update' }, (payload: any) => {
       updateCollaboratorCursor(payload.payload);
@@ -153,8 +477,6 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
     // Subscribe to the channel
     channel.subscribe(async (status: string) => {
       if (status === 'SUBSCRIBED') {
-        setIsConnected(true);
-        
         // Track user presence
         await channel.track({
           user_id: currentUser.id,
@@ -164,71 +486,35 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
         });
         
         console.log('Connected to collaborative editing');
-      } else {
-        setIsConnected(false);
       }
     });
 
     realtimeChannelRef.current = channel;
 
-    // Set up Monaco editor change listener for broadcasting
-    const onContentChange = () => {
-      if (editorRef.current) {
-        const content = editorRef.current.getValue();
-        
-        // Broadcast changes to other users (debounced)
-        if (saveTimeoutRef.current) {
-          clearTimeout(saveTimeoutRef.current);
-        }
-        
-        saveTimeoutRef.current = setTimeout(() => {
-          channel.send({
-            type: 'broadcast',
-            event: 'document_change',
-            payload: {
-              userId: currentUser.id,
-              content,
-              timestamp: Date.now()
-            }
-          });
-          
-          // Auto-save to database
-          saveVersion(content, true);
-        }, 1000); // Debounce 1 second
-      }
-    };
+    // Set up cursor and selection broadcasting
+    const onSelectionChange = () => {
+      const model = editorRef.current?.getModel();
+      const selection = editorRef.current?.getSelection();
+      if (!sharedTextRef.current || !model || !selection) return;
 
-    // Set up cursor position broadcasting
-    const onCursorChange = () => {
-      if (editorRef.current) {
-        const position = editorRef.current.getPosition();
-        if (position) {
-          channel.send({
-            type: 'broadcast',
-            event: 'cursor_update',
-            payload: {
-              userId: currentUser.id,
-              position: {
-                lineNumber: position.lineNumber,
-                column: position.column
-              },
-              timestamp: Date.now()
-            }
-          });
-        }
-      }
+      const anchorOffset = model.getOffsetAt(selection.getSelectionStart());
+      const headOffset = model.getOffsetAt(selection.getPosition());
+      const payload: CursorUpdatePayload = {
+        userId: currentUser.id,
+        selection: encodeSelection(sharedTextRef.current, anchorOffset, headOffset),
+        typing: Date.now() - lastLocalEditRef.current < TYPING_WINDOW_MS,
+        timestamp: Date.now()
+      };
+      channel.send({ type: 'broadcast', event: 'cursor_update', payload });
+      persistCursor(anchorOffset, headOffset);
     };
 
     // Add Monaco editor event listeners
     if (editorRef.current) {
-      const model = editorRef.current.getModel();
-      if (model) {
-        const contentChangeDisposable = model.onDidChangeContent(onContentChange);
-        const cursorChangeDisposable = editorRef.current.onDidChangeCursorPosition(onCursorChange);
-        
-        // Store disposables for cleanup
-        realtimeChannelRef.current.disposables = [contentChangeDisposable, cursorChangeDisposable];
-      }
+      const cursorChangeDisposable = editorRef.current.onDidChangeCursorSelection(onSelectionChange);
+
+      // Store disposables for cleanup
+      realtimeChannelRef.current.disposables = [cursorChangeDisposable];
     }
 
     // Record collaborative session
@@ -238,6 +524,9 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
       if (saveTimeoutRef.current) {
         clearTimeout(saveTimeoutRef.current);
       }
+      if (cursorPersistTimeoutRef.current) {
+        clearTimeout(cursorPersistTimeoutRef.current);
+      }
       if (realtimeChannelRef.current) {
         // Clean up event listeners
         if (realtimeChannelRef.current.disposables) {
@@ -252,15 +541,15 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
   }, [documentId, currentUser]);
 
   // Helper function to update collaborator cursor positions
-  const updateCollaboratorCursor = useCallback((payload: any) => {
-    setCollaborators(prev => prev.map(collaborator => 
+  const updateCollaboratorCursor = useCallback((payload: CursorUpdatePayload) => {
+    const receivedAt = Date.now();
+    setCollaborators(prev => prev.map(collaborator =>
       collaborator.id === payload.userId
-        ? { 
-            ...collaborator, 
-            cursor: {
-              line: payload.position.lineNumber,
-              column: payload.position.column
-            }
+        ? {
+            ...collaborator,
+            selection: payload.selection,
+            lastActiveAt: receivedAt,
+            lastTypedAt: payload.typing ? receivedAt : collaborator.lastTypedAt
           }
         : collaborator
     ));
@@ -268,22 +557,32 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
 
   // Helper function to update collaborators list from presence state
   const updateCollaboratorsList = useCallback((presenceState: any) => {
-    const collaboratorsList: CollaboratorInfo[] = [];
-    
-    Object.entries(presenceState).forEach(([userId, presences]: [string, any]) => {
-      if (userId !== currentUser.id && presences.length > 0) {
-        const presence = presences[0];
-        collaboratorsList.push({
-          id: presence.user_id,
-          name: presence.user_name || 'Anonymous',
-          email: presence.user_email || '',
-          color: COLLABORATOR_COLORS[collaboratorsList.length % COLLABORATOR_COLORS.length],
-          isActive: true
-        });
-      }
+    setCollaborators(prev => {
+      // Keep cursors and activity of people who were already here
+      const previous = new Map(prev.map(collaborator => [collaborator.id, collaborator]));
+      const collaboratorsList: CollaboratorInfo[] = [];
+
+      Object.entries(presenceState).forEach(([userId, presences]: [string, any]) => {
+        if (userId !== currentUser.id && presences.length > 0) {
+          const presence = presences[0];
+          const existing = previous.get(presence.user_id);
+          const colorIndex = getColorIndex(presence.user_id);
+          collaboratorsList.push({
+            id: presence.user_id,
+            name: presence.user_name || 'Anonymous',
+            email: presence.user_email || '',
+            color: COLLABORATOR_COLORS[colorIndex],
+            colorIndex,
+            selection: existing?.selection,
+            lastActiveAt: existing?.lastActiveAt ?? Date.now(),
+            lastTypedAt: existing?.lastTypedAt ?? null,
+            isActive: true
+          });
+        }
+      });
+
+      return collaboratorsList;
     });
-    
-    setCollaborators(collaboratorsList);
   }, [currentUser.id]);
 
   // Update document embeddings after save
@@ -303,29 +602,67 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
     }
   };
 
-  // Record collaborative session in database (placeholder)
+  // Record collaborative session in database
   const recordSession = async () => {
     try {
-      // Placeholder for when collaborative_sessions table is implemented
       console.log('Recording collaborative session for user:', currentUser.id);
+      const { error } = await supabase
+        .from('collaborative_sessions')
+        .upsert({
+          document_id: documentId,
+          user_id: currentUser.id,
+          user_color: COLLABORATOR_COLORS[getColorIndex(currentUser.id)],
+          last_activity: new Date().toISOString(),
+          session_end: null,
+          is_active: true
+        }, { onConflict: 'document_id,user_id' });
+
+      if (error) throw error;
     } catch (error) {
       console.error('Error recording session:', error);
     }
   };
 
+  // Persist the latest cursor and selection to the session, at most every CURSOR_PERSIST_INTERVAL_MS
+  const persistCursor = (anchorOffset: number, headOffset: number) => {
+    pendingCursorRef.current = { anchorOffset, headOffset };
+    if (cursorPersistTimeoutRef.current) return;
+
+    cursorPersistTimeoutRef.current = setTimeout(async () => {
+      cursorPersistTimeoutRef.current = null;
+      const pending = pendingCursorRef.current;
+      if (!pending) return;
+
+      const { error } = await supabase
+        .from('collaborative_sessions')
+        .update({
+          cursor_position: pending.headOffset,
+          selection_start: Math.min(pending.anchorOffset, pending.headOffset),
+          selection_end: Math.max(pending.anchorOffset, pending.headOffset),
+          last_activity: new Date().toISOString()
+        })
+        .eq('document_id', documentId)
+        .eq('user_id', currentUser.id);
+
+      if (error) {
+        console.error('Error saving cursor position:', error);
+      }
+    }, CURSOR_PERSIST_INTERVAL_MS);
+  };
+
+  // While connected the relay owns documents.content, so saving waits for it to persist what the editor
+  // shows; writing the text from here would replace edits collaborators made since. The fallback editor
+  // isn't bound to the shared text, so its content is always written directly.
+  const isRelayed = collaborationStatus === 'connected' && !editorError;
+
   // Save document version
   const saveVersion = async (content: string, isAutoSave: boolean = false) => {
     try {
-      // Simply update the main documents table with latest content
-      const { error } = await supabase
-        .from('documents')
-        .update({ 
-          content,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', documentId);
-      
-      if (error) throw error;
+      if (isRelayed) {
+        await waitForRelayContent(documentId, content);
+      } else {
+        await saveDocumentContent(documentId, content);
+      }
 
       setLastSaved(new Date());
       
@@ -344,31 +681,35 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
       console.error('Error saving document:', error);
       toast({
         title: "Save Error",
-        description: "Failed to save document",
+        description: error instanceof Error ? error.message : "Failed to save document",
         variant: "destructive"
       });
     }
   };
 
-  // Create snapshot (placeholder - snapshots table doesn't exist yet)
+  // Snapshot the current content: pending edits are persisted first so the snapshot's version includes them
   const createSnapshot = async (label: string, description?: string) => {
     if (!editorRef.current) return;
 
     setIsCreatingSnapshot(true);
     try {
-      // For now, just save the current document content
-      const content = editorRef.current.getValue();
-      await saveVersion(content, false);
+      const content = isEditable ? editorRef.current.getValue() : undefined;
+      if (content !== undefined && !isRelayed) {
+        await saveDocumentContent(documentId, content);
+      }
+      await createDocumentSnapshot(documentId, label, description, isRelayed ? content : undefined);
+      setLastSaved(new Date());
+      await loadSnapshots();
 
       toast({
         title: "Snapshot Created",
-        description: `"${label}" saved to document (snapshot tables not yet implemented)`,
+        description: `"${label}" saved as a snapshot`,
       });
     } catch (error) {
       console.error('Error creating snapshot:', error);
       toast({
         title: "Snapshot Error",
-        description: "Failed to create snapshot",
+        description: error instanceof Error ? error.message : "Failed to create snapshot",
         variant: "destructive"
       });
     } finally {
@@ -382,11 +723,7 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
     setVersions([]);
   };
 
-  // Load snapshots (placeholder - snapshots table doesn't exist yet)
-  const loadSnapshots = async () => {
-    // Placeholder for when snapshot tables are implemented
-    setSnapshots([]);
-  };
+  const loadSnapshots = () => queryClient.invalidateQueries({ queryKey: ['document-snapshots', documentId] });
 
   // Manual save
   const handleSave = () => {
@@ -405,43 +742,73 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
     }
   };
 
-  // Export snapshot as PDF
-  const exportSnapshotAsPDF = async (snapshotId: string) => {
-    // This would integrate with jsPDF to export the snapshot
-    toast({
-      title: "Export Started",
-      description: "PDF export will be ready shortly",
-    });
+  // Run a lock change and report failures, e.g. when someone else took the lock first
+  const runLockAction = async (action: () => Promise<void>, success: string) => {
+    try {
+      await action();
+      await documentLock.refresh();
+      toast({
+        title: "Document Lock",
+        description: success,
+      });
+    } catch (error) {
+      console.error('Error updating document lock:', error);
+      toast({
+        title: "Lock Error",
+        description: error instanceof Error ? error.message : "Failed to update document lock",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleTakeOverLock = () => {
+    if (!documentLock.lock) return;
+    if (!confirm(`Take over the lock from ${documentLock.lock.holder_name}? They will no longer be able to edit.`)) return;
+    runLockAction(() => acquireDocumentLock(documentId, true), 'You now hold the editing lock');
+  };
+
+  // Export snapshot as PDF; the download is counted against the snapshot
+  const handleExportSnapshot = async (snapshot: DocumentSnapshot) => {
+    try {
+      const { blob, filename } = await exportSnapshotAsPDF(snapshot, documentTitle);
+      downloadPDF(blob, filename);
+      await loadSnapshots();
+    } catch (error) {
+      console.error('Error exporting snapshot:', error);
+      toast({
+        title: "Export Error",
+        description: error instanceof Error ? error.message : "Failed to export snapshot",
+        variant: "destructive"
+      });
+    }
   };
 
   useEffect(() => {
     loadVersions();
-    loadSnapshots();
   }, [documentId]);
 
-  // Update editor content when initialContent changes
+  // The editor follows the shared document; initialContent only backs the fallback editor
   useEffect(() => {
-    if (editorRef.current && initialContent !== editorRef.current.getValue()) {
-      console.log('Updating editor content due to initialContent change');
-      editorRef.current.setValue(initialContent);
-      setFallbackContent(initialContent);
-    }
+    setFallbackContent(initialContent);
   }, [initialContent]);
 
   return (
     <div className="h-full flex flex-col bg-white overflow-hidden">
+      <style>{REMOTE_CURSOR_CSS}</style>
       {/* Toolbar */}
       <div className="flex items-center justify-between p-3 border-b bg-gray-50">
         <div className="flex items-center gap-3">
           <FileText className="h-5 w-5 text-gray-500" />
           <h2 className="font-semibold text-gray-900 truncate">{documentTitle}</h2>
-          {isLocked && <Lock className="h-4 w-4 text-red-500" />}
+          {documentLock.isReadOnly && <Lock className="h-4 w-4 text-red-500" />}
         </div>
 
         <div className="flex items-center gap-2">
           {/* Connection status */}
-          <Badge variant={isConnected ? "default" : "destructive"}>
-            {isConnected ? "Connected" : "Disconnected"}
+          <Badge variant={collaborationStatus === 'connected' ? "default" : collaborationStatus === 'connecting' ? "secondary" : "destructive"}>
+            {collaborationStatus === 'connected'
+              ? "Connected"
+              : collaborationStatus === 'connecting' ? "Connecting..." : "Offline"}
           </Badge>
 
           {/* Collaborators */}
@@ -450,23 +817,28 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
               <div className="flex items-center gap-1">
                 <Users className="h-4 w-4 text-gray-500" />
                 <div className="flex -space-x-2">
-                  {collaborators.slice(0, 3).map((collaborator) => (
-                    <Tooltip key={collaborator.id}>
-                      <TooltipTrigger>
-                        <Avatar className="h-6 w-6 border-2 border-white">
-                          <AvatarFallback 
-                            style={{ backgroundColor: collaborator.color }}
-                            className="text-white text-xs"
-                          >
-                            {collaborator.name.charAt(0).toUpperCase()}
-                          </AvatarFallback>
-                        </Avatar>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>{collaborator.name}</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  ))}
+                  {collaborators.slice(0, 3).map((collaborator) => {
+                    const activity = getActivity(collaborator, now);
+                    return (
+                      <Tooltip key={collaborator.id}>
+                        <TooltipTrigger className="relative">
+                          <Avatar className={`h-6 w-6 border-2 border-white ${activity === 'idle' ? 'opacity-50' : ''}`}>
+                            <AvatarFallback
+                              style={{ backgroundColor: collaborator.color }}
+                              className="text-white text-xs"
+                            >
+                              {collaborator.name.charAt(0).toUpperCase()}
+                            </AvatarFallback>
+                          </Avatar>
+                          <span className={`absolute -bottom-0.5 -right-0.5 h-2 w-2 rounded-full border border-white ${ACTIVITY_STYLES[activity].dot}`} />
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>{collaborator.name}</p>
+                          <p className="text-xs text-gray-500">{ACTIVITY_STYLES[activity].label}</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    );
+                  })}
                   {collaborators.length > 3 && (
                     <Badge variant="secondary" className="h-6 text-xs">
                       +{collaborators.length - 3}
@@ -477,17 +849,112 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
             </TooltipProvider>
           )}
 
+          {/* Editing lock */}
+          {documentLock.isLockedByMe && documentLock.lock && (
+            <>
+              <Badge variant="default" className="text-xs" title={`Until ${format(new Date(documentLock.lock.expires_at), 'HH:mm')}`}>
+                <Lock className="h-3 w-3 mr-1" />
+                You hold the lock
+              </Badge>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runLockAction(() => acquireDocumentLock(documentId), 'Lock extended')}
+              >
+                Extend
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runLockAction(() => releaseDocumentLock(documentId), 'Document unlocked')}
+              >
+                <Unlock className="h-4 w-4 mr-1" />
+                Unlock
+              </Button>
+            </>
+          )}
+          {documentLock.isLockedByOther && documentLock.lock && (
+            <>
+              <Badge variant="destructive" className="text-xs">
+                <Lock className="h-3 w-3 mr-1" />
+                Locked by {documentLock.lock.holder_name}
+              </Badge>
+              {canReview && (
+                <Button variant="outline" size="sm" onClick={handleTakeOverLock}>
+                  Take over
+                </Button>
+              )}
+            </>
+          )}
+          {!documentLock.lock && isEditable && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => runLockAction(() => acquireDocumentLock(documentId), 'You now have exclusive editing')}
+              title="Keep everyone else from editing for a while"
+            >
+              <Lock className="h-4 w-4 mr-1" />
+              Lock
+            </Button>
+          )}
+
           <Separator orientation="vertical" className="h-6" />
 
           {/* Actions */}
-          <Button variant="outline" size="sm" onClick={handleSave}>
-            <Save className="h-4 w-4 mr-1" />
-            Save
+          {isEditable && (
+            <>
+              <Button variant="outline" size="sm" onClick={handleSave}>
+                <Save className="h-4 w-4 mr-1" />
+                Save
+              </Button>
+
+              <Button variant="outline" size="sm" onClick={handleCreateSnapshot} disabled={isCreatingSnapshot}>
+                <Camera className="h-4 w-4 mr-1" />
+                Snapshot
+              </Button>
+            </>
+          )}
+
+          {isEditable && (
+            <Button
+              variant={isSuggesting ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setIsSuggesting(!isSuggesting)}
+              title={isSuggesting ? 'Changes are proposed as suggestions' : 'Changes go straight into the document'}
+            >
+              <FilePen className="h-4 w-4 mr-1" />
+              {isSuggesting ? 'Suggesting' : 'Editing'}
+            </Button>
+          )}
+
+          {isEditable && isSuggesting && (
+            <Button variant="outline" size="sm" onClick={handleSuggestEdit} disabled={!isLoaded}>
+              Suggest edit
+            </Button>
+          )}
+
+          {canComment && (
+            <Button variant="outline" size="sm" onClick={handleAddComment} disabled={!isLoaded}>
+              <MessageSquarePlus className="h-4 w-4 mr-1" />
+              Comment
+            </Button>
+          )}
+
+          <Button
+            variant={sidePanel === 'comments' ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setSidePanel(sidePanel === 'comments' ? null : 'comments')}
+          >
+            <MessageSquare className="h-4 w-4 mr-1" />
+            Comments ({commentThreads.filter(thread => !thread.isResolved).length})
           </Button>
 
-          <Button variant="outline" size="sm" onClick={handleCreateSnapshot} disabled={isCreatingSnapshot}>
-            <Camera className="h-4 w-4 mr-1" />
-            Snapshot
+          <Button
+            variant={sidePanel === 'suggestions' ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setSidePanel(sidePanel === 'suggestions' ? null : 'suggestions')}
+          >
+            Suggestions ({suggestions.length})
           </Button>
 
           <Button variant="outline" size="sm" onClick={onVersionHistoryToggle}>
@@ -498,6 +965,45 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
       </div>
 
       {/* Status bar */}
+      {documentLock.isLockedByOther && documentLock.lock && (
+        <div className="px-3 py-1 bg-red-50 border-b text-sm text-red-800">
+          <Lock className="h-3 w-3 inline mr-1" />
+          {documentLock.lock.holder_name} is editing exclusively until {format(new Date(documentLock.lock.expires_at), 'HH:mm')}.
+          The document is read-only for you until they unlock it or the lock expires.
+        </div>
+      )}
+      {documentLock.lockedSnapshots.length > 0 && (
+        <div className="px-3 py-1 bg-red-50 border-b text-sm text-red-800 flex items-center gap-2">
+          <span>
+            <Lock className="h-3 w-3 inline mr-1" />
+            Read-only: snapshot "{documentLock.lockedSnapshots[0].label}" is locked.
+            {!canReview && ' Ask the document owner to unlock it.'}
+          </span>
+          {canReview && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 text-xs"
+              onClick={() => runLockAction(
+                async () => {
+                  for (const snapshot of documentLock.lockedSnapshots) {
+                    await setSnapshotLocked(snapshot.id, false);
+                  }
+                },
+                'Snapshot unlocked; the document can be edited again'
+              )}
+            >
+              <Unlock className="h-3 w-3 mr-1" />
+              Unlock
+            </Button>
+          )}
+        </div>
+      )}
+      {collaborationStatus === 'disconnected' && isLoaded && (
+        <div className="px-3 py-1 bg-yellow-50 border-b text-sm text-yellow-800">
+          Working offline. Your edits are kept on this device and merge when the connection returns.
+        </div>
+      )}
       {lastSaved && (
         <div className="px-3 py-1 bg-green-50 border-b text-sm text-green-700">
           <Clock className="h-3 w-3 inline mr-1" />
@@ -505,81 +1011,141 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
         </div>
       )}
 
-      {/* Editor */}
-      <div className="flex-1 relative overflow-hidden">
-        {editorError ? (
-          // Fallback textarea if Monaco fails
-          <div className="w-full h-full p-4">
-            <div className="text-red-600 mb-2 text-sm">
-              Monaco Editor failed to load. Using fallback editor.
+      <div className="flex-1 flex min-h-0">
+        {/* Editor */}
+        <div className="flex-1 relative overflow-hidden">
+          {editorError ? (
+            // Fallback textarea if Monaco fails
+            <div className="w-full h-full p-4">
+              <div className="text-red-600 mb-2 text-sm">
+                Monaco Editor failed to load. Using fallback editor.
+              </div>
+              <Textarea
+                value={fallbackContent}
+                onChange={(e) => {
+                  setFallbackContent(e.target.value);
+                  // Trigger save after a delay
+                  setTimeout(() => saveVersion(e.target.value, true), 1000);
+                }}
+                className="w-full h-full resize-none font-mono text-sm"
+                placeholder="Document content..."
+                readOnly={!isEditable}
+              />
             </div>
-            <Textarea
-              value={fallbackContent}
-              onChange={(e) => {
-                setFallbackContent(e.target.value);
-                // Trigger save after a delay
-                setTimeout(() => saveVersion(e.target.value, true), 1000);
-              }}
-              className="w-full h-full resize-none font-mono text-sm"
-              placeholder="Document content..."
-            />
-          </div>
-        ) : (
-          <div className="w-full h-full">
-            <Editor
-              height="100%"
-              width="100%"
-              defaultLanguage="plaintext"
-              value={initialContent}
-              theme="vs-light"
-              loading={<div className="flex items-center justify-center h-full text-gray-500">Loading Monaco Editor...</div>}
-              options={{
-                fontSize: 14,
-                fontFamily: 'Monaco, Consolas, "Courier New", monospace',
-                lineNumbers: 'on',
-                wordWrap: 'on',
-                minimap: { enabled: false },
-                scrollBeyondLastLine: false,
-                automaticLayout: true,
-                folding: false,
-                renderWhitespace: 'none',
-                rulers: [80],
-                bracketPairColorization: { enabled: false },
-                readOnly: false
-              }}
-              onMount={(editor, monaco) => {
-                console.log('Monaco Editor mounted successfully!', editor);
-                editorRef.current = editor;
-                monacoRef.current = monaco;
-                setIsConnected(true);
-                
-                // Set initial content after mounting
-                if (initialContent) {
-                  console.log('Setting initial content:', initialContent.substring(0, 100) + '...');
-                  editor.setValue(initialContent);
-                }
-                
-                // Initialize collaborative features after Monaco is ready
-                setTimeout(() => {
-                  console.log('Initializing collaboration from onMount');
-                  initializeCollaboration();
-                }, 100);
-              }}
-              onChange={(value) => {
-                console.log('CollaborativeDocumentEditor: Editor content changed:', value?.substring(0, 50) + '...');
-                if (value !== undefined) {
-                  setFallbackContent(value);
-                  // Notify parent component of content change
-                  console.log('CollaborativeDocumentEditor: Calling onDocumentUpdate with:', value?.substring(0, 50) + '...');
-                  onDocumentUpdate?.(value);
-                }
-              }}
-              onError={(error) => {
-                console.error('Monaco Editor error:', error);
-                setEditorError(error.toString());
-              }}
-            />
-          </div>
+          ) : (
+            <div className="w-full h-full relative">
+              {!isLoaded && (
+                <div className="absolute inset-0 z-10 flex items-center justify-center bg-white/80 text-gray-500">
+                  Loading shared document...
+                </div>
+              )}
+              <Editor
+                height="100%"
+                width="100%"
+                defaultLanguage="plaintext"
+                theme="vs-light"
+                loading={<div className="flex items-center justify-center h-full text-gray-500">Loading Monaco Editor...</div>}
+                options={{
+                  fontSize: 14,
+                  fontFamily: 'Monaco, Consolas, "Courier New", monospace',
+                  lineNumbers: 'on',
+                  wordWrap: 'on',
+                  minimap: { enabled: false },
+                  scrollBeyondLastLine: false,
+                  automaticLayout: true,
+                  folding: false,
+                  renderWhitespace: 'none',
+                  rulers: [80],
+                  bracketPairColorization: { enabled: false },
+                  readOnly: !isLoaded || !isEditable || isSuggesting,
+                  readOnlyMessage: documentLock.isReadOnly
+                    ? { value: 'This document is locked.' }
+                    : isSuggesting
+                      ? { value: 'You are suggesting. Select text and use Suggest Edit (Ctrl+Alt+E) to propose a change.' }
+                      : undefined
+                }}
+                onMount={(editor, monaco) => {
+                  console.log('Monaco Editor mounted successfully!', editor);
+                  editorRef.current = editor;
+                  monacoRef.current = monaco;
+                  setEditorInstance(editor);
+
+                  if (canComment) {
+                    editor.addAction({
+                      id: 'add-comment',
+                      label: 'Add Comment',
+                      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyMod.Alt | monaco.KeyCode.KeyM],
+                      contextMenuGroupId: 'navigation',
+                      precondition: 'editorHasSelection',
+                      run: () => addCommentRef.current(),
+                    });
+                  }
+
+                  if (canEdit) {
+                    editor.addAction({
+                      id: 'suggest-edit',
+                      label: 'Suggest Edit',
+                      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyMod.Alt | monaco.KeyCode.KeyE],
+                      contextMenuGroupId: 'navigation',
+                      run: () => suggestEditRef.current(),
+                    });
+                  }
+
+                  // Initialize collaborative features after Monaco is ready
+                  setTimeout(() => {
+                    console.log('Initializing collaboration from onMount');
+                    initializeCollaboration();
+                  }, 100);
+                }}
+                onChange={(value) => {
+                  console.log('CollaborativeDocumentEditor: Editor content changed:', value?.substring(0, 50) + '...');
+                  if (value !== undefined) {
+                    setFallbackContent(value);
+                    // Notify parent component of content change
+                    console.log('CollaborativeDocumentEditor: Calling onDocumentUpdate with:', value?.substring(0, 50) + '...');
+                    onDocumentUpdate?.(value);
+                  }
+                }}
+                onError={(error) => {
+                  console.error('Monaco Editor error:', error);
+                  setEditorError(error.toString());
+                }}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Comment threads */}
+        {sidePanel === 'comments' && !editorError && (
+          <CommentsGutter
+            documentId={documentId}
+            currentUser={{ id: currentUser.id, name: currentUser.name || currentUser.email }}
+            threads={commentThreads}
+            ranges={commentRanges}
+            activeThreadId={activeThreadId}
+            onSelectThread={handleSelectThread}
+            pendingComment={pendingComment}
+            onCreateThread={handleCreateThread}
+            onCancelPending={() => setPendingComment(null)}
+            canComment={canComment}
+          />
+        )}
+
+        {/* Suggested changes */}
+        {sidePanel === 'suggestions' && !editorError && (
+          <SuggestionsPanel
+            documentId={documentId}
+            currentUserId={currentUser.id}
+            suggestions={suggestions}
+            ranges={suggestionRanges}
+            activeSuggestionId={activeSuggestionId}
+            onSelectSuggestion={handleSelectSuggestion}
+            pendingSuggestion={pendingSuggestion}
+            onCreateSuggestion={handleCreateSuggestion}
+            onCancelPending={() => setPendingSuggestion(null)}
+            onAccept={handleAcceptSuggestions}
+            canReview={canReview}
+          />
         )}
       </div>
 
@@ -598,7 +1164,9 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
                 <div key={snapshot.id} className="p-2 bg-white rounded border text-sm">
                   <div className="font-medium">{snapshot.label}</div>
                   <div className="text-xs text-gray-500">
-                    {format(new Date(snapshot.created_at), 'MMM d, HH:mm')}
+                    {format(new Date(snapshot.createdAt), 'MMM d, HH:mm')}
+                    <span className="mx-1">•</span>
+                    Version {snapshot.version.versionNumber}
                   </div>
                   {snapshot.description && (
                     <div className="text-xs text-gray-600 mt-1">{snapshot.description}</div>
@@ -612,7 +1180,8 @@ const CollaborativeDocumentEditor: React.FC<CollaborativeDocumentEditorProps> =
                       size="sm" 
                       variant="outline" 
                       className="h-6 text-xs"
-                      onClick={() => exportSnapshotAsPDF(snapshot.id)}
+                      onClick={() => handleExportSnapshot(snapshot)}
+                      title={`${snapshot.downloadCount} download${snapshot.downloadCount === 1 ? '' : 's'}`}
                     >
                       <Download className="h-3 w-3 mr-1" />
                       PDF
@@ -10,11 +10,11 @@ import {
   Eye,
   Edit3,
   Lock,
-  Unlock,
   Share2
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { createDocumentSnapshot } from '@/services/snapshotService';
 import CollaborativeDocumentEditor from './CollaborativeDocumentEditor';
 import VersionHistoryPanel from './VersionHistoryPanel';
 import DocumentSharingModal from './DocumentSharingModal';
@@ -54,15 +54,13 @@ const CollaborativeDocumentTab: React.FC<CollaborativeDocumentTabProps> = ({
   const [showVersionHistory, setShowVersionHistory] = useState(false);
   const [showSharingModal, setShowSharingModal] = useState(false);
   const [isCollaborative, setIsCollaborative] = useState(true);
-  const [documentLock, setDocumentLock] = useState<any>(null);
   const [collaboratorCount, setCollaboratorCount] = useState(0);
   const [currentContent, setCurrentContent] = useState(document.content);
   
   const { toast } = useToast();
 
-  // Check if document is locked
+  // Keep the active collaborator count current (locks are handled inside the editor)
   useEffect(() => {
-    checkDocumentLock();
     getCollaboratorCount();
     
     // Set up real-time listeners for collaborative sessions
@@ -82,48 +80,11 @@ const CollaborativeDocumentTab: React.FC<CollaborativeDocumentTabProps> = ({
       )
       .subscribe();
 
-    const lockChannel = supabase
-      .channel(`document-locks-${document.id}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'document_locks',
-          filter: `document_id=eq.${document.id}`
-        },
-        () => {
-          checkDocumentLock();
-        }
-      )
-      .subscribe();
-
     return () => {
       collaborationChannel.unsubscribe();
-      lockChannel.unsubscribe();
     };
   }, [document.id]);
 
-  const checkDocumentLock = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('document_locks')
-        .select('*, user:user_id(email)')
-        .eq('document_id', document.id)
-        .eq('is_active', true)
-        .gte('expires_at', new Date().toISOString())
-        .single();
-
-      if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
-        throw error;
-      }
-
-      setDocumentLock(data);
-    } catch (error) {
-      console.error('Error checking document lock:', error);
-    }
-  };
-
   const getCollaboratorCount = async () => {
     try {
       const { data, error } = await supabase
@@ -141,52 +102,6 @@ const CollaborativeDocumentTab: React.FC<CollaborativeDocumentTabProps> = ({
     }
   };
 
-  const toggleDocumentLock = async () => {
-    try {
-      if (documentLock) {
-        // Remove lock
-        const { error } = await supabase
-          .from('document_locks')
-          .update({ is_active: false })
-          .eq('id', documentLock.id);
-
-        if (error) throw error;
-
-        toast({
-          title: "Document Unlocked",
-          description: "Document is now available for editing by all users",
-        });
-      } else {
-        // Add lock
-        const { error } = await supabase
-          .from('document_locks')
-          .insert({
-            document_id: document.id,
-            user_id: currentUser.id,
-            lock_type: 'exclusive',
-            expires_at: new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString(), // 2 hours
-            is_active: true
-          });
-
-        if (error) throw error;
-
-        toast({
-          title: "Document Locked",
-          description: "Document is now locked for exclusive editing",
-        });
-      }
-
-      checkDocumentLock();
-    } catch (error) {
-      console.error('Error toggling document lock:', error);
-      toast({
-        title: "Error",
-        description: "Failed to update document lock",
-        variant: "destructive"
-      });
-    }
-  };
-
   const handleDocumentContentUpdate = (content: string) => {
     console.log('CollaborativeDocumentTab: Document content updated, length:', content.length);
     setCurrentContent(content);
@@ -203,8 +118,12 @@ const CollaborativeDocumentTab: React.FC<CollaborativeDocumentTabProps> = ({
     });
   };
 
-  const handleSnapshotCreate = (label: string, description?: string) => {
-    // This would be handled by the collaborative editor
+  // While the editor is open the snapshot waits for the collaboration relay to persist its latest text, so
+  // the snapshot includes it without writing over collaborators' edits. Failures, including edits that
+  // never reach the server, propagate to the history panel, which reports them
+  const handleSnapshotCreate = async (label: string, description?: string) => {
+    const editorOpen = activeTab === 'edit' && isCollaborative;
+    await createDocumentSnapshot(document.id, label, description, editorOpen ? currentContent : undefined);
     toast({
       title: "Snapshot Created",
       description: `"${label}" snapshot has been created`,
@@ -215,9 +134,6 @@ const CollaborativeDocumentTab: React.FC<CollaborativeDocumentTabProps> = ({
     setShowVersionHistory(!showVersionHistory);
   };
 
-  const isLocked = documentLock && documentLock.user_id !== currentUser.id;
-  const isLockedByCurrentUser = documentLock?.user_id === currentUser.id;
-
   return (
     <div className="h-full flex flex-col bg-white">
       {/* Header */}
@@ -234,44 +150,11 @@ const CollaborativeDocumentTab: React.FC<CollaborativeDocumentTabProps> = ({
                 {collaboratorCount} active
               </Badge>
             )}
-            
-            {isLocked && (
-              <Badge variant="destructive" className="text-xs">
-                <Lock className="h-3 w-3 mr-1" />
-                Locked by {documentLock.user?.email}
-              </Badge>
-            )}
-            
-            {isLockedByCurrentUser && (
-              <Badge variant="default" className="text-xs">
-                <Lock className="h-3 w-3 mr-1" />
-                You locked this
-              </Badge>
-            )}
+
           </div>
         </div>
 
         <div className="flex items-center gap-2">
-          {/* Lock/Unlock toggle */}
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={toggleDocumentLock}
-            disabled={isLocked}
-          >
-            {documentLock ? (
-              <>
-                <Unlock className="h-3 w-3 mr-1" />
-                Unlock
-              </>
-            ) : (
-              <>
-                <Lock className="h-3 w-3 mr-1" />
-                Lock
-              </>
-            )}
-          </Button>
-
           {/* Share button */}
           <Button
             variant="outline"
@@ -309,11 +192,9 @@ const CollaborativeDocumentTab: React.FC<CollaborativeDocumentTabProps> = ({
               <TabsTrigger 
                 value="edit" 
                 className="rounded-none border-b-2 border-transparent data-[state=active]:border-blue-500 data-[state=active]:bg-transparent"
-                disabled={isLocked}
               >
                 <Edit3 className="h-4 w-4 mr-2" />
                 Edit
-                {isLocked && <Lock className="h-3 w-3 ml-2 text-red-500" />}
               </TabsTrigger>
               <TabsTrigger 
                 value="view"
@@ -325,7 +206,7 @@ const CollaborativeDocumentTab: React.FC<CollaborativeDocumentTabProps> = ({
             </TabsList>
 
             <TabsContent value="edit" className="flex-1 m-0 h-full overflow-hidden">
-              {isCollaborative && !isLocked ? (
+              {isCollaborative ? (
                 <CollaborativeDocumentEditor
                   documentId={document.id}
                   documentTitle={document.title}
@@ -343,13 +224,8 @@ const CollaborativeDocumentTab: React.FC<CollaborativeDocumentTabProps> = ({
                 <div className="flex-1 flex items-center justify-center bg-gray-50">
                   <div className="text-center text-gray-500">
                     <Lock className="h-12 w-12 mx-auto mb-4 text-gray-300" />
-                    <h3 className="text-lg font-medium mb-2">Document Locked</h3>
-                    <p className="text-sm">
-                      {isLocked 
-                        ? `This document is locked by ${documentLock.user?.email}` 
-                        : 'Collaborative editing is not available'
-                      }
-                    </p>
+                    <h3 className="text-lg font-medium mb-2">Editing Unavailable</h3>
+                    <p className="text-sm">Collaborative editing is not available</p>
                   </div>
                 </div>
               )}
@@ -369,6 +245,7 @@ const CollaborativeDocumentTab: React.FC<CollaborativeDocumentTabProps> = ({
         {showVersionHistory && (
           <VersionHistoryPanel
             documentId={document.id}
+            documentTitle={document.title}
             currentUserId={currentUser.id}
             onVersionRestore={handleVersionRestore}
             onSnapshotCreate={handleSnapshotCreate}
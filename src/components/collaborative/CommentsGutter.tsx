@@ -0,0 +1,339 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { AtSign, Check, MessageSquare, RotateCcw, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  CommentAuthor,
+  CommentThread,
+  DocumentCollaborator,
+  DocumentComment,
+  deleteComment,
+  extractMentionedUserIds,
+  getDocumentCollaborators,
+  replyToThread,
+  setThreadResolved
+} from '@/services/commentService';
+import { AnchoredRange } from '@/hooks/useCommentAnchors';
+import { useToast } from '@/hooks/use-toast';
+import MentionTextarea from './MentionTextarea';
+
+// Selected text a new thread is being written for
+export interface PendingComment {
+  start: number;
+  end: number;
+  quotedText: string;
+}
+
+type ThreadFilter = 'open' | 'resolved' | 'mentions';
+
+interface CommentsGutterProps {
+  documentId: string;
+  currentUser: CommentAuthor;
+  threads: CommentThread[];
+  ranges: Map<string, AnchoredRange | null>;
+  activeThreadId: string | null;
+  onSelectThread: (threadId: string | null) => void;
+  pendingComment: PendingComment | null;
+  onCreateThread: (body: string, mentionedUserIds: string[]) => Promise<void>;
+  onCancelPending: () => void;
+  canComment: boolean;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentionsUser = (thread: CommentThread, userId: string) =>
+  [thread.root, ...thread.replies].some(comment => comment.mentioned_user_ids.includes(userId));
+
+const truncate = (text: string, length: number) => text.length > length ? `${text.slice(0, length - 3)}...` : text;
+
+// Highlight @mentions in a comment body, the current user's more strongly
+const renderBody = (comment: DocumentComment, collaborators: DocumentCollaborator[], currentUserId: string) => {
+  const mentioned = collaborators.filter(collaborator => comment.mentioned_user_ids.includes(collaborator.user_id));
+  if (mentioned.length === 0) return comment.body;
+
+  const pattern = new RegExp(`(${mentioned.map(collaborator => escapeRegExp(`@${collaborator.name}`)).join('|')})`, 'g');
+  return comment.body.split(pattern).map((part, i) => {
+    const collaborator = mentioned.find(c => `@${c.name}` === part);
+    if (!collaborator) return <React.Fragment key={i}>{part}</React.Fragment>;
+    return (
+      <span
+        key={i}
+        className={collaborator.user_id === currentUserId ? 'bg-blue-100 text-blue-800 font-medium rounded px-0.5' : 'text-blue-700 font-medium'}
+      >
+        {part}
+      </span>
+    );
+  });
+};
+
+const CommentsGutter: React.FC<CommentsGutterProps> = ({
+  documentId,
+  currentUser,
+  threads,
+  ranges,
+  activeThreadId,
+  onSelectThread,
+  pendingComment,
+  onCreateThread,
+  onCancelPending,
+  canComment
+}) => {
+  const [filter, setFilter] = useState<ThreadFilter>('open');
+  const [newThreadBody, setNewThreadBody] = useState('');
+  const [replyBodies, setReplyBodies] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const threadRefs = useRef(new Map<string, HTMLDivElement>());
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: collaborators = [] } = useQuery({
+    queryKey: ['document-collaborators', documentId],
+    queryFn: () => getDocumentCollaborators(documentId),
+  });
+
+  const refreshComments = () => queryClient.invalidateQueries({ queryKey: ['document-comments', documentId] });
+
+  // Threads in document order; those whose text was deleted go last
+  const visibleThreads = useMemo(() => threads
+    .filter(thread => filter === 'mentions' ? mentionsUser(thread, currentUser.id) : thread.isResolved === (filter === 'resolved'))
+    .sort((a, b) => {
+      const rangeA = ranges.get(a.id);
+      const rangeB = ranges.get(b.id);
+      if (rangeA && rangeB) return rangeA.start - rangeB.start;
+      if (rangeA || rangeB) return rangeA ? -1 : 1;
+      return a.root.created_at.localeCompare(b.root.created_at);
+    }), [threads, ranges, filter, currentUser.id]);
+
+  const counts = {
+    open: threads.filter(thread => !thread.isResolved).length,
+    resolved: threads.filter(thread => thread.isResolved).length,
+    mentions: threads.filter(thread => mentionsUser(thread, currentUser.id)).length,
+  };
+
+  useEffect(() => {
+    if (activeThreadId) {
+      threadRefs.current.get(activeThreadId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [activeThreadId]);
+
+  useEffect(() => {
+    if (pendingComment) {
+      setFilter('open');
+      setNewThreadBody('');
+    }
+  }, [pendingComment]);
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      await refreshComments();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: "Error",
+        description: `${failure}. Please try again.`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreateThread = () => {
+    const body = newThreadBody.trim();
+    if (!body) return;
+    runAction(async () => {
+      await onCreateThread(body, extractMentionedUserIds(body, collaborators));
+      setNewThreadBody('');
+    }, 'Failed to add comment');
+  };
+
+  const handleReply = (thread: CommentThread) => {
+    const body = (replyBodies[thread.id] || '').trim();
+    if (!body) return;
+    runAction(async () => {
+      await replyToThread(thread, currentUser, body, extractMentionedUserIds(body, collaborators));
+      setReplyBodies(prev => ({ ...prev, [thread.id]: '' }));
+    }, 'Failed to reply');
+  };
+
+  const handleResolve = (thread: CommentThread) => {
+    runAction(async () => {
+      await setThreadResolved(thread.id, !thread.isResolved, currentUser.id);
+      if (!thread.isResolved && activeThreadId === thread.id) onSelectThread(null);
+    }, thread.isResolved ? 'Failed to reopen thread' : 'Failed to resolve thread');
+  };
+
+  const handleDelete = (comment: DocumentComment) => {
+    const isThread = !comment.thread_id;
+    if (isThread && !confirm('Delete this comment and all of its replies?')) return;
+    runAction(() => deleteComment(comment.id), 'Failed to delete comment');
+  };
+
+  const renderComment = (comment: DocumentComment) => (
+    <div key={comment.id} className="group">
+      <div className="flex items-center justify-between">
+        <div className="text-xs">
+          <span className="font-medium text-gray-900">{comment.author_name}</span>
+          <span className="ml-1 text-gray-400">
+            {comment.created_at && formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+          </span>
+        </div>
+        {comment.author_id === currentUser.id && (
+          <button
+            onClick={(e) => { e.stopPropagation(); handleDelete(comment); }}
+            className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-600"
+            title="Delete comment"
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+      <div className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+        {renderBody(comment, collaborators, currentUser.id)}
+      </div>
+    </div>
+  );
+
+  const filterButton = (value: ThreadFilter, label: React.ReactNode) => (
+    <button
+      onClick={() => setFilter(value)}
+      className={`px-2 py-0.5 rounded text-xs ${filter === value ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-200'}`}
+    >
+      {label} {counts[value]}
+    </button>
+  );
+
+  return (
+    <div className="w-80 border-l bg-gray-50 flex flex-col min-h-0">
+      <div className="p-3 border-b">
+        <h3 className="font-semibold text-sm flex items-center">
+          <MessageSquare className="h-4 w-4 mr-1" />
+          Comments
+        </h3>
+        <div className="flex gap-1 mt-2">
+          {filterButton('open', 'Open')}
+          {filterButton('resolved', 'Resolved')}
+          {filterButton('mentions', <AtSign className="h-3 w-3 inline" />)}
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-3 space-y-3">
+          {pendingComment && canComment && (
+            <div className="p-2 bg-white rounded border border-yellow-400 shadow-sm space-y-2">
+              <div className="text-xs italic text-gray-500 border-l-2 border-yellow-400 pl-2">
+                {truncate(pendingComment.quotedText, 120)}
+              </div>
+              <MentionTextarea
+                value={newThreadBody}
+                onChange={setNewThreadBody}
+                onSubmit={handleCreateThread}
+                collaborators={collaborators}
+                placeholder="Add a comment... Use @ to mention someone"
+                autoFocus
+              />
+              <div className="flex justify-end gap-1">
+                <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={onCancelPending}>
+                  Cancel
+                </Button>
+                <Button size="sm" className="h-7 text-xs" onClick={handleCreateThread} disabled={isSubmitting || !newThreadBody.trim()}>
+                  Comment
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {visibleThreads.length === 0 && !pendingComment && (
+            <div className="text-center text-xs text-gray-500 py-6">
+              {filter === 'open' && (canComment ? 'Select text and choose Comment to start a thread.' : 'No open comments.')}
+              {filter === 'resolved' && 'No resolved comments.'}
+              {filter === 'mentions' && 'Nobody has mentioned you yet.'}
+            </div>
+          )}
+
+          {visibleThreads.map(thread => {
+            const isActive = thread.id === activeThreadId;
+            const isDetached = ranges.has(thread.id) && ranges.get(thread.id) === null;
+            return (
+              <div
+                key={thread.id}
+                ref={(element) => {
+                  if (element) threadRefs.current.set(thread.id, element);
+                  else threadRefs.current.delete(thread.id);
+                }}
+                onClick={() => onSelectThread(thread.id)}
+                className={`p-2 bg-white rounded border space-y-2 cursor-pointer ${isActive ? 'border-yellow-500 shadow-sm' : 'hover:border-gray-300'}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="text-xs italic text-gray-500 border-l-2 border-yellow-400 pl-2 min-w-0">
+                    {truncate(thread.root.quoted_text || '', 120)}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {isDetached && (
+                      <Badge variant="outline" className="text-[10px] px-1 py-0 text-gray-500">Text removed</Badge>
+                    )}
+                    {canComment && (
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleResolve(thread); }}
+                        disabled={isSubmitting}
+                        className="text-gray-400 hover:text-green-600"
+                        title={thread.isResolved ? 'Reopen' : 'Resolve'}
+                      >
+                        {thread.isResolved ? <RotateCcw className="h-3.5 w-3.5" /> : <Check className="h-3.5 w-3.5" />}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {renderComment(thread.root)}
+                {thread.replies.length > 0 && (
+                  <div className="pl-2 border-l space-y-2">
+                    {thread.replies.map(renderComment)}
+                  </div>
+                )}
+
+                {thread.isResolved && thread.root.resolved_at && (
+                  <div className="text-[10px] text-green-700">
+                    Resolved {formatDistanceToNow(new Date(thread.root.resolved_at), { addSuffix: true })}
+                  </div>
+                )}
+
+                {isActive && canComment && !thread.isResolved && (
+                  <div className="space-y-1" onClick={(e) => e.stopPropagation()}>
+                    <MentionTextarea
+                      value={replyBodies[thread.id] || ''}
+                      onChange={(value) => setReplyBodies(prev => ({ ...prev, [thread.id]: value }))}
+                      onSubmit={() => handleReply(thread)}
+                      collaborators={collaborators}
+                      placeholder="Reply..."
+                    />
+                    <div className="flex justify-end gap-1">
+                      <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => onSelectThread(null)}>
+                        <X className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => handleReply(thread)}
+                        disabled={isSubmitting || !(replyBodies[thread.id] || '').trim()}
+                      >
+                        Reply
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default CommentsGutter;
@@ -0,0 +1,127 @@
+import React, { useRef, useState } from 'react';
+import { Textarea } from '@/components/ui/textarea';
+import { DocumentCollaborator } from '@/services/commentService';
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  collaborators: DocumentCollaborator[];
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+// The @query being typed right before the caret, if any
+const getMentionQuery = (value: string, caret: number): { start: number; query: string } | null => {
+  const match = /(^|\s)@([^\s@]*)$/.exec(value.slice(0, caret));
+  return match ? { start: caret - match[2].length - 1, query: match[2].toLowerCase() } : null;
+};
+
+/**
+ * Textarea that suggests document collaborators after typing @ and inserts the chosen name.
+ * Ctrl/Cmd+Enter submits.
+ */
+const MentionTextarea: React.FC<MentionTextareaProps> = ({
+  value,
+  onChange,
+  onSubmit,
+  collaborators,
+  placeholder,
+  autoFocus
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = mention
+    ? collaborators
+        .filter(collaborator =>
+          collaborator.name.toLowerCase().includes(mention.query) ||
+          collaborator.email.toLowerCase().includes(mention.query))
+        .slice(0, 6)
+    : [];
+
+  const updateMention = (nextValue: string, caret: number) => {
+    setMention(getMentionQuery(nextValue, caret));
+    setHighlighted(0);
+  };
+
+  const insertMention = (collaborator: DocumentCollaborator) => {
+    if (!mention || !textareaRef.current) return;
+    const caret = textareaRef.current.selectionStart;
+    const inserted = `@${collaborator.name} `;
+    const nextValue = value.slice(0, mention.start) + inserted + value.slice(caret);
+    onChange(nextValue);
+    setMention(null);
+
+    const nextCaret = mention.start + inserted.length;
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted((highlighted + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        event.preventDefault();
+        insertMention(suggestions[highlighted]);
+        return;
+      }
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        setMention(null);
+        return;
+      }
+    }
+
+    if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+      event.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateMention(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setTimeout(() => setMention(null), 150)}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        className="min-h-[60px] text-sm resize-none"
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 top-full mt-1 z-20 bg-white border rounded shadow-md py-1">
+          {suggestions.map((collaborator, i) => (
+            <button
+              key={collaborator.user_id}
+              type="button"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insertMention(collaborator);
+              }}
+              className={`w-full text-left px-2 py-1 text-xs ${i === highlighted ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+            >
+              <span className="font-medium text-gray-900">{collaborator.name}</span>
+              <span className="ml-1 text-gray-500">{collaborator.email}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MentionTextarea;
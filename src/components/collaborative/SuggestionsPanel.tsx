@@ -0,0 +1,256 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Check, FilePen, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { DocumentSuggestion, rejectSuggestions, withdrawSuggestion } from '@/services/suggestionService';
+import { AnchoredRange } from '@/hooks/useCommentAnchors';
+import { useToast } from '@/hooks/use-toast';
+
+// Selection a suggested edit is being written for
+export interface PendingSuggestion {
+  start: number;
+  end: number;
+  original: string;
+}
+
+interface SuggestionsPanelProps {
+  documentId: string;
+  currentUserId: string;
+  suggestions: DocumentSuggestion[];
+  ranges: Map<string, AnchoredRange | null>;
+  activeSuggestionId: string | null;
+  onSelectSuggestion: (suggestionId: string | null) => void;
+  pendingSuggestion: PendingSuggestion | null;
+  onCreateSuggestion: (replacement: string) => Promise<void>;
+  onCancelPending: () => void;
+  onAccept: (suggestions: DocumentSuggestion[]) => Promise<void>;
+  canReview: boolean;
+}
+
+const CHANGE_LABELS = {
+  insert: 'Insert',
+  delete: 'Delete',
+  replace: 'Replace',
+};
+
+const SuggestionsPanel: React.FC<SuggestionsPanelProps> = ({
+  documentId,
+  currentUserId,
+  suggestions,
+  ranges,
+  activeSuggestionId,
+  onSelectSuggestion,
+  pendingSuggestion,
+  onCreateSuggestion,
+  onCancelPending,
+  onAccept,
+  canReview
+}) => {
+  const [replacement, setReplacement] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const suggestionRefs = useRef(new Map<string, HTMLDivElement>());
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Suggestions in document order; those whose text is gone go last
+  const orderedSuggestions = [...suggestions].sort((a, b) => {
+    const rangeA = ranges.get(a.id);
+    const rangeB = ranges.get(b.id);
+    if (rangeA && rangeB) return rangeA.start - rangeB.start;
+    if (rangeA || rangeB) return rangeA ? -1 : 1;
+    return a.created_at.localeCompare(b.created_at);
+  });
+  const applicable = orderedSuggestions.filter(suggestion => ranges.get(suggestion.id));
+
+  useEffect(() => {
+    if (activeSuggestionId) {
+      suggestionRefs.current.get(activeSuggestionId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [activeSuggestionId]);
+
+  useEffect(() => {
+    setReplacement(pendingSuggestion?.original ?? '');
+  }, [pendingSuggestion]);
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      await queryClient.invalidateQueries({ queryKey: ['document-suggestions', documentId] });
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `${failure}. Please try again.`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    runAction(() => onCreateSuggestion(replacement), 'Failed to add suggestion');
+  };
+
+  const handleRejectAll = () => {
+    if (!confirm(`Reject all ${suggestions.length} suggestions?`)) return;
+    runAction(() => rejectSuggestions(suggestions.map(suggestion => suggestion.id)), 'Failed to reject suggestions');
+  };
+
+  return (
+    <div className="w-80 border-l bg-gray-50 flex flex-col min-h-0">
+      <div className="p-3 border-b">
+        <h3 className="font-semibold text-sm flex items-center">
+          <FilePen className="h-4 w-4 mr-1" />
+          Suggestions
+          <Badge variant="secondary" className="ml-2 text-xs">{suggestions.length}</Badge>
+        </h3>
+        {canReview && suggestions.length > 0 && (
+          <div className="flex gap-1 mt-2">
+            <Button
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => runAction(() => onAccept(applicable), 'Failed to accept suggestions')}
+              disabled={isSubmitting || applicable.length === 0}
+            >
+              <Check className="h-3 w-3 mr-1" />
+              Accept all
+            </Button>
+            <Button size="sm" variant="outline" className="h-7 text-xs" onClick={handleRejectAll} disabled={isSubmitting}>
+              <X className="h-3 w-3 mr-1" />
+              Reject all
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-3 space-y-3">
+          {pendingSuggestion && (
+            <div className="p-2 bg-white rounded border border-green-500 shadow-sm space-y-2">
+              <div className="text-xs text-gray-500">
+                {pendingSuggestion.original ? 'Rewrite the selected text' : 'Text to insert at the cursor'}
+              </div>
+              <Textarea
+                value={replacement}
+                onChange={(e) => setReplacement(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                    e.preventDefault();
+                    handleSubmit();
+                  }
+                }}
+                autoFocus
+                className="min-h-[80px] text-sm font-mono"
+              />
+              <div className="flex justify-end gap-1">
+                <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={onCancelPending}>
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={handleSubmit}
+                  disabled={isSubmitting || replacement === pendingSuggestion.original}
+                >
+                  Suggest
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {suggestions.length === 0 && !pendingSuggestion && (
+            <div className="text-center text-xs text-gray-500 py-6">
+              No pending suggestions.
+            </div>
+          )}
+
+          {orderedSuggestions.map(suggestion => {
+            const isActive = suggestion.id === activeSuggestionId;
+            const isOutdated = ranges.has(suggestion.id) && ranges.get(suggestion.id) === null;
+            return (
+              <div
+                key={suggestion.id}
+                ref={(element) => {
+                  if (element) suggestionRefs.current.set(suggestion.id, element);
+                  else suggestionRefs.current.delete(suggestion.id);
+                }}
+                onClick={() => onSelectSuggestion(suggestion.id)}
+                className={`p-2 bg-white rounded border space-y-1 cursor-pointer ${isActive ? 'border-green-600 shadow-sm' : 'hover:border-gray-300'}`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="text-xs">
+                    <span className="font-medium text-gray-900">{suggestion.author_name}</span>
+                    <span className="ml-1 text-gray-400">
+                      {suggestion.created_at && formatDistanceToNow(new Date(suggestion.created_at), { addSuffix: true })}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {isOutdated && (
+                      <Badge variant="outline" className="text-[10px] px-1 py-0 text-gray-500">Text removed</Badge>
+                    )}
+                    <Badge variant="outline" className="text-[10px] px-1 py-0">{CHANGE_LABELS[suggestion.change_type]}</Badge>
+                  </div>
+                </div>
+
+                <div className="text-sm font-mono whitespace-pre-wrap break-words">
+                  {suggestion.old_content && (
+                    <span className="text-red-700 line-through bg-red-50">{suggestion.old_content}</span>
+                  )}
+                  {suggestion.new_content && (
+                    <span className="text-green-700 underline bg-green-50">{suggestion.new_content}</span>
+                  )}
+                </div>
+
+                <div className="flex justify-end gap-1" onClick={(e) => e.stopPropagation()}>
+                  {suggestion.author_id === currentUserId && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 text-xs text-gray-500"
+                      onClick={() => runAction(() => withdrawSuggestion(suggestion.id), 'Failed to withdraw suggestion')}
+                      disabled={isSubmitting}
+                      title="Withdraw suggestion"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                  {canReview && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-6 text-xs"
+                        onClick={() => runAction(() => rejectSuggestions([suggestion.id]), 'Failed to reject suggestion')}
+                        disabled={isSubmitting}
+                      >
+                        <X className="h-3 w-3 mr-1" />
+                        Reject
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="h-6 text-xs"
+                        onClick={() => runAction(() => onAccept([suggestion]), 'Failed to accept suggestion')}
+                        disabled={isSubmitting || isOutdated}
+                      >
+                        <Check className="h-3 w-3 mr-1" />
+                        Accept
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default SuggestionsPanel;
@@ -1,5 +1,6 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -17,6 +18,16 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
 import * as Diff from 'diff';
+import {
+  RedlineGranularity,
+  RedlineSegment,
+  computeRedline,
+  getRedlineStats,
+  redlineToText
+} from '@/utils/redlineDiff';
+import { pdfExportService, downloadPDF } from '@/services/pdfExportService';
+import { exportRedlineAsDocx } from '@/services/docxExportService';
+import { saveBlobAs } from '@/services/documentStorageService';
 
 interface DocumentVersion {
   id: string;
@@ -31,9 +42,29 @@ interface DocumentVersion {
 interface VersionComparisonProps {
   version1Id: string;
   version2Id: string;
+  documentTitle?: string;
   onClose: () => void;
 }
 
+const GRANULARITY_LABELS: Record<RedlineGranularity, string> = {
+  line: 'Lines',
+  sentence: 'Sentences',
+  word: 'Words',
+};
+
+// Legal redline styling: insertions underlined, deletions struck through, moves doubled in green
+const REDLINE_CLASSES: Record<RedlineSegment['type'], string> = {
+  'equal': '',
+  'inserted': 'text-blue-700 underline bg-blue-50',
+  'deleted': 'text-red-700 line-through bg-red-50',
+  'moved-from': 'text-green-700 line-through decoration-double bg-green-50',
+  'moved-to': 'text-green-700 underline decoration-double bg-green-50',
+};
+
+// In side-by-side mode each pane shows the redline segments that belong to its version
+const OLDER_SEGMENTS = new Set<RedlineSegment['type']>(['equal', 'deleted', 'moved-from']);
+const NEWER_SEGMENTS = new Set<RedlineSegment['type']>(['equal', 'inserted', 'moved-to']);
+
 interface DiffLine {
   type: 'added' | 'removed' | 'unchanged';
   content: string;
@@ -43,12 +74,14 @@ interface DiffLine {
 const VersionComparison: React.FC<VersionComparisonProps> = ({
   version1Id,
   version2Id,
+  documentTitle,
   onClose
 }) => {
   const [version1, setVersion1] = useState<DocumentVersion | null>(null);
   const [version2, setVersion2] = useState<DocumentVersion | null>(null);
   const [diffLines, setDiffLines] = useState<DiffLine[]>([]);
   const [viewMode, setViewMode] = useState<'unified' | 'side-by-side'>('unified');
+  const [granularity, setGranularity] = useState<RedlineGranularity>('word');
   const [isLoading, setIsLoading] = useState(true);
   
   const { toast } = useToast();
@@ -116,13 +149,28 @@ const VersionComparison: React.FC<VersionComparisonProps> = ({
     setDiffLines(lines);
   };
 
+  // Older to newer regardless of selection order, with moved text detected
+  const redline = useMemo(() => {
+    if (!version1 || !version2) return [];
+    const [older, newer] = version1.versionNumber < version2.versionNumber ? [version1, version2] : [version2, version1];
+    return computeRedline(older.content, newer.content, granularity);
+  }, [version1, version2, granularity]);
+
+  const redlineStats = useMemo(() => getRedlineStats(redline), [redline]);
+
+  // Line mode keeps the +/- line format; sentence and word modes use inline [-deleted-]{+inserted+} markers
+  const getDiffText = () =>
+    granularity === 'line'
+      ? diffLines
+        .map(line => {
+          const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
+          return prefix + line.content;
+        })
+        .join('\n')
+      : redlineToText(redline);
+
   const copyDiffToClipboard = async () => {
-    const diffText = diffLines
-      .map(line => {
-        const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
-        return prefix + line.content;
-      })
-      .join('\n');
+    const diffText = getDiffText();
 
     try {
       await navigator.clipboard.writeText(diffText);
@@ -141,12 +189,7 @@ const VersionComparison: React.FC<VersionComparisonProps> = ({
   };
 
   const exportDiffAsText = () => {
-    const diffText = diffLines
-      .map(line => {
-        const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
-        return prefix + line.content;
-      })
-      .join('\n');
+    const diffText = getDiffText();
 
     const blob = new Blob([diffText], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
@@ -159,6 +202,66 @@ const VersionComparison: React.FC<VersionComparisonProps> = ({
     URL.revokeObjectURL(url);
   };
 
+  const getRedlineVersions = () => {
+    const [older, newer] = version1!.versionNumber < version2!.versionNumber ? [version1!, version2!] : [version2!, version1!];
+    return { older, newer };
+  };
+
+  const redlineFilename = (extension: string) => {
+    const { older, newer } = getRedlineVersions();
+    const safeName = (documentTitle || 'document').replace(/[^a-zA-Z0-9]/g, '_');
+    return `${safeName}_redline_v${older.versionNumber}-v${newer.versionNumber}.${extension}`;
+  };
+
+  const exportRedlinePDF = async () => {
+    const { older, newer } = getRedlineVersions();
+    try {
+      const blob = await pdfExportService.exportSnapshotComparison(
+        [older, newer].map(version => ({
+          id: version.id,
+          label: version.changeSummary || (version.isAutoSave ? 'Auto-save' : 'Manual save'),
+          createdAt: version.createdAt,
+          content: version.content,
+          documentTitle: documentTitle || 'Document',
+          version: { versionNumber: version.versionNumber },
+          createdByUser: version.createdByUser
+        })),
+        {},
+        redline
+      );
+      downloadPDF(blob, redlineFilename('pdf'));
+    } catch (error) {
+      console.error('Error exporting redline PDF:', error);
+      toast({
+        title: "Export failed",
+        description: "Could not create the redline PDF",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const exportRedlineDocx = () => {
+    const { older, newer } = getRedlineVersions();
+    try {
+      const blob = exportRedlineAsDocx(
+        `Redline: ${documentTitle || 'Document'}`,
+        [
+          `Version ${older.versionNumber} (${format(new Date(older.createdAt), 'PPp')}) compared with version ${newer.versionNumber} (${format(new Date(newer.createdAt), 'PPp')})`,
+          `${GRANULARITY_LABELS[granularity]} comparison: ${redlineStats.inserted} words inserted, ${redlineStats.deleted} deleted, ${redlineStats.moved} passages moved`
+        ],
+        redline
+      );
+      saveBlobAs(blob, redlineFilename('docx'));
+    } catch (error) {
+      console.error('Error exporting redline DOCX:', error);
+      toast({
+        title: "Export failed",
+        description: "Could not create the redline Word document",
+        variant: "destructive"
+      });
+    }
+  };
+
   if (isLoading) {
     return (
       <Dialog open={true} onOpenChange={onClose}>
@@ -232,6 +335,19 @@ const VersionComparison: React.FC<VersionComparisonProps> = ({
           </div>
 
           <div className="flex gap-2">
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={granularity}
+              onValueChange={(value) => value && setGranularity(value as RedlineGranularity)}
+            >
+              {(Object.keys(GRANULARITY_LABELS) as RedlineGranularity[]).map(mode => (
+                <ToggleGroupItem key={mode} value={mode} className="text-xs">
+                  {GRANULARITY_LABELS[mode]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
             <Button
               variant="outline"
               size="sm"
@@ -247,30 +363,91 @@ const VersionComparison: React.FC<VersionComparisonProps> = ({
               <Download className="h-3 w-3 mr-1" />
               Export
             </Button>
+            <Button variant="outline" size="sm" onClick={exportRedlinePDF}>
+              <Download className="h-3 w-3 mr-1" />
+              PDF Redline
+            </Button>
+            <Button variant="outline" size="sm" onClick={exportRedlineDocx}>
+              <Download className="h-3 w-3 mr-1" />
+              DOCX Redline
+            </Button>
           </div>
         </div>
 
         {/* Diff Statistics */}
-        <div className="flex gap-4 text-sm">
-          <div className="flex items-center">
-            <div className="w-3 h-3 bg-green-500 rounded mr-2"></div>
-            <span>{diffLines.filter(l => l.type === 'added').length} additions</span>
-          </div>
-          <div className="flex items-center">
-            <div className="w-3 h-3 bg-red-500 rounded mr-2"></div>
-            <span>{diffLines.filter(l => l.type === 'removed').length} deletions</span>
+        {granularity === 'line' ? (
+          <div className="flex gap-4 text-sm">
+            <div className="flex items-center">
+              <div className="w-3 h-3 bg-green-500 rounded mr-2"></div>
+              <span>{diffLines.filter(l => l.type === 'added').length} additions</span>
+            </div>
+            <div className="flex items-center">
+              <div className="w-3 h-3 bg-red-500 rounded mr-2"></div>
+              <span>{diffLines.filter(l => l.type === 'removed').length} deletions</span>
+            </div>
+            <div className="flex items-center">
+              <div className="w-3 h-3 bg-gray-300 rounded mr-2"></div>
+              <span>{diffLines.filter(l => l.type === 'unchanged').length} unchanged</span>
+            </div>
           </div>
-          <div className="flex items-center">
-            <div className="w-3 h-3 bg-gray-300 rounded mr-2"></div>
-            <span>{diffLines.filter(l => l.type === 'unchanged').length} unchanged</span>
+        ) : (
+          <div className="flex gap-4 text-sm">
+            <div className="flex items-center">
+              <div className="w-3 h-3 bg-blue-500 rounded mr-2"></div>
+              <span>{redlineStats.inserted} words inserted</span>
+            </div>
+            <div className="flex items-center">
+              <div className="w-3 h-3 bg-red-500 rounded mr-2"></div>
+              <span>{redlineStats.deleted} words deleted</span>
+            </div>
+            <div className="flex items-center">
+              <div className="w-3 h-3 bg-green-500 rounded mr-2"></div>
+              <span>{redlineStats.moved} moved</span>
+            </div>
           </div>
-        </div>
+        )}
 
         <Separator />
 
         {/* Diff Content */}
         <ScrollArea className="flex-1">
-          {viewMode === 'unified' ? (
+          {viewMode === 'unified' && granularity !== 'line' ? (
+            <div className="px-4 py-2 text-sm whitespace-pre-wrap leading-relaxed">
+              {redline.map((segment, index) => (
+                <span
+                  key={index}
+                  className={REDLINE_CLASSES[segment.type]}
+                  title={segment.moveId ? `Moved passage ${segment.moveId}` : undefined}
+                >
+                  {segment.text}
+                </span>
+              ))}
+            </div>
+          ) : granularity !== 'line' ? (
+            <div className="grid grid-cols-2 gap-4">
+              {[
+                { version: olderVersion, segments: OLDER_SEGMENTS },
+                { version: newerVersion, segments: NEWER_SEGMENTS },
+              ].map(({ version, segments }) => (
+                <div key={version.id}>
+                  <h4 className="font-medium text-sm mb-2 p-2 bg-gray-100">
+                    Version {version.versionNumber}
+                  </h4>
+                  <div className="px-2 py-1 text-sm whitespace-pre-wrap leading-relaxed">
+                    {redline.map((segment, index) => segments.has(segment.type) && (
+                      <span
+                        key={index}
+                        className={REDLINE_CLASSES[segment.type]}
+                        title={segment.moveId ? `Moved passage ${segment.moveId}` : undefined}
+                      >
+                        {segment.text}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : viewMode === 'unified' ? (
             <div className="font-mono text-sm">
               {diffLines.map((line, index) => (
                 <div
@@ -22,6 +22,9 @@ import {
   GitBranch
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { setSnapshotLocked } from '@/services/documentLockService';
+import { DocumentSnapshot, exportSnapshotAsPDF, getDocumentSnapshots } from '@/services/snapshotService';
+import { downloadPDF } from '@/services/pdfExportService';
 import { useToast } from '@/hooks/use-toast';
 import { format, formatDistanceToNow } from 'date-fns';
 import VersionComparison from './VersionComparison';
@@ -38,27 +41,17 @@ interface DocumentVersion {
   createdByUser?: { email: string };
 }
 
-interface DocumentSnapshot {
-  id: string;
-  label: string;
-  description?: string;
-  createdAt: string;
-  createdBy: string;
-  versionId: string;
-  isLocked: boolean;
-  version: { versionNumber: number };
-  createdByUser?: { email: string };
-}
-
 interface VersionHistoryPanelProps {
   documentId: string;
+  documentTitle?: string;
   currentUserId: string;
   onVersionRestore: (content: string) => void;
-  onSnapshotCreate: (label: string, description?: string) => void;
+  onSnapshotCreate: (label: string, description?: string) => Promise<void>;
 }
 
 const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
   documentId,
+  documentTitle,
   currentUserId,
   onVersionRestore,
   onSnapshotCreate
@@ -71,6 +64,7 @@ const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
   const [snapshotLabel, setSnapshotLabel] = useState('');
   const [snapshotDescription, setSnapshotDescription] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [exportingSnapshotId, setExportingSnapshotId] = useState<string | null>(null);
   
   const { toast } = useToast();
 
@@ -85,30 +79,25 @@ const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
       // Load versions
       const { data: versionsData, error: versionsError } = await supabase
         .from('document_versions')
-        .select(`
-          *,
-          createdByUser:created_by(email)
-        `)
+        .select('*')
         .eq('document_id', documentId)
         .order('version_number', { ascending: false })
         .limit(50);
 
       if (versionsError) throw versionsError;
-      setVersions(versionsData || []);
+      setVersions((versionsData || []).map(version => ({
+        id: version.id,
+        versionNumber: version.version_number,
+        content: version.content,
+        createdAt: version.created_at || '',
+        createdBy: version.created_by || '',
+        changeSummary: version.change_summary || undefined,
+        isAutoSave: version.is_auto_save ?? true,
+        metadata: version.metadata
+      })));
 
-      // Load snapshots
-      const { data: snapshotsData, error: snapshotsError } = await supabase
-        .from('document_snapshots')
-        .select(`
-          *,
-          createdByUser:created_by(email),
-          version:document_versions!version_id(version_number)
-        `)
-        .eq('document_id', documentId)
-        .order('created_at', { ascending: false });
-
-      if (snapshotsError) throw snapshotsError;
-      setSnapshots(snapshotsData || []);
+      // Load snapshots with their version numbers and download counts
+      setSnapshots(await getDocumentSnapshots(documentId));
 
     } catch (error) {
       console.error('Error loading version history:', error);
@@ -133,13 +122,18 @@ const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
     }
 
     try {
-      onSnapshotCreate(snapshotLabel.trim(), snapshotDescription.trim() || undefined);
+      await onSnapshotCreate(snapshotLabel.trim(), snapshotDescription.trim() || undefined);
       setSnapshotLabel('');
       setSnapshotDescription('');
       setShowCreateSnapshot(false);
       await loadVersionHistory();
     } catch (error) {
       console.error('Error creating snapshot:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create snapshot",
+        variant: "destructive"
+      });
     }
   };
 
@@ -184,18 +178,16 @@ const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
     }
   };
 
+  // A locked snapshot makes the whole document read-only until it is unlocked again
   const toggleSnapshotLock = async (snapshot: DocumentSnapshot) => {
     try {
-      const { error } = await supabase
-        .from('document_snapshots')
-        .update({ is_locked: !snapshot.isLocked })
-        .eq('id', snapshot.id);
-
-      if (error) throw error;
+      await setSnapshotLocked(snapshot.id, !snapshot.isLocked);
 
       toast({
         title: snapshot.isLocked ? "Snapshot Unlocked" : "Snapshot Locked",
-        description: `"${snapshot.label}" is now ${snapshot.isLocked ? 'unlocked' : 'locked'}`,
+        description: snapshot.isLocked
+          ? `"${snapshot.label}" is unlocked and the document can be edited again`
+          : `"${snapshot.label}" is locked; the document is read-only until it is unlocked`,
       });
 
       await loadVersionHistory();
@@ -203,22 +195,34 @@ const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
       console.error('Error toggling snapshot lock:', error);
       toast({
         title: "Error",
-        description: "Failed to update snapshot lock",
+        description: error instanceof Error ? error.message : "Failed to update snapshot lock",
         variant: "destructive"
       });
     }
   };
 
-  const exportSnapshotAsPDF = async (snapshot: DocumentSnapshot) => {
-    // This would integrate with jsPDF to export the snapshot
-    toast({
-      title: "Export Started",
-      description: `Exporting "${snapshot.label}" as PDF`,
-    });
-    
-    // Implementation would go here
-    // const content = await getSnapshotContent(snapshot.versionId);
-    // await generatePDF(content, snapshot.label);
+  const handleExportSnapshot = async (snapshot: DocumentSnapshot) => {
+    setExportingSnapshotId(snapshot.id);
+    try {
+      const { blob, filename } = await exportSnapshotAsPDF(snapshot, documentTitle || 'Document');
+      downloadPDF(blob, filename);
+
+      toast({
+        title: "Export Complete",
+        description: `"${snapshot.label}" downloaded as ${filename}`,
+      });
+
+      await loadVersionHistory();
+    } catch (error) {
+      console.error('Error exporting snapshot:', error);
+      toast({
+        title: "Export Error",
+        description: error instanceof Error ? error.message : "Failed to export snapshot",
+        variant: "destructive"
+      });
+    } finally {
+      setExportingSnapshotId(null);
+    }
   };
 
   return (
@@ -338,9 +342,12 @@ const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
                     size="sm" 
                     variant="outline" 
                     className="h-6 text-xs"
-                    onClick={() => exportSnapshotAsPDF(snapshot)}
+                    onClick={() => handleExportSnapshot(snapshot)}
+                    disabled={exportingSnapshotId === snapshot.id}
+                    title={`Export as PDF (${snapshot.downloadCount} download${snapshot.downloadCount === 1 ? '' : 's'})`}
                   >
                     <Download className="h-3 w-3" />
+                    {snapshot.downloadCount > 0 && <span className="ml-1">{snapshot.downloadCount}</span>}
                   </Button>
                   <Button 
                     size="sm" 
@@ -430,6 +437,7 @@ const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
         <VersionComparison
           version1Id={selectedVersions[0]}
           version2Id={selectedVersions[1]}
+          documentTitle={documentTitle}
           onClose={() => setShowComparison(false)}
         />
       )}
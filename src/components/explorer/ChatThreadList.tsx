@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, MessageSquarePlus, Search, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ChatThread, ChatThreadSearchResult } from '@/services/chatThreadService';
+
+interface ChatThreadListProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  isLoading: boolean;
+  onSelectThread: (threadId: string) => void;
+  onNewThread: () => void;
+  onDeleteThread: (threadId: string) => void;
+  onSearch: (query: string) => Promise<ChatThreadSearchResult[]>;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Snippets come back from Postgres with matches wrapped in **
+const renderSnippet = (snippet: string) =>
+  snippet.split('**').map((part, i) =>
+    i % 2 === 1 ? <mark key={i} className="bg-yellow-200 rounded-sm">{part}</mark> : <span key={i}>{part}</span>
+  );
+
+const formatThreadDate = (date: string | null) =>
+  date ? formatDistanceToNow(new Date(date), { addSuffix: true }) : '';
+
+const ChatThreadList: React.FC<ChatThreadListProps> = ({
+  threads,
+  activeThreadId,
+  isLoading,
+  onSelectThread,
+  onNewThread,
+  onDeleteThread,
+  onSearch
+}) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<ChatThreadSearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const results = await onSearch(query);
+        if (!cancelled) setSearchResults(results);
+      } catch (error) {
+        console.error('Error searching chat threads:', error);
+        if (!cancelled) setSearchResults([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery, onSearch]);
+
+  const handleDelete = (e: React.MouseEvent, thread: { id: string; title: string }) => {
+    e.stopPropagation();
+    if (window.confirm(`Delete the conversation "${thread.title}"? This cannot be undone.`)) {
+      onDeleteThread(thread.id);
+    }
+  };
+
+  const items = searchResults ?? threads.map(thread => ({ ...thread, snippet: null }));
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b space-y-2 flex-shrink-0">
+        <Button onClick={onNewThread} variant="outline" size="sm" className="w-full">
+          <MessageSquarePlus className="h-4 w-4 mr-2" />
+          New conversation
+        </Button>
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search past conversations..."
+            className="pl-8 h-8 text-sm"
+          />
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        {(isLoading || isSearching) && (
+          <div className="flex items-center justify-center py-6 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            {isSearching ? 'Searching...' : 'Loading conversations...'}
+          </div>
+        )}
+
+        {!isLoading && !isSearching && items.length === 0 && (
+          <div className="text-center py-6 text-sm text-gray-500">
+            {searchResults ? 'No conversations match your search' : 'No saved conversations yet'}
+          </div>
+        )}
+
+        {!isSearching && items.map(thread => (
+          <div
+            key={thread.id}
+            onClick={() => onSelectThread(thread.id)}
+            className={`group px-3 py-2 border-b cursor-pointer hover:bg-gray-50 ${
+              thread.id === activeThreadId ? 'bg-blue-50' : ''
+            }`}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-gray-900 truncate">{thread.title}</div>
+                <div className="text-xs text-gray-500">{formatThreadDate(thread.last_message_at)}</div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 opacity-0 group-hover:opacity-100 flex-shrink-0"
+                onClick={(e) => handleDelete(e, thread)}
+                title="Delete conversation"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+            {thread.snippet && (
+              <div className="mt-1 text-xs text-gray-600 line-clamp-2">{renderSnippet(thread.snippet)}</div>
+            )}
+          </div>
+        ))}
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default ChatThreadList;
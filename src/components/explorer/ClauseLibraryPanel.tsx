@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { BookOpen, Copy, FileText, Loader2, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Client } from '@/services/clientService';
+import {
+  CLAUSE_TYPE_LABELS,
+  ClauseType,
+  LibraryClause,
+  searchClauses,
+  updateClauseType
+} from '@/services/clauseService';
+import { useToast } from '@/hooks/use-toast';
+
+interface ClauseLibraryPanelProps {
+  selectedClient: Client | null;
+  onOpenClause: (clause: LibraryClause) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const ALL_TYPES = 'all';
+const ALL_CLIENTS = 'all';
+const PREVIEW_CHARS = 400;
+
+// Snippets come back from Postgres with matches wrapped in **
+const renderSnippet = (snippet: string) =>
+  snippet.split('**').map((part, i) =>
+    i % 2 === 1 ? <mark key={i} className="bg-yellow-200 rounded-sm">{part}</mark> : <span key={i}>{part}</span>
+  );
+
+const ClauseLibraryPanel: React.FC<ClauseLibraryPanelProps> = ({ selectedClient, onOpenClause }) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<ClauseType | typeof ALL_TYPES>(ALL_TYPES);
+  const [clientScope, setClientScope] = useState<string>(ALL_CLIENTS);
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Fall back to the whole library when the scoped client is deselected
+  const clientId = clientScope !== ALL_CLIENTS && selectedClient?.id === clientScope ? clientScope : undefined;
+  const clauseType = typeFilter === ALL_TYPES ? undefined : typeFilter;
+
+  const { data: clauses = [], isLoading } = useQuery({
+    queryKey: ['clause-library', debouncedQuery, clauseType, clientId],
+    queryFn: () => searchClauses({ query: debouncedQuery, clauseType, clientId }),
+  });
+
+  const toggleExpanded = (clauseId: string) => {
+    setExpandedIds(prev => prev.includes(clauseId) ? prev.filter(id => id !== clauseId) : [...prev, clauseId]);
+  };
+
+  const handleCopy = async (clause: LibraryClause) => {
+    try {
+      await navigator.clipboard.writeText(clause.text);
+      toast({
+        title: "Clause copied",
+        description: `"${clause.title || clause.heading}" is on your clipboard, ready to paste into a draft.`,
+      });
+    } catch (error) {
+      console.error('Error copying clause:', error);
+      toast({
+        title: "Error",
+        description: "Could not copy the clause. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReclassify = async (clause: LibraryClause, newType: ClauseType) => {
+    try {
+      await updateClauseType(clause.id, newType);
+      queryClient.invalidateQueries({ queryKey: ['clause-library'] });
+    } catch (error) {
+      console.error('Error reclassifying clause:', error);
+      toast({
+        title: "Error",
+        description: "Failed to change the clause type. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderClauseText = (clause: LibraryClause) => {
+    if (expandedIds.includes(clause.id)) {
+      return <p className="whitespace-pre-wrap">{clause.text}</p>;
+    }
+    if (clause.snippet) {
+      return <p>{renderSnippet(clause.snippet)}</p>;
+    }
+    return (
+      <p className="whitespace-pre-wrap">
+        {clause.text.length > PREVIEW_CHARS ? `${clause.text.slice(0, PREVIEW_CHARS)}...` : clause.text}
+      </p>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b space-y-2 flex-shrink-0">
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search clause language..."
+            className="pl-8 h-8 text-sm"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as ClauseType | typeof ALL_TYPES)}>
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TYPES}>All clause types</SelectItem>
+              {(Object.keys(CLAUSE_TYPE_LABELS) as ClauseType[]).map(type => (
+                <SelectItem key={type} value={type}>{CLAUSE_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedClient && (
+            <Select value={clientScope} onValueChange={setClientScope}>
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CLIENTS}>All clients</SelectItem>
+                <SelectItem value={selectedClient.id}>{selectedClient.name}</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        {isLoading && (
+          <div className="flex items-center justify-center py-6 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading clauses...
+          </div>
+        )}
+
+        {!isLoading && clauses.length === 0 && (
+          <div className="text-center py-8 px-4 text-sm text-gray-500">
+            <BookOpen className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+            {debouncedQuery || clauseType || clientId
+              ? 'No clauses match your search'
+              : 'No clauses yet. Contracts and settlement agreements are split into clauses as they are uploaded.'}
+          </div>
+        )}
+
+        {clauses.map(clause => (
+          <div key={clause.id} className="p-3 border-b space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-gray-900">{clause.title || clause.heading}</div>
+                {clause.title && (
+                  <div className="text-xs text-gray-500 truncate">{clause.heading}</div>
+                )}
+              </div>
+              <Select value={clause.clause_type} onValueChange={(value) => handleReclassify(clause, value as ClauseType)}>
+                <SelectTrigger className="h-6 w-auto text-xs px-2 flex-shrink-0" title="Change clause type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CLAUSE_TYPE_LABELS) as ClauseType[]).map(type => (
+                    <SelectItem key={type} value={type}>{CLAUSE_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="text-xs text-gray-700">
+              {renderClauseText(clause)}
+              {(clause.snippet || clause.text.length > PREVIEW_CHARS) && (
+                <button
+                  type="button"
+                  onClick={() => toggleExpanded(clause.id)}
+                  className="mt-1 text-blue-600 hover:underline"
+                >
+                  {expandedIds.includes(clause.id) ? 'Show less' : 'Show full clause'}
+                </button>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <button
+                type="button"
+                onClick={() => onOpenClause(clause)}
+                className="inline-flex items-center min-w-0 px-1.5 py-0.5 rounded bg-blue-50 text-xs text-blue-700 hover:bg-blue-100"
+              >
+                <FileText className="h-3 w-3 mr-1 flex-shrink-0" />
+                <span className="truncate">{clause.document_file_name}</span>
+                {clause.page_number && <span className="ml-1 flex-shrink-0">p. {clause.page_number}</span>}
+                {clause.client_name && <span className="ml-1 flex-shrink-0 text-gray-500">- {clause.client_name}</span>}
+              </button>
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => handleCopy(clause)}>
+                <Copy className="h-3 w-3 mr-1" />
+                Copy
+              </Button>
+            </div>
+          </div>
+        ))}
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default ClauseLibraryPanel;
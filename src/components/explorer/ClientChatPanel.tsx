@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { MessageCircle, Send, Loader2, FileText, ExternalLink } from 'lucide-react';
+import { MessageCircle, Send, Loader2, FileText, ExternalLink, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -8,6 +8,8 @@ import { Card } from '@/components/ui/card';
 import { Client } from '@/services/clientService';
 import { searchDocuments } from '@/services/searchService';
 import { useToast } from '@/hooks/use-toast';
+import { useChatThreads } from '@/hooks/useChatThreads';
+import ChatThreadList from './ChatThreadList';
 
 interface ChatMessage {
   id: string;
@@ -37,7 +39,18 @@ const ClientChatPanel: React.FC<ClientChatPanelProps> = ({
   client, 
   onOpenDocumentWithHighlights 
 }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const {
+    threads,
+    isLoadingThreads,
+    activeThreadId,
+    messages,
+    appendMessage,
+    selectThread,
+    startNewThread,
+    deleteThread,
+    searchThreads
+  } = useChatThreads<ChatMessage>(client?.id);
+  const [showThreads, setShowThreads] = useState(false);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -48,19 +61,6 @@ const ClientChatPanel: React.FC<ClientChatPanelProps> = ({
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  // Load chat history when client changes
-  useEffect(() => {
-    if (client) {
-      loadChatHistory();
-    } else {
-      setMessages([]);
-    }
-  }, [client?.id]);
-
-  const loadChatHistory = () => {
-    setMessages([]);
-  };
-
   const handleViewDocument = (source: any, query: string) => {
     const highlights = source.excerpts?.map((excerpt: any) => ({
       text: excerpt.text,
@@ -171,7 +171,7 @@ const ClientChatPanel: React.FC<ClientChatPanelProps> = ({
       timestamp: new Date(),
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    const conversation = appendMessage(userMessage);
     const currentQuery = inputValue.trim();
     setInputValue('');
     setIsLoading(true);
@@ -201,7 +201,7 @@ const ClientChatPanel: React.FC<ClientChatPanelProps> = ({
         query: currentQuery,
       };
 
-      setMessages(prev => [...prev, assistantMessage]);
+      appendMessage(assistantMessage, conversation);
     } catch (error) {
       console.error('Error sending message:', error);
       toast({
@@ -235,78 +235,112 @@ const ClientChatPanel: React.FC<ClientChatPanelProps> = ({
   return (
     <div className="h-full flex flex-col bg-white border-l">
       {/* Header */}
-      <div className="p-4 border-b bg-gray-50">
-        <h3 className="font-semibold text-gray-900 flex items-center">
-          <MessageCircle className="mr-2 h-5 w-5" />
-          Chat - {client.name}
-        </h3>
-        <p className="text-sm text-gray-500">Ask about {client.name}'s documents</p>
+      <div className="p-4 border-b bg-gray-50 flex items-start justify-between">
+        <div>
+          <h3 className="font-semibold text-gray-900 flex items-center">
+            <MessageCircle className="mr-2 h-5 w-5" />
+            Chat - {client.name}
+          </h3>
+          <p className="text-sm text-gray-500">Ask about {client.name}'s documents</p>
+        </div>
+        <Button
+          variant={showThreads ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => setShowThreads(!showThreads)}
+          title="Conversation history"
+        >
+          <History className="h-4 w-4" />
+        </Button>
       </div>
 
-      {/* Messages */}
-      <ScrollArea className="flex-1 p-4">
-        <div className="space-y-4">
-          {messages.length === 0 && (
-            <div className="text-center py-8 text-gray-500">
-              <p className="font-medium">Start a conversation about {client.name}'s case</p>
-              <p className="text-sm">Ask questions about documents, deadlines, or case details</p>
-            </div>
-          )}
+      {showThreads && (
+        <div className="flex-1 min-h-0">
+          <ChatThreadList
+            threads={threads}
+            activeThreadId={activeThreadId}
+            isLoading={isLoadingThreads}
+            onSelectThread={(threadId) => {
+              selectThread(threadId);
+              setShowThreads(false);
+            }}
+            onNewThread={() => {
+              startNewThread();
+              setShowThreads(false);
+            }}
+            onDeleteThread={deleteThread}
+            onSearch={searchThreads}
+          />
+        </div>
+      )}
+
+      {!showThreads && (
+        <>
+          {/* Messages */}
+          <ScrollArea className="flex-1 p-4">
+            <div className="space-y-4">
+              {messages.length === 0 && (
+                <div className="text-center py-8 text-gray-500">
+                  <p className="font-medium">Start a conversation about {client.name}'s case</p>
+                  <p className="text-sm">Ask questions about documents, deadlines, or case details</p>
+                </div>
+              )}
           
-          {messages.map((message) => (
-            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-              <Card className={`max-w-[90%] p-4 ${
-                message.role === 'user' 
-                  ? 'bg-blue-500 text-white' 
-                  : 'bg-gray-100'
-              }`}>
-                {message.role === 'assistant' && message.sources ? (
-                  formatAIResponse(message.content, message.sources, message.documentCount || 0, message.query || '')
-                ) : (
-                  <div className="text-sm whitespace-pre-wrap">{message.content}</div>
-                )}
+              {messages.map((message) => (
+                <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                  <Card className={`max-w-[90%] p-4 ${
+                    message.role === 'user' 
+                      ? 'bg-blue-500 text-white' 
+                      : 'bg-gray-100'
+                  }`}>
+                    {message.role === 'assistant' && message.sources ? (
+                      formatAIResponse(message.content, message.sources, message.documentCount || 0, message.query || '')
+                    ) : (
+                      <div className="text-sm whitespace-pre-wrap">{message.content}</div>
+                    )}
                 
-                <div className="text-xs opacity-70 mt-3 pt-2 border-t border-gray-200">
-                  {message.timestamp.toLocaleTimeString()}
+                    <div className="text-xs opacity-70 mt-3 pt-2 border-t border-gray-200">
+                      {message.timestamp.toLocaleString()}
+                    </div>
+                  </Card>
                 </div>
-              </Card>
-            </div>
-          ))}
+              ))}
           
-          {isLoading && (
-            <div className="flex justify-start">
-              <Card className="max-w-[80%] p-3 bg-gray-100">
-                <div className="flex items-center text-sm text-gray-600">
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  AI is analyzing documents...
+              {isLoading && (
+                <div className="flex justify-start">
+                  <Card className="max-w-[80%] p-3 bg-gray-100">
+                    <div className="flex items-center text-sm text-gray-600">
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      AI is analyzing documents...
+                    </div>
+                  </Card>
                 </div>
-              </Card>
+              )}
             </div>
-          )}
-        </div>
-        <div ref={messagesEndRef} />
-      </ScrollArea>
+            <div ref={messagesEndRef} />
+          </ScrollArea>
 
-      {/* Input */}
-      <div className="p-4 border-t">
-        <div className="flex gap-2">
-          <Input
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder={`Ask about ${client.name}'s documents...`}
-            disabled={isLoading}
-            className="flex-1"
-          />
-          <Button 
-            onClick={handleSendMessage}
-            disabled={!inputValue.trim() || isLoading}
-            size="icon"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
-        </div>
-      </div>
+          {/* Input */}
+          <div className="p-4 border-t">
+            <div className="flex gap-2">
+              <Input
+                value={inputValue}
+                onChange={(e) => setInputValue(e.target.value)}
+                onKeyPress={handleKeyPress}
+                placeholder={`Ask about ${client.name}'s documents...`}
+                disabled={isLoading}
+                className="flex-1"
+              />
+              <Button 
+                onClick={handleSendMessage}
+                disabled={!inputValue.trim() || isLoading}
+                size="icon"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
 };
@@ -5,7 +5,10 @@ import { Button } from '@/components/ui/button';
 import { supabase } from '@/integrations/supabase/client';
 import { Client, Folder, getFolders } from '@/services/clientService';
 import { useToast } from '@/hooks/use-toast';
+import { getLowConfidencePages } from '@/utils/ocrProcessor';
+import { BriefCitation } from '@/services/caseBriefService';
 import ClientInfoPanel from '../finder/ClientInfoPanel';
+import CaseBriefPanel from '../finder/CaseBriefPanel';
 import FilePanel from './FilePanel';
 
 interface FileItem {
@@ -14,6 +17,7 @@ interface FileItem {
   type: 'folder' | 'file';
   size?: number;
   modified: string;
+  lowConfidencePages?: number[];
 }
 
 interface ClientContentPanelProps {
@@ -95,7 +99,8 @@ const ClientContentPanel: React.FC<ClientContentPanelProps> = ({
         name: doc.file_name,
         type: 'file' as const,
         size: doc.file_size,
-        modified: doc.updated_at
+        modified: doc.updated_at,
+        lowConfidencePages: getLowConfidencePages(doc.metadata)
       }));
 
       setFiles(fileItems);
@@ -124,6 +129,21 @@ const ClientContentPanel: React.FC<ClientContentPanelProps> = ({
     onFolderSelect(null);
   };
 
+  const handleOpenCitation = (citation: BriefCitation) => {
+    const documentData = {
+      id: citation.document_id,
+      name: citation.file_name,
+      document_title: citation.file_name,
+      document_file_name: citation.file_name,
+    };
+
+    if (onOpenDocumentWithHighlights) {
+      onOpenDocumentWithHighlights(documentData, citation.quote ? [{ text: citation.quote }] : [], '');
+    } else {
+      onOpenDocument?.({ ...documentData, type: 'file' });
+    }
+  };
+
   // Filter folders based on current selection
   const displayFolders = selectedFolderId 
     ? folders.filter(f => f.parent_folder_id === selectedFolderId)
@@ -149,6 +169,12 @@ const ClientContentPanel: React.FC<ClientContentPanelProps> = ({
           client={client}
           onClientUpdated={onClientUpdated}
         />
+        <CaseBriefPanel
+          clientId={client.id}
+          folderId={selectedFolderId}
+          folderName={selectedFolderId ? folders.find(f => f.id === selectedFolderId)?.name : null}
+          onOpenCitation={handleOpenCitation}
+        />
       </div>
 
       {/* Scrollable content area */}
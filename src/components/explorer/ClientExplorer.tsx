@@ -8,6 +8,7 @@ import FilePanel from './FilePanel';
 import { useClientNavigation } from '@/hooks/useClientNavigation';
 import { useDocumentTabs } from '@/hooks/useDocumentTabs';
 import { toast } from 'sonner';
+import { getLowConfidencePages } from '@/utils/ocrProcessor';
 
 interface ClientExplorerProps {
   onUpload: () => void;
@@ -55,6 +56,7 @@ const ClientExplorer: React.FC<ClientExplorerProps> = ({ onUpload, onRefresh, on
     type: 'file' as const,
     size: doc.size || 0,
     modified: doc.uploaded_at,
+    lowConfidencePages: getLowConfidencePages(doc.metadata),
   }));
 
   return (
@@ -0,0 +1,254 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowRight, GitCompare, Loader2, Sparkles } from 'lucide-react';
+import * as Diff from 'diff';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Client } from '@/services/clientService';
+import {
+  AlignedRow,
+  AlignmentStatus,
+  ChangeSignificance,
+  DocumentComparison,
+  compareDocuments,
+  getComparableDocuments
+} from '@/services/documentComparisonService';
+import { useToast } from '@/hooks/use-toast';
+
+interface DocumentComparisonDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  selectedClient: Client | null;
+}
+
+const STATUS_STYLES: Record<AlignmentStatus, { label: string; row: string; badge: string }> = {
+  unchanged: { label: 'Unchanged', row: 'bg-white', badge: 'bg-gray-100 text-gray-600' },
+  modified: { label: 'Modified', row: 'bg-yellow-50', badge: 'bg-yellow-100 text-yellow-800' },
+  added: { label: 'Added', row: 'bg-green-50', badge: 'bg-green-100 text-green-800' },
+  removed: { label: 'Removed', row: 'bg-red-50', badge: 'bg-red-100 text-red-800' },
+};
+
+const SIGNIFICANCE_STYLES: Record<ChangeSignificance, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-orange-100 text-orange-800',
+  low: 'bg-gray-100 text-gray-600',
+};
+
+// Word-level diff of a modified clause: the base side shows what was taken out, the other side what was put in
+const renderWordDiff = (baseText: string, otherText: string, side: 'base' | 'other') =>
+  Diff.diffWords(baseText, otherText).map((part, i) => {
+    if (part.added) {
+      return side === 'other' ? <span key={i} className="bg-green-200">{part.value}</span> : null;
+    }
+    if (part.removed) {
+      return side === 'base' ? <span key={i} className="bg-red-200 line-through">{part.value}</span> : null;
+    }
+    return <span key={i}>{part.value}</span>;
+  });
+
+const DocumentComparisonDialog: React.FC<DocumentComparisonDialogProps> = ({
+  isOpen,
+  onClose,
+  selectedClient
+}) => {
+  const [baseId, setBaseId] = useState('');
+  const [otherId, setOtherId] = useState('');
+  const [explain, setExplain] = useState(false);
+  const [changesOnly, setChangesOnly] = useState(true);
+  const [comparison, setComparison] = useState<DocumentComparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const { toast } = useToast();
+
+  const { data: documents = [] } = useQuery({
+    queryKey: ['comparable-documents', selectedClient?.id],
+    queryFn: () => getComparableDocuments(selectedClient?.id),
+    enabled: isOpen,
+  });
+
+  const explanations = useMemo(
+    () => new Map((comparison?.explanation?.changes || []).map(change => [change.row, change])),
+    [comparison]
+  );
+
+  const handleCompare = async () => {
+    setIsComparing(true);
+    try {
+      const result = await compareDocuments(baseId, otherId, explain);
+      setComparison(result);
+      if (result.explanation_error) {
+        toast({
+          title: "Explanation unavailable",
+          description: "The clauses were aligned, but the AI explanation could not be generated.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Error comparing documents:', error);
+      toast({
+        title: "Error",
+        description: "Failed to compare the documents. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const renderSide = (row: AlignedRow, side: 'base' | 'other') => {
+    const clause = side === 'base' ? row.base : row.other;
+    if (!clause) {
+      return <div className="text-xs italic text-gray-400">Not in this document</div>;
+    }
+
+    return (
+      <div className="min-w-0">
+        <div className="text-xs font-medium text-gray-900 mb-1">
+          {clause.heading}
+          {clause.page_number && <span className="ml-1 font-normal text-gray-400">p. {clause.page_number}</span>}
+        </div>
+        <div className="text-xs text-gray-700 whitespace-pre-wrap">
+          {row.status === 'modified' && row.base && row.other
+            ? renderWordDiff(row.base.text, row.other.text, side)
+            : clause.text}
+        </div>
+      </div>
+    );
+  };
+
+  const renderDocumentSelect = (value: string, onChange: (id: string) => void, placeholder: string, excludeId: string) => (
+    <Select value={value} onValueChange={(id) => { onChange(id); setComparison(null); }}>
+      <SelectTrigger className="h-9 text-sm">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {documents.filter(document => document.id !== excludeId).map(document => (
+          <SelectItem key={document.id} value={document.id}>{document.file_name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const visibleRows = (comparison?.rows || [])
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => !changesOnly || row.status !== 'unchanged');
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-6xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <GitCompare className="h-5 w-5 mr-2" />
+            Compare Documents
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <div className="flex-1">{renderDocumentSelect(baseId, setBaseId, 'Base document (e.g. our template)', otherId)}</div>
+          <ArrowRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+          <div className="flex-1">{renderDocumentSelect(otherId, setOtherId, 'Compared document (e.g. their redline)', baseId)}</div>
+          <Button onClick={handleCompare} disabled={!baseId || !otherId || isComparing}>
+            {isComparing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <GitCompare className="h-4 w-4 mr-1" />}
+            Compare
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-4 text-sm">
+          <div className="flex items-center gap-2">
+            <Checkbox id="compare-explain" checked={explain} onCheckedChange={(checked) => setExplain(checked === true)} />
+            <Label htmlFor="compare-explain" className="flex items-center">
+              <Sparkles className="h-3 w-3 mr-1" />
+              Explain substantive changes with AI
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox id="compare-changes-only" checked={changesOnly} onCheckedChange={(checked) => setChangesOnly(checked === true)} />
+            <Label htmlFor="compare-changes-only">Changes only</Label>
+          </div>
+        </div>
+
+        {comparison && (
+          <div className="space-y-2">
+            <div className="flex gap-2 text-xs">
+              {(Object.keys(STATUS_STYLES) as AlignmentStatus[]).map(status => (
+                <span key={status} className={`px-2 py-0.5 rounded ${STATUS_STYLES[status].badge}`}>
+                  {comparison.counts[status]} {STATUS_STYLES[status].label.toLowerCase()}
+                </span>
+              ))}
+              {(comparison.base.unit === 'paragraphs' || comparison.other.unit === 'paragraphs') && (
+                <span className="text-gray-500">
+                  Compared by paragraph where no clauses were found
+                </span>
+              )}
+            </div>
+            {comparison.explanation?.summary && (
+              <div className="p-3 rounded bg-blue-50 text-sm text-blue-900">
+                {comparison.explanation.summary}
+              </div>
+            )}
+          </div>
+        )}
+
+        <ScrollArea className="flex-1 border rounded">
+          {isComparing && (
+            <div className="flex items-center justify-center p-8 text-sm text-gray-500">
+              <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+              Aligning clauses...
+            </div>
+          )}
+
+          {!isComparing && !comparison && (
+            <div className="text-center p-8 text-sm text-gray-500">
+              Choose two documents to align their clauses by heading and meaning.
+            </div>
+          )}
+
+          {!isComparing && comparison && (
+            <>
+              <div className="grid grid-cols-2 gap-4 px-3 py-2 bg-gray-100 text-xs font-semibold text-gray-700 sticky top-0">
+                <div className="truncate">{comparison.base.file_name}</div>
+                <div className="truncate">{comparison.other.file_name}</div>
+              </div>
+              {visibleRows.length === 0 && (
+                <div className="text-center p-8 text-sm text-gray-500">No differences found</div>
+              )}
+              {visibleRows.map(({ row, index }) => {
+                const change = explanations.get(index);
+                return (
+                  <div key={index} className={`px-3 py-2 border-b ${STATUS_STYLES[row.status].row}`}>
+                    <div className="flex items-center gap-2 mb-1">
+                      <Badge variant="outline" className={`text-[10px] px-1.5 py-0 ${STATUS_STYLES[row.status].badge}`}>
+                        {STATUS_STYLES[row.status].label}
+                      </Badge>
+                      {row.similarity !== null && row.status === 'modified' && (
+                        <span className="text-[10px] text-gray-500">{Math.round(row.similarity * 100)}% match</span>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      {renderSide(row, 'base')}
+                      {renderSide(row, 'other')}
+                    </div>
+                    {change && (
+                      <div className="mt-2 flex items-start gap-2 text-xs text-gray-800">
+                        <span className={`px-1.5 rounded flex-shrink-0 ${SIGNIFICANCE_STYLES[change.significance]}`}>
+                          {change.significance}
+                        </span>
+                        <span>{change.explanation}</span>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DocumentComparisonDialog;
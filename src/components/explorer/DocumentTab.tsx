@@ -1,9 +1,11 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Search, ChevronUp, ChevronDown, X, Edit3 } from 'lucide-react';
+import { Search, ChevronUp, ChevronDown, X, Edit3, Download, FileText } from 'lucide-react';
 import CollaborativeDocumentTab from '../collaborative/CollaborativeDocumentTab';
 import { supabase } from '@/integrations/supabase/client';
+import { useOriginalFile } from '@/hooks/useOriginalFile';
+import PdfPageViewer from './PdfPageViewer';
 
 interface DocumentHighlight {
   text: string;
@@ -34,8 +36,19 @@ const DocumentTab: React.FC<DocumentTabProps> = ({
   const [highlightedContent, setHighlightedContent] = useState('');
   const [currentHighlight, setCurrentHighlight] = useState(0);
   const [currentUser, setCurrentUser] = useState<any>(null);
-  const [viewMode, setViewMode] = useState<'view' | 'collaborate'>('view');
+  const [viewMode, setViewMode] = useState<'view' | 'collaborate' | 'original'>('view');
   const [currentContent, setCurrentContent] = useState(documentContent);
+  const { hasOriginal, isPdf, signedUrl, download } = useOriginalFile(documentId, viewMode === 'original');
+
+  // Citations are easiest to check against the real filing, so open PDFs on their pages when a
+  // document first loads; after that the view is the user's choice
+  const openedOriginalForRef = useRef<string | undefined>();
+  useEffect(() => {
+    if (openedOriginalForRef.current !== documentId && hasOriginal && isPdf && highlights.length > 0) {
+      openedOriginalForRef.current = documentId;
+      setViewMode('original');
+    }
+  }, [documentId, hasOriginal, isPdf, highlights]);
 
   // Get current user for collaborative features
   useEffect(() => {
@@ -116,6 +129,8 @@ const DocumentTab: React.FC<DocumentTabProps> = ({
   }, [currentContent, highlights]);
 
   const scrollToHighlight = useCallback((index: number) => {
+    // The PDF page viewer follows currentHighlight itself; the text view needs manual scrolling
+    setCurrentHighlight(index);
     const element = document.getElementById(`highlight-${index}`);
     if (element) {
       // Remove previous highlight focus
@@ -129,7 +144,6 @@ const DocumentTab: React.FC<DocumentTabProps> = ({
       element.classList.add('bg-yellow-400');
       
       element.scrollIntoView({ behavior: 'smooth', block: 'center' });
-      setCurrentHighlight(index);
     }
   }, []);
 
@@ -247,6 +261,30 @@ const DocumentTab: React.FC<DocumentTabProps> = ({
             </div>
           )}
 
+          {/* Original file actions */}
+          {hasOriginal && (
+            <div className="flex items-center gap-2 mr-4">
+              {isPdf && (
+                <Button
+                  variant={viewMode === 'original' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setViewMode(viewMode === 'original' ? 'view' : 'original')}
+                >
+                  <FileText className="h-3 w-3 mr-1" />
+                  Original
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={download}
+                title="Download the original uploaded file"
+              >
+                <Download className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+
           <Button
             variant="outline"
             size="sm"
@@ -290,14 +328,28 @@ const DocumentTab: React.FC<DocumentTabProps> = ({
 
       {/* Document Content */}
       <div className="flex-1 overflow-hidden">
-        <ScrollArea className="h-full">
-          <div className="p-6">
-            <div 
-              className="prose prose-sm max-w-none font-mono text-sm leading-relaxed whitespace-pre-wrap"
-              dangerouslySetInnerHTML={{ __html: highlightedContent }}
+        {viewMode === 'original' ? (
+          signedUrl ? (
+            <PdfPageViewer
+              url={signedUrl}
+              highlights={highlights}
+              activeHighlight={currentHighlight}
             />
-          </div>
-        </ScrollArea>
+          ) : (
+            <div className="h-full flex items-center justify-center text-sm text-gray-500">
+              Loading original file...
+            </div>
+          )
+        ) : (
+          <ScrollArea className="h-full">
+            <div className="p-6">
+              <div 
+                className="prose prose-sm max-w-none font-mono text-sm leading-relaxed whitespace-pre-wrap"
+                dangerouslySetInnerHTML={{ __html: highlightedContent }}
+              />
+            </div>
+          </ScrollArea>
+        )}
       </div>
 
       {/* Compact Highlights Sidebar */}
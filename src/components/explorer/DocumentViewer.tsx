@@ -3,7 +3,8 @@ import React, { useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
-import { ChevronUp, ChevronDown, X } from 'lucide-react';
+import { ChevronUp, ChevronDown, X, Download } from 'lucide-react';
+import { useOriginalFile } from '@/hooks/useOriginalFile';
 
 interface Highlight {
   text: string;
@@ -16,16 +17,19 @@ interface DocumentViewerProps {
   documentContent: string;
   highlights: Highlight[];
   query: string;
+  documentId?: string;
 }
 
 const DocumentViewer: React.FC<DocumentViewerProps> = ({
   documentTitle,
   documentContent,
   highlights,
-  query
+  query,
+  documentId
 }) => {
   const [currentHighlight, setCurrentHighlight] = useState(0);
   const [showSidebar, setShowSidebar] = useState(true);
+  const { hasOriginal, download } = useOriginalFile(documentId);
 
   const highlightText = (text: string, highlights: Highlight[]) => {
     let highlightedText = text;
@@ -87,6 +91,11 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
               >
                 {showSidebar ? 'Hide' : 'Show'} Highlights
               </Button>
+              {hasOriginal && (
+                <Button size="sm" variant="outline" onClick={download} title="Download the original uploaded file">
+                  <Download className="h-4 w-4" />
+                </Button>
+              )}
               <Button size="sm" variant="outline" onClick={() => window.close()}>
                 <X className="h-4 w-4" />
               </Button>
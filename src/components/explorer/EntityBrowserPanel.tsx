@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ChevronRight, FileText, Loader2, Search, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Client } from '@/services/clientService';
+import {
+  ClientEntity,
+  ENTITY_TYPE_LABELS,
+  EntityMention,
+  EntityType,
+  getClientEntities,
+  getEntityMentions
+} from '@/services/entityService';
+
+interface EntityBrowserPanelProps {
+  client: Client;
+  onOpenMention: (mention: EntityMention) => void;
+}
+
+const entityKey = (entity: ClientEntity) => `${entity.entity_type}:${entity.normalized_key}`;
+
+// Bold the mention inside its surrounding text
+const renderContext = (mention: EntityMention) => {
+  const context = mention.context || mention.text;
+  const index = context.indexOf(mention.text);
+  if (index === -1) return context;
+
+  return (
+    <>
+      {context.slice(0, index)}
+      <strong className="text-gray-900">{mention.text}</strong>
+      {context.slice(index + mention.text.length)}
+    </>
+  );
+};
+
+const EntityMentions: React.FC<{
+  clientId: string;
+  entity: ClientEntity;
+  onOpenMention: (mention: EntityMention) => void;
+}> = ({ clientId, entity, onOpenMention }) => {
+  const { data: mentions = [], isLoading } = useQuery({
+    queryKey: ['entity-mentions', clientId, entity.entity_type, entity.normalized_key],
+    queryFn: () => getEntityMentions(clientId, entity),
+  });
+
+  const byDocument = useMemo(() => {
+    const groups = new Map<string, EntityMention[]>();
+    for (const mention of mentions) {
+      groups.set(mention.document_id, [...(groups.get(mention.document_id) || []), mention]);
+    }
+    return Array.from(groups.values());
+  }, [mentions]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center py-2 pl-6 text-xs text-gray-500">
+        <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+        Loading mentions...
+      </div>
+    );
+  }
+
+  return (
+    <div className="pl-6 pb-2 space-y-2">
+      {byDocument.map(documentMentions => (
+        <div key={documentMentions[0].document_id}>
+          <div className="flex items-center text-xs font-medium text-gray-700">
+            <FileText className="h-3 w-3 mr-1 flex-shrink-0" />
+            <span className="truncate">{documentMentions[0].document_file_name}</span>
+          </div>
+          <ul className="mt-1 space-y-1">
+            {documentMentions.map(mention => (
+              <li key={mention.id}>
+                <button
+                  type="button"
+                  onClick={() => onOpenMention(mention)}
+                  className="w-full text-left px-2 py-1 rounded text-xs text-gray-600 hover:bg-blue-50"
+                >
+                  {(mention.page_number || mention.line_number) && (
+                    <span className="mr-1 text-gray-400">
+                      {mention.page_number ? `p. ${mention.page_number}` : ''}
+                      {mention.page_number && mention.line_number ? ', ' : ''}
+                      {mention.line_number ? `line ${mention.line_number}` : ''}
+                    </span>
+                  )}
+                  {renderContext(mention)}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const EntityBrowserPanel: React.FC<EntityBrowserPanelProps> = ({ client, onOpenMention }) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<EntityType | null>(null);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  const { data: entities = [], isLoading } = useQuery({
+    queryKey: ['client-entities', client.id],
+    queryFn: () => getClientEntities(client.id),
+  });
+
+  const typeCounts = useMemo(() => {
+    const counts = new Map<EntityType, number>();
+    entities.forEach(entity => counts.set(entity.entity_type, (counts.get(entity.entity_type) || 0) + 1));
+    return counts;
+  }, [entities]);
+
+  const filteredEntities = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return entities.filter(entity =>
+      (!typeFilter || entity.entity_type === typeFilter) &&
+      (!query || entity.display_name.toLowerCase().includes(query) || entity.roles.some(role => role.toLowerCase().includes(query)))
+    );
+  }, [entities, searchQuery, typeFilter]);
+
+  const renderTypeFilter = (type: EntityType | null, label: string, count: number) => (
+    <button
+      key={type || 'all'}
+      type="button"
+      onClick={() => setTypeFilter(type)}
+      className={`px-2 py-0.5 rounded-full text-xs border ${
+        typeFilter === type ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+      }`}
+    >
+      {label} ({count})
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b space-y-2 flex-shrink-0">
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Find a party, court, amount..."
+            className="pl-8 h-8 text-sm"
+          />
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {renderTypeFilter(null, 'All', entities.length)}
+          {(Object.keys(ENTITY_TYPE_LABELS) as EntityType[])
+            .filter(type => typeCounts.has(type))
+            .map(type => renderTypeFilter(type, ENTITY_TYPE_LABELS[type], typeCounts.get(type) || 0))}
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        {isLoading && (
+          <div className="flex items-center justify-center py-6 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading entities...
+          </div>
+        )}
+
+        {!isLoading && filteredEntities.length === 0 && (
+          <div className="text-center py-8 px-4 text-sm text-gray-500">
+            <Users className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+            {entities.length === 0
+              ? 'No entities yet. Parties, courts, amounts and citations are indexed as documents are uploaded.'
+              : 'No entities match your search'}
+          </div>
+        )}
+
+        {filteredEntities.map(entity => {
+          const key = entityKey(entity);
+          const isExpanded = expandedKey === key;
+
+          return (
+            <div key={key} className="border-b">
+              <button
+                type="button"
+                onClick={() => setExpandedKey(isExpanded ? null : key)}
+                className="w-full flex items-start px-3 py-2 text-left hover:bg-gray-50"
+              >
+                <ChevronRight className={`h-4 w-4 mt-0.5 mr-1 flex-shrink-0 text-gray-400 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900 truncate">{entity.display_name}</span>
+                    <Badge variant="outline" className="text-[10px] px-1.5 py-0 flex-shrink-0">
+                      {ENTITY_TYPE_LABELS[entity.entity_type]}
+                    </Badge>
+                  </div>
+                  {entity.roles.length > 0 && (
+                    <div className="text-xs text-gray-600 truncate">{entity.roles.join(', ')}</div>
+                  )}
+                  <div className="text-xs text-gray-500">
+                    {entity.mention_count} {entity.mention_count === 1 ? 'mention' : 'mentions'} in {entity.document_count} {entity.document_count === 1 ? 'document' : 'documents'}
+                  </div>
+                </div>
+              </button>
+              {isExpanded && (
+                <EntityMentions clientId={client.id} entity={entity} onOpenMention={onOpenMention} />
+              )}
+            </div>
+          );
+        })}
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default EntityBrowserPanel;
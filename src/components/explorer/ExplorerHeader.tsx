@@ -1,21 +1,35 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { MessageCircle, User, X } from 'lucide-react';
+import { BookOpen, CalendarClock, GitCompare, MessageCircle, User, Users, X } from 'lucide-react';
 
 interface ExplorerHeaderProps {
   isChatOpen: boolean;
   isClientInfoOpen: boolean;
+  isTimelineOpen: boolean;
+  isEntitiesOpen: boolean;
+  isClauseLibraryOpen: boolean;
   onToggleChat: () => void;
   onToggleClientInfo: () => void;
+  onToggleTimeline: () => void;
+  onToggleEntities: () => void;
+  onToggleClauseLibrary: () => void;
+  onCompareDocuments: () => void;
   selectedClientName?: string;
 }
 
 const ExplorerHeader: React.FC<ExplorerHeaderProps> = ({
   isChatOpen,
   isClientInfoOpen,
+  isTimelineOpen,
+  isEntitiesOpen,
+  isClauseLibraryOpen,
   onToggleChat,
   onToggleClientInfo,
+  onToggleTimeline,
+  onToggleEntities,
+  onToggleClauseLibrary,
+  onCompareDocuments,
   selectedClientName
 }) => {
   return (
@@ -38,6 +52,46 @@ const ExplorerHeader: React.FC<ExplorerHeaderProps> = ({
             Client Info
           </Button>
         )}
+
+        {selectedClientName && (
+          <Button
+            variant={isTimelineOpen ? "default" : "outline"}
+            size="sm"
+            onClick={onToggleTimeline}
+          >
+            <CalendarClock className="h-4 w-4 mr-1" />
+            Timeline
+          </Button>
+        )}
+
+        {selectedClientName && (
+          <Button
+            variant={isEntitiesOpen ? "default" : "outline"}
+            size="sm"
+            onClick={onToggleEntities}
+          >
+            <Users className="h-4 w-4 mr-1" />
+            Entities
+          </Button>
+        )}
+
+        <Button
+          variant={isClauseLibraryOpen ? "default" : "outline"}
+          size="sm"
+          onClick={onToggleClauseLibrary}
+        >
+          <BookOpen className="h-4 w-4 mr-1" />
+          Clauses
+        </Button>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onCompareDocuments}
+        >
+          <GitCompare className="h-4 w-4 mr-1" />
+          Compare
+        </Button>
         
         <Button
           variant={isChatOpen ? "default" : "outline"}
@@ -3,8 +3,9 @@ import React, { useState } from 'react';
 import DocumentContent from './DocumentContent';
 import DocumentTabManager from './DocumentTabManager';
 import ExplorerHeader from './ExplorerHeader';
-import RightPanel from './RightPanel';
+import RightPanel, { RightPanelMode } from './RightPanel';
 import DocumentUploadModal from '../DocumentUploadModal';
+import DocumentComparisonDialog from './DocumentComparisonDialog';
 import { useFileExplorer } from '@/contexts/FileExplorerContext';
 import { useDocumentTabs } from '@/hooks/useDocumentTabs';
 import { useQuery } from '@tanstack/react-query';
@@ -13,8 +14,9 @@ import { toast } from 'sonner';
 
 const FileExplorerLayout: React.FC = () => {
   const [showUploadModal, setShowUploadModal] = useState(false);
+  const [showCompareDialog, setShowCompareDialog] = useState(false);
   const [rightPanelOpen, setRightPanelOpen] = useState(false);
-  const [rightPanelMode, setRightPanelMode] = useState<'chat' | 'client-info' | null>(null);
+  const [rightPanelMode, setRightPanelMode] = useState<RightPanelMode | null>(null);
   
   const { selectedClientId, selectedFolderId } = useFileExplorer();
   const { openTabs, handleDocumentOpen } = useDocumentTabs();
@@ -31,23 +33,13 @@ const FileExplorerLayout: React.FC = () => {
   console.log('FileExplorerLayout - clients:', clients);
   console.log('FileExplorerLayout - selectedClient:', selectedClient);
 
-  const handleToggleChat = () => {
-    if (rightPanelOpen && rightPanelMode === 'chat') {
+  const handleToggleRightPanel = (mode: RightPanelMode) => {
+    if (rightPanelOpen && rightPanelMode === mode) {
       setRightPanelOpen(false);
       setRightPanelMode(null);
     } else {
       setRightPanelOpen(true);
-      setRightPanelMode('chat');
-    }
-  };
-
-  const handleToggleClientInfo = () => {
-    if (rightPanelOpen && rightPanelMode === 'client-info') {
-      setRightPanelOpen(false);
-      setRightPanelMode(null);
-    } else {
-      setRightPanelOpen(true);
-      setRightPanelMode('client-info');
+      setRightPanelMode(mode);
     }
   };
 
@@ -72,8 +64,15 @@ const FileExplorerLayout: React.FC = () => {
       <ExplorerHeader
         isChatOpen={rightPanelOpen && rightPanelMode === 'chat'}
         isClientInfoOpen={rightPanelOpen && rightPanelMode === 'client-info'}
-        onToggleChat={handleToggleChat}
-        onToggleClientInfo={handleToggleClientInfo}
+        isTimelineOpen={rightPanelOpen && rightPanelMode === 'timeline'}
+        isEntitiesOpen={rightPanelOpen && rightPanelMode === 'entities'}
+        isClauseLibraryOpen={rightPanelOpen && rightPanelMode === 'clauses'}
+        onToggleChat={() => handleToggleRightPanel('chat')}
+        onToggleClientInfo={() => handleToggleRightPanel('client-info')}
+        onToggleTimeline={() => handleToggleRightPanel('timeline')}
+        onToggleEntities={() => handleToggleRightPanel('entities')}
+        onToggleClauseLibrary={() => handleToggleRightPanel('clauses')}
+        onCompareDocuments={() => setShowCompareDialog(true)}
         selectedClientName={selectedClient?.name}
       />
 
@@ -87,7 +86,7 @@ const FileExplorerLayout: React.FC = () => {
           <DocumentContent />
         </div>
 
-        {/* Right Panel - Chat or Client Info */}
+        {/* Right Panel - Chat, Client Info, Timeline, Entities or Clause Library */}
         {rightPanelOpen && (
           <RightPanel
             isOpen={rightPanelOpen}
@@ -110,6 +109,15 @@ const FileExplorerLayout: React.FC = () => {
           selectedFolderId={selectedFolderId}
         />
       )}
+
+      {/* Cross-document comparison */}
+      {showCompareDialog && (
+        <DocumentComparisonDialog
+          isOpen={showCompareDialog}
+          onClose={() => setShowCompareDialog(false)}
+          selectedClient={selectedClient || null}
+        />
+      )}
     </div>
   );
 };
@@ -11,6 +11,7 @@ interface FileItem {
   type: 'folder' | 'file';
   size?: number;
   modified: string;
+  lowConfidencePages?: number[];
 }
 
 interface FilePanelProps {
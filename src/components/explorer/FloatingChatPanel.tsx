@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { MessageCircle, Send, Loader2, FileText, ExternalLink, Minimize2, Maximize2, X } from 'lucide-react';
+import { MessageCircle, Send, Loader2, FileText, ExternalLink, Minimize2, Maximize2, X, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -8,6 +8,8 @@ import { Card } from '@/components/ui/card';
 import { Client } from '@/services/clientService';
 import { searchDocuments } from '@/services/searchService';
 import { useToast } from '@/hooks/use-toast';
+import { useChatThreads } from '@/hooks/useChatThreads';
+import ChatThreadList from './ChatThreadList';
 
 interface ChatMessage {
   id: string;
@@ -40,7 +42,18 @@ const FloatingChatPanel: React.FC<FloatingChatPanelProps> = ({
   onOpenDocumentWithHighlights 
 }) => {
   const [chatState, setChatState] = useState<ChatState>('expanded');
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const {
+    threads,
+    isLoadingThreads,
+    activeThreadId,
+    messages,
+    appendMessage,
+    selectThread,
+    startNewThread,
+    deleteThread,
+    searchThreads
+  } = useChatThreads<ChatMessage>(client?.id);
+  const [showThreads, setShowThreads] = useState(false);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [width, setWidth] = useState(400);
@@ -201,7 +214,7 @@ const FloatingChatPanel: React.FC<FloatingChatPanelProps> = ({
       timestamp: new Date(),
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    const conversation = appendMessage(userMessage);
     const currentQuery = inputValue.trim();
     setInputValue('');
     setIsLoading(true);
@@ -231,7 +244,7 @@ const FloatingChatPanel: React.FC<FloatingChatPanelProps> = ({
         query: currentQuery,
       };
 
-      setMessages(prev => [...prev, assistantMessage]);
+      appendMessage(assistantMessage, conversation);
     } catch (error) {
       console.error('Error sending message:', error);
       toast({
@@ -301,6 +314,14 @@ const FloatingChatPanel: React.FC<FloatingChatPanelProps> = ({
             <span className="font-semibold text-gray-900">Chat - {client.name}</span>
           </div>
           <div className="flex items-center gap-1">
+            <Button
+              variant={showThreads ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setShowThreads(!showThreads)}
+              title="Conversation history"
+            >
+              <History className="h-4 w-4" />
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -322,7 +343,27 @@ const FloatingChatPanel: React.FC<FloatingChatPanelProps> = ({
           </div>
         </div>
 
-        {chatState === 'expanded' && (
+        {chatState === 'expanded' && showThreads && (
+          <div className="flex-1 min-h-0">
+            <ChatThreadList
+              threads={threads}
+              activeThreadId={activeThreadId}
+              isLoading={isLoadingThreads}
+              onSelectThread={(threadId) => {
+                selectThread(threadId);
+                setShowThreads(false);
+              }}
+              onNewThread={() => {
+                startNewThread();
+                setShowThreads(false);
+              }}
+              onDeleteThread={deleteThread}
+              onSearch={searchThreads}
+            />
+          </div>
+        )}
+
+        {chatState === 'expanded' && !showThreads && (
           <>
             {/* Messages */}
             <ScrollArea className="flex-1 p-4">
@@ -348,7 +389,7 @@ const FloatingChatPanel: React.FC<FloatingChatPanelProps> = ({
                       )}
                       
                       <div className="text-xs opacity-70 mt-3 pt-2 border-t border-gray-200">
-                        {message.timestamp.toLocaleTimeString()}
+                        {message.timestamp.toLocaleString()}
                       </div>
                     </Card>
                   </div>
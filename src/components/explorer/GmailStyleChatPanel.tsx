@@ -1,12 +1,14 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { Send, Loader2, FileText } from 'lucide-react';
+import { Send, Loader2, FileText, AlertTriangle, History, MessageSquarePlus, Square } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Card } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { Client } from '@/services/clientService';
-import { searchDocuments } from '@/services/searchService';
+import { streamSearchDocuments, Retriever, ConversationTurn } from '@/services/searchService';
 import { useToast } from '@/hooks/use-toast';
+import { useChatThreads } from '@/hooks/useChatThreads';
+import ChatThreadList from './ChatThreadList';
 
 interface ChatMessage {
   id: string;
@@ -23,8 +25,10 @@ interface ChatMessage {
       lines?: string;
       section?: string;
       queryRelevance?: number;
+      verified?: boolean;
     }>;
     document_id?: string;
+    retrievers?: Retriever[];
   }>;
   documentCount?: number;
   query?: string;
@@ -43,9 +47,25 @@ const GmailStyleChatPanel: React.FC<GmailStyleChatPanelProps> = ({
   onOpenDocumentWithHighlights,
   onToggle
 }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const {
+    threads,
+    isLoadingThreads,
+    activeThreadId,
+    messages,
+    isLoadingMessages,
+    appendMessage,
+    isCurrentConversation,
+    selectThread,
+    startNewThread,
+    deleteThread,
+    searchThreads
+  } = useChatThreads<ChatMessage>(client?.id);
+  const [showThreads, setShowThreads] = useState(false);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
+  const streamingTextRef = useRef('');
+  const abortControllerRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const { toast } = useToast();
@@ -55,7 +75,12 @@ const GmailStyleChatPanel: React.FC<GmailStyleChatPanelProps> = ({
     if (isOpen) {
       messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages, isOpen]);
+  }, [messages, streamingText, isOpen]);
+
+  // Don't keep generating an answer nobody will see
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
   // Auto-expanding textarea logic
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -219,9 +244,10 @@ const GmailStyleChatPanel: React.FC<GmailStyleChatPanelProps> = ({
                   const citation = formatLegalCitation(excerpt, source);
                   const displayText = excerpt.highlightedText || excerpt.text;
                   const isLong = displayText.length > 120;
+                  const isUnverified = excerpt.verified === false;
                   
                   return (
-                  <div key={excerptIndex} className={`${bgColor} border-l-2 ${borderColor} p-3 rounded-r text-xs`}>
+                  <div key={excerptIndex} className={`${isUnverified ? 'bg-amber-50' : bgColor} border-l-2 ${isUnverified ? 'border-amber-400' : borderColor} p-3 rounded-r text-xs`}>
                     <button
                       onClick={() => handleViewDocument(source, query, content)}
                       className="w-full text-left hover:bg-yellow-100 rounded p-1 -m-1 transition-colors"
@@ -231,6 +257,25 @@ const GmailStyleChatPanel: React.FC<GmailStyleChatPanelProps> = ({
                         <div className="flex items-center">
                           <span className="mr-1 text-sm">{citation.icon}</span>
                           <span className="font-medium">{citation.docName}</span>
+                          {source.retrievers?.includes('keyword') && (
+                            <span
+                              className="ml-2 px-1.5 py-0.5 bg-gray-200 text-gray-600 text-[10px] rounded"
+                              title={source.retrievers.includes('semantic')
+                                ? 'Found by both keyword and semantic search'
+                                : 'Found by exact keyword match'}
+                            >
+                              {source.retrievers.includes('semantic') ? 'Keyword + semantic' : 'Keyword'}
+                            </span>
+                          )}
+                          {isUnverified && (
+                            <span
+                              className="ml-2 px-1.5 py-0.5 bg-amber-100 text-amber-800 text-[10px] rounded flex items-center"
+                              title="This quote could not be found in the source document. Check the original before relying on it."
+                            >
+                              <AlertTriangle className="w-3 h-3 mr-1" />
+                              Unverified
+                            </span>
+                          )}
                         </div>
                         {citation.location && (
                           <span className="text-gray-500 text-xs">{citation.location}</span>
@@ -238,7 +283,7 @@ const GmailStyleChatPanel: React.FC<GmailStyleChatPanelProps> = ({
                       </div>
                       
                       {/* Quote with better formatting */}
-                      <div className="text-blue-700 font-medium leading-relaxed">
+                      <div className={`${isUnverified ? 'text-amber-800' : 'text-blue-700'} font-medium leading-relaxed`}>
                         <span className="text-blue-600">"</span>
                         {isLong ? displayText.substring(0, 120) + '...' : displayText}
                         <span className="text-blue-600">"</span>
@@ -297,7 +342,12 @@ const GmailStyleChatPanel: React.FC<GmailStyleChatPanelProps> = ({
       query: inputValue.trim(),
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    // Prior turns of this thread, so the search can resolve follow-ups like "what about the second child?"
+    const history: ConversationTurn[] = messages
+      .filter(message => message.content && message.content.trim() !== '')
+      .map(message => ({ role: message.role, content: message.content }));
+
+    const conversation = appendMessage(userMessage);
     const currentQuery = inputValue.trim();
     setInputValue('');
     
@@ -307,10 +357,26 @@ const GmailStyleChatPanel: React.FC<GmailStyleChatPanelProps> = ({
     }
     
     setIsLoading(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    streamingTextRef.current = '';
+    setStreamingText('');
 
     try {
       console.log('Sending search query:', currentQuery, 'for client:', client.name, 'with ID:', client.id);
-      const response = await searchDocuments(currentQuery, client.id, client);
+      const response = await streamSearchDocuments(currentQuery, client.id, client, {}, history, {
+        onToken: (text) => {
+          streamingTextRef.current += text;
+          if (isCurrentConversation(conversation)) {
+            setStreamingText(streamingTextRef.current);
+          }
+        },
+        onReset: () => {
+          streamingTextRef.current = '';
+          setStreamingText('');
+        },
+        signal: abortController.signal
+      });
       console.log('Search response:', response);
       
       // Better error handling for no results
@@ -336,7 +402,7 @@ For document content, make sure documents are uploaded and processed. You can al
           timestamp: new Date(),
         };
         
-        setMessages(prev => [...prev, fallbackChatMessage]);
+        appendMessage(fallbackChatMessage, conversation);
         setInputValue('');
         return;
       }
@@ -353,6 +419,7 @@ For document content, make sure documents are uploaded and processed. You can al
             document_title: doc.document_title,
             document_file_name: doc.document_file_name,
             document_id: doc.document_id,
+            retrievers: doc.retrievers,
             excerpts: doc.excerpts.map((excerpt, excerptIndex) => ({
               page: excerpt.page,
               text: excerpt.text, // This is now the LLM-extracted span
@@ -360,6 +427,7 @@ For document content, make sure documents are uploaded and processed. You can al
               section: excerpt.section,
               queryRelevance: excerpt.queryRelevance || 1.0,
               legal_metadata: excerpt.legal_metadata,
+              verified: excerpt.verified,
               originalIndex: excerptIndex,
             })),
           };
@@ -390,11 +458,26 @@ For document content, make sure documents are uploaded and processed. You can al
         timestamp: new Date(),
         sources,
         documentCount: response.results?.length || 0,
-        query: currentQuery,
+        query: response.standalone_query || currentQuery, // Resolved follow-up, so document highlights match what was searched
       };
 
-      setMessages(prev => [...prev, assistantMessage]);
+      appendMessage(assistantMessage, conversation);
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Keep whatever was written before the user stopped it; there are no citations to attach
+        const partialAnswer = streamingTextRef.current.trim();
+        if (partialAnswer) {
+          appendMessage({
+            id: (Date.now() + 1).toString(),
+            role: 'assistant',
+            content: `${partialAnswer}\n\n(Stopped)`,
+            timestamp: new Date(),
+            query: currentQuery,
+          }, conversation);
+        }
+        return;
+      }
+
       console.error('Error sending message:', error);
       toast({
         title: "Error",
@@ -402,10 +485,19 @@ For document content, make sure documents are uploaded and processed. You can al
         variant: "destructive",
       });
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      streamingTextRef.current = '';
+      setStreamingText('');
       setIsLoading(false);
     }
   };
 
+  const handleStopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -418,84 +510,180 @@ For document content, make sure documents are uploaded and processed. You can al
     [messages]
   );
 
+  const handleSelectThread = (threadId: string) => {
+    selectThread(threadId);
+    setStreamingText('');
+    setShowThreads(false);
+  };
+
+  const handleNewThread = () => {
+    startNewThread();
+    setStreamingText('');
+    setShowThreads(false);
+  };
+
+  // Reopened threads span days, so older messages need the date as well as the time
+  const formatMessageTime = (timestamp: Date) => {
+    return timestamp.toDateString() === new Date().toDateString()
+      ? timestamp.toLocaleTimeString()
+      : timestamp.toLocaleString();
+  };
+
+  const activeThread = threads.find(thread => thread.id === activeThreadId);
+
   if (!client) {
     return null;
   }
   
   return (
     <div className="flex flex-col h-full">
-      {/* Messages Area - Use calc to reserve space for input */}
-      <div className="flex-1 overflow-auto min-h-0">
-        <div className="p-4 pb-6">
-          <div className="space-y-4">
-            {filteredMessages.length === 0 && (
-              <div className="text-center py-8 text-gray-500">
-                <p className="font-medium">Start a conversation about {client.name}'s case</p>
-                <p className="text-sm">Ask questions about documents, deadlines, or case details</p>
-                <p className="text-xs mt-2 text-gray-400">
-                  Try: "What folders do I have?" or "What were the ages of the two minors?"
-                </p>
-              </div>
-            )}
+      {/* Thread toolbar */}
+      <div className="h-10 px-2 border-b flex items-center justify-between flex-shrink-0">
+        <Button
+          variant={showThreads ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => setShowThreads(!showThreads)}
+          className="text-xs"
+        >
+          <History className="h-4 w-4 mr-1" />
+          History
+        </Button>
+        <span className="flex-1 mx-2 text-xs text-gray-500 truncate text-center">
+          {showThreads ? `${client.name}'s conversations` : activeThread?.title || 'New conversation'}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleNewThread}
+          className="h-8 w-8"
+          title="New conversation"
+        >
+          <MessageSquarePlus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {showThreads ? (
+        <div className="flex-1 min-h-0">
+          <ChatThreadList
+            threads={threads}
+            activeThreadId={activeThreadId}
+            isLoading={isLoadingThreads}
+            onSelectThread={handleSelectThread}
+            onNewThread={handleNewThread}
+            onDeleteThread={deleteThread}
+            onSearch={searchThreads}
+          />
+        </div>
+      ) : (
+        <>
+          {/* Messages Area - Use calc to reserve space for input */}
+          <div className="flex-1 overflow-auto min-h-0">
+            <div className="p-4 pb-6">
+              <div className="space-y-4">
+                {isLoadingMessages && (
+                  <div className="flex items-center justify-center py-8 text-sm text-gray-500">
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Loading conversation...
+                  </div>
+                )}
+
+                {!isLoadingMessages && filteredMessages.length === 0 && (
+                  <div className="text-center py-8 text-gray-500">
+                    <p className="font-medium">Start a conversation about {client.name}'s case</p>
+                    <p className="text-sm">Ask questions about documents, deadlines, or case details</p>
+                    <p className="text-xs mt-2 text-gray-400">
+                      Try: "What folders do I have?" or "What were the ages of the two minors?"
+                    </p>
+                  </div>
+                )}
             
-            {filteredMessages.map((message) => (
-              <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                <Card className={`max-w-[90%] p-4 ${
-                  message.role === 'user' 
-                    ? 'bg-blue-500 text-white' 
-                    : 'bg-gray-100'
-                }`}>
-                  {message.role === 'assistant' && message.sources ? (
-                    formatAIResponse(message.content, message.sources, message.documentCount || 0, message.query || '')
-                  ) : (
-                    <div className="text-sm whitespace-pre-wrap">{message.content}</div>
-                  )}
+                {filteredMessages.map((message) => (
+                  <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                    <Card className={`max-w-[90%] p-4 ${
+                      message.role === 'user' 
+                        ? 'bg-blue-500 text-white' 
+                        : 'bg-gray-100'
+                    }`}>
+                      {message.role === 'assistant' && message.sources ? (
+                        formatAIResponse(message.content, message.sources, message.documentCount || 0, message.query || '')
+                      ) : (
+                        <div className="text-sm whitespace-pre-wrap">{message.content}</div>
+                      )}
                   
-                  <div className="text-xs opacity-70 mt-3 pt-2 border-t border-gray-200">
-                    {message.timestamp.toLocaleTimeString()}
+                      <div className="text-xs opacity-70 mt-3 pt-2 border-t border-gray-200">
+                        {formatMessageTime(message.timestamp)}
+                      </div>
+                    </Card>
                   </div>
-                </Card>
-              </div>
-            ))}
+                ))}
             
-            {isLoading && (
-              <div className="flex justify-start">
-                <Card className="max-w-[80%] p-3 bg-gray-100">
-                  <div className="flex items-center text-sm text-gray-600">
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    I'm looking through {client.name}'s documents...
+                {isLoading && streamingText && (
+                  <div className="flex justify-start">
+                    <Card className="max-w-[90%] p-4 bg-gray-100">
+                      <div className="text-sm leading-relaxed text-gray-800 whitespace-pre-wrap">
+                        {streamingText}
+                        <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-500 animate-pulse" />
+                      </div>
+                      <div className="text-xs text-gray-500 mt-3 pt-2 border-t border-gray-200 flex items-center">
+                        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                        Sources will appear when the answer is complete
+                      </div>
+                    </Card>
+                  </div>
+                )}
+
+                {isLoading && !streamingText && (
+                  <div className="flex justify-start">
+                    <Card className="max-w-[80%] p-3 bg-gray-100">
+                      <div className="flex items-center text-sm text-gray-600">
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        I'm looking through {client.name}'s documents...
+                      </div>
+                    </Card>
                   </div>
-                </Card>
+                )}
               </div>
-            )}
+              <div ref={messagesEndRef} />
+            </div>
           </div>
-          <div ref={messagesEndRef} />
-        </div>
-      </div>
 
-      {/* Input Area - Fixed height at bottom */}
-      <div className="border-t bg-white p-4 flex-shrink-0" style={{ height: '90px', minHeight: '90px' }}>
-        <div className="flex gap-2 items-center h-full">
-          <Textarea
-            ref={textareaRef}
-            value={inputValue}
-            onChange={handleInputChange}
-            onKeyDown={handleKeyPress}
-            placeholder={`Search ${client.name}'s documents...`}
-            disabled={isLoading}
-            className="flex-1 resize-none"
-            rows={1}
-          />
-          <Button 
-            onClick={handleSendMessage}
-            disabled={!inputValue.trim() || isLoading}
-            size="icon"
-            className="flex-shrink-0"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
-        </div>
-      </div>
+          {/* Input Area - Fixed height at bottom */}
+          <div className="border-t bg-white p-4 flex-shrink-0" style={{ height: '90px', minHeight: '90px' }}>
+            <div className="flex gap-2 items-center h-full">
+              <Textarea
+                ref={textareaRef}
+                value={inputValue}
+                onChange={handleInputChange}
+                onKeyDown={handleKeyPress}
+                placeholder={`Search ${client.name}'s documents...`}
+                disabled={isLoading}
+                className="flex-1 resize-none"
+                rows={1}
+              />
+              {isLoading ? (
+                <Button
+                  onClick={handleStopGenerating}
+                  variant="outline"
+                  size="icon"
+                  className="flex-shrink-0"
+                  title="Stop generating"
+                >
+                  <Square className="h-4 w-4 fill-current" />
+                </Button>
+              ) : (
+                <Button 
+                  onClick={handleSendMessage}
+                  disabled={!inputValue.trim()}
+                  size="icon"
+                  className="flex-shrink-0"
+                >
+                  <Send className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
 };
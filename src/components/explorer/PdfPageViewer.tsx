@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { Loader2 } from 'lucide-react';
+import { loadPdfDocument, getPositionedTextItems } from '@/utils/fileProcessor';
+import { findSpanSegments } from '@/utils/pdfHighlightUtils';
+
+interface PdfHighlight {
+  text: string;
+  page?: number;
+}
+
+interface IndexedHighlight extends PdfHighlight {
+  index: number;
+}
+
+interface HighlightBox {
+  index: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface PdfPageViewerProps {
+  url: string;
+  highlights: PdfHighlight[];
+  activeHighlight: number;
+  scale?: number;
+}
+
+interface PdfPageProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  scale: number;
+  highlights: IndexedHighlight[];
+  activeHighlight: number;
+}
+
+const PdfPage: React.FC<PdfPageProps> = ({ pdf, pageNumber, scale, highlights, activeHighlight }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [boxes, setBoxes] = useState<HighlightBox[]>([]);
+
+  // Reserve the page's space up front so scrolling to a page lands in the right place
+  useEffect(() => {
+    let cancelled = false;
+    pdf.getPage(pageNumber).then(page => {
+      if (cancelled) return;
+      const viewport = page.getViewport({ scale });
+      setSize({ width: viewport.width, height: viewport.height });
+    });
+    return () => { cancelled = true; };
+  }, [pdf, pageNumber, scale]);
+
+  // Only rasterize pages once they come near the viewport
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element || isVisible) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '400px' });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [isVisible]);
+
+  useEffect(() => {
+    if (!isVisible) return;
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    const renderPage = async () => {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      renderTask = page.render({ canvasContext: canvas.getContext('2d')!, viewport });
+      await renderTask.promise;
+
+      const items = await getPositionedTextItems(page);
+      if (cancelled) return;
+
+      const pageBoxes = highlights.flatMap(highlight =>
+        findSpanSegments(items, highlight.text).map(segment => {
+          const { item } = segment;
+          const x1 = item.x + item.width * segment.startFraction;
+          const x2 = item.x + item.width * segment.endFraction;
+          const [vx1, vy1, vx2, vy2] = viewport.convertToViewportRectangle([x1, item.y, x2, item.y + item.height]);
+          return {
+            index: highlight.index,
+            left: Math.min(vx1, vx2),
+            top: Math.min(vy1, vy2),
+            width: Math.abs(vx2 - vx1),
+            height: Math.abs(vy2 - vy1)
+          };
+        })
+      );
+
+      setBoxes(pageBoxes);
+    };
+
+    renderPage().catch(error => {
+      if (!cancelled && error?.name !== 'RenderingCancelledException') {
+        console.error(`Error rendering PDF page ${pageNumber}:`, error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [isVisible, pdf, pageNumber, scale, highlights]);
+
+  // Bring the active highlight into view once its boxes are known
+  useEffect(() => {
+    const activeBox = containerRef.current?.querySelector(`[data-highlight-index="${activeHighlight}"]`);
+    activeBox?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [boxes, activeHighlight]);
+
+  return (
+    <div
+      ref={containerRef}
+      data-page-number={pageNumber}
+      className="relative mx-auto mb-4 bg-white shadow"
+      style={size ? { width: size.width, height: size.height } : { minHeight: 800 }}
+    >
+      <canvas ref={canvasRef} className="block" />
+      {boxes.map((box, i) => (
+        <div
+          key={i}
+          data-highlight-index={box.index}
+          className={`absolute rounded-sm mix-blend-multiply pointer-events-none ${
+            box.index === activeHighlight ? 'bg-yellow-400/60' : 'bg-yellow-200/60'
+          }`}
+          style={{ left: box.left, top: box.top, width: box.width, height: box.height }}
+        />
+      ))}
+      <div className="absolute bottom-1 right-2 text-xs text-gray-400">{pageNumber}</div>
+    </div>
+  );
+};
+
+const PdfPageViewer: React.FC<PdfPageViewerProps> = ({
+  url,
+  highlights,
+  activeHighlight,
+  scale = 1.25
+}) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Group highlights per page once, so changing the active highlight doesn't re-render every page
+  const highlightsByPage = useMemo(() => {
+    if (!pdf) return [];
+    const indexed = highlights.map((highlight, index) => ({ ...highlight, index }));
+    return Array.from({ length: pdf.numPages }, (_, i) =>
+      // Highlights without a page number are searched for on every page
+      indexed.filter(h => !h.page || h.page === i + 1)
+    );
+  }, [pdf, highlights]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPdf(null);
+    setError(null);
+
+    loadPdfDocument(url)
+      .then(doc => {
+        if (!cancelled) setPdf(doc);
+      })
+      .catch(err => {
+        console.error('Error loading PDF:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load PDF');
+      });
+
+    return () => { cancelled = true; };
+  }, [url]);
+
+  // Jump to the cited page; the page then scrolls its highlight box into view
+  useEffect(() => {
+    const page = highlights[activeHighlight]?.page;
+    if (!pdf || !page) return;
+    const pageElement = scrollRef.current?.querySelector(`[data-page-number="${page}"]`);
+    pageElement?.scrollIntoView({ block: 'start' });
+  }, [pdf, highlights, activeHighlight]);
+
+  if (error) {
+    return (
+      <div className="h-full flex items-center justify-center text-sm text-red-600">
+        Failed to load original PDF: {error}
+      </div>
+    );
+  }
+
+  if (!pdf) {
+    return (
+      <div className="h-full flex items-center justify-center text-sm text-gray-500">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Loading PDF...
+      </div>
+    );
+  }
+
+  return (
+    <div ref={scrollRef} className="h-full overflow-auto bg-gray-100 p-4">
+      {highlightsByPage.map((pageHighlights, i) => (
+        <PdfPage
+          key={i + 1}
+          pdf={pdf}
+          pageNumber={i + 1}
+          scale={scale}
+          highlights={pageHighlights}
+          activeHighlight={activeHighlight}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default PdfPageViewer;
@@ -4,11 +4,29 @@ import { X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import GmailStyleChatPanel from './GmailStyleChatPanel';
 import ClientInfoPanel from '../finder/ClientInfoPanel';
+import CaseBriefPanel from '../finder/CaseBriefPanel';
+import TimelinePanel from './TimelinePanel';
+import EntityBrowserPanel from './EntityBrowserPanel';
+import ClauseLibraryPanel from './ClauseLibraryPanel';
 import { Client } from '@/services/clientService';
+import { BriefCitation } from '@/services/caseBriefService';
+import { TimelineEvent } from '@/services/timelineService';
+import { EntityMention } from '@/services/entityService';
+import { LibraryClause } from '@/services/clauseService';
+
+export type RightPanelMode = 'chat' | 'client-info' | 'timeline' | 'entities' | 'clauses';
+
+const PANEL_TITLES: Record<RightPanelMode, string> = {
+  'chat': 'Chat',
+  'client-info': 'Client Information',
+  'timeline': 'Timeline',
+  'entities': 'Entities',
+  'clauses': 'Clause Library',
+};
 
 interface RightPanelProps {
   isOpen: boolean;
-  mode: 'chat' | 'client-info' | null;
+  mode: RightPanelMode | null;
   selectedClient: Client | null;
   onClose: () => void;
   onClientUpdated: (client: Client) => void;
@@ -25,12 +43,40 @@ const RightPanel: React.FC<RightPanelProps> = ({
 }) => {
   if (!isOpen || !mode) return null;
 
+  // Open a document that something in the panel cites, highlighting the quoted text if there is one
+  const openSourceDocument = (documentId: string, fileName: string, quote: string | null, page?: number | null) => {
+    const documentData = {
+      id: documentId,
+      name: fileName,
+      document_title: fileName,
+      document_file_name: fileName,
+    };
+    onOpenDocumentWithHighlights(documentData, quote ? [{ text: quote, page: page ?? undefined }] : [], '');
+  };
+
+  const handleOpenCitation = (citation: BriefCitation) => {
+    openSourceDocument(citation.document_id, citation.file_name, citation.quote);
+  };
+
+  const handleOpenTimelineEvent = (event: TimelineEvent) => {
+    openSourceDocument(event.document_id, event.document_file_name, event.quote, event.page_number);
+  };
+
+  const handleOpenEntityMention = (mention: EntityMention) => {
+    openSourceDocument(mention.document_id, mention.document_file_name, mention.text, mention.page_number);
+  };
+
+  // Highlight the clause's heading line; the whole clause is usually too long to match as one highlight
+  const handleOpenClause = (clause: LibraryClause) => {
+    openSourceDocument(clause.document_id, clause.document_file_name, clause.text.split('\n')[0].trim(), clause.page_number);
+  };
+
   return (
     <div className="h-full border-l border-gray-200 bg-white flex flex-col">
       {/* Header */}
       <div className="h-12 px-4 border-b bg-gray-50 flex items-center justify-between flex-shrink-0">
         <h3 className="font-semibold text-gray-900">
-          {mode === 'chat' ? 'Chat' : 'Client Information'}
+          {PANEL_TITLES[mode]}
         </h3>
         <Button
           onClick={onClose}
@@ -66,8 +112,33 @@ const RightPanel: React.FC<RightPanelProps> = ({
               client={selectedClient}
               onClientUpdated={onClientUpdated}
             />
+            <CaseBriefPanel
+              clientId={selectedClient.id}
+              onOpenCitation={handleOpenCitation}
+            />
           </div>
         )}
+
+        {mode === 'timeline' && selectedClient && (
+          <TimelinePanel
+            client={selectedClient}
+            onOpenEvent={handleOpenTimelineEvent}
+          />
+        )}
+
+        {mode === 'entities' && selectedClient && (
+          <EntityBrowserPanel
+            client={selectedClient}
+            onOpenMention={handleOpenEntityMention}
+          />
+        )}
+
+        {mode === 'clauses' && (
+          <ClauseLibraryPanel
+            selectedClient={selectedClient}
+            onOpenClause={handleOpenClause}
+          />
+        )}
       </div>
     </div>
   );
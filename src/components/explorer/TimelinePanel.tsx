@@ -0,0 +1,298 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { CalendarClock, Download, FileText, Loader2, Merge, RefreshCw, Search, Split } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Client } from '@/services/clientService';
+import {
+  CHRONOLOGY_HEADERS,
+  TimelineEntry,
+  TimelineEvent,
+  formatEventDate,
+  getChronologyRows,
+  getTimelineEvents,
+  groupTimelineEvents,
+  mergeTimelineEvents,
+  timelineToCsv,
+  unmergeTimelineEvent
+} from '@/services/timelineService';
+import { backfillChunkExtraction } from '@/services/ingestionJobService';
+import { downloadPDF, pdfExportService } from '@/services/pdfExportService';
+import { saveBlobAs } from '@/services/documentStorageService';
+import { useToast } from '@/hooks/use-toast';
+
+interface TimelinePanelProps {
+  client: Client;
+  onOpenEvent: (event: TimelineEvent) => void;
+}
+
+const ALL_DOCUMENTS = 'all';
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({ client, onOpenEvent }) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [documentFilter, setDocumentFilter] = useState(ALL_DOCUMENTS);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isMerging, setIsMerging] = useState(false);
+  const [isBackfilling, setIsBackfilling] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: events = [], isLoading } = useQuery({
+    queryKey: ['timeline-events', client.id],
+    queryFn: () => getTimelineEvents(client.id),
+  });
+
+  const entries = useMemo(() => groupTimelineEvents(events), [events]);
+
+  const documents = useMemo(() => {
+    const byId = new Map<string, string>();
+    events.forEach(event => byId.set(event.document_id, event.document_file_name));
+    return Array.from(byId.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [events]);
+
+  // An entry matches a document filter if any of its sources comes from that document
+  const filteredEntries = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return entries.filter(entry => {
+      const sources = [entry, ...entry.duplicates];
+      if (documentFilter !== ALL_DOCUMENTS && !sources.some(event => event.document_id === documentFilter)) return false;
+      if (fromDate && (!entry.event_date || entry.event_date < fromDate)) return false;
+      if (toDate && (!entry.event_date || entry.event_date > toDate)) return false;
+      if (query && !sources.some(event =>
+        event.description.toLowerCase().includes(query) || event.date_text.toLowerCase().includes(query)
+      )) return false;
+      return true;
+    });
+  }, [entries, searchQuery, documentFilter, fromDate, toDate]);
+
+  const refreshEvents = () => {
+    queryClient.invalidateQueries({ queryKey: ['timeline-events', client.id] });
+  };
+
+  const toggleSelected = (entryId: string) => {
+    setSelectedIds(prev => prev.includes(entryId) ? prev.filter(id => id !== entryId) : [...prev, entryId]);
+  };
+
+  // The earliest selected entry in the timeline keeps its wording; the rest become its sources
+  const handleMerge = async () => {
+    const selected = filteredEntries.filter(entry => selectedIds.includes(entry.id));
+    if (selected.length < 2) return;
+
+    setIsMerging(true);
+    try {
+      await mergeTimelineEvents(selected[0].id, selected.slice(1).map(entry => entry.id));
+      setSelectedIds([]);
+      refreshEvents();
+    } catch (error) {
+      console.error('Error merging timeline events:', error);
+      toast({
+        title: "Error",
+        description: "Failed to merge events. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const handleSplit = async (event: TimelineEvent) => {
+    try {
+      await unmergeTimelineEvent(event.id);
+      refreshEvents();
+    } catch (error) {
+      console.error('Error splitting timeline event:', error);
+      toast({
+        title: "Error",
+        description: "Failed to split the event. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Events only come from documents the extraction pass has run over, so older uploads need a rescan
+  const handleBackfill = async () => {
+    setIsBackfilling(true);
+    try {
+      const queued = await backfillChunkExtraction(client.id);
+      toast({
+        title: queued > 0 ? "Rescan started" : "Nothing to rescan",
+        description: queued > 0
+          ? `Extracting events from ${queued} document${queued === 1 ? '' : 's'}. New events appear as they are found.`
+          : "Every document has already been scanned for events.",
+      });
+    } catch (error) {
+      console.error('Error starting timeline backfill:', error);
+      toast({
+        title: "Error",
+        description: "Failed to start the rescan. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBackfilling(false);
+    }
+  };
+
+  const exportFileName = (extension: string) =>
+    `${client.name.replace(/[^a-zA-Z0-9]/g, '_')}_chronology.${extension}`;
+
+  const handleExportCsv = () => {
+    // Excel needs the byte order mark to read the file as UTF-8
+    const blob = new Blob(['\uFEFF', timelineToCsv(filteredEntries)], { type: 'text/csv;charset=utf-8' });
+    saveBlobAs(blob, exportFileName('csv'));
+  };
+
+  const handleExportPdf = async () => {
+    try {
+      const blob = await pdfExportService.exportChronology(
+        `Chronology: ${client.name}`,
+        CHRONOLOGY_HEADERS,
+        getChronologyRows(filteredEntries)
+      );
+      downloadPDF(blob, exportFileName('pdf'));
+    } catch (error) {
+      console.error('Error exporting chronology:', error);
+      toast({
+        title: "Export failed",
+        description: "Could not create the PDF. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderSource = (event: TimelineEvent, entry: TimelineEntry) => (
+    <div key={event.id} className="flex items-center gap-1 group/source">
+      <button
+        type="button"
+        onClick={() => onOpenEvent(event)}
+        title={event.quote ? `"${event.quote}"` : event.document_file_name}
+        className="inline-flex items-center min-w-0 px-1.5 py-0.5 rounded bg-blue-50 text-xs text-blue-700 hover:bg-blue-100"
+      >
+        <FileText className="h-3 w-3 mr-1 flex-shrink-0" />
+        <span className="truncate">{event.document_file_name}</span>
+        {event.page_number && <span className="ml-1 flex-shrink-0">p. {event.page_number}</span>}
+      </button>
+      {event.id !== entry.id && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-5 w-5 opacity-0 group-hover/source:opacity-100"
+          onClick={() => handleSplit(event)}
+          title="Split this source back into its own event"
+        >
+          <Split className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b space-y-2 flex-shrink-0">
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Filter events..."
+            className="pl-8 h-8 text-sm"
+          />
+        </div>
+        <Select value={documentFilter} onValueChange={setDocumentFilter}>
+          <SelectTrigger className="h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_DOCUMENTS}>All documents</SelectItem>
+            {documents.map(([id, fileName]) => (
+              <SelectItem key={id} value={id}>{fileName}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="h-8 text-sm" title="From" />
+          <span className="text-xs text-gray-500">to</span>
+          <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="h-8 text-sm" title="To" />
+        </div>
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleMerge}
+            disabled={selectedIds.length < 2 || isMerging}
+            title="Merge the selected events into the earliest one"
+          >
+            {isMerging ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Merge className="h-4 w-4 mr-1" />}
+            Merge{selectedIds.length > 1 ? ` (${selectedIds.length})` : ''}
+          </Button>
+          <div className="flex space-x-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleBackfill}
+              disabled={isBackfilling}
+              title="Extract events from documents uploaded before the timeline existed"
+            >
+              {isBackfilling ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleExportCsv} disabled={filteredEntries.length === 0}>
+              <Download className="h-4 w-4 mr-1" />
+              CSV
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleExportPdf} disabled={filteredEntries.length === 0}>
+              <Download className="h-4 w-4 mr-1" />
+              PDF
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        {isLoading && (
+          <div className="flex items-center justify-center py-6 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading timeline...
+          </div>
+        )}
+
+        {!isLoading && filteredEntries.length === 0 && (
+          <div className="text-center py-8 px-4 text-sm text-gray-500">
+            <CalendarClock className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+            {entries.length === 0
+              ? 'No dated events yet. Events are extracted from documents as they are uploaded.'
+              : 'No events match your filters'}
+          </div>
+        )}
+
+        <ol className="relative ml-5 border-l border-gray-200">
+          {filteredEntries.map(entry => (
+            <li key={entry.id} className="relative pl-4 pr-3 py-2">
+              <span className="absolute -left-1.5 top-3.5 h-3 w-3 rounded-full border-2 border-white bg-blue-500" />
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  checked={selectedIds.includes(entry.id)}
+                  onCheckedChange={() => toggleSelected(entry.id)}
+                  className="mt-0.5"
+                  aria-label="Select event"
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="text-xs font-semibold text-gray-900">{formatEventDate(entry)}</div>
+                  <div className="text-sm text-gray-800">{entry.description}</div>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {[entry, ...entry.duplicates].map(event => renderSource(event, entry))}
+                  </div>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ol>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default TimelinePanel;
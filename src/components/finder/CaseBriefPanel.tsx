@@ -0,0 +1,287 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, ChevronDown, FileText, Loader2, RefreshCw, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Progress } from '@/components/ui/progress';
+import {
+  BriefCitation,
+  CaseBriefContent,
+  generateCaseBrief,
+  getCaseBrief,
+  isCaseBriefActive,
+  isCaseBriefStalled,
+  resumeCaseBrief
+} from '@/services/caseBriefService';
+import { useToast } from '@/hooks/use-toast';
+
+interface CaseBriefPanelProps {
+  clientId: string;
+  folderId?: string | null;
+  folderName?: string | null;
+  onOpenCitation?: (citation: BriefCitation) => void;
+}
+
+// How often to check on a brief that is still being generated
+const POLL_INTERVAL_MS = 3000;
+
+interface BriefRow {
+  primary: string;
+  secondary?: string;
+  citations: BriefCitation[];
+}
+
+const getBriefSections = (brief: CaseBriefContent): { title: string; rows: BriefRow[] }[] => [
+  {
+    title: 'Parties',
+    rows: brief.parties.map(party => ({ primary: party.name, secondary: party.role, citations: party.citations }))
+  },
+  {
+    title: 'Key Dates',
+    rows: brief.key_dates.map(keyDate => ({ primary: keyDate.date, secondary: keyDate.event, citations: keyDate.citations }))
+  },
+  {
+    title: 'Claims',
+    rows: brief.claims.map(claim => ({ primary: claim.description, citations: claim.citations }))
+  },
+  {
+    title: 'Obligations',
+    rows: brief.obligations.map(obligation => ({ primary: obligation.party, secondary: obligation.description, citations: obligation.citations }))
+  },
+  {
+    title: 'Open Issues',
+    rows: brief.open_issues.map(issue => ({ primary: issue.description, citations: issue.citations }))
+  }
+];
+
+// One chip per document; several quotes from the same document open its first one
+const groupCitationsByDocument = (citations: BriefCitation[]) => {
+  const byDocument = new Map<string, BriefCitation>();
+  for (const citation of citations) {
+    const existing = byDocument.get(citation.document_id);
+    if (!existing || (!existing.quote && citation.quote)) {
+      byDocument.set(citation.document_id, citation);
+    }
+  }
+  return Array.from(byDocument.values());
+};
+
+const CaseBriefPanel: React.FC<CaseBriefPanelProps> = ({ clientId, folderId, folderName, onOpenCitation }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const autoResumedRef = useRef<string | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const queryKey = ['case-brief', clientId, folderId || null];
+
+  const { data: caseBrief, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => getCaseBrief(clientId, folderId),
+    refetchInterval: (query) => {
+      const current = query.state.data;
+      return current && isCaseBriefActive(current) && !isCaseBriefStalled(current) ? POLL_INTERVAL_MS : false;
+    },
+  });
+
+  const isStalled = !isStarting && !!caseBrief && isCaseBriefStalled(caseBrief);
+  const isGenerating = isStarting || (!!caseBrief && isCaseBriefActive(caseBrief) && !isStalled);
+
+  const runWorker = async (start: () => Promise<void>, failure: string) => {
+    setIsOpen(true);
+    setIsStarting(true);
+
+    // The first worker run can take a while; poll meanwhile so progress shows up as it is saved
+    const poll = setInterval(() => queryClient.invalidateQueries({ queryKey }), POLL_INTERVAL_MS);
+
+    try {
+      await start();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: "Error",
+        description: `${failure}. Please try again.`,
+        variant: "destructive",
+      });
+    } finally {
+      clearInterval(poll);
+      setIsStarting(false);
+      queryClient.invalidateQueries({ queryKey });
+    }
+  };
+
+  const handleRetry = () => {
+    if (caseBrief) {
+      runWorker(() => resumeCaseBrief(caseBrief.id), 'Failed to resume the case brief');
+    }
+  };
+
+  // Pick a stalled brief back up once on its own, the way stalled ingestion jobs are resumed;
+  // if it stalls again the user gets a Retry button
+  const stalledBriefId = isStalled ? caseBrief?.id : undefined;
+  useEffect(() => {
+    if (!stalledBriefId || autoResumedRef.current === stalledBriefId) return;
+    autoResumedRef.current = stalledBriefId;
+    console.log(`Case brief ${stalledBriefId} has no active worker, resuming`);
+    resumeCaseBrief(stalledBriefId)
+      .catch(error => console.error('Error resuming case brief:', error))
+      .finally(() => queryClient.invalidateQueries({ queryKey: ['case-brief', clientId, folderId || null] }));
+  }, [stalledBriefId, clientId, folderId, queryClient]);
+
+  const handleGenerate = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    runWorker(() => generateCaseBrief(clientId, folderId), 'Failed to generate the case brief');
+  };
+
+  const brief = caseBrief?.brief;
+  const progress = caseBrief && caseBrief.total_documents > 0
+    ? (caseBrief.processed_documents / caseBrief.total_documents) * 100
+    : 0;
+
+  return (
+    <Card className="mb-4">
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CollapsibleTrigger asChild>
+          <CardHeader className="cursor-pointer hover:bg-gray-50 pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg flex items-center">
+                Case Brief
+                {folderName && <span className="ml-2 text-sm font-normal text-gray-500 truncate">({folderName})</span>}
+                <ChevronDown className={`ml-2 h-4 w-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+              </CardTitle>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleGenerate}
+                disabled={isGenerating}
+                title={brief ? 'Refresh brief' : 'Generate brief'}
+              >
+                {isGenerating ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : brief ? (
+                  <RefreshCw className="h-4 w-4" />
+                ) : (
+                  <Sparkles className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-4">
+            {isLoading && (
+              <div className="flex items-center text-sm text-gray-500">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading brief...
+              </div>
+            )}
+
+            {isGenerating && (
+              <div className="space-y-1">
+                <div className="text-sm text-gray-600">
+                  {caseBrief && caseBrief.total_documents > 0 && caseBrief.processed_documents < caseBrief.total_documents
+                    ? `Summarizing documents (${caseBrief.processed_documents} of ${caseBrief.total_documents})...`
+                    : 'Writing the brief...'}
+                </div>
+                <Progress value={progress} className="h-1.5" />
+              </div>
+            )}
+
+            {isStalled && (
+              <div className="flex items-start justify-between gap-2 text-sm text-amber-700">
+                <div className="flex items-start">
+                  <AlertTriangle className="mr-2 h-4 w-4 flex-shrink-0 mt-0.5" />
+                  <span>
+                    Generation stopped before it finished
+                    {caseBrief && caseBrief.total_documents > 0 && ` (${caseBrief.processed_documents} of ${caseBrief.total_documents} documents summarized)`}.
+                  </span>
+                </div>
+                <Button variant="outline" size="sm" onClick={handleRetry}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Retry
+                </Button>
+              </div>
+            )}
+
+            {caseBrief?.status === 'failed' && !isGenerating && (
+              <div className="flex items-start text-sm text-red-600">
+                <AlertTriangle className="mr-2 h-4 w-4 flex-shrink-0 mt-0.5" />
+                <span>Last refresh failed: {caseBrief.last_error || 'Unknown error'}</span>
+              </div>
+            )}
+
+            {!isLoading && !brief && !isGenerating && (
+              <div className="text-sm text-gray-500">
+                Summarize every document {folderName ? 'in this folder' : 'for this client'} into parties, key dates,
+                claims, obligations and open issues.
+                <div className="mt-2">
+                  <Button variant="outline" size="sm" onClick={handleGenerate}>
+                    <Sparkles className="h-4 w-4 mr-2" />
+                    Generate brief
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {brief && (
+              <div className="max-h-96 overflow-y-auto space-y-4 pr-1">
+                {brief.summary && <p className="text-sm text-gray-800 leading-relaxed">{brief.summary}</p>}
+
+                {brief.truncated_documents && brief.truncated_documents.length > 0 && (
+                  <div className="flex items-start text-xs text-amber-700">
+                    <AlertTriangle className="mr-2 h-4 w-4 flex-shrink-0" />
+                    <span>
+                      Too long to read in full, so only the opening part is covered:{' '}
+                      {brief.truncated_documents
+                        .map(document => `${document.file_name} (${Math.round((document.read_chars / document.total_chars) * 100)}%)`)
+                        .join(', ')}
+                    </span>
+                  </div>
+                )}
+
+                {getBriefSections(brief).filter(section => section.rows.length > 0).map(section => (
+                  <div key={section.title}>
+                    <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">{section.title}</h4>
+                    <ul className="space-y-2">
+                      {section.rows.map((row, i) => (
+                        <li key={i} className="text-sm">
+                          <span className="font-medium text-gray-900">{row.primary}</span>
+                          {row.secondary && <span className="text-gray-700"> — {row.secondary}</span>}
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {groupCitationsByDocument(row.citations).map(citation => (
+                              <button
+                                key={citation.document_id}
+                                type="button"
+                                onClick={() => onOpenCitation?.(citation)}
+                                disabled={!onOpenCitation}
+                                title={citation.quote ? `"${citation.quote}"` : citation.file_name}
+                                className="inline-flex items-center max-w-[12rem] px-1.5 py-0.5 rounded bg-blue-50 text-xs text-blue-700 hover:bg-blue-100 disabled:hover:bg-blue-50 disabled:cursor-default"
+                              >
+                                <FileText className="h-3 w-3 mr-1 flex-shrink-0" />
+                                <span className="truncate">{citation.file_name}</span>
+                              </button>
+                            ))}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+
+                <div className="text-xs text-gray-500 pt-2 border-t">
+                  Generated {caseBrief?.generated_at ? formatDistanceToNow(new Date(caseBrief.generated_at), { addSuffix: true }) : ''}
+                  {' '}from {caseBrief?.total_documents} documents
+                  {caseBrief?.model && <> • {caseBrief.model}</>}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+};
+
+export default CaseBriefPanel;
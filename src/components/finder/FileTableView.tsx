@@ -7,7 +7,8 @@ import {
   ChevronDown,
   ArrowUpDown,
   ArrowUp,
-  ArrowDown
+  ArrowDown,
+  AlertTriangle
 } from 'lucide-react';
 import { 
   Table, 
@@ -25,6 +26,7 @@ interface FileItem {
   size?: number;
   modified: string;
   kind?: string;
+  lowConfidencePages?: number[];
 }
 
 interface FileTableViewProps {
@@ -81,6 +83,11 @@ const FileTableView: React.FC<FileTableViewProps> = ({
       case 'doc':
       case 'docx': return 'Word Document';
       case 'txt': return 'Text Document';
+      case 'rtf': return 'Rich Text Document';
+      case 'htm':
+      case 'html': return 'HTML Document';
+      case 'eml':
+      case 'msg': return 'Email Message';
       case 'jpg':
       case 'jpeg':
       case 'png': return 'Image';
@@ -201,6 +208,14 @@ const FileTableView: React.FC<FileTableViewProps> = ({
                     </>
                   )}
                   <span className="truncate text-sm">{item.name}</span>
+                  {item.lowConfidencePages && item.lowConfidencePages.length > 0 && (
+                    <span
+                      className="flex items-center text-amber-600 flex-shrink-0"
+                      title={`Low OCR confidence on page${item.lowConfidencePages.length > 1 ? 's' : ''} ${item.lowConfidencePages.join(', ')}`}
+                    >
+                      <AlertTriangle className="h-3.5 w-3.5" />
+                    </span>
+                  )}
                 </div>
               </TableCell>
               <TableCell className="py-1.5 text-sm text-gray-600">
@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import {
+  addChatMessage,
+  createChatThread,
+  deleteChatThread,
+  getChatMessages,
+  getChatThreads,
+  getThreadTitle,
+  searchChatThreads,
+} from '@/services/chatThreadService';
+
+// The fields every chat panel's message type shares; sources are stored as-is and handed back on reload
+export interface ThreadChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  sources?: unknown;
+  documentCount?: number;
+  query?: string;
+}
+
+// The thread a run of messages belongs to. Created lazily on the first message so empty
+// conversations don't clutter the list.
+export interface ChatConversation {
+  key: number;
+  clientId: string | null;
+  threadId: Promise<string> | null;
+}
+
+export const useChatThreads = <T extends ThreadChatMessage>(clientId: string | null | undefined) => {
+  const [messages, setMessages] = useState<T[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [isLoadingMessages, setIsLoadingMessages] = useState(false);
+  const conversationRef = useRef<ChatConversation>({ key: 0, clientId: clientId ?? null, threadId: null });
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const threadsQuery = useQuery({
+    queryKey: ['chat-threads', clientId],
+    queryFn: () => getChatThreads(clientId!),
+    enabled: !!clientId,
+  });
+
+  const refreshThreads = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['chat-threads'] });
+  }, [queryClient]);
+
+  const resetConversation = useCallback((threadId: string | null) => {
+    conversationRef.current = {
+      key: conversationRef.current.key + 1,
+      clientId: clientId ?? null,
+      threadId: threadId ? Promise.resolve(threadId) : null,
+    };
+    setActiveThreadId(threadId);
+  }, [clientId]);
+
+  // Each client starts on a fresh conversation; earlier ones are in the thread list
+  useEffect(() => {
+    resetConversation(null);
+    setMessages([]);
+  }, [clientId, resetConversation]);
+
+  const startNewThread = useCallback(() => {
+    resetConversation(null);
+    setMessages([]);
+  }, [resetConversation]);
+
+  const selectThread = useCallback(async (threadId: string) => {
+    resetConversation(threadId);
+    const conversation = conversationRef.current;
+    setMessages([]);
+    setIsLoadingMessages(true);
+
+    try {
+      const stored = await getChatMessages(threadId);
+      if (conversationRef.current !== conversation) return;
+
+      setMessages(stored.map(message => ({
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        timestamp: message.created_at ? new Date(message.created_at) : new Date(),
+        sources: message.role === 'assistant' ? message.sources ?? undefined : undefined,
+        documentCount: message.document_count ?? undefined,
+        query: message.query ?? undefined,
+      }) as T));
+    } catch (error) {
+      console.error('Error loading chat thread:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load this conversation. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      if (conversationRef.current === conversation) {
+        setIsLoadingMessages(false);
+      }
+    }
+  }, [resetConversation, toast]);
+
+  // Show a message and save it to its thread. Returns the conversation it went to: pass that back
+  // with the reply, so an answer that arrives after the user switched threads or clients is still
+  // saved where the question was asked instead of showing up in the new conversation.
+  const appendMessage = useCallback((message: T, conversation: ChatConversation = conversationRef.current) => {
+    if (conversation === conversationRef.current) {
+      setMessages(prev => [...prev, message]);
+    }
+
+    const conversationClientId = conversation.clientId;
+    if (!conversationClientId) return conversation;
+
+    if (!conversation.threadId) {
+      conversation.threadId = createChatThread(conversationClientId, getThreadTitle(message.content))
+        .then(thread => {
+          if (conversation === conversationRef.current) {
+            setActiveThreadId(thread.id);
+          }
+          return thread.id;
+        })
+        .catch(error => {
+          // Let the next message try again
+          conversation.threadId = null;
+          throw error;
+        });
+    }
+
+    conversation.threadId
+      .then(threadId => addChatMessage(threadId, message))
+      .then(refreshThreads)
+      .catch(error => {
+        console.error('Error saving chat message:', error);
+        toast({
+          title: "Message not saved",
+          description: "This conversation won't be in your history. Check your connection.",
+          variant: "destructive",
+        });
+      });
+
+    return conversation;
+  }, [refreshThreads, toast]);
+
+  // False once the user has moved to another thread or client since the conversation was captured
+  const isCurrentConversation = useCallback((conversation: ChatConversation) => {
+    return conversation === conversationRef.current;
+  }, []);
+
+  const deleteThread = useCallback(async (threadId: string) => {
+    try {
+      await deleteChatThread(threadId);
+      if (threadId === activeThreadId) {
+        startNewThread();
+      }
+      refreshThreads();
+    } catch (error) {
+      console.error('Error deleting chat thread:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete conversation. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [activeThreadId, refreshThreads, startNewThread, toast]);
+
+  const searchThreads = useCallback((query: string) => {
+    return searchChatThreads(query, clientId || undefined);
+  }, [clientId]);
+
+  return {
+    threads: threadsQuery.data || [],
+    isLoadingThreads: threadsQuery.isLoading,
+    activeThreadId,
+    messages,
+    isLoadingMessages,
+    appendMessage,
+    isCurrentConversation,
+    selectThread,
+    startNewThread,
+    deleteThread,
+    searchThreads,
+  };
+};
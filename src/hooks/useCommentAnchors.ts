@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from 'react';
+import type * as Y from 'yjs';
+import { monaco } from '@/lib/monaco';
+import { CommentThread } from '@/services/commentService';
+import { decodeTextPosition } from '@/utils/relativePositions';
+
+export interface AnchoredRange {
+  start: number;
+  end: number;
+}
+
+// Current range of a thread's commented text, or null once that text has been deleted
+const resolveAnchor = (thread: CommentThread, text: Y.Text, content: string): AnchoredRange | null => {
+  const { anchor, quoted_text, anchor_offset } = thread.root;
+
+  if (anchor) {
+    const start = decodeTextPosition(text, anchor.start);
+    const end = decodeTextPosition(text, anchor.end);
+    if (start !== null && end !== null) {
+      return end > start ? { start, end } : null;
+    }
+  }
+
+  // The positions reference text this copy has not received; look for the quote nearest where it was
+  if (!quoted_text) return null;
+  let best: number | null = null;
+  for (let i = content.indexOf(quoted_text); i !== -1; i = content.indexOf(quoted_text, i + 1)) {
+    if (best === null || Math.abs(i - (anchor_offset ?? 0)) < Math.abs(best - (anchor_offset ?? 0))) {
+      best = i;
+    }
+  }
+  return best === null ? null : { start: best, end: best + quoted_text.length };
+};
+
+const sameRanges = (a: Map<string, AnchoredRange | null>, b: Map<string, AnchoredRange | null>) =>
+  a.size === b.size && Array.from(a).every(([id, range]) => {
+    const other = b.get(id);
+    return range === null ? other === null : !!other && other.start === range.start && other.end === range.end;
+  });
+
+/**
+ * Highlight each open thread's commented text in the editor and track where it is as the document
+ * changes. Clicking highlighted text selects its thread.
+ */
+export const useCommentAnchors = (
+  editor: monaco.editor.IStandaloneCodeEditor | null,
+  text: Y.Text | null,
+  threads: CommentThread[],
+  activeThreadId: string | null,
+  onSelectThread: (threadId: string) => void
+): Map<string, AnchoredRange | null> => {
+  const [ranges, setRanges] = useState<Map<string, AnchoredRange | null>>(new Map());
+  const onSelectThreadRef = useRef(onSelectThread);
+  onSelectThreadRef.current = onSelectThread;
+
+  useEffect(() => {
+    if (!editor || !text) return;
+
+    const decorations = editor.createDecorationsCollection();
+    let current = new Map<string, AnchoredRange | null>();
+
+    const render = () => {
+      const model = editor.getModel();
+      if (!model) return;
+
+      const content = model.getValue();
+      const next = new Map(threads.map(thread => [thread.id, resolveAnchor(thread, text, content)]));
+
+      decorations.set(threads.flatMap(thread => {
+        const range = next.get(thread.id);
+        if (!range || thread.isResolved) return [];
+        const start = model.getPositionAt(range.start);
+        const end = model.getPositionAt(range.end);
+        return [{
+          range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+          options: {
+            inlineClassName: thread.id === activeThreadId ? 'comment-anchor-active' : 'comment-anchor',
+            stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges,
+            overviewRuler: { color: '#EAB308', position: monaco.editor.OverviewRulerLane.Right },
+          },
+        }];
+      }));
+
+      if (!sameRanges(current, next)) {
+        current = next;
+        setRanges(next);
+      }
+    };
+
+    let frame: number | null = null;
+    const scheduleRender = () => {
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        render();
+      });
+    };
+
+    render();
+    text.observe(scheduleRender);
+
+    // The innermost open thread under the click wins when ranges overlap
+    const mouseDown = editor.onMouseDown(event => {
+      const model = editor.getModel();
+      if (!model || !event.target.position) return;
+      const offset = model.getOffsetAt(event.target.position);
+      const hit = threads
+        .flatMap(thread => {
+          const range = current.get(thread.id);
+          return range && !thread.isResolved && range.start <= offset && offset <= range.end ? [{ thread, range }] : [];
+        })
+        .sort((a, b) => (a.range.end - a.range.start) - (b.range.end - b.range.start))[0];
+      if (hit) onSelectThreadRef.current(hit.thread.id);
+    });
+
+    return () => {
+      text.unobserve(scheduleRender);
+      if (frame !== null) cancelAnimationFrame(frame);
+      mouseDown.dispose();
+      decorations.clear();
+    };
+  }, [editor, text, threads, activeThreadId]);
+
+  return ranges;
+};
@@ -0,0 +1,48 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getDocumentLockState, subscribeToDocumentLocks } from '@/services/documentLockService';
+
+/**
+ * Live lock state of a document: who holds the exclusive editing lock and which snapshots are
+ * locked. The document is read-only for this user while someone else holds the lock or any
+ * snapshot is locked; the database enforces the same rule.
+ */
+export const useDocumentLock = (documentId: string, currentUserId: string) => {
+  const queryClient = useQueryClient();
+
+  const { data, refetch } = useQuery({
+    queryKey: ['document-lock', documentId],
+    queryFn: () => getDocumentLockState(documentId),
+  });
+
+  useEffect(() => {
+    return subscribeToDocumentLocks(documentId, () => {
+      queryClient.invalidateQueries({ queryKey: ['document-lock', documentId] });
+    });
+  }, [documentId, queryClient]);
+
+  // Locks lapse without any row changing, so look again once the current one expires
+  const expiresAt = data?.lock?.expires_at;
+  useEffect(() => {
+    if (!expiresAt) return;
+    const delay = Math.max(new Date(expiresAt).getTime() - Date.now(), 0) + 1000;
+    const timeout = setTimeout(() => {
+      queryClient.invalidateQueries({ queryKey: ['document-lock', documentId] });
+    }, delay);
+    return () => clearTimeout(timeout);
+  }, [documentId, expiresAt, queryClient]);
+
+  const lock = data?.lock ?? null;
+  const lockedSnapshots = data?.lockedSnapshots ?? [];
+  const isLockedByMe = !!lock && lock.user_id === currentUserId;
+  const isLockedByOther = !!lock && !isLockedByMe;
+
+  return {
+    lock,
+    lockedSnapshots,
+    isLockedByMe,
+    isLockedByOther,
+    isReadOnly: isLockedByOther || lockedSnapshots.length > 0,
+    refresh: refetch,
+  };
+};
@@ -0,0 +1,46 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getOriginalFileInfo,
+  getOriginalFileUrl,
+  downloadOriginalFile,
+  saveBlobAs
+} from '@/services/documentStorageService';
+
+export const useOriginalFile = (documentId: string | undefined, showOriginal: boolean = false) => {
+  const { data: info, isLoading } = useQuery({
+    queryKey: ['original-file', documentId],
+    queryFn: () => getOriginalFileInfo(documentId!),
+    enabled: !!documentId,
+  });
+
+  const hasOriginal = !!info?.storage_path;
+  const isPdf = info?.file_type === 'application/pdf';
+
+  // Signed URLs expire, so only request one while the original is actually being shown
+  const { data: signedUrl } = useQuery({
+    queryKey: ['original-file-url', info?.storage_path],
+    queryFn: () => getOriginalFileUrl(info!.storage_path!),
+    enabled: showOriginal && hasOriginal,
+    staleTime: 30 * 60 * 1000,
+  });
+
+  const download = useCallback(async () => {
+    if (!info) return;
+    try {
+      const { blob, verified } = await downloadOriginalFile(info);
+      saveBlobAs(blob, info.file_name);
+      if (verified) {
+        toast.success(`Downloaded ${info.file_name} (checksum verified)`);
+      } else {
+        toast.warning(`Downloaded ${info.file_name}, but it does not match the checksum recorded at upload`);
+      }
+    } catch (error) {
+      console.error('Error downloading original file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to download original file');
+    }
+  }, [info]);
+
+  return { info, isLoading, hasOriginal, isPdf, signedUrl, download };
+};
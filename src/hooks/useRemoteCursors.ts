@@ -0,0 +1,170 @@
+import { useEffect, useRef } from 'react';
+import type * as Y from 'yjs';
+import { monaco } from '@/lib/monaco';
+import { decodeTextPosition, encodeTextPosition } from '@/utils/relativePositions';
+
+// A selection as relative positions, so a caret stays on the same characters while others type around it
+export interface EncodedSelection {
+  anchor: number[];
+  head: number[];
+}
+
+export interface RemoteCursor {
+  userId: string;
+  name: string;
+  colorIndex: number;
+  selection: EncodedSelection;
+  isIdle: boolean;
+}
+
+export const encodeSelection = (text: Y.Text, anchorOffset: number, headOffset: number): EncodedSelection => ({
+  anchor: encodeTextPosition(text, anchorOffset),
+  head: encodeTextPosition(text, headOffset),
+});
+
+/**
+ * CSS for the caret, selection and name flag of each collaborator color. Classes are numbered by
+ * color index because Monaco decorations take class names, not inline styles.
+ */
+export const remoteCursorStyles = (colors: string[]) =>
+  colors.map((color, i) => `
+    .remote-selection-${i} { background-color: ${color}40; }
+    .remote-caret-${i} { border-left: 2px solid ${color}; margin-left: -1px; }
+    .remote-flag-${i} { background-color: ${color}; }
+  `).join('') + `
+    .remote-flag {
+      color: white; font-size: 10px; line-height: 14px; padding: 0 4px; border-radius: 3px 3px 3px 0;
+      white-space: nowrap; pointer-events: none; transition: opacity 0.3s;
+    }
+    .remote-flag-idle { opacity: 0.45; }
+  `;
+
+interface CursorFlag {
+  widget: monaco.editor.IContentWidget;
+  node: HTMLElement;
+  position: monaco.IPosition;
+}
+
+// Name label shown above a collaborator's caret; a content widget so it overlays the text instead of shifting it
+const createCursorFlag = (userId: string): CursorFlag => {
+  const flag: CursorFlag = {
+    node: document.createElement('div'),
+    position: { lineNumber: 1, column: 1 },
+    widget: {
+      getId: () => `remote-flag-${userId}`,
+      getDomNode: () => flag.node,
+      getPosition: () => ({
+        position: flag.position,
+        preference: [
+          monaco.editor.ContentWidgetPositionPreference.ABOVE,
+          monaco.editor.ContentWidgetPositionPreference.BELOW,
+        ],
+      }),
+    },
+  };
+  return flag;
+};
+
+/**
+ * Draw collaborators' carets and selections in the editor as decorations, each in their color with
+ * a name flag above the caret. Positions are re-resolved whenever the shared text changes.
+ */
+export const useRemoteCursors = (
+  editor: monaco.editor.IStandaloneCodeEditor | null,
+  text: Y.Text | null,
+  cursors: RemoteCursor[]
+) => {
+  const cursorsRef = useRef(cursors);
+  cursorsRef.current = cursors;
+  const renderRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    if (!editor || !text) return;
+
+    const decorations = editor.createDecorationsCollection();
+    const flags = new Map<string, CursorFlag>();
+
+    const render = () => {
+      const model = editor.getModel();
+      if (!model) return;
+
+      const nextDecorations: monaco.editor.IModelDeltaDecoration[] = [];
+      const seen = new Set<string>();
+
+      cursorsRef.current.forEach(cursor => {
+        const anchorOffset = decodeTextPosition(text, cursor.selection.anchor);
+        const headOffset = decodeTextPosition(text, cursor.selection.head);
+        if (anchorOffset === null || headOffset === null) return;
+
+        const anchor = model.getPositionAt(anchorOffset);
+        const head = model.getPositionAt(headOffset);
+        const [start, end] = anchorOffset <= headOffset ? [anchor, head] : [head, anchor];
+
+        if (anchorOffset !== headOffset) {
+          nextDecorations.push({
+            range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+            options: {
+              className: `remote-selection-${cursor.colorIndex}`,
+              stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges,
+            },
+          });
+        }
+        nextDecorations.push({
+          range: new monaco.Range(head.lineNumber, head.column, head.lineNumber, head.column),
+          options: {
+            beforeContentClassName: `remote-caret-${cursor.colorIndex}`,
+            stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges,
+            hoverMessage: { value: cursor.name },
+          },
+        });
+
+        seen.add(cursor.userId);
+        const existing = flags.get(cursor.userId);
+        const flag = existing || createCursorFlag(cursor.userId);
+        flag.position = head;
+        flag.node.className = `remote-flag remote-flag-${cursor.colorIndex}${cursor.isIdle ? ' remote-flag-idle' : ''}`;
+        flag.node.textContent = cursor.name;
+        if (existing) {
+          editor.layoutContentWidget(flag.widget);
+        } else {
+          flags.set(cursor.userId, flag);
+          editor.addContentWidget(flag.widget);
+        }
+      });
+
+      flags.forEach((flag, userId) => {
+        if (seen.has(userId)) return;
+        editor.removeContentWidget(flag.widget);
+        flags.delete(userId);
+      });
+
+      decorations.set(nextDecorations);
+    };
+
+    // Deferred to the next frame so the editor model already holds the change, and bursts render once
+    let frame: number | null = null;
+    const scheduleRender = () => {
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        render();
+      });
+    };
+
+    renderRef.current = render;
+    render();
+    text.observe(scheduleRender);
+
+    return () => {
+      text.unobserve(scheduleRender);
+      if (frame !== null) cancelAnimationFrame(frame);
+      renderRef.current = () => {};
+      decorations.clear();
+      flags.forEach(flag => editor.removeContentWidget(flag.widget));
+    };
+  }, [editor, text]);
+
+  useEffect(() => {
+    renderRef.current();
+  }, [cursors]);
+};
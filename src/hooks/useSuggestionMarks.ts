@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from 'react';
+import type * as Y from 'yjs';
+import { monaco } from '@/lib/monaco';
+import { DocumentSuggestion } from '@/services/suggestionService';
+import { decodeTextPosition } from '@/utils/relativePositions';
+import { AnchoredRange } from './useCommentAnchors';
+
+// Current range of the text a suggestion replaces, or null once that text is gone. A collapsed range marks an insert.
+export const resolveSuggestion = (suggestion: DocumentSuggestion, text: Y.Text): AnchoredRange | null => {
+  const start = decodeTextPosition(text, suggestion.anchor.start);
+  const end = decodeTextPosition(text, suggestion.anchor.end);
+  if (start === null || end === null || end < start) return null;
+  if (suggestion.old_content && end === start) return null;
+  return { start, end };
+};
+
+const sameRanges = (a: Map<string, AnchoredRange | null>, b: Map<string, AnchoredRange | null>) =>
+  a.size === b.size && Array.from(a).every(([id, range]) => {
+    const other = b.get(id);
+    return range === null ? other === null : !!other && other.start === range.start && other.end === range.end;
+  });
+
+/**
+ * Show pending suggestions as tracked changes in the editor: removed text struck through and
+ * added text shown inline after it. Clicking a marked change selects its suggestion.
+ */
+export const useSuggestionMarks = (
+  editor: monaco.editor.IStandaloneCodeEditor | null,
+  text: Y.Text | null,
+  suggestions: DocumentSuggestion[],
+  activeSuggestionId: string | null,
+  onSelectSuggestion: (suggestionId: string) => void
+): Map<string, AnchoredRange | null> => {
+  const [ranges, setRanges] = useState<Map<string, AnchoredRange | null>>(new Map());
+  const onSelectSuggestionRef = useRef(onSelectSuggestion);
+  onSelectSuggestionRef.current = onSelectSuggestion;
+
+  useEffect(() => {
+    if (!editor || !text) return;
+
+    const decorations = editor.createDecorationsCollection();
+    let current = new Map<string, AnchoredRange | null>();
+
+    const render = () => {
+      const model = editor.getModel();
+      if (!model) return;
+
+      const next = new Map(suggestions.map(suggestion => [suggestion.id, resolveSuggestion(suggestion, text)]));
+
+      decorations.set(suggestions.flatMap(suggestion => {
+        const range = next.get(suggestion.id);
+        if (!range) return [];
+        const isActive = suggestion.id === activeSuggestionId;
+        const start = model.getPositionAt(range.start);
+        const end = model.getPositionAt(range.end);
+        const hoverMessage = { value: `**${suggestion.author_name}** suggested this change` };
+        const marks: monaco.editor.IModelDeltaDecoration[] = [];
+
+        if (suggestion.old_content) {
+          marks.push({
+            range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+            options: {
+              inlineClassName: isActive ? 'suggestion-delete suggestion-active' : 'suggestion-delete',
+              hoverMessage,
+              stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges,
+              overviewRuler: { color: '#16A34A', position: monaco.editor.OverviewRulerLane.Right },
+            },
+          });
+        }
+        if (suggestion.new_content) {
+          marks.push({
+            range: new monaco.Range(end.lineNumber, end.column, end.lineNumber, end.column),
+            options: {
+              // Injected text is a single line, so line breaks show as a return symbol
+              after: {
+                content: suggestion.new_content.replace(/\r?\n/g, '↵'),
+                inlineClassName: isActive ? 'suggestion-insert suggestion-active' : 'suggestion-insert',
+              },
+              hoverMessage,
+              showIfCollapsed: true,
+              overviewRuler: { color: '#16A34A', position: monaco.editor.OverviewRulerLane.Right },
+            },
+          });
+        }
+        return marks;
+      }));
+
+      if (!sameRanges(current, next)) {
+        current = next;
+        setRanges(next);
+      }
+    };
+
+    let frame: number | null = null;
+    const scheduleRender = () => {
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        render();
+      });
+    };
+
+    render();
+    text.observe(scheduleRender);
+
+    const mouseDown = editor.onMouseDown(event => {
+      const model = editor.getModel();
+      if (!model || !event.target.position) return;
+      const offset = model.getOffsetAt(event.target.position);
+      const hit = suggestions.find(suggestion => {
+        const range = current.get(suggestion.id);
+        return range && range.start <= offset && offset <= range.end;
+      });
+      if (hit) onSelectSuggestionRef.current(hit.id);
+    });
+
+    return () => {
+      text.unobserve(scheduleRender);
+      if (frame !== null) cancelAnimationFrame(frame);
+      mouseDown.dispose();
+      decorations.clear();
+    };
+  }, [editor, text, suggestions, activeSuggestionId]);
+
+  return ranges;
+};
@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import * as Y from 'yjs';
+import { WebsocketProvider } from 'y-websocket';
+import { supabase } from '@/integrations/supabase/client';
+
+export type CollaborationStatus = 'connecting' | 'connected' | 'disconnected';
+
+// Must match the text name the yjs-websocket relay seeds and persists
+const CONTENT_TEXT_NAME = 'content';
+
+// Local copies are written at most this often so typing offline survives a reload
+const OFFLINE_SAVE_DEBOUNCE_MS = 500;
+
+const offlineStorageKey = (documentId: string) => `yjs-document-${documentId}`;
+
+// The relay is an edge function on the same project the Realtime client talks to
+const getRelayUrl = () => {
+  const realtimeUrl = new URL(supabase.realtime.endPoint);
+  return `${realtimeUrl.protocol}//${realtimeUrl.host}/functions/v1/yjs-websocket`;
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+// Returns whether a local copy was found; it holds edits that may not have reached the relay yet
+const restoreOfflineState = (documentId: string, doc: Y.Doc): boolean => {
+  try {
+    const stored = localStorage.getItem(offlineStorageKey(documentId));
+    if (!stored) return false;
+    Y.applyUpdate(doc, fromBase64(stored));
+    return true;
+  } catch (error) {
+    console.error('Error restoring offline document state:', error);
+    return false;
+  }
+};
+
+const saveOfflineState = (documentId: string, doc: Y.Doc) => {
+  try {
+    localStorage.setItem(offlineStorageKey(documentId), toBase64(Y.encodeStateAsUpdate(doc)));
+  } catch (error) {
+    console.error('Error saving offline document state:', error);
+  }
+};
+
+interface YjsSession {
+  doc: Y.Doc;
+  text: Y.Text;
+  provider: WebsocketProvider;
+}
+
+/**
+ * Shared Yjs document for collaborative editing. Edits merge through the yjs-websocket relay;
+ * while disconnected they are kept locally and merged on reconnect.
+ */
+export const useYjsDocument = (documentId: string) => {
+  const [session, setSession] = useState<YjsSession | null>(null);
+  const [status, setStatus] = useState<CollaborationStatus>('connecting');
+  // True once the content is known: synced with the relay, or restored from a local copy
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let provider: WebsocketProvider | null = null;
+    let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    const doc = new Y.Doc();
+    if (restoreOfflineState(documentId, doc)) {
+      setIsLoaded(true);
+    }
+
+    const handleUpdate = () => {
+      if (saveTimeout) return;
+      saveTimeout = setTimeout(() => {
+        saveTimeout = null;
+        saveOfflineState(documentId, doc);
+      }, OFFLINE_SAVE_DEBOUNCE_MS);
+    };
+    doc.on('update', handleUpdate);
+
+    supabase.auth.getSession().then(({ data: { session: authSession } }) => {
+      if (cancelled) return;
+
+      provider = new WebsocketProvider(getRelayUrl(), documentId, doc, {
+        params: { token: authSession?.access_token ?? '' },
+      });
+      provider.on('status', ({ status: connectionStatus }) => {
+        console.log(`Collaboration ${connectionStatus} for document ${documentId}`);
+        setStatus(connectionStatus);
+      });
+      provider.on('sync', (synced: boolean) => {
+        if (synced) setIsLoaded(true);
+      });
+
+      setSession({ doc, text: doc.getText(CONTENT_TEXT_NAME), provider });
+    });
+
+    // Reconnects use the current params, so keep the token fresh
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, authSession) => {
+      if (provider && authSession) {
+        provider.params = { token: authSession.access_token };
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+      if (saveTimeout) clearTimeout(saveTimeout);
+      saveOfflineState(documentId, doc);
+      doc.off('update', handleUpdate);
+      provider?.destroy();
+      doc.destroy();
+      setSession(null);
+      setStatus('connecting');
+      setIsLoaded(false);
+    };
+  }, [documentId]);
+
+  return {
+    doc: session?.doc ?? null,
+    text: session?.text ?? null,
+    provider: session?.provider ?? null,
+    status,
+    isLoaded,
+  };
+};
@@ -9,6 +9,166 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      case_briefs: {
+        Row: {
+          attempts: number
+          brief: Json | null
+          client_id: string
+          created_at: string | null
+          document_summaries: Json
+          folder_id: string | null
+          generated_at: string | null
+          id: string
+          last_error: string | null
+          locked_until: string | null
+          model: string | null
+          processed_documents: number
+          reduce_state: Json | null
+          status: string
+          total_documents: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          brief?: Json | null
+          client_id: string
+          created_at?: string | null
+          document_summaries?: Json
+          folder_id?: string | null
+          generated_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_until?: string | null
+          model?: string | null
+          processed_documents?: number
+          reduce_state?: Json | null
+          status?: string
+          total_documents?: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          brief?: Json | null
+          client_id?: string
+          created_at?: string | null
+          document_summaries?: Json
+          folder_id?: string | null
+          generated_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_until?: string | null
+          model?: string | null
+          processed_documents?: number
+          reduce_state?: Json | null
+          status?: string
+          total_documents?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_briefs_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "case_briefs_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "folders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_messages: {
+        Row: {
+          content: string
+          content_tsv: unknown | null
+          created_at: string | null
+          document_count: number | null
+          id: string
+          query: string | null
+          role: string
+          sources: Json | null
+          thread_id: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          content_tsv?: unknown | null
+          created_at?: string | null
+          document_count?: number | null
+          id?: string
+          query?: string | null
+          role: string
+          sources?: Json | null
+          thread_id: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          content_tsv?: unknown | null
+          created_at?: string | null
+          document_count?: number | null
+          id?: string
+          query?: string | null
+          role?: string
+          sources?: Json | null
+          thread_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "chat_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_threads: {
+        Row: {
+          client_id: string
+          created_at: string | null
+          id: string
+          last_message_at: string | null
+          title: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          client_id: string
+          created_at?: string | null
+          id?: string
+          last_message_at?: string | null
+          title?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          client_id?: string
+          created_at?: string | null
+          id?: string
+          last_message_at?: string | null
+          title?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_threads_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       clients: {
         Row: {
           archived: boolean | null
@@ -48,13 +208,205 @@ export type Database = {
         }
         Relationships: []
       }
+      collaborative_sessions: {
+        Row: {
+          cursor_position: number | null
+          document_id: string
+          id: string
+          is_active: boolean | null
+          last_activity: string | null
+          metadata: Json | null
+          selection_end: number | null
+          selection_start: number | null
+          session_end: string | null
+          session_start: string | null
+          user_color: string | null
+          user_id: string | null
+        }
+        Insert: {
+          cursor_position?: number | null
+          document_id: string
+          id?: string
+          is_active?: boolean | null
+          last_activity?: string | null
+          metadata?: Json | null
+          selection_end?: number | null
+          selection_start?: number | null
+          session_end?: string | null
+          session_start?: string | null
+          user_color?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          cursor_position?: number | null
+          document_id?: string
+          id?: string
+          is_active?: boolean | null
+          last_activity?: string | null
+          metadata?: Json | null
+          selection_end?: number | null
+          selection_start?: number | null
+          session_end?: string | null
+          session_start?: string | null
+          user_color?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collaborative_sessions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_clauses: {
+        Row: {
+          clause_index: number
+          clause_type: string
+          client_id: string | null
+          created_at: string | null
+          document_id: string
+          end_offset: number
+          heading: string
+          id: string
+          page_number: number | null
+          start_offset: number
+          text: string
+          text_tsv: unknown | null
+          title: string | null
+          user_id: string
+        }
+        Insert: {
+          clause_index: number
+          clause_type?: string
+          client_id?: string | null
+          created_at?: string | null
+          document_id: string
+          end_offset: number
+          heading: string
+          id?: string
+          page_number?: number | null
+          start_offset: number
+          text: string
+          text_tsv?: unknown | null
+          title?: string | null
+          user_id: string
+        }
+        Update: {
+          clause_index?: number
+          clause_type?: string
+          client_id?: string | null
+          created_at?: string | null
+          document_id?: string
+          end_offset?: number
+          heading?: string
+          id?: string
+          page_number?: number | null
+          start_offset?: number
+          text?: string
+          text_tsv?: unknown | null
+          title?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_clauses_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_clauses_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_comments: {
+        Row: {
+          anchor: Json | null
+          anchor_offset: number | null
+          author_id: string
+          author_name: string
+          body: string
+          created_at: string | null
+          document_id: string
+          id: string
+          mentioned_user_ids: string[]
+          quoted_text: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          thread_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          anchor?: Json | null
+          anchor_offset?: number | null
+          author_id?: string
+          author_name: string
+          body: string
+          created_at?: string | null
+          document_id: string
+          id?: string
+          mentioned_user_ids?: string[]
+          quoted_text?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          thread_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          anchor?: Json | null
+          anchor_offset?: number | null
+          author_id?: string
+          author_name?: string
+          body?: string
+          created_at?: string | null
+          document_id?: string
+          id?: string
+          mentioned_user_ids?: string[]
+          quoted_text?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          thread_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_comments_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_comments_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "document_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       document_embeddings: {
         Row: {
           chunk_index: number
           content: string
+          content_tsv: unknown | null
           created_at: string
           document_id: string
-          embedding: Json | null
+          embedding: string | null
+          embedding_attempts: number
+          embedding_error: string | null
+          entities_extracted_at: string | null
+          entities_extraction_attempts: number
+          events_extracted_at: string | null
+          events_extraction_attempts: number
           id: string
           line_end: number | null
           line_start: number | null
@@ -66,7 +418,13 @@ export type Database = {
           content: string
           created_at?: string
           document_id: string
-          embedding?: Json | null
+          embedding?: string | null
+          embedding_attempts?: number
+          embedding_error?: string | null
+          entities_extracted_at?: string | null
+          entities_extraction_attempts?: number
+          events_extracted_at?: string | null
+          events_extraction_attempts?: number
           id?: string
           line_end?: number | null
           line_start?: number | null
@@ -78,7 +436,13 @@ export type Database = {
           content?: string
           created_at?: string
           document_id?: string
-          embedding?: Json | null
+          embedding?: string | null
+          embedding_attempts?: number
+          embedding_error?: string | null
+          entities_extracted_at?: string | null
+          entities_extraction_attempts?: number
+          events_extracted_at?: string | null
+          events_extraction_attempts?: number
           id?: string
           line_end?: number | null
           line_start?: number | null
@@ -95,8 +459,297 @@ export type Database = {
           },
         ]
       }
+      document_entities: {
+        Row: {
+          chunk_id: string | null
+          client_id: string
+          context: string | null
+          created_at: string | null
+          document_id: string
+          end_offset: number
+          entity_type: string
+          id: string
+          line_number: number | null
+          normalized_key: string | null
+          normalized_value: string
+          page_number: number | null
+          role: string | null
+          start_offset: number
+          text: string
+          user_id: string
+        }
+        Insert: {
+          chunk_id?: string | null
+          client_id: string
+          context?: string | null
+          created_at?: string | null
+          document_id: string
+          end_offset: number
+          entity_type: string
+          id?: string
+          line_number?: number | null
+          normalized_key?: string | null
+          normalized_value: string
+          page_number?: number | null
+          role?: string | null
+          start_offset: number
+          text: string
+          user_id: string
+        }
+        Update: {
+          chunk_id?: string | null
+          client_id?: string
+          context?: string | null
+          created_at?: string | null
+          document_id?: string
+          end_offset?: number
+          entity_type?: string
+          id?: string
+          line_number?: number | null
+          normalized_key?: string | null
+          normalized_value?: string
+          page_number?: number | null
+          role?: string | null
+          start_offset?: number
+          text?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_entities_chunk_id_fkey"
+            columns: ["chunk_id"]
+            isOneToOne: false
+            referencedRelation: "document_embeddings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_entities_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_entities_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_locks: {
+        Row: {
+          document_id: string
+          expires_at: string | null
+          id: string
+          is_active: boolean | null
+          lock_type: string
+          locked_at: string | null
+          metadata: Json | null
+          user_id: string | null
+        }
+        Insert: {
+          document_id: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          lock_type: string
+          locked_at?: string | null
+          metadata?: Json | null
+          user_id?: string | null
+        }
+        Update: {
+          document_id?: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          lock_type?: string
+          locked_at?: string | null
+          metadata?: Json | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_locks_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_snapshots: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          document_id: string
+          export_settings: Json | null
+          id: string
+          is_locked: boolean | null
+          label: string
+          metadata: Json | null
+          version_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          document_id: string
+          export_settings?: Json | null
+          id?: string
+          is_locked?: boolean | null
+          label: string
+          metadata?: Json | null
+          version_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          document_id?: string
+          export_settings?: Json | null
+          id?: string
+          is_locked?: boolean | null
+          label?: string
+          metadata?: Json | null
+          version_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_snapshots_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_snapshots_version_id_fkey"
+            columns: ["version_id"]
+            isOneToOne: false
+            referencedRelation: "document_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_suggestions: {
+        Row: {
+          anchor: Json
+          anchor_offset: number | null
+          author_id: string
+          author_name: string
+          change_type: string
+          created_at: string | null
+          document_id: string
+          id: string
+          new_content: string
+          old_content: string
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          version_id: string | null
+        }
+        Insert: {
+          anchor: Json
+          anchor_offset?: number | null
+          author_id?: string
+          author_name: string
+          change_type: string
+          created_at?: string | null
+          document_id: string
+          id?: string
+          new_content?: string
+          old_content?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          version_id?: string | null
+        }
+        Update: {
+          anchor?: Json
+          anchor_offset?: number | null
+          author_id?: string
+          author_name?: string
+          change_type?: string
+          created_at?: string | null
+          document_id?: string
+          id?: string
+          new_content?: string
+          old_content?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          version_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_suggestions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_suggestions_version_id_fkey"
+            columns: ["version_id"]
+            isOneToOne: false
+            referencedRelation: "document_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_versions: {
+        Row: {
+          change_summary: string | null
+          content: string
+          content_delta: Json | null
+          created_at: string | null
+          created_by: string | null
+          document_id: string
+          id: string
+          is_auto_save: boolean | null
+          metadata: Json | null
+          version_number: number
+        }
+        Insert: {
+          change_summary?: string | null
+          content: string
+          content_delta?: Json | null
+          created_at?: string | null
+          created_by?: string | null
+          document_id: string
+          id?: string
+          is_auto_save?: boolean | null
+          metadata?: Json | null
+          version_number: number
+        }
+        Update: {
+          change_summary?: string | null
+          content?: string
+          content_delta?: Json | null
+          created_at?: string | null
+          created_by?: string | null
+          document_id?: string
+          id?: string
+          is_auto_save?: boolean | null
+          metadata?: Json | null
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_versions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
+          checksum_sha256: string | null
+          clauses_extracted_at: string | null
           client_id: string | null
           content: string | null
           created_at: string
@@ -105,11 +758,15 @@ export type Database = {
           file_type: string
           folder_id: string | null
           id: string
+          metadata: Json | null
+          storage_path: string | null
           title: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          checksum_sha256?: string | null
+          clauses_extracted_at?: string | null
           client_id?: string | null
           content?: string | null
           created_at?: string
@@ -118,11 +775,15 @@ export type Database = {
           file_type: string
           folder_id?: string | null
           id?: string
+          metadata?: Json | null
+          storage_path?: string | null
           title: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          checksum_sha256?: string | null
+          clauses_extracted_at?: string | null
           client_id?: string | null
           content?: string | null
           created_at?: string
@@ -131,6 +792,8 @@ export type Database = {
           file_type?: string
           folder_id?: string | null
           id?: string
+          metadata?: Json | null
+          storage_path?: string | null
           title?: string
           updated_at?: string
           user_id?: string
@@ -197,12 +860,416 @@ export type Database = {
           },
         ]
       }
+      ingestion_jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string | null
+          document_id: string
+          failed_chunks: number
+          id: string
+          last_error: string | null
+          locked_until: string | null
+          metadata: Json | null
+          processed_chunks: number
+          status: string
+          total_chunks: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string | null
+          document_id: string
+          failed_chunks?: number
+          id?: string
+          last_error?: string | null
+          locked_until?: string | null
+          metadata?: Json | null
+          processed_chunks?: number
+          status?: string
+          total_chunks?: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string | null
+          document_id?: string
+          failed_chunks?: number
+          id?: string
+          last_error?: string | null
+          locked_until?: string | null
+          metadata?: Json | null
+          processed_chunks?: number
+          status?: string
+          total_chunks?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingestion_jobs_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timeline_events: {
+        Row: {
+          chunk_id: string | null
+          client_id: string
+          created_at: string | null
+          date_precision: string
+          date_text: string
+          description: string
+          document_id: string
+          event_date: string | null
+          id: string
+          merged_into: string | null
+          page_number: number | null
+          quote: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          chunk_id?: string | null
+          client_id: string
+          created_at?: string | null
+          date_precision?: string
+          date_text: string
+          description: string
+          document_id: string
+          event_date?: string | null
+          id?: string
+          merged_into?: string | null
+          page_number?: number | null
+          quote?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          chunk_id?: string | null
+          client_id?: string
+          created_at?: string | null
+          date_precision?: string
+          date_text?: string
+          description?: string
+          document_id?: string
+          event_date?: string | null
+          id?: string
+          merged_into?: string | null
+          page_number?: number | null
+          quote?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timeline_events_chunk_id_fkey"
+            columns: ["chunk_id"]
+            isOneToOne: false
+            referencedRelation: "document_embeddings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timeline_events_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timeline_events_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timeline_events_merged_into_fkey"
+            columns: ["merged_into"]
+            isOneToOne: false
+            referencedRelation: "timeline_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      version_exports: {
+        Row: {
+          download_count: number | null
+          expires_at: string | null
+          export_type: string
+          export_url: string | null
+          exported_at: string | null
+          exported_by: string | null
+          id: string
+          metadata: Json | null
+          snapshot_id: string
+        }
+        Insert: {
+          download_count?: number | null
+          expires_at?: string | null
+          export_type: string
+          export_url?: string | null
+          exported_at?: string | null
+          exported_by?: string | null
+          id?: string
+          metadata?: Json | null
+          snapshot_id: string
+        }
+        Update: {
+          download_count?: number | null
+          expires_at?: string | null
+          export_type?: string
+          export_url?: string | null
+          exported_at?: string | null
+          exported_by?: string | null
+          id?: string
+          metadata?: Json | null
+          snapshot_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "version_exports_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "document_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      acquire_document_lock: {
+        Args: { doc_id: string; duration_minutes?: number; take_over?: boolean }
+        Returns: {
+          document_id: string
+          expires_at: string | null
+          id: string
+          is_active: boolean | null
+          lock_type: string
+          locked_at: string | null
+          metadata: Json | null
+          user_id: string | null
+        }
+      }
+      claim_case_brief: {
+        Args: { brief_id: string; lease_seconds?: number }
+        Returns: boolean
+      }
+      claim_ingestion_job: {
+        Args: { job_id: string; lease_seconds?: number }
+        Returns: boolean
+      }
+      create_document_snapshot: {
+        Args: {
+          doc_id: string
+          snapshot_label: string
+          snapshot_description?: string
+        }
+        Returns: {
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          document_id: string
+          export_settings: Json | null
+          id: string
+          is_locked: boolean | null
+          label: string
+          metadata: Json | null
+          version_id: string
+        }
+      }
+      document_edit_blocked: {
+        Args: { doc_id: string; user_id: string }
+        Returns: boolean
+      }
+      get_active_document_lock: {
+        Args: { doc_id: string }
+        Returns: {
+          id: string
+          user_id: string
+          holder_name: string
+          holder_email: string
+          lock_type: string
+          locked_at: string
+          expires_at: string
+        }[]
+      }
+      get_client_entities: {
+        Args: { target_client_id: string }
+        Returns: {
+          entity_type: string
+          normalized_key: string
+          display_name: string
+          roles: string[]
+          mention_count: number
+          document_count: number
+        }[]
+      }
+      get_document_collaborators: {
+        Args: { doc_id: string }
+        Returns: {
+          user_id: string
+          email: string
+          name: string
+          permission_level: string
+        }[]
+      }
+      get_document_snapshots: {
+        Args: { doc_id: string }
+        Returns: {
+          id: string
+          label: string
+          description: string
+          created_at: string
+          created_by: string
+          creator_email: string
+          version_id: string
+          version_number: number
+          is_locked: boolean
+          download_count: number
+        }[]
+      }
+      get_user_document_permission: {
+        Args: { doc_id: string; user_id: string }
+        Returns: string
+      }
+      hybrid_match_document_chunks: {
+        Args: {
+          query_text: string
+          query_embedding: string
+          match_count?: number
+          filter_client_id?: string
+          filter_folder_id?: string
+          filter_matter?: string
+          rrf_k?: number
+        }
+        Returns: {
+          id: string
+          document_id: string
+          chunk_index: number
+          content: string
+          page_number: number
+          line_start: number
+          line_end: number
+          metadata: Json
+          similarity: number
+          document_title: string
+          document_file_name: string
+          client_id: string
+          folder_id: string
+          semantic_rank: number
+          keyword_rank: number
+          rrf_score: number
+          retrievers: string[]
+        }[]
+      }
+      keyword_search_query: {
+        Args: { query_text: string }
+        Returns: unknown
+      }
+      match_document_chunks: {
+        Args: {
+          query_embedding: string
+          match_count?: number
+          filter_client_id?: string
+          filter_folder_id?: string
+          filter_matter?: string
+          min_similarity?: number
+        }
+        Returns: {
+          id: string
+          document_id: string
+          chunk_index: number
+          content: string
+          page_number: number
+          line_start: number
+          line_end: number
+          metadata: Json
+          similarity: number
+          document_title: string
+          document_file_name: string
+          client_id: string
+          folder_id: string
+        }[]
+      }
+      record_snapshot_export: {
+        Args: { snap_id: string; export_format: string; file_name?: string }
+        Returns: {
+          download_count: number | null
+          expires_at: string | null
+          export_type: string
+          export_url: string | null
+          exported_at: string | null
+          exported_by: string | null
+          id: string
+          metadata: Json | null
+          snapshot_id: string
+        }
+      }
+      redeem_document_share_link: {
+        Args: { link_token: string }
+        Returns: {
+          document_id: string
+          permission_level: string
+        }[]
+      }
+      release_document_lock: {
+        Args: { doc_id: string }
+        Returns: undefined
+      }
+      search_chat_threads: {
+        Args: {
+          search_query: string
+          filter_client_id?: string
+          match_count?: number
+        }
+        Returns: {
+          id: string
+          client_id: string
+          title: string
+          created_at: string
+          last_message_at: string
+          snippet: string
+          rank: number
+        }[]
+      }
+      search_clauses: {
+        Args: {
+          search_query?: string
+          filter_clause_type?: string
+          filter_client_id?: string
+          match_count?: number
+        }
+        Returns: {
+          id: string
+          document_id: string
+          client_id: string | null
+          clause_index: number
+          clause_type: string
+          heading: string
+          title: string | null
+          text: string
+          page_number: number | null
+          document_file_name: string
+          client_name: string | null
+          snippet: string | null
+          rank: number
+        }[]
+      }
+      user_has_document_access: {
+        Args: { doc_id: string; user_id: string; required_permission?: string }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,13 @@
+import { loader } from '@monaco-editor/react';
+import * as monaco from 'monaco-editor/esm/vs/editor/editor.api.js';
+import EditorWorker from 'monaco-editor/esm/vs/editor/editor.worker?worker';
+
+// y-monaco binds to the bundled monaco-editor module, so the editor has to run on that same copy
+// instead of the CDN build @monaco-editor/react would otherwise load
+self.MonacoEnvironment = {
+  getWorker: () => new EditorWorker(),
+};
+
+loader.config({ monaco });
+
+export { monaco };
@@ -246,7 +246,7 @@ const SharedDocument: React.FC = () => {
             </div>
           </div>
         ) : (
-          // Collaborative editing view (comment or edit access)
+          // Collaborative view: comment access reads the live document and joins the comment threads
           currentUser ? (
             <div className="h-screen">
               <CollaborativeDocumentEditor
@@ -260,6 +260,7 @@ const SharedDocument: React.FC = () => {
                 }}
                 onVersionHistoryToggle={() => {}}
                 showVersionHistory={false}
+                canEdit={permission === 'edit'}
               />
             </div>
           ) : (
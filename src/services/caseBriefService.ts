@@ -0,0 +1,130 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type CaseBriefStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// Where a brief item came from; quote is empty when the model's quote couldn't be found in the document
+export interface BriefCitation {
+  document_id: string;
+  file_name: string;
+  quote: string;
+}
+
+export interface BriefParty {
+  name: string;
+  role: string;
+  citations: BriefCitation[];
+}
+
+export interface BriefKeyDate {
+  date: string;
+  event: string;
+  citations: BriefCitation[];
+}
+
+export interface BriefClaim {
+  description: string;
+  citations: BriefCitation[];
+}
+
+export interface BriefObligation {
+  party: string;
+  description: string;
+  citations: BriefCitation[];
+}
+
+export interface BriefOpenIssue {
+  description: string;
+  citations: BriefCitation[];
+}
+
+// A document too long to read in full; only its first read_chars characters went into the brief
+export interface TruncatedBriefDocument {
+  document_id: string;
+  file_name: string;
+  read_chars: number;
+  total_chars: number;
+}
+
+export interface CaseBriefContent {
+  summary: string;
+  truncated_documents?: TruncatedBriefDocument[];
+  parties: BriefParty[];
+  key_dates: BriefKeyDate[];
+  claims: BriefClaim[];
+  obligations: BriefObligation[];
+  open_issues: BriefOpenIssue[];
+}
+
+export interface CaseBrief {
+  id: string;
+  client_id: string;
+  folder_id: string | null;
+  status: CaseBriefStatus;
+  brief: CaseBriefContent | null; // Last completed brief; kept while a refresh runs or if it fails
+  total_documents: number;
+  processed_documents: number;
+  model: string | null;
+  last_error: string | null;
+  locked_until: string | null;
+  generated_at: string | null;
+  updated_at: string | null;
+}
+
+// Grace period for a brief that is queued but not yet claimed by a worker
+const STALL_GRACE_MS = 30000;
+
+export const isCaseBriefActive = (brief: CaseBrief): boolean => {
+  return brief.status === 'pending' || brief.status === 'processing';
+};
+
+// A brief is stalled when it is unfinished and no worker holds a live lease on it, e.g. because the
+// worker hit the wall-clock limit or crashed before handing off.
+export const isCaseBriefStalled = (brief: CaseBrief): boolean => {
+  if (!isCaseBriefActive(brief)) return false;
+  if (brief.locked_until) {
+    return new Date(brief.locked_until).getTime() < Date.now();
+  }
+  const lastUpdate = brief.updated_at ? new Date(brief.updated_at).getTime() : 0;
+  return Date.now() - lastUpdate > STALL_GRACE_MS;
+};
+
+// Leave out document_summaries: it holds every extracted fact and is only needed by the worker
+export const getCaseBrief = async (clientId: string, folderId?: string | null): Promise<CaseBrief | null> => {
+  let query = supabase
+    .from('case_briefs')
+    .select('id, client_id, folder_id, status, brief, total_documents, processed_documents, model, last_error, locked_until, generated_at, updated_at')
+    .eq('client_id', clientId);
+
+  query = folderId ? query.eq('folder_id', folderId) : query.is('folder_id', null);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch case brief: ${error.message}`);
+  }
+
+  return data as unknown as CaseBrief | null;
+};
+
+// Start (or refresh) the brief for a client or one of its folders. Resolves once the first worker
+// run ends; large files continue in follow-up runs, so poll getCaseBrief for the final state.
+export const generateCaseBrief = async (clientId: string, folderId?: string | null): Promise<void> => {
+  const { error } = await supabase.functions.invoke('generate-case-brief', {
+    body: { client_id: clientId, folder_id: folderId || null },
+  });
+
+  if (error) {
+    throw new Error(`Failed to generate case brief: ${error.message}`);
+  }
+};
+
+// Restart the worker on a stalled brief; it picks up from the last checkpoint
+export const resumeCaseBrief = async (briefId: string): Promise<void> => {
+  const { error } = await supabase.functions.invoke('generate-case-brief', {
+    body: { briefId },
+  });
+
+  if (error) {
+    throw new Error(`Failed to resume case brief: ${error.message}`);
+  }
+};
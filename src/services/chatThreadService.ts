@@ -0,0 +1,153 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface ChatThread {
+  id: string;
+  user_id: string;
+  client_id: string;
+  title: string;
+  created_at: string | null;
+  updated_at: string | null;
+  last_message_at: string | null;
+}
+
+export interface ChatThreadSearchResult {
+  id: string;
+  client_id: string;
+  title: string;
+  created_at: string;
+  last_message_at: string;
+  snippet: string | null; // Best matching message with matches wrapped in **, null for title-only matches
+  rank: number;
+}
+
+export interface StoredChatMessage {
+  id: string;
+  thread_id: string;
+  user_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  query: string | null;
+  sources: Json | null;
+  document_count: number | null;
+  created_at: string | null;
+}
+
+export interface NewChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  query?: string;
+  sources?: unknown;
+  documentCount?: number;
+}
+
+const MAX_TITLE_LENGTH = 60;
+
+// Title a thread after its first question, cut at a word boundary
+export const getThreadTitle = (firstMessage: string): string => {
+  const text = firstMessage.replace(/\s+/g, ' ').trim();
+  if (text.length <= MAX_TITLE_LENGTH) return text || 'New conversation';
+
+  const cut = text.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > 20 ? cut.slice(0, lastSpace) : cut}…`;
+};
+
+export const getChatThreads = async (clientId: string): Promise<ChatThread[]> => {
+  const { data, error } = await supabase
+    .from('chat_threads')
+    .select('*')
+    .eq('client_id', clientId)
+    .order('last_message_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch chat threads: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+export const createChatThread = async (clientId: string, title: string): Promise<ChatThread> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('chat_threads')
+    .insert({
+      client_id: clientId,
+      user_id: user.id,
+      title
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create chat thread: ${error.message}`);
+  }
+
+  return data;
+};
+
+export const deleteChatThread = async (threadId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('chat_threads')
+    .delete()
+    .eq('id', threadId);
+
+  if (error) {
+    throw new Error(`Failed to delete chat thread: ${error.message}`);
+  }
+};
+
+export const getChatMessages = async (threadId: string): Promise<StoredChatMessage[]> => {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('id, thread_id, user_id, role, content, query, sources, document_count, created_at')
+    .eq('thread_id', threadId)
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to fetch chat messages: ${error.message}`);
+  }
+
+  return (data || []) as StoredChatMessage[];
+};
+
+export const addChatMessage = async (threadId: string, message: NewChatMessage): Promise<StoredChatMessage> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .insert({
+      thread_id: threadId,
+      user_id: user.id,
+      role: message.role,
+      content: message.content,
+      query: message.query || null,
+      // Sources are whatever the panel rendered; round-tripping through JSON drops anything non-serializable
+      sources: JSON.parse(JSON.stringify(message.sources ?? [])) as Json,
+      document_count: message.documentCount ?? null
+    })
+    .select('id, thread_id, user_id, role, content, query, sources, document_count, created_at')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save chat message: ${error.message}`);
+  }
+
+  return data as StoredChatMessage;
+};
+
+export const searchChatThreads = async (query: string, clientId?: string): Promise<ChatThreadSearchResult[]> => {
+  const { data, error } = await supabase.rpc('search_chat_threads', {
+    search_query: query,
+    filter_client_id: clientId
+  });
+
+  if (error) {
+    throw new Error(`Failed to search chat threads: ${error.message}`);
+  }
+
+  return data || [];
+};
@@ -0,0 +1,95 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type ClauseType =
+  | 'definitions'
+  | 'payment'
+  | 'term'
+  | 'termination'
+  | 'confidentiality'
+  | 'indemnification'
+  | 'limitation_of_liability'
+  | 'warranties'
+  | 'governing_law'
+  | 'dispute_resolution'
+  | 'non_compete'
+  | 'non_solicitation'
+  | 'assignment'
+  | 'force_majeure'
+  | 'notices'
+  | 'release'
+  | 'severability'
+  | 'entire_agreement'
+  | 'amendment'
+  | 'other';
+
+export const CLAUSE_TYPE_LABELS: Record<ClauseType, string> = {
+  definitions: 'Definitions',
+  payment: 'Payment',
+  term: 'Term',
+  termination: 'Termination',
+  confidentiality: 'Confidentiality',
+  indemnification: 'Indemnification',
+  limitation_of_liability: 'Limitation of Liability',
+  warranties: 'Representations & Warranties',
+  governing_law: 'Governing Law',
+  dispute_resolution: 'Dispute Resolution',
+  non_compete: 'Non-Compete',
+  non_solicitation: 'Non-Solicitation',
+  assignment: 'Assignment',
+  force_majeure: 'Force Majeure',
+  notices: 'Notices',
+  release: 'Release',
+  severability: 'Severability',
+  entire_agreement: 'Entire Agreement',
+  amendment: 'Amendment',
+  other: 'Other',
+};
+
+export interface LibraryClause {
+  id: string;
+  document_id: string;
+  client_id: string | null;
+  clause_index: number;
+  clause_type: ClauseType;
+  heading: string;
+  title: string | null;
+  text: string;
+  page_number: number | null;
+  document_file_name: string;
+  client_name: string | null;
+  snippet: string | null; // Matching passage with hits wrapped in ** when searching
+}
+
+export interface ClauseSearchFilters {
+  query?: string;
+  clauseType?: ClauseType;
+  clientId?: string;
+}
+
+export const searchClauses = async (filters: ClauseSearchFilters): Promise<LibraryClause[]> => {
+  const { data, error } = await supabase.rpc('search_clauses', {
+    search_query: filters.query?.trim() || undefined,
+    filter_clause_type: filters.clauseType,
+    filter_client_id: filters.clientId
+  });
+
+  if (error) {
+    throw new Error(`Failed to search clauses: ${error.message}`);
+  }
+
+  return (data || []).map(clause => ({
+    ...clause,
+    clause_type: clause.clause_type as ClauseType,
+  }));
+};
+
+export const updateClauseType = async (clauseId: string, clauseType: ClauseType): Promise<void> => {
+  const { error } = await supabase
+    .from('document_clauses')
+    .update({ clause_type: clauseType })
+    .eq('id', clauseId);
+
+  if (error) {
+    throw new Error(`Failed to update clause type: ${error.message}`);
+  }
+};
@@ -0,0 +1,199 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Relative positions of the commented range in the shared Yjs text (see utils/relativePositions)
+export type CommentAnchor = {
+  start: number[];
+  end: number[];
+};
+
+export interface DocumentComment {
+  id: string;
+  document_id: string;
+  thread_id: string | null;
+  author_id: string;
+  author_name: string;
+  body: string;
+  mentioned_user_ids: string[];
+  anchor: CommentAnchor | null;
+  quoted_text: string | null;
+  anchor_offset: number | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A thread is its first comment, which carries the anchor and resolved state, plus the replies
+export interface CommentThread {
+  id: string;
+  root: DocumentComment;
+  replies: DocumentComment[];
+  isResolved: boolean;
+}
+
+export interface DocumentCollaborator {
+  user_id: string;
+  email: string;
+  name: string;
+  permission_level: string;
+}
+
+export interface CommentAuthor {
+  id: string;
+  name: string;
+}
+
+export interface NewThreadInput {
+  documentId: string;
+  author: CommentAuthor;
+  body: string;
+  mentionedUserIds: string[];
+  anchor: CommentAnchor;
+  quotedText: string;
+  anchorOffset: number;
+}
+
+const toComment = (row: Tables<'document_comments'>): DocumentComment => ({
+  ...row,
+  anchor: row.anchor as CommentAnchor | null,
+  created_at: row.created_at || '',
+  updated_at: row.updated_at || row.created_at || '',
+});
+
+export const groupIntoThreads = (comments: DocumentComment[]): CommentThread[] => {
+  const threads = new Map<string, CommentThread>();
+  comments.filter(comment => !comment.thread_id).forEach(root => {
+    threads.set(root.id, { id: root.id, root, replies: [], isResolved: !!root.resolved_at });
+  });
+  comments.forEach(comment => {
+    if (comment.thread_id) threads.get(comment.thread_id)?.replies.push(comment);
+  });
+  return Array.from(threads.values());
+};
+
+export const getCommentThreads = async (documentId: string): Promise<CommentThread[]> => {
+  const { data, error } = await supabase
+    .from('document_comments')
+    .select('*')
+    .eq('document_id', documentId)
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to fetch comments: ${error.message}`);
+  }
+
+  return groupIntoThreads((data || []).map(toComment));
+};
+
+export const createCommentThread = async (input: NewThreadInput): Promise<DocumentComment> => {
+  const { data, error } = await supabase
+    .from('document_comments')
+    .insert({
+      document_id: input.documentId,
+      author_id: input.author.id,
+      author_name: input.author.name,
+      body: input.body,
+      mentioned_user_ids: input.mentionedUserIds,
+      anchor: input.anchor,
+      quoted_text: input.quotedText,
+      anchor_offset: input.anchorOffset,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to add comment: ${error.message}`);
+  }
+
+  return toComment(data);
+};
+
+export const replyToThread = async (
+  thread: CommentThread,
+  author: CommentAuthor,
+  body: string,
+  mentionedUserIds: string[]
+): Promise<DocumentComment> => {
+  const { data, error } = await supabase
+    .from('document_comments')
+    .insert({
+      document_id: thread.root.document_id,
+      thread_id: thread.id,
+      author_id: author.id,
+      author_name: author.name,
+      body,
+      mentioned_user_ids: mentionedUserIds,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to reply: ${error.message}`);
+  }
+
+  return toComment(data);
+};
+
+export const setThreadResolved = async (threadId: string, resolved: boolean, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('document_comments')
+    .update({
+      resolved_at: resolved ? new Date().toISOString() : null,
+      resolved_by: resolved ? userId : null,
+    })
+    .eq('id', threadId);
+
+  if (error) {
+    throw new Error(`Failed to ${resolved ? 'resolve' : 'reopen'} thread: ${error.message}`);
+  }
+};
+
+// Deleting the first comment of a thread removes its replies too
+export const deleteComment = async (commentId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('document_comments')
+    .delete()
+    .eq('id', commentId);
+
+  if (error) {
+    throw new Error(`Failed to delete comment: ${error.message}`);
+  }
+};
+
+export const getDocumentCollaborators = async (documentId: string): Promise<DocumentCollaborator[]> => {
+  const { data, error } = await supabase.rpc('get_document_collaborators', { doc_id: documentId });
+
+  if (error) {
+    throw new Error(`Failed to fetch collaborators: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+// Mentions are written into the body as @Name; the ids are stored alongside so they survive renames
+export const extractMentionedUserIds = (body: string, collaborators: DocumentCollaborator[]): string[] =>
+  collaborators
+    .filter(collaborator => body.includes(`@${collaborator.name}`))
+    .map(collaborator => collaborator.user_id);
+
+// Stream comment changes on a document over realtime. Returns an unsubscribe function.
+export const subscribeToDocumentComments = (documentId: string, onChange: () => void): (() => void) => {
+  const channel = supabase
+    .channel(`document-comments-${documentId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'document_comments',
+        filter: `document_id=eq.${documentId}`
+      },
+      () => onChange()
+    )
+    .subscribe();
+
+  return () => {
+    channel.unsubscribe();
+  };
+};
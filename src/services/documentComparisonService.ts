@@ -0,0 +1,83 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type AlignmentStatus = 'unchanged' | 'modified' | 'added' | 'removed';
+
+export type ChangeSignificance = 'high' | 'medium' | 'low';
+
+export interface ComparisonClause {
+  index: number;
+  heading: string;
+  clause_type: string | null;
+  text: string;
+  page_number: number | null;
+}
+
+// base is the reference document (e.g. our template), other the one compared against it
+export interface AlignedRow {
+  status: AlignmentStatus;
+  base: ComparisonClause | null;
+  other: ComparisonClause | null;
+  similarity: number | null;
+}
+
+export interface ComparedDocumentInfo {
+  id: string;
+  file_name: string;
+  unit: 'clauses' | 'paragraphs';
+}
+
+export interface ComparisonExplanation {
+  summary: string;
+  changes: Array<{ row: number; explanation: string; significance: ChangeSignificance }>;
+}
+
+export interface DocumentComparison {
+  base: ComparedDocumentInfo;
+  other: ComparedDocumentInfo;
+  rows: AlignedRow[];
+  counts: Record<AlignmentStatus, number>;
+  explanation: ComparisonExplanation | null;
+  explanation_error: string | null;
+}
+
+export interface ComparableDocument {
+  id: string;
+  file_name: string;
+  client_id: string | null;
+}
+
+export const getComparableDocuments = async (clientId?: string): Promise<ComparableDocument[]> => {
+  let query = supabase
+    .from('documents')
+    .select('id, file_name, client_id')
+    .order('file_name');
+
+  if (clientId) {
+    query = query.eq('client_id', clientId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch documents: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+// Aligns the clauses of two different documents; with explain set the AI also describes the substantive changes
+export const compareDocuments = async (
+  baseDocumentId: string,
+  otherDocumentId: string,
+  explain: boolean
+): Promise<DocumentComparison> => {
+  const { data, error } = await supabase.functions.invoke('compare-documents', {
+    body: { base_document_id: baseDocumentId, other_document_id: otherDocumentId, explain },
+  });
+
+  if (error) {
+    throw new Error(`Failed to compare documents: ${error.message}`);
+  }
+
+  return data as DocumentComparison;
+};
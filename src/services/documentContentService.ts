@@ -1,6 +1,10 @@
 
 import { supabase } from '@/integrations/supabase/client';
 
+// How often, and for how long, to check whether the collaboration relay has written the latest edits
+const RELAY_PERSIST_POLL_MS = 500;
+const RELAY_PERSIST_TIMEOUT_MS = 10000;
+
 export const getDocumentContent = async (documentId: string): Promise<string> => {
   const { data, error } = await supabase
     .from('documents')
@@ -15,3 +19,52 @@ export const getDocumentContent = async (documentId: string): Promise<string> =>
 
   return data?.content || '';
 };
+
+// Write the editor's text to documents.content, for when the collaboration relay isn't connected: while it
+// is, the relay owns the content and a write from here would replace collaborators' edits. A lock, or missing edit access, makes the update match
+// no rows under RLS rather than fail outright, so that is reported as an error too.
+export const saveDocumentContent = async (documentId: string, content: string): Promise<void> => {
+  const { data, error } = await supabase
+    .from('documents')
+    .update({
+      content,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', documentId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to save document: ${error.message}`);
+  }
+
+  if (!data?.length) {
+    throw new Error('This document is locked and cannot be saved');
+  }
+};
+
+// While connected, the collaboration relay writes documents.content a couple of seconds after the last edit.
+// Wait until it holds the text the editor shows, or has been written again since we started waiting,
+// which includes those edits even if collaborators have typed more in the meantime.
+export const waitForRelayContent = async (documentId: string, content: string): Promise<void> => {
+  const deadline = Date.now() + RELAY_PERSIST_TIMEOUT_MS;
+  let startedAt: string | null = null;
+
+  while (Date.now() < deadline) {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('content, updated_at')
+      .eq('id', documentId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch document content: ${error.message}`);
+    }
+
+    if ((data.content || '') === content || (startedAt !== null && data.updated_at !== startedAt)) return;
+    if (startedAt === null) startedAt = data.updated_at;
+
+    await new Promise(resolve => setTimeout(resolve, RELAY_PERSIST_POLL_MS));
+  }
+
+  throw new Error('The latest edits have not reached the server yet; try again in a moment');
+};
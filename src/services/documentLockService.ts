@@ -0,0 +1,128 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// How long a newly taken or renewed editing lock lasts
+export const DEFAULT_LOCK_MINUTES = 120;
+
+export interface DocumentLock {
+  id: string;
+  user_id: string;
+  holder_name: string;
+  holder_email: string;
+  lock_type: string;
+  locked_at: string;
+  expires_at: string;
+}
+
+export interface LockedSnapshot {
+  id: string;
+  label: string;
+}
+
+// What keeps a document from being edited: someone's exclusive lock and/or locked snapshots
+export interface DocumentLockState {
+  lock: DocumentLock | null;
+  lockedSnapshots: LockedSnapshot[];
+}
+
+export const getDocumentLockState = async (documentId: string): Promise<DocumentLockState> => {
+  const [{ data: locks, error: lockError }, { data: snapshots, error: snapshotError }] = await Promise.all([
+    supabase.rpc('get_active_document_lock', { doc_id: documentId }),
+    supabase
+      .from('document_snapshots')
+      .select('id, label')
+      .eq('document_id', documentId)
+      .eq('is_locked', true)
+      .order('created_at', { ascending: false }),
+  ]);
+
+  if (lockError) {
+    throw new Error(`Failed to fetch document lock: ${lockError.message}`);
+  }
+  if (snapshotError) {
+    throw new Error(`Failed to fetch locked snapshots: ${snapshotError.message}`);
+  }
+
+  return {
+    lock: locks?.[0] ?? null,
+    lockedSnapshots: snapshots || [],
+  };
+};
+
+// Take the exclusive editing lock, or renew it when already held. Owners and admins can take over someone else's.
+export const acquireDocumentLock = async (documentId: string, takeOver = false): Promise<void> => {
+  const { error } = await supabase.rpc('acquire_document_lock', {
+    doc_id: documentId,
+    duration_minutes: DEFAULT_LOCK_MINUTES,
+    take_over: takeOver,
+  });
+
+  if (error) {
+    throw new Error(`Failed to lock document: ${error.message}`);
+  }
+};
+
+export const releaseDocumentLock = async (documentId: string): Promise<void> => {
+  const { error } = await supabase.rpc('release_document_lock', { doc_id: documentId });
+
+  if (error) {
+    throw new Error(`Failed to unlock document: ${error.message}`);
+  }
+};
+
+// Whether someone else's unexpired lock, or a locked snapshot, keeps the user from changing the document
+export const isDocumentEditBlocked = async (documentId: string, userId: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('document_edit_blocked', { doc_id: documentId, user_id: userId });
+
+  if (error) {
+    throw new Error(`Failed to check document lock: ${error.message}`);
+  }
+
+  return data;
+};
+
+// While any snapshot is locked the whole document is read-only
+export const setSnapshotLocked = async (snapshotId: string, locked: boolean): Promise<void> => {
+  const { data, error } = await supabase
+    .from('document_snapshots')
+    .update({ is_locked: locked })
+    .eq('id', snapshotId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to ${locked ? 'lock' : 'unlock'} snapshot: ${error.message}`);
+  }
+  if (!data || data.length === 0) {
+    throw new Error(`Failed to ${locked ? 'lock' : 'unlock'} snapshot: only the document owner can do this`);
+  }
+};
+
+// Stream lock and snapshot lock changes on a document over realtime. Returns an unsubscribe function.
+export const subscribeToDocumentLocks = (documentId: string, onChange: () => void): (() => void) => {
+  const channel = supabase
+    .channel(`document-locks-${documentId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'document_locks',
+        filter: `document_id=eq.${documentId}`
+      },
+      () => onChange()
+    )
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'document_snapshots',
+        filter: `document_id=eq.${documentId}`
+      },
+      () => onChange()
+    )
+    .subscribe();
+
+  return () => {
+    channel.unsubscribe();
+  };
+};
@@ -1,6 +1,8 @@
 
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { processFile } from '@/utils/fileProcessor';
+import { uploadOriginalFile, ORIGINALS_BUCKET } from './documentStorageService';
 
 export interface Document {
   id: string;
@@ -11,6 +13,9 @@ export interface Document {
   uploaded_at: string;
   file_type: string;
   content?: string;
+  storage_path?: string | null;
+  checksum_sha256?: string | null;
+  metadata?: Json | null;
 }
 
 export const getDocuments = async (folderId: string): Promise<Document[]> => {
@@ -33,7 +38,10 @@ export const getDocuments = async (folderId: string): Promise<Document[]> => {
     size: doc.file_size,
     uploaded_at: doc.created_at,
     file_type: doc.file_type,
-    content: doc.content
+    content: doc.content,
+    storage_path: doc.storage_path,
+    checksum_sha256: doc.checksum_sha256,
+    metadata: doc.metadata
   }));
 };
 
@@ -46,7 +54,11 @@ export const uploadDocument = async (
     console.log('Processing file before upload:', file.name);
     
     // Process the file to extract content
-    const { content, extractedData } = await processFile(file);
+    const { content, extractedData, metadata } = await processFile(file);
+
+    // Keep the original bytes so the exact filing can be rendered or downloaded later
+    const { storagePath, checksum } = await uploadOriginalFile(file);
+    console.log('Stored original file:', { storagePath, checksum });
     
     // Prepare the JSON payload for the edge function
     const payload = {
@@ -56,8 +68,11 @@ export const uploadDocument = async (
       content: content,
       title: file.name.replace(/\.[^/.]+$/, ''), // Remove file extension for title
       extractedData: extractedData,
+      metadata: metadata,
       clientId: clientId,
-      folderId: folderId
+      folderId: folderId,
+      storagePath: storagePath,
+      checksum: checksum
     };
 
     console.log('Sending JSON payload to edge function:', {
@@ -65,7 +80,8 @@ export const uploadDocument = async (
       fileType: payload.fileType,
       fileSize: payload.fileSize,
       contentLength: payload.content.length,
-      hasExtractedData: !!payload.extractedData
+      hasExtractedData: !!payload.extractedData,
+      format: payload.metadata?.format
     });
 
     // Call the Supabase Edge Function with JSON payload
@@ -78,6 +94,8 @@ export const uploadDocument = async (
 
     if (error) {
       console.error('Edge function error:', error);
+      // Don't leave an orphaned original behind when the document row was never created
+      await supabase.storage.from(ORIGINALS_BUCKET).remove([storagePath]);
       throw new Error(`Upload failed: ${error.message}`);
     }
 
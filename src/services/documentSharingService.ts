@@ -273,6 +273,37 @@ export class DocumentSharingService {
     }
   }
 
+  /**
+   * Redeem a share link as a document share for the signed-in user
+   */
+  async redeemShareLink(shareToken: string): Promise<{
+    success: boolean;
+    documentId?: string;
+    permission?: string;
+    error?: string;
+  }> {
+    try {
+      const { data, error } = await supabase
+        .rpc('redeem_document_share_link', { link_token: shareToken });
+
+      // The function's message says why the link was refused (expired, usage limit)
+      if (error) {
+        console.error('Error redeeming share link:', error);
+        return { success: false, error: error.message };
+      }
+
+      const redeemed = data?.[0];
+      if (!redeemed) {
+        return { success: false, error: 'Invalid or expired share link' };
+      }
+
+      return { success: true, documentId: redeemed.document_id, permission: redeemed.permission_level };
+    } catch (error) {
+      console.error('Error redeeming share link:', error);
+      return { success: false, error: 'Failed to redeem share link' };
+    }
+  }
+
   /**
    * Access document via share link
    */
@@ -283,6 +314,31 @@ export class DocumentSharingService {
     error?: string;
   }> {
     try {
+      // Signed-in users get a share of the link's level, so the document and its comments
+      // are readable under the same policies as direct shares
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        const redeemed = await this.redeemShareLink(shareToken);
+        if (!redeemed.success || !redeemed.documentId) {
+          return { success: false, error: redeemed.error };
+        }
+
+        const { data: document, error: documentError } = await supabase
+          .from('documents')
+          .select('*')
+          .eq('id', redeemed.documentId)
+          .single();
+
+        if (documentError) throw documentError;
+
+        return {
+          success: true,
+          document,
+          // Owners opening their own link get full editing
+          permission: redeemed.permission === 'admin' ? 'edit' : redeemed.permission
+        };
+      }
+
       // Get the share link
       const { data: linkData, error: linkError } = await supabase
         .from('document_share_links')
@@ -0,0 +1,107 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const ORIGINALS_BUCKET = 'document-originals';
+
+export interface StoredOriginal {
+  storagePath: string;
+  checksum: string;
+}
+
+export interface OriginalFileInfo {
+  storage_path: string | null;
+  checksum_sha256: string | null;
+  file_name: string;
+  file_type: string;
+}
+
+// Hex-encoded SHA-256 of the file bytes
+export const computeFileChecksum = async (file: Blob): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const uploadOriginalFile = async (file: File): Promise<StoredOriginal> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const checksum = await computeFileChecksum(file);
+
+  // Keep the original name for downloads but never let it escape the user's folder
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+  const storagePath = `${user.id}/${crypto.randomUUID()}/${safeName}`;
+
+  const { error } = await supabase.storage
+    .from(ORIGINALS_BUCKET)
+    .upload(storagePath, file, {
+      contentType: file.type || 'application/octet-stream',
+      upsert: false
+    });
+
+  if (error) {
+    throw new Error(`Failed to store original file: ${error.message}`);
+  }
+
+  return { storagePath, checksum };
+};
+
+export const getOriginalFileInfo = async (documentId: string): Promise<OriginalFileInfo | null> => {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('storage_path, checksum_sha256, file_name, file_type')
+    .eq('id', documentId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching original file info:', error);
+    throw new Error(`Failed to fetch original file info: ${error.message}`);
+  }
+
+  return data;
+};
+
+export const getOriginalFileUrl = async (storagePath: string, expiresIn: number = 3600): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(ORIGINALS_BUCKET)
+    .createSignedUrl(storagePath, expiresIn);
+
+  if (error || !data) {
+    throw new Error(`Failed to create download link: ${error?.message || 'Unknown error'}`);
+  }
+
+  return data.signedUrl;
+};
+
+// Download the original and confirm it still matches the checksum recorded at upload
+export const downloadOriginalFile = async (
+  info: OriginalFileInfo
+): Promise<{ blob: Blob; verified: boolean }> => {
+  if (!info.storage_path) {
+    throw new Error('No original file stored for this document');
+  }
+
+  const { data, error } = await supabase.storage
+    .from(ORIGINALS_BUCKET)
+    .download(info.storage_path);
+
+  if (error || !data) {
+    throw new Error(`Failed to download original file: ${error?.message || 'Unknown error'}`);
+  }
+
+  const verified = info.checksum_sha256
+    ? (await computeFileChecksum(data)) === info.checksum_sha256
+    : false;
+
+  return { blob: data, verified };
+};
+
+export const saveBlobAs = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
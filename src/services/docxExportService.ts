@@ -0,0 +1,93 @@
+import { strToU8, zipSync } from 'fflate';
+import { format } from 'date-fns';
+import { RedlineSegment, RedlineSegmentType } from '@/utils/redlineDiff';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`;
+
+const PACKAGE_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`;
+
+// Traditional redline formatting: insertions underlined, deletions struck through, moves doubled in green
+const REDLINE_RUN_PROPERTIES: Record<RedlineSegmentType, string> = {
+  'equal': '',
+  'inserted': '<w:color w:val="1F4EB4"/><w:u w:val="single"/>',
+  'deleted': '<w:color w:val="C00000"/><w:strike/>',
+  'moved-from': '<w:color w:val="2E7D32"/><w:dstrike/>',
+  'moved-to': '<w:color w:val="2E7D32"/><w:u w:val="double"/>',
+};
+
+// Control characters other than tab, newline and carriage return are invalid in XML
+const isXmlCharacter = (char: string) => {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+};
+
+const escapeXml = (text: string) =>
+  Array.from(text)
+    .filter(isXmlCharacter)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+const run = (text: string, properties = '') =>
+  `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+const paragraph = (runs: string) => `<w:p>${runs}</w:p>`;
+
+// Segments can span paragraphs, so runs are cut at each newline and the paragraph closed there
+const redlineParagraphs = (segments: RedlineSegment[]): string[] => {
+  const paragraphs: string[] = [];
+  let current = '';
+
+  segments.forEach(segment => {
+    const properties = REDLINE_RUN_PROPERTIES[segment.type];
+    segment.text.split('\n').forEach((line, i) => {
+      if (i > 0) {
+        paragraphs.push(paragraph(current));
+        current = '';
+      }
+      if (line) current += run(line, properties);
+    });
+  });
+
+  paragraphs.push(paragraph(current));
+  return paragraphs;
+};
+
+/**
+ * Export a redline as a Word document with strikethrough/underline formatting, headed by a title,
+ * detail lines (e.g. the compared versions) and a legend
+ */
+export const exportRedlineAsDocx = (title: string, details: string[], segments: RedlineSegment[]): Blob => {
+  const header = [
+    paragraph(run(title, '<w:b/><w:sz w:val="32"/>')),
+    ...details.map(detail => paragraph(run(detail, '<w:color w:val="666666"/><w:sz w:val="18"/>'))),
+    paragraph(run(`Generated: ${format(new Date(), 'PPpp')}`, '<w:color w:val="666666"/><w:sz w:val="18"/>')),
+    paragraph([
+      run('Legend: ', '<w:sz w:val="18"/>'),
+      run('inserted', `${REDLINE_RUN_PROPERTIES.inserted}<w:sz w:val="18"/>`),
+      run('  '),
+      run('deleted', `${REDLINE_RUN_PROPERTIES.deleted}<w:sz w:val="18"/>`),
+      run('  '),
+      run('moved from', `${REDLINE_RUN_PROPERTIES['moved-from']}<w:sz w:val="18"/>`),
+      run('  '),
+      run('moved to', `${REDLINE_RUN_PROPERTIES['moved-to']}<w:sz w:val="18"/>`),
+    ].join('')),
+    paragraph(''),
+  ];
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${[...header, ...redlineParagraphs(segments)].join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const zipped = zipSync({
+    '[Content_Types].xml': strToU8(CONTENT_TYPES_XML),
+    '_rels/.rels': strToU8(PACKAGE_RELS_XML),
+    'word/document.xml': strToU8(documentXml),
+  });
+
+  return new Blob([zipped], { type: DOCX_MIME_TYPE });
+};
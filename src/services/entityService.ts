@@ -0,0 +1,72 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type EntityType = 'person' | 'organization' | 'court' | 'amount' | 'case_number' | 'statute';
+
+export const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+  person: 'People',
+  organization: 'Organizations',
+  court: 'Courts',
+  amount: 'Amounts',
+  case_number: 'Case Numbers',
+  statute: 'Statutes',
+};
+
+// A distinct entity across a client's documents; mentions are grouped by type and normalized_key
+export interface ClientEntity {
+  entity_type: EntityType;
+  normalized_key: string;
+  display_name: string;
+  roles: string[];
+  mention_count: number;
+  document_count: number;
+}
+
+export interface EntityMention {
+  id: string;
+  document_id: string;
+  document_file_name: string;
+  text: string;
+  role: string | null;
+  context: string | null;
+  page_number: number | null;
+  line_number: number | null;
+  start_offset: number;
+  end_offset: number;
+}
+
+export const getClientEntities = async (clientId: string): Promise<ClientEntity[]> => {
+  const { data, error } = await supabase.rpc('get_client_entities', {
+    target_client_id: clientId
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch entities: ${error.message}`);
+  }
+
+  return (data || []).map(entity => ({
+    ...entity,
+    entity_type: entity.entity_type as EntityType,
+  }));
+};
+
+export const getEntityMentions = async (clientId: string, entity: Pick<ClientEntity, 'entity_type' | 'normalized_key'>): Promise<EntityMention[]> => {
+  const { data, error } = await supabase
+    .from('document_entities')
+    .select('id, document_id, text, role, context, page_number, line_number, start_offset, end_offset, documents(file_name)')
+    .eq('client_id', clientId)
+    .eq('entity_type', entity.entity_type)
+    .eq('normalized_key', entity.normalized_key)
+    .order('document_id')
+    .order('page_number', { nullsFirst: false })
+    .order('line_number', { nullsFirst: false })
+    .order('start_offset');
+
+  if (error) {
+    throw new Error(`Failed to fetch entity mentions: ${error.message}`);
+  }
+
+  return (data || []).map(({ documents, ...mention }) => ({
+    ...mention,
+    document_file_name: documents?.file_name || 'Unknown document'
+  }));
+};
@@ -0,0 +1,254 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type IngestionJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface IngestionJob {
+  id: string;
+  document_id: string;
+  user_id: string;
+  status: IngestionJobStatus;
+  total_chunks: number;
+  processed_chunks: number;
+  failed_chunks: number;
+  attempts: number;
+  last_error: string | null;
+  locked_until: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  completed_at: string | null;
+}
+
+// How often an open subscription checks whether the worker has died mid-job
+const STALL_CHECK_INTERVAL_MS = 30000;
+
+export const isIngestionJobActive = (job: IngestionJob): boolean => {
+  return job.status === 'pending' || job.status === 'processing';
+};
+
+// Fraction of chunks that have been dealt with, whether embedded or given up on
+export const getIngestionProgress = (job: IngestionJob): number => {
+  if (job.total_chunks === 0) return 1;
+  return Math.min(1, (job.processed_chunks + job.failed_chunks) / job.total_chunks);
+};
+
+export const getIngestionJob = async (jobId: string): Promise<IngestionJob> => {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch ingestion job: ${error.message}`);
+  }
+
+  return data as IngestionJob;
+};
+
+export const getLatestIngestionJob = async (documentId: string): Promise<IngestionJob | null> => {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('document_id', documentId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch ingestion job: ${error.message}`);
+  }
+
+  return data as IngestionJob | null;
+};
+
+// Kick the worker for a job. Resolves once that worker run ends, which may be well after progress starts flowing.
+export const resumeIngestionJob = async (jobId: string): Promise<void> => {
+  const { error } = await supabase.functions.invoke('process-ingestion-job', {
+    body: { jobId },
+  });
+
+  if (error) {
+    throw new Error(`Failed to resume ingestion job: ${error.message}`);
+  }
+};
+
+// Queue chunks that ran out of attempts again and put the job back in the pending state
+export const retryIngestionJob = async (job: IngestionJob): Promise<IngestionJob> => {
+  const { error: chunkError } = await supabase
+    .from('document_embeddings')
+    .update({ embedding_attempts: 0, embedding_error: null })
+    .eq('document_id', job.document_id)
+    .is('embedding', null);
+
+  if (chunkError) {
+    throw new Error(`Failed to reset failed chunks: ${chunkError.message}`);
+  }
+
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .update({
+      status: 'pending',
+      failed_chunks: 0,
+      last_error: null,
+      completed_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to retry ingestion job: ${error.message}`);
+  }
+
+  return data as IngestionJob;
+};
+
+// Queue a job for each of the user's documents in a client that has chunks the timeline or entity
+// extraction never finished, or whose clauses were never extracted, e.g. documents ingested before those
+// passes existed. The worker skips the embedding work that is already done. Resolves with the number of
+// documents queued.
+export const backfillChunkExtraction = async (clientId: string): Promise<number> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data: documents, error: documentsError } = await supabase
+    .from('documents')
+    .select('id, clauses_extracted_at')
+    .eq('client_id', clientId)
+    .eq('user_id', user.id);
+
+  if (documentsError) {
+    throw new Error(`Failed to fetch client documents: ${documentsError.message}`);
+  }
+
+  const documentIds = (documents || []).map(document => document.id);
+  if (documentIds.length === 0) return 0;
+
+  const { data: chunks, error: chunksError } = await supabase
+    .from('document_embeddings')
+    .select('document_id')
+    .in('document_id', documentIds)
+    .or('events_extracted_at.is.null,entities_extracted_at.is.null');
+
+  if (chunksError) {
+    throw new Error(`Failed to find unextracted chunks: ${chunksError.message}`);
+  }
+
+  const { data: activeJobs, error: jobsError } = await supabase
+    .from('ingestion_jobs')
+    .select('document_id')
+    .in('document_id', documentIds)
+    .in('status', ['pending', 'processing']);
+
+  if (jobsError) {
+    throw new Error(`Failed to fetch ingestion jobs: ${jobsError.message}`);
+  }
+
+  // A document that already has a job running gets picked up by that job
+  const busy = new Set((activeJobs || []).map(job => job.document_id));
+  const pending = Array.from(new Set([
+    ...(chunks || []).map(chunk => chunk.document_id),
+    ...(documents || []).filter(document => !document.clauses_extracted_at).map(document => document.id)
+  ])).filter(documentId => !busy.has(documentId));
+
+  const jobs: IngestionJob[] = [];
+  for (const documentId of pending) {
+    const { error: resetError } = await supabase
+      .from('document_embeddings')
+      .update({ events_extraction_attempts: 0, entities_extraction_attempts: 0 })
+      .eq('document_id', documentId)
+      .or('events_extracted_at.is.null,entities_extracted_at.is.null');
+
+    if (resetError) {
+      throw new Error(`Failed to reset extraction attempts: ${resetError.message}`);
+    }
+
+    const { count } = await supabase
+      .from('document_embeddings')
+      .select('id', { count: 'exact', head: true })
+      .eq('document_id', documentId);
+
+    const { data: job, error: insertError } = await supabase
+      .from('ingestion_jobs')
+      .insert({ document_id: documentId, user_id: user.id, total_chunks: count || 0 })
+      .select()
+      .single();
+
+    if (insertError) {
+      throw new Error(`Failed to queue backfill job: ${insertError.message}`);
+    }
+
+    jobs.push(job as IngestionJob);
+  }
+
+  // Start each worker once the previous one's first run has ended, so a large client doesn't hit the model
+  // provider with every document at once. Jobs that hand off keep going alongside the ones started later.
+  (async () => {
+    for (const job of jobs) {
+      try {
+        await resumeIngestionJob(job.id);
+      } catch (error) {
+        console.error(`Error running backfill job ${job.id}:`, error);
+      }
+    }
+  })();
+
+  return jobs.length;
+};
+
+// A job is stalled when it is unfinished and no worker holds a live lease on it.
+// Freshly queued jobs get a grace period so we don't race the worker started by process-document.
+const isStalled = (job: IngestionJob): boolean => {
+  if (!isIngestionJobActive(job)) return false;
+  if (job.locked_until) {
+    return new Date(job.locked_until).getTime() < Date.now();
+  }
+  const lastUpdate = job.updated_at ? new Date(job.updated_at).getTime() : 0;
+  return Date.now() - lastUpdate > STALL_CHECK_INTERVAL_MS;
+};
+
+// Stream job updates over realtime and restart the worker if it stops without finishing.
+// Returns an unsubscribe function.
+export const subscribeToIngestionJob = (
+  jobId: string,
+  onChange: (job: IngestionJob) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`ingestion-job-${jobId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'ingestion_jobs',
+        filter: `id=eq.${jobId}`
+      },
+      (payload) => {
+        onChange(payload.new as IngestionJob);
+      }
+    )
+    .subscribe();
+
+  const checkForStall = async () => {
+    try {
+      const job = await getIngestionJob(jobId);
+      onChange(job);
+      if (isStalled(job)) {
+        console.log(`Ingestion job ${jobId} has no active worker, resuming`);
+        await resumeIngestionJob(jobId);
+      }
+    } catch (error) {
+      console.error('Error checking ingestion job:', error);
+    }
+  };
+
+  // Catch up on anything that happened before the channel connected
+  checkForStall();
+  const interval = setInterval(checkForStall, STALL_CHECK_INTERVAL_MS);
+
+  return () => {
+    clearInterval(interval);
+    channel.unsubscribe();
+  };
+};
@@ -1,6 +1,7 @@
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import { format } from 'date-fns';
+import { RedlineSegment, RedlineSegmentType } from '@/utils/redlineDiff';
 
 interface DocumentSnapshot {
   id: string;
@@ -28,6 +29,15 @@ interface ExportOptions {
   watermark?: string;
 }
 
+// Traditional redline colours (RGB): insertions blue, deletions red, moved text green
+const REDLINE_COLORS: Record<RedlineSegmentType, [number, number, number]> = {
+  'equal': [0, 0, 0],
+  'inserted': [31, 78, 180],
+  'deleted': [192, 0, 0],
+  'moved-from': [46, 125, 50],
+  'moved-to': [46, 125, 50],
+};
+
 const DEFAULT_OPTIONS: ExportOptions = {
   includeMetadata: true,
   includeHeader: true,
@@ -103,11 +113,13 @@ export class PDFExportService {
   }
 
   /**
-   * Export multiple snapshots as a single PDF with comparison
+   * Export multiple snapshots as a single PDF with comparison. Pass a redline of the first snapshot
+   * against the last to export it in legal style instead of the full text of each snapshot.
    */
   public async exportSnapshotComparison(
     snapshots: DocumentSnapshot[],
-    options: Partial<ExportOptions> = {}
+    options: Partial<ExportOptions> = {},
+    redline?: RedlineSegment[]
   ): Promise<Blob> {
     const opts = { ...DEFAULT_OPTIONS, ...options };
     const pdf = new jsPDF({
@@ -119,6 +131,11 @@ export class PDFExportService {
     // Add title page
     this.addComparisonTitlePage(pdf, snapshots, opts);
 
+    if (redline) {
+      this.addRedline(pdf, redline, opts);
+      return pdf.output('blob');
+    }
+
     // Add each snapshot
     for (let i = 0; i < snapshots.length; i++) {
       if (i > 0) {
@@ -190,6 +207,72 @@ export class PDFExportService {
     return pdf.output('blob');
   }
 
+  /**
+   * Export a chronology table as PDF, wrapping long cells and repeating the header on each page
+   */
+  public async exportChronology(
+    title: string,
+    headers: string[],
+    rows: string[][],
+    options: Partial<ExportOptions> = {}
+  ): Promise<Blob> {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const pdf = new jsPDF({
+      orientation: 'portrait',
+      unit: 'mm',
+      format: 'a4'
+    });
+
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const contentWidth = pdf.internal.pageSize.getWidth() - opts.margins!.left - opts.margins!.right;
+    const colWidths = [30, contentWidth - 80, 50];
+    const lineHeight = 4;
+    let yPosition = opts.margins!.top;
+
+    // Add title
+    pdf.setFontSize(16);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(title, opts.margins!.left, yPosition);
+    yPosition += 8;
+
+    pdf.setFontSize(10);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(`Generated: ${format(new Date(), 'PPpp')} - ${rows.length} events`, opts.margins!.left, yPosition);
+    yPosition += 10;
+
+    const addTableHeader = () => {
+      pdf.setFontSize(9);
+      pdf.setFont('helvetica', 'bold');
+      headers.forEach((header, i) => {
+        pdf.text(header, opts.margins!.left + colWidths.slice(0, i).reduce((a, b) => a + b, 0), yPosition);
+      });
+      yPosition += 2;
+      pdf.line(opts.margins!.left, yPosition, opts.margins!.left + contentWidth, yPosition);
+      yPosition += lineHeight;
+      pdf.setFont('helvetica', 'normal');
+    };
+
+    addTableHeader();
+
+    rows.forEach(row => {
+      const cells = row.map((cell, i) => pdf.splitTextToSize(cell, colWidths[i] - 3) as string[]);
+      const rowHeight = Math.max(...cells.map(lines => lines.length)) * lineHeight;
+
+      if (yPosition + rowHeight > pageHeight - opts.margins!.bottom) {
+        pdf.addPage();
+        yPosition = opts.margins!.top;
+        addTableHeader();
+      }
+
+      cells.forEach((lines, i) => {
+        pdf.text(lines, opts.margins!.left + colWidths.slice(0, i).reduce((a, b) => a + b, 0), yPosition);
+      });
+      yPosition += rowHeight + 2;
+    });
+
+    return pdf.output('blob');
+  }
+
   private addHeader(
     pdf: jsPDF,
     snapshot: DocumentSnapshot,
@@ -409,6 +492,112 @@ export class PDFExportService {
     pdf.addPage();
   }
 
+  // Lay the redline out word by word so each change can carry its own colour and strike/underline.
+  // Deletions are struck through, insertions underlined; moves use double lines.
+  private addRedline(
+    pdf: jsPDF,
+    segments: RedlineSegment[],
+    options: ExportOptions
+  ): void {
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const left = options.margins!.left;
+    const right = pageWidth - options.margins!.right;
+    const lineHeight = 5;
+    let yPosition = options.margins!.top;
+
+    // Legend
+    pdf.setFontSize(9);
+    pdf.setFont('helvetica', 'normal');
+    let x = left;
+    pdf.text('Legend:', x, yPosition);
+    x += pdf.getTextWidth('Legend: ');
+    ([['inserted', 'inserted'], ['deleted', 'deleted'], ['moved-from', 'moved from'], ['moved-to', 'moved to']] as const)
+      .forEach(([type, label]) => {
+        this.drawRedlineText(pdf, label, type, x, yPosition);
+        x += pdf.getTextWidth(`${label}   `);
+      });
+    pdf.setTextColor(0, 0, 0);
+    yPosition += lineHeight * 2;
+
+    pdf.setFontSize(options.fontSize!);
+    x = left;
+
+    const newLine = () => {
+      x = left;
+      yPosition += lineHeight;
+      if (yPosition > pageHeight - options.margins!.bottom) {
+        pdf.addPage();
+        yPosition = options.margins!.top;
+      }
+    };
+
+    segments.forEach(segment => {
+      // Newlines, runs of spaces and words, in order
+      const tokens = segment.text.match(/\n|[^\S\n]+|\S+/g) || [];
+      tokens.forEach(token => {
+        if (token === '\n') {
+          newLine();
+          return;
+        }
+
+        const width = pdf.getTextWidth(token);
+        if (/^\s+$/.test(token)) {
+          // Spaces inside a change stay decorated so the strike or underline reads as one span
+          if (x === left) return;
+          if (segment.type !== 'equal') this.drawRedlineText(pdf, '', segment.type, x, yPosition, width);
+          x += width;
+          return;
+        }
+
+        if (x + width > right && x > left) {
+          newLine();
+        }
+        this.drawRedlineText(pdf, token, segment.type, x, yPosition);
+        x += width;
+      });
+    });
+
+    pdf.setTextColor(0, 0, 0);
+    pdf.setDrawColor(0, 0, 0);
+  }
+
+  private drawRedlineText(
+    pdf: jsPDF,
+    text: string,
+    type: RedlineSegmentType,
+    x: number,
+    y: number,
+    width = pdf.getTextWidth(text)
+  ): void {
+    const [r, g, b] = REDLINE_COLORS[type];
+    pdf.setTextColor(r, g, b);
+    pdf.setDrawColor(r, g, b);
+    pdf.setLineWidth(0.2);
+
+    if (text) {
+      pdf.text(text, x, y);
+    }
+
+    const strikeY = y - pdf.getFontSize() * 0.12;
+    switch (type) {
+      case 'deleted':
+        pdf.line(x, strikeY, x + width, strikeY);
+        break;
+      case 'moved-from':
+        pdf.line(x, strikeY - 0.4, x + width, strikeY - 0.4);
+        pdf.line(x, strikeY + 0.4, x + width, strikeY + 0.4);
+        break;
+      case 'inserted':
+        pdf.line(x, y + 0.8, x + width, y + 0.8);
+        break;
+      case 'moved-to':
+        pdf.line(x, y + 0.8, x + width, y + 0.8);
+        pdf.line(x, y + 1.6, x + width, y + 1.6);
+        break;
+    }
+  }
+
   private addTable(
     pdf: jsPDF,
     headers: string[],
@@ -2,6 +2,29 @@ import { supabase } from '@/integrations/supabase/client';
 import { Client, getFolders } from './clientService';
 import { findRelevantSentences, AnswerRelevantSentence } from './answerMatchingService';
 
+// Which retrieval path surfaced a chunk in hybrid search
+export type Retriever = 'semantic' | 'keyword';
+
+// Metadata the model extracts alongside each citation, validated server-side
+export interface LegalMetadata {
+  entities: string[];
+  dates: string[];
+  section: string;
+  legal_concept: string;
+}
+
+// A quote checked against its chunk. Verified quotes are the exact source text and their span
+// offsets index into the chunk content; unverified ones could not be found and have no offsets.
+export interface Citation {
+  chunk_id: string;
+  quote: string;
+  span_start: number | null;
+  span_end: number | null;
+  verified: boolean;
+  match_score: number;
+  legal_metadata: LegalMetadata;
+}
+
 export interface SearchResult {
   document_id: string;
   document_title: string;
@@ -14,8 +37,15 @@ export interface SearchResult {
   line_end?: number;
   client?: string;
   matter?: string;
+  chunk_id?: string;
   relevant_span?: string | null;
-  legal_metadata?: any;
+  span_start?: number | null;
+  span_end?: number | null;
+  span_verified?: boolean | null;
+  citations?: Citation[];
+  legal_metadata?: LegalMetadata | null;
+  retrievers?: Retriever[];
+  rrf_score?: number;
 }
 
 export interface ConsolidatedDocument {
@@ -31,17 +61,33 @@ export interface ConsolidatedDocument {
     lines?: string;
     section?: string;
     queryRelevance?: number;
+    legal_metadata?: LegalMetadata | null;
+    verified?: boolean;
   }>;
   total_pages?: number;
+  retrievers: Retriever[];
+}
+
+// Optional scoping passed through to match_document_chunks on top of the client filter
+export interface SearchFilters {
+  folderId?: string;
+  matter?: string;
 }
 
 export interface SearchResponse {
   results: SearchResult[];
   consolidated_documents: ConsolidatedDocument[];
   ai_response?: string;
+  standalone_query?: string; // Follow-up rewritten with the conversation, as used for retrieval
   message?: string;
 }
 
+// Earlier messages in the chat, oldest first, sent so follow-up questions can be resolved
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
 // Extract document references from AI response with improved parsing
 function extractDocumentReferences(aiResponse: string) {
   console.log('Extracting document references from AI response:', aiResponse);
@@ -187,7 +233,8 @@ function generateSpanBasedHighlights(userQuery: string, chunks: SearchResult[]):
   lines?: string;
   section?: string;
   queryRelevance: number;
-  legal_metadata?: any;
+  legal_metadata?: LegalMetadata | null;
+  verified?: boolean;
 }> {
   console.log('Generating span-based highlights from LLM-extracted spans');
   console.log('Input chunks for span generation:', chunks.length);
@@ -200,15 +247,17 @@ function generateSpanBasedHighlights(userQuery: string, chunks: SearchResult[]):
   });
   
   const highlights = chunksWithSpans.map(chunk => {
-    const section = detectSection(chunk.content);
+    const section = chunk.legal_metadata?.section || detectSection(chunk.content);
     
     return {
       page: chunk.page_number,
-      text: chunk.relevant_span!, // Use the LLM-extracted span
+      text: chunk.relevant_span!, // Verified to appear verbatim in the chunk
       lines: chunk.line_start && chunk.line_end ? `${chunk.line_start}-${chunk.line_end}` : undefined,
       section: section,
       queryRelevance: 1.0, // High relevance since LLM extracted it
-      legal_metadata: chunk.legal_metadata
+      legal_metadata: chunk.legal_metadata,
+      // Left undefined when the search function didn't report a verification result
+      verified: chunk.span_verified ?? undefined
     };
   });
   
@@ -299,8 +348,9 @@ function consolidateSearchResults(chunks: SearchResult[], userQuery: string = ''
     document_file_name: string;
     client: string;
     matter: string;
-    excerpts: Array<{ page?: number; text: string; lines?: string; section?: string; queryRelevance?: number; legal_metadata?: any }>;
+    excerpts: Array<{ page?: number; text: string; lines?: string; section?: string; queryRelevance?: number; legal_metadata?: LegalMetadata | null; verified?: boolean }>;
     relevance_scores: number[];
+    retrievers: Set<Retriever>;
   }>();
 
   chunks.forEach(chunk => {
@@ -314,12 +364,14 @@ function consolidateSearchResults(chunks: SearchResult[], userQuery: string = ''
         client: chunk.client || 'Unknown',
         matter: chunk.matter || 'Unknown',
         excerpts: [],
-        relevance_scores: []
+        relevance_scores: [],
+        retrievers: new Set()
       });
     }
 
     const docData = documentMap.get(docId)!;
     docData.relevance_scores.push(chunk.similarity);
+    chunk.retrievers?.forEach(retriever => docData.retrievers.add(retriever));
   });
 
   // Convert to array and calculate relevance with span-based highlights
@@ -333,6 +385,7 @@ function consolidateSearchResults(chunks: SearchResult[], userQuery: string = ''
     
     return {
       ...doc,
+      retrievers: Array.from(doc.retrievers),
       relevance: calculateRelevanceLevel(doc.relevance_scores),
       excerpts: spanBasedHighlights.slice(0, 3) // Top 3 most relevant excerpts
     };
@@ -376,57 +429,211 @@ Folders: Unable to load folder structure
   }
 };
 
-export const searchDocuments = async (query: string, clientId?: string, client?: Client): Promise<SearchResponse> => {
-  // Handle folder structure queries directly
-  if (query.toLowerCase().includes('folder') && client) {
-    try {
-      const folders = await getFolders(client.id);
-      const folderList = folders.length > 0 
-        ? folders.map(f => `• ${f.name}`).join('\n')
-        : 'No folders have been created yet.';
-      
-      const response = `${client.name} has ${folders.length} folder${folders.length !== 1 ? 's' : ''}:
+// Folder questions are answered from the folder list without running a document search
+const getFolderResponse = async (query: string, client?: Client): Promise<SearchResponse | null> => {
+  if (!query.toLowerCase().includes('folder') || !client) return null;
+
+  try {
+    const folders = await getFolders(client.id);
+    const folderList = folders.length > 0 
+      ? folders.map(f => `• ${f.name}`).join('\n')
+      : 'No folders have been created yet.';
+    
+    const response = `${client.name} has ${folders.length} folder${folders.length !== 1 ? 's' : ''}:
 
 ${folderList}
 
 You can organize documents by uploading them to specific folders.`;
 
-      return {
-        results: [],
-        consolidated_documents: [],
-        ai_response: response,
-        message: `Folder structure for ${client.name}`
-      };
-    } catch (error) {
-      console.error('Error fetching folders:', error);
-    }
+    return {
+      results: [],
+      consolidated_documents: [],
+      ai_response: response,
+      message: `Folder structure for ${client.name}`
+    };
+  } catch (error) {
+    console.error('Error fetching folders:', error);
+    return null;
   }
+};
 
+const buildSearchRequest = async (
+  query: string,
+  clientId: string | undefined,
+  client: Client | undefined,
+  filters: SearchFilters,
+  history: ConversationTurn[]
+) => {
   // Generate client context for document search
   let clientContext = '';
   if (client) {
     clientContext = await generateClientContext(client);
   }
 
-  const { data, error } = await supabase.functions.invoke('search-documents', {
-    body: { 
-      query,
-      client_id: clientId || null,
-      client_context: clientContext
-    }
-  });
+  return { 
+    query,
+    client_id: clientId || null,
+    folder_id: filters.folderId || null,
+    matter: filters.matter || null,
+    client_context: clientContext,
+    history
+  };
+};
 
-  if (error) {
-    throw new Error(`Failed to search documents: ${error.message}`);
-  }
+// Body returned by the search-documents function, or carried by its final stream event
+interface SearchFunctionResult {
+  results?: SearchResult[];
+  ai_response?: string;
+  standalone_query?: string;
+  message?: string;
+}
 
+const toSearchResponse = (data: SearchFunctionResult, query: string): SearchResponse => {
   const results = data.results || [];
-  const consolidated_documents = consolidateSearchResults(results, query, data.ai_response);
+  const consolidated_documents = consolidateSearchResults(results, data.standalone_query || query, data.ai_response);
 
   return {
     results,
     consolidated_documents,
     ai_response: data.ai_response,
+    standalone_query: data.standalone_query,
     message: data.message
   };
 };
+
+export const searchDocuments = async (
+  query: string,
+  clientId?: string,
+  client?: Client,
+  filters: SearchFilters = {},
+  history: ConversationTurn[] = []
+): Promise<SearchResponse> => {
+  const folderResponse = await getFolderResponse(query, client);
+  if (folderResponse) return folderResponse;
+
+  const { data, error } = await supabase.functions.invoke('search-documents', {
+    body: await buildSearchRequest(query, clientId, client, filters, history)
+  });
+
+  if (error) {
+    throw new Error(`Failed to search documents: ${error.message}`);
+  }
+
+  return toSearchResponse(data, query);
+};
+
+export interface SearchStreamHandlers {
+  onToken: (text: string) => void;
+  // A malformed answer is being regenerated; discard the text received so far
+  onReset?: () => void;
+  signal?: AbortSignal;
+}
+
+// functions.invoke can't be aborted, so the streaming request goes to the edge function directly. Aborting
+// it closes the connection, which stops the function and the model completion behind it.
+const requestSearchStream = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const apiKey = supabase.realtime.apiKey ?? '';
+  const realtimeUrl = new URL(supabase.realtime.endPoint);
+  const protocol = realtimeUrl.protocol === 'wss:' ? 'https:' : 'http:';
+
+  const response = await fetch(`${protocol}//${realtimeUrl.host}/functions/v1/search-documents`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: apiKey,
+      Authorization: `Bearer ${session?.access_token ?? apiKey}`
+    },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    const details = await response.json().catch(() => null);
+    throw new Error(`Failed to search documents: ${details?.error || response.statusText}`);
+  }
+
+  return response;
+};
+
+// Same as searchDocuments, but answer text is passed to onToken as the model writes it.
+// Resolves with the full response, citations included, once the answer is complete.
+export const streamSearchDocuments = async (
+  query: string,
+  clientId: string | undefined,
+  client: Client | undefined,
+  filters: SearchFilters,
+  history: ConversationTurn[],
+  handlers: SearchStreamHandlers
+): Promise<SearchResponse> => {
+  const folderResponse = await getFolderResponse(query, client);
+  if (folderResponse) {
+    handlers.onToken(folderResponse.ai_response || '');
+    return folderResponse;
+  }
+
+  let data: Response;
+  try {
+    data = await requestSearchStream(
+      { ...(await buildSearchRequest(query, clientId, client, filters, history)), stream: true },
+      handlers.signal
+    );
+  } catch (error) {
+    if (handlers.signal?.aborted) throw new Error('Search cancelled');
+    throw error;
+  }
+
+  // An edge function without streaming support answers with plain JSON
+  if (!data.body || !data.headers.get('Content-Type')?.includes('text/event-stream')) {
+    const response = toSearchResponse(await data.json(), query);
+    handlers.onToken(response.ai_response || '');
+    return response;
+  }
+
+  const reader = data.body.pipeThrough(new TextDecoderStream()).getReader();
+  const cancel = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  handlers.signal?.addEventListener('abort', cancel);
+
+  try {
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done || handlers.signal?.aborted) break;
+
+      buffer += value;
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        const event = rawEvent.match(/^event: (.+)$/m)?.[1];
+        const payload = rawEvent.match(/^data: (.+)$/m)?.[1];
+        if (!event || !payload) continue;
+
+        const eventData = JSON.parse(payload);
+        if (event === 'token') {
+          handlers.onToken(eventData.text);
+        } else if (event === 'reset') {
+          handlers.onReset?.();
+        } else if (event === 'error') {
+          throw new Error(`Failed to search documents: ${eventData.error}`);
+        } else if (event === 'done') {
+          return toSearchResponse(eventData, query);
+        }
+      }
+    }
+  } catch (error) {
+    // Aborting the request makes the pending read fail rather than finish
+    if (!handlers.signal?.aborted) throw error;
+  } finally {
+    handlers.signal?.removeEventListener('abort', cancel);
+  }
+
+  if (handlers.signal?.aborted) {
+    throw new Error('Search cancelled');
+  }
+  throw new Error('Failed to search documents: stream ended before the answer was complete');
+};
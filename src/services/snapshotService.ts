@@ -0,0 +1,99 @@
+import { supabase } from '@/integrations/supabase/client';
+import { waitForRelayContent } from '@/services/documentContentService';
+import { pdfExportService, generateSnapshotFilename } from '@/services/pdfExportService';
+
+// A named save point on a document, shaped the way the version history and PDF export use it
+export interface DocumentSnapshot {
+  id: string;
+  label: string;
+  description?: string;
+  createdAt: string;
+  createdBy: string;
+  versionId: string;
+  isLocked: boolean;
+  version: { versionNumber: number };
+  createdByUser?: { email: string };
+  downloadCount: number;
+}
+
+export interface SnapshotExport {
+  blob: Blob;
+  filename: string;
+}
+
+export const getDocumentSnapshots = async (documentId: string): Promise<DocumentSnapshot[]> => {
+  const { data, error } = await supabase.rpc('get_document_snapshots', { doc_id: documentId });
+
+  if (error) {
+    throw new Error(`Failed to fetch snapshots: ${error.message}`);
+  }
+
+  return (data || []).map(row => ({
+    id: row.id,
+    label: row.label,
+    description: row.description || undefined,
+    createdAt: row.created_at,
+    createdBy: row.created_by,
+    versionId: row.version_id,
+    isLocked: row.is_locked,
+    version: { versionNumber: row.version_number },
+    createdByUser: row.creator_email ? { email: row.creator_email } : undefined,
+    downloadCount: row.download_count,
+  }));
+};
+
+// Snapshots the document's saved content. Pass the text an editor connected to the collaboration relay
+// shows as relayContent to wait for the relay to persist it first; if it doesn't, no snapshot is taken,
+// since it would miss those edits.
+export const createDocumentSnapshot = async (
+  documentId: string,
+  label: string,
+  description?: string,
+  relayContent?: string
+): Promise<void> => {
+  if (relayContent !== undefined) {
+    await waitForRelayContent(documentId, relayContent);
+  }
+
+  const { error } = await supabase.rpc('create_document_snapshot', {
+    doc_id: documentId,
+    snapshot_label: label,
+    snapshot_description: description,
+  });
+
+  if (error) {
+    throw new Error(`Failed to create snapshot: ${error.message}`);
+  }
+};
+
+// Render a snapshot's version as a PDF and count the download in version_exports
+export const exportSnapshotAsPDF = async (
+  snapshot: DocumentSnapshot,
+  documentTitle: string
+): Promise<SnapshotExport> => {
+  const { data: version, error } = await supabase
+    .from('document_versions')
+    .select('content')
+    .eq('id', snapshot.versionId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load snapshot content: ${error.message}`);
+  }
+
+  const exportable = { ...snapshot, content: version.content, documentTitle };
+  const blob = await pdfExportService.exportSnapshotAsPDF(exportable);
+  const filename = generateSnapshotFilename(exportable);
+
+  const { error: recordError } = await supabase.rpc('record_snapshot_export', {
+    snap_id: snapshot.id,
+    export_format: 'pdf',
+    file_name: filename,
+  });
+
+  if (recordError) {
+    throw new Error(`Failed to record snapshot export: ${recordError.message}`);
+  }
+
+  return { blob, filename };
+};
@@ -0,0 +1,227 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { CommentAnchor, CommentAuthor } from '@/services/commentService';
+
+export type SuggestionChangeType = 'insert' | 'delete' | 'replace';
+export type SuggestionStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface DocumentSuggestion {
+  id: string;
+  document_id: string;
+  author_id: string;
+  author_name: string;
+  change_type: SuggestionChangeType;
+  anchor: CommentAnchor;
+  anchor_offset: number | null;
+  old_content: string;
+  new_content: string;
+  status: SuggestionStatus;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  version_id: string | null;
+  created_at: string;
+}
+
+// The part of a selection an edit actually changes, as character offsets into the document
+export interface SuggestedChange {
+  changeType: SuggestionChangeType;
+  start: number;
+  end: number;
+  oldContent: string;
+  newContent: string;
+}
+
+export interface NewSuggestionInput {
+  documentId: string;
+  author: CommentAuthor;
+  change: SuggestedChange;
+  anchor: CommentAnchor;
+}
+
+const toSuggestion = (row: Tables<'document_suggestions'>): DocumentSuggestion => ({
+  ...row,
+  change_type: row.change_type as SuggestionChangeType,
+  status: row.status as SuggestionStatus,
+  anchor: row.anchor as CommentAnchor,
+  created_at: row.created_at || '',
+});
+
+/**
+ * Reduce rewriting `original` (found at `start`) to `replacement` to the smallest insert, delete
+ * or replace by trimming the text both share at either end. Returns null when nothing changed.
+ */
+export const diffSuggestedChange = (start: number, original: string, replacement: string): SuggestedChange | null => {
+  if (original === replacement) return null;
+
+  let prefix = 0;
+  while (prefix < original.length && prefix < replacement.length && original[prefix] === replacement[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < original.length - prefix &&
+    suffix < replacement.length - prefix &&
+    original[original.length - 1 - suffix] === replacement[replacement.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldContent = original.slice(prefix, original.length - suffix);
+  const newContent = replacement.slice(prefix, replacement.length - suffix);
+  return {
+    changeType: !oldContent ? 'insert' : !newContent ? 'delete' : 'replace',
+    start: start + prefix,
+    end: start + prefix + oldContent.length,
+    oldContent,
+    newContent,
+  };
+};
+
+export const getPendingSuggestions = async (documentId: string): Promise<DocumentSuggestion[]> => {
+  const { data, error } = await supabase
+    .from('document_suggestions')
+    .select('*')
+    .eq('document_id', documentId)
+    .eq('status', 'pending')
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to fetch suggestions: ${error.message}`);
+  }
+
+  return (data || []).map(toSuggestion);
+};
+
+export const createSuggestion = async (input: NewSuggestionInput): Promise<DocumentSuggestion> => {
+  const { data, error } = await supabase
+    .from('document_suggestions')
+    .insert({
+      document_id: input.documentId,
+      author_id: input.author.id,
+      author_name: input.author.name,
+      change_type: input.change.changeType,
+      anchor: input.anchor,
+      anchor_offset: input.change.start,
+      old_content: input.change.oldContent,
+      new_content: input.change.newContent,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to add suggestion: ${error.message}`);
+  }
+
+  return toSuggestion(data);
+};
+
+// Authors can take back a suggestion nobody has reviewed yet
+export const withdrawSuggestion = async (suggestionId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('document_suggestions')
+    .delete()
+    .eq('id', suggestionId);
+
+  if (error) {
+    throw new Error(`Failed to withdraw suggestion: ${error.message}`);
+  }
+};
+
+export const rejectSuggestions = async (suggestionIds: string[]): Promise<void> => {
+  const { error } = await supabase
+    .from('document_suggestions')
+    .update({ status: 'rejected' })
+    .in('id', suggestionIds);
+
+  if (error) {
+    throw new Error(`Failed to reject suggestions: ${error.message}`);
+  }
+};
+
+const quote = (text: string) => {
+  const flat = text.replace(/\s+/g, ' ');
+  return `"${flat.length > 40 ? `${flat.slice(0, 37)}...` : flat}"`;
+};
+
+const describeChange = (suggestion: DocumentSuggestion) => {
+  switch (suggestion.change_type) {
+    case 'insert':
+      return `inserted ${quote(suggestion.new_content)}`;
+    case 'delete':
+      return `deleted ${quote(suggestion.old_content)}`;
+    default:
+      return `replaced ${quote(suggestion.old_content)} with ${quote(suggestion.new_content)}`;
+  }
+};
+
+// One line per author listing the edits of theirs that were accepted
+export const buildChangeSummary = (suggestions: DocumentSuggestion[]): string => {
+  const byAuthor = new Map<string, string[]>();
+  suggestions.forEach(suggestion => {
+    byAuthor.set(suggestion.author_name, [...(byAuthor.get(suggestion.author_name) || []), describeChange(suggestion)]);
+  });
+
+  const heading = `Accepted ${suggestions.length} suggestion${suggestions.length === 1 ? '' : 's'}`;
+  return [heading, ...Array.from(byAuthor, ([author, changes]) => `${author}: ${changes.join('; ')}`)].join('\n');
+};
+
+/**
+ * Record suggestions that have been applied to the document: save the resulting content as a new
+ * version and mark the suggestions accepted into it.
+ */
+export const recordAcceptedSuggestions = async (
+  documentId: string,
+  suggestions: DocumentSuggestion[],
+  content: string,
+  userId: string
+): Promise<string> => {
+  const { data: version, error: versionError } = await supabase
+    .from('document_versions')
+    .insert({
+      document_id: documentId,
+      version_number: 0, // Assigned by trigger_increment_document_version
+      content,
+      created_by: userId,
+      change_summary: buildChangeSummary(suggestions),
+      is_auto_save: false,
+      metadata: { accepted_suggestion_ids: suggestions.map(suggestion => suggestion.id) },
+    })
+    .select('id')
+    .single();
+
+  if (versionError) {
+    throw new Error(`Failed to save version: ${versionError.message}`);
+  }
+
+  const { error } = await supabase
+    .from('document_suggestions')
+    .update({ status: 'accepted', version_id: version.id })
+    .in('id', suggestions.map(suggestion => suggestion.id));
+
+  if (error) {
+    throw new Error(`Failed to accept suggestions: ${error.message}`);
+  }
+
+  return version.id;
+};
+
+// Stream suggestion changes on a document over realtime. Returns an unsubscribe function.
+export const subscribeToDocumentSuggestions = (documentId: string, onChange: () => void): (() => void) => {
+  const channel = supabase
+    .channel(`document-suggestions-${documentId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'document_suggestions',
+        filter: `document_id=eq.${documentId}`
+      },
+      () => onChange()
+    )
+    .subscribe();
+
+  return () => {
+    channel.unsubscribe();
+  };
+};
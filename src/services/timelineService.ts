@@ -0,0 +1,147 @@
+import { supabase } from '@/integrations/supabase/client';
+import { format } from 'date-fns';
+
+export type DatePrecision = 'day' | 'month' | 'year';
+
+export interface TimelineEvent {
+  id: string;
+  client_id: string;
+  document_id: string;
+  chunk_id: string | null;
+  event_date: string | null; // First day of the month or year for partial dates; see date_precision
+  date_precision: DatePrecision;
+  date_text: string;
+  description: string;
+  quote: string | null;
+  page_number: number | null;
+  merged_into: string | null;
+  created_at: string | null;
+  document_file_name: string;
+}
+
+// An event with the duplicates that were merged into it; each duplicate is another source for it
+export interface TimelineEntry extends TimelineEvent {
+  duplicates: TimelineEvent[];
+}
+
+export const getTimelineEvents = async (clientId: string): Promise<TimelineEvent[]> => {
+  const { data, error } = await supabase
+    .from('timeline_events')
+    .select('id, client_id, document_id, chunk_id, event_date, date_precision, date_text, description, quote, page_number, merged_into, created_at, documents(file_name)')
+    .eq('client_id', clientId)
+    .order('event_date', { ascending: true, nullsFirst: false })
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to fetch timeline events: ${error.message}`);
+  }
+
+  return (data || []).map(({ documents, ...event }) => ({
+    ...event,
+    date_precision: event.date_precision as DatePrecision,
+    document_file_name: documents?.file_name || 'Unknown document'
+  }));
+};
+
+// Fold duplicates into their primary event, keeping the chronological order of the primaries
+export const groupTimelineEvents = (events: TimelineEvent[]): TimelineEntry[] => {
+  const entries = new Map<string, TimelineEntry>();
+  for (const event of events) {
+    if (!event.merged_into) {
+      entries.set(event.id, { ...event, duplicates: [] });
+    }
+  }
+
+  for (const event of events) {
+    // A duplicate whose primary is gone shows up on its own again
+    const primary = event.merged_into ? entries.get(event.merged_into) : undefined;
+    if (primary) {
+      primary.duplicates.push(event);
+    } else if (event.merged_into) {
+      entries.set(event.id, { ...event, duplicates: [] });
+    }
+  }
+
+  return Array.from(entries.values()).sort((a, b) => {
+    if (a.event_date === b.event_date) return 0;
+    if (!a.event_date) return 1;
+    if (!b.event_date) return -1;
+    return a.event_date < b.event_date ? -1 : 1;
+  });
+};
+
+// Duplicates already merged into one of the merged events move along with it
+export const mergeTimelineEvents = async (primaryId: string, duplicateIds: string[]): Promise<void> => {
+  const ids = duplicateIds.filter(id => id !== primaryId);
+  if (ids.length === 0) return;
+
+  const { error: repointError } = await supabase
+    .from('timeline_events')
+    .update({ merged_into: primaryId, updated_at: new Date().toISOString() })
+    .in('merged_into', ids);
+
+  if (repointError) {
+    throw new Error(`Failed to merge timeline events: ${repointError.message}`);
+  }
+
+  const { error } = await supabase
+    .from('timeline_events')
+    .update({ merged_into: primaryId, updated_at: new Date().toISOString() })
+    .in('id', ids);
+
+  if (error) {
+    throw new Error(`Failed to merge timeline events: ${error.message}`);
+  }
+};
+
+export const unmergeTimelineEvent = async (eventId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('timeline_events')
+    .update({ merged_into: null, updated_at: new Date().toISOString() })
+    .eq('id', eventId);
+
+  if (error) {
+    throw new Error(`Failed to split timeline event: ${error.message}`);
+  }
+};
+
+export const formatEventDate = (event: Pick<TimelineEvent, 'event_date' | 'date_precision' | 'date_text'>): string => {
+  if (!event.event_date) return event.date_text;
+
+  const date = new Date(`${event.event_date}T00:00:00`);
+  switch (event.date_precision) {
+    case 'year':
+      return format(date, 'yyyy');
+    case 'month':
+      return format(date, 'MMMM yyyy');
+    default:
+      return format(date, 'MMM d, yyyy');
+  }
+};
+
+export const formatEventSources = (entry: TimelineEntry): string[] => {
+  return [entry, ...entry.duplicates].map(event =>
+    event.page_number ? `${event.document_file_name} (p. ${event.page_number})` : event.document_file_name
+  );
+};
+
+// Rows shared by the CSV and PDF exports
+export const getChronologyRows = (entries: TimelineEntry[]): string[][] => {
+  return entries.map(entry => [
+    formatEventDate(entry),
+    entry.description,
+    Array.from(new Set(formatEventSources(entry))).join('; ')
+  ]);
+};
+
+export const CHRONOLOGY_HEADERS = ['Date', 'Event', 'Sources'];
+
+const escapeCsvCell = (value: string): string => {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const timelineToCsv = (entries: TimelineEntry[]): string => {
+  return [CHRONOLOGY_HEADERS, ...getChronologyRows(entries)]
+    .map(row => row.map(escapeCsvCell).join(','))
+    .join('\r\n');
+};
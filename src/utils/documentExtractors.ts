@@ -0,0 +1,588 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import MsgReader from '@kenjiuno/msgreader';
+import type { ExtractedTextData } from './fileProcessor';
+import type { OcrSummary } from './ocrProcessor';
+
+export type DocumentFormat = 'pdf' | 'text' | 'docx' | 'rtf' | 'html' | 'eml' | 'msg';
+
+export interface EmailMetadata {
+  from?: string;
+  to?: string[];
+  cc?: string[];
+  date?: string;
+  subject?: string;
+}
+
+export interface DocumentMetadata {
+  format: DocumentFormat;
+  title?: string;
+  email?: EmailMetadata;
+  ocr?: OcrSummary;
+}
+
+export interface ExtractionResult {
+  extractedData: ExtractedTextData;
+  metadata: DocumentMetadata;
+}
+
+const PAGE_BREAK = '\f';
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  txt: 'text',
+  docx: 'docx',
+  rtf: 'rtf',
+  htm: 'html',
+  html: 'html',
+  eml: 'eml',
+  msg: 'msg'
+};
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'text/plain': 'text',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/rtf': 'rtf',
+  'text/rtf': 'rtf',
+  'text/html': 'html',
+  'message/rfc822': 'eml',
+  'application/vnd.ms-outlook': 'msg'
+};
+
+export const SUPPORTED_FILE_EXTENSIONS = Object.keys(EXTENSION_FORMATS).map(ext => `.${ext}`);
+
+// Browsers report empty or generic MIME types for .eml/.msg, so the extension wins when present
+export const detectDocumentFormat = (file: File): DocumentFormat | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_FORMATS[extension] || MIME_FORMATS[file.type] || null;
+};
+
+// Split text on form feeds into pages of trimmed, non-empty lines, matching the PDF extractor's shape
+export const buildExtractedData = (text: string): ExtractedTextData => {
+  const pages = text
+    .replace(/\r\n?/g, '\n')
+    .split(PAGE_BREAK)
+    .map((pageText, index) => {
+      const lines = pageText
+        .split('\n')
+        .map(line => line.replace(/[ \t]+/g, ' ').trim())
+        .filter(line => line.length > 0);
+      return {
+        pageNum: index + 1,
+        lines,
+        fullText: lines.join('\n')
+      };
+    });
+
+  // Drop a trailing empty page left by a final page break
+  while (pages.length > 1 && pages[pages.length - 1].lines.length === 0) {
+    pages.pop();
+  }
+
+  return {
+    pages,
+    totalPages: pages.length,
+    fullText: pages.map(page => page.fullText).join('\n\n').trim()
+  };
+};
+
+// --- DOCX ---
+
+export const extractTextFromDOCX = async (file: File): Promise<ExtractionResult> => {
+  const buffer = new Uint8Array(await file.arrayBuffer());
+  const entries = unzipSync(buffer, {
+    filter: entry => entry.name === 'word/document.xml' || entry.name === 'docProps/core.xml'
+  });
+
+  const documentXml = entries['word/document.xml'];
+  if (!documentXml) {
+    throw new Error('Not a valid Word document (word/document.xml missing)');
+  }
+
+  const xml = new DOMParser().parseFromString(strFromU8(documentXml), 'application/xml');
+  const body = xml.getElementsByTagNameNS('*', 'body')[0];
+  if (!body) {
+    throw new Error('Word document has no body');
+  }
+
+  let text = '';
+  let pageHasText = false;
+
+  const pageBreak = () => {
+    // Word writes both an explicit break and a rendered break for the same page; keep one
+    if (pageHasText) {
+      text += PAGE_BREAK;
+      pageHasText = false;
+    }
+  };
+
+  const walk = (node: Element) => {
+    Array.from(node.children).forEach(child => {
+      switch (child.localName) {
+        case 't':
+          text += child.textContent || '';
+          pageHasText = pageHasText || !!child.textContent?.trim();
+          break;
+        case 'tab':
+          text += '\t';
+          break;
+        case 'br':
+        case 'cr':
+          if (child.getAttribute('w:type') === 'page') {
+            pageBreak();
+          } else {
+            text += '\n';
+          }
+          break;
+        case 'lastRenderedPageBreak':
+          pageBreak();
+          break;
+        case 'p':
+          walk(child);
+          text += '\n';
+          break;
+        case 'tc':
+          walk(child);
+          text += '\t';
+          break;
+        // Deleted tracked-change text and field instructions are not part of the visible document
+        case 'del':
+        case 'instrText':
+          break;
+        default:
+          walk(child);
+      }
+    });
+  };
+
+  walk(body);
+
+  let title: string | undefined;
+  const coreXml = entries['docProps/core.xml'];
+  if (coreXml) {
+    const core = new DOMParser().parseFromString(strFromU8(coreXml), 'application/xml');
+    title = core.getElementsByTagNameNS('*', 'title')[0]?.textContent?.trim() || undefined;
+  }
+
+  return {
+    extractedData: buildExtractedData(text),
+    metadata: { format: 'docx', title }
+  };
+};
+
+// --- RTF ---
+
+// Destinations whose contents are formatting data rather than document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata',
+  'colorschememapping', 'datastore', 'latentstyles', 'listtable', 'listoverridetable',
+  'rsidtbl', 'generator', 'xmlnstbl', 'mmathPr', 'header', 'footer', 'headerl',
+  'headerr', 'footerl', 'footerr', 'fldinst'
+]);
+
+// \ansicpg codepages whose TextDecoder label isn't simply windows-<codepage>
+const RTF_CODEPAGE_LABELS: Record<number, string> = {
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+  10000: 'macintosh'
+};
+
+const rtfDecoder = (codepage: number): TextDecoder => {
+  try {
+    return new TextDecoder(RTF_CODEPAGE_LABELS[codepage] || `windows-${codepage}`);
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+};
+
+export const rtfToText = (rtf: string): string => {
+  const stack: Array<{ skip: boolean; ucSkip: number }> = [];
+  let skip = false;
+  let ucSkip = 1;
+  let pendingSkipChars = 0;
+  let output = '';
+  let i = 0;
+  // \'hh bytes are collected and decoded together, since double-byte codepages split characters across them
+  let decoder = rtfDecoder(1252);
+  let pendingBytes: number[] = [];
+
+  const flushBytes = () => {
+    if (pendingBytes.length === 0) return;
+    output += decoder.decode(new Uint8Array(pendingBytes));
+    pendingBytes = [];
+  };
+
+  const emit = (value: string) => {
+    if (pendingSkipChars > 0) {
+      pendingSkipChars--;
+      return;
+    }
+    if (!skip) {
+      flushBytes();
+      output += value;
+    }
+  };
+
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === '{') {
+      stack.push({ skip, ucSkip });
+      i++;
+    } else if (char === '}') {
+      const state = stack.pop();
+      if (state) {
+        skip = state.skip;
+        ucSkip = state.ucSkip;
+      }
+      i++;
+    } else if (char === '\\') {
+      const next = rtf[i + 1];
+
+      if (next === '\\' || next === '{' || next === '}') {
+        emit(next);
+        i += 2;
+      } else if (next === '*') {
+        // Optional destination we don't understand
+        skip = true;
+        i += 2;
+      } else if (next === "'") {
+        if (pendingSkipChars > 0) {
+          pendingSkipChars--;
+        } else if (!skip) {
+          pendingBytes.push(parseInt(rtf.substr(i + 2, 2), 16));
+        }
+        i += 4;
+      } else if (next === '~') {
+        // Non-breaking space
+        emit('\u00A0');
+        i += 2;
+      } else if (next === '_') {
+        // Non-breaking hyphen
+        emit('\u2011');
+        i += 2;
+      } else if (next === '-') {
+        // Optional hyphen, only shown when a word is broken at the line end
+        i += 2;
+      } else if (next === '\n' || next === '\r') {
+        emit('\n');
+        i += 2;
+      } else {
+        const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 40));
+        if (!match) {
+          i += 2;
+          continue;
+        }
+
+        const [token, word, param] = match;
+        i += 1 + token.length;
+
+        if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+          skip = true;
+        } else if (word === 'par' || word === 'line' || word === 'row') {
+          emit('\n');
+        } else if (word === 'page' || word === 'sect') {
+          emit(PAGE_BREAK);
+        } else if (word === 'tab' || word === 'cell') {
+          emit('\t');
+        } else if (word === 'ansicpg' && param) {
+          flushBytes();
+          decoder = rtfDecoder(parseInt(param, 10));
+        } else if (word === 'uc') {
+          ucSkip = parseInt(param || '1', 10);
+        } else if (word === 'u' && param) {
+          let code = parseInt(param, 10);
+          if (code < 0) code += 65536;
+          emit(String.fromCharCode(code));
+          pendingSkipChars = ucSkip;
+        } else if (word === 'emdash') {
+          emit('—');
+        } else if (word === 'endash') {
+          emit('–');
+        } else if (word === 'lquote' || word === 'rquote') {
+          emit("'");
+        } else if (word === 'ldblquote' || word === 'rdblquote') {
+          emit('"');
+        } else if (word === 'bullet') {
+          emit('•');
+        }
+      }
+    } else if (char === '\r' || char === '\n') {
+      i++;
+    } else {
+      emit(char);
+      i++;
+    }
+  }
+
+  flushBytes();
+  return output;
+};
+
+export const extractTextFromRTF = async (file: File): Promise<ExtractionResult> => {
+  const rtf = await file.text();
+  if (!rtf.startsWith('{\\rtf')) {
+    throw new Error('Not a valid RTF document');
+  }
+
+  return {
+    extractedData: buildExtractedData(rtfToText(rtf)),
+    metadata: { format: 'rtf' }
+  };
+};
+
+// --- HTML ---
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'li', 'ul', 'ol', 'table', 'tr',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'address', 'dd', 'dt'
+]);
+
+export const htmlToText = (html: string): { text: string; title?: string } => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript, template').forEach(el => el.remove());
+
+  let text = '';
+
+  const walk = (node: Node) => {
+    node.childNodes.forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        text += (child.textContent || '').replace(/\s+/g, ' ');
+        return;
+      }
+      if (child.nodeType !== Node.ELEMENT_NODE) return;
+
+      const element = child as HTMLElement;
+      const tag = element.tagName.toLowerCase();
+
+      if (tag === 'br') {
+        text += '\n';
+      } else if (tag === 'td' || tag === 'th') {
+        walk(element);
+        text += '\t';
+      } else if (BLOCK_TAGS.has(tag)) {
+        // Honour explicit print page breaks so page citations line up with the printed filing
+        const style = element.getAttribute('style') || '';
+        if (/page-break-before:\s*always|break-before:\s*page/i.test(style)) {
+          text += PAGE_BREAK;
+        }
+        text += '\n';
+        walk(element);
+        text += '\n';
+      } else {
+        walk(element);
+      }
+    });
+  };
+
+  walk(doc.body || doc.documentElement);
+
+  return {
+    text,
+    title: doc.title?.trim() || undefined
+  };
+};
+
+export const extractTextFromHTML = async (file: File): Promise<ExtractionResult> => {
+  const { text, title } = htmlToText(await file.text());
+  return {
+    extractedData: buildExtractedData(text),
+    metadata: { format: 'html', title }
+  };
+};
+
+// --- Email (.eml) ---
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+const splitHeaders = (raw: string): MimePart => {
+  const normalized = raw.replace(/\r\n/g, '\n');
+  const separator = normalized.indexOf('\n\n');
+  const headerBlock = separator >= 0 ? normalized.slice(0, separator) : normalized;
+  const body = separator >= 0 ? normalized.slice(separator + 2) : '';
+
+  const headers: Record<string, string> = {};
+  // Unfold continuation lines before splitting
+  headerBlock.replace(/\n[ \t]+/g, ' ').split('\n').forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      const name = line.slice(0, colon).trim().toLowerCase();
+      const value = line.slice(colon + 1).trim();
+      headers[name] = headers[name] ? `${headers[name]}, ${value}` : value;
+    }
+  });
+
+  return { headers, body };
+};
+
+const headerParam = (header: string | undefined, param: string): string | undefined => {
+  const match = header?.match(new RegExp(`${param}\\s*=\\s*(?:"([^"]+)"|([^;\\s]+))`, 'i'));
+  return match ? match[1] || match[2] : undefined;
+};
+
+const decodeBytes = (bytes: Uint8Array, charset: string = 'utf-8'): string => {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+const base64ToBytes = (value: string): Uint8Array => {
+  const binary = atob(value.replace(/\s+/g, ''));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const quotedPrintableToBytes = (value: string): Uint8Array => {
+  const unwrapped = value.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < unwrapped.length; i++) {
+    if (unwrapped[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(unwrapped.substr(i + 1, 2))) {
+      bytes.push(parseInt(unwrapped.substr(i + 1, 2), 16));
+      i += 2;
+    } else {
+      bytes.push(unwrapped.charCodeAt(i) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+// RFC 2047 encoded words, e.g. =?UTF-8?Q?Re:_Settlement?=
+const decodeHeaderValue = (value: string | undefined): string | undefined => {
+  if (!value) return value;
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset, encoding, encoded) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? base64ToBytes(encoded)
+        : quotedPrintableToBytes(encoded.replace(/_/g, ' '));
+      return decodeBytes(bytes, charset);
+    });
+};
+
+const decodePartBody = (part: MimePart): string => {
+  const encoding = (part.headers['content-transfer-encoding'] || '').toLowerCase();
+  const charset = headerParam(part.headers['content-type'], 'charset');
+
+  if (encoding === 'base64') {
+    return decodeBytes(base64ToBytes(part.body), charset);
+  }
+  if (encoding === 'quoted-printable') {
+    return decodeBytes(quotedPrintableToBytes(part.body), charset);
+  }
+  return part.body;
+};
+
+// Walk the MIME tree and return the best readable body, preferring text/plain over text/html
+const findReadableBody = (part: MimePart): { text: string; isHtml: boolean } | null => {
+  const contentType = (part.headers['content-type'] || 'text/plain').toLowerCase();
+  const disposition = (part.headers['content-disposition'] || '').toLowerCase();
+
+  if (disposition.startsWith('attachment')) {
+    return null;
+  }
+
+  if (contentType.startsWith('multipart/')) {
+    const boundary = headerParam(part.headers['content-type'], 'boundary');
+    if (!boundary) return null;
+
+    const children = part.body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter(section => !section.startsWith('--'))
+      .map(section => splitHeaders(section.replace(/^\n/, '')));
+
+    const bodies = children.map(findReadableBody).filter(Boolean) as Array<{ text: string; isHtml: boolean }>;
+    return bodies.find(body => !body.isHtml) || bodies[0] || null;
+  }
+
+  if (contentType.startsWith('text/plain')) {
+    return { text: decodePartBody(part), isHtml: false };
+  }
+  if (contentType.startsWith('text/html')) {
+    return { text: decodePartBody(part), isHtml: true };
+  }
+  return null;
+};
+
+const splitAddressList = (value: string | undefined): string[] | undefined => {
+  if (!value) return undefined;
+  // Split on commas that are not inside a quoted display name
+  return value.split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/).map(address => address.trim()).filter(Boolean);
+};
+
+const formatEmailText = (email: EmailMetadata, body: string): string => {
+  const headerLines = [
+    email.from && `From: ${email.from}`,
+    email.to?.length && `To: ${email.to.join(', ')}`,
+    email.cc?.length && `Cc: ${email.cc.join(', ')}`,
+    email.date && `Date: ${email.date}`,
+    email.subject && `Subject: ${email.subject}`
+  ].filter(Boolean);
+
+  return `${headerLines.join('\n')}\n\n${body}`;
+};
+
+const toIsoDate = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? value : parsed.toISOString();
+};
+
+export const extractTextFromEML = async (file: File): Promise<ExtractionResult> => {
+  const message = splitHeaders(await file.text());
+  const { headers } = message;
+
+  const email: EmailMetadata = {
+    from: decodeHeaderValue(headers['from']),
+    to: splitAddressList(decodeHeaderValue(headers['to'])),
+    cc: splitAddressList(decodeHeaderValue(headers['cc'])),
+    date: toIsoDate(headers['date']),
+    subject: decodeHeaderValue(headers['subject'])
+  };
+
+  const readable = findReadableBody(message);
+  const body = readable ? (readable.isHtml ? htmlToText(readable.text).text : readable.text) : '';
+
+  return {
+    extractedData: buildExtractedData(formatEmailText(email, body)),
+    metadata: { format: 'eml', title: email.subject, email }
+  };
+};
+
+// --- Outlook (.msg) ---
+
+export const extractTextFromMSG = async (file: File): Promise<ExtractionResult> => {
+  const data = new MsgReader(await file.arrayBuffer()).getFileData();
+  if (data.error) {
+    throw new Error(`Failed to read Outlook message: ${data.error}`);
+  }
+
+  const formatRecipient = (recipient: { name?: string; email?: string; smtpAddress?: string }) => {
+    const address = recipient.smtpAddress || recipient.email;
+    return recipient.name && address && recipient.name !== address
+      ? `${recipient.name} <${address}>`
+      : recipient.name || address || '';
+  };
+
+  const recipients = data.recipients || [];
+  const email: EmailMetadata = {
+    from: data.senderName && data.senderEmail
+      ? `${data.senderName} <${data.senderEmail}>`
+      : data.senderName || data.senderEmail,
+    to: recipients.filter(r => !r.recipType || r.recipType === 'to').map(formatRecipient).filter(Boolean),
+    cc: recipients.filter(r => r.recipType === 'cc').map(formatRecipient).filter(Boolean),
+    date: toIsoDate(data.clientSubmitTime || data.messageDeliveryTime),
+    subject: data.subject
+  };
+
+  return {
+    extractedData: buildExtractedData(formatEmailText(email, data.body || '')),
+    metadata: { format: 'msg', title: email.subject, email }
+  };
+};
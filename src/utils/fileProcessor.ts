@@ -1,5 +1,15 @@
 
 import * as pdfjsLib from 'pdfjs-dist';
+import {
+  DocumentMetadata,
+  detectDocumentFormat,
+  extractTextFromDOCX,
+  extractTextFromRTF,
+  extractTextFromHTML,
+  extractTextFromEML,
+  extractTextFromMSG
+} from './documentExtractors';
+import { createOcrSession, needsOcr, summarizeOcr } from './ocrProcessor';
 
 // Set up PDF.js worker with fallback options
 try {
@@ -15,11 +25,23 @@ export interface ExtractedTextData {
     pageNum: number;
     lines: string[];
     fullText: string;
+    // Set when the page had no text layer and was recognized with OCR
+    ocrConfidence?: number;
   }>;
   totalPages: number;
   fullText: string;
 }
 
+// A text run from pdf.js with its position in PDF user space (origin bottom-left)
+export interface PositionedTextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  hasEOL: boolean;
+}
+
 export interface TextChunk {
   text: string;
   pageNumber: number;
@@ -33,60 +55,102 @@ export interface TextChunk {
   };
 }
 
+export const loadPdfDocument = (source: ArrayBuffer | string) => {
+  return pdfjsLib.getDocument(typeof source === 'string' ? { url: source } : { data: source }).promise;
+};
+
+export const getPositionedTextItems = async (page: pdfjsLib.PDFPageProxy): Promise<PositionedTextItem[]> => {
+  const textContent = await page.getTextContent();
+  const items: PositionedTextItem[] = [];
+
+  textContent.items.forEach((item) => {
+    // Skip marked-content markers, which carry no text
+    if (!('str' in item)) return;
+
+    const [, , c, d, e, f] = item.transform;
+    items.push({
+      str: item.str,
+      x: e,
+      y: f,
+      width: item.width,
+      height: item.height || Math.hypot(c, d),
+      hasEOL: item.hasEOL
+    });
+  });
+
+  return items;
+};
+
 export const extractTextFromPDF = async (file: File): Promise<ExtractedTextData> => {
   try {
     const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    const pdf = await loadPdfDocument(arrayBuffer);
     
-    const pages: Array<{pageNum: number; lines: string[]; fullText: string}> = [];
+    const pages: ExtractedTextData['pages'] = [];
     let fullText = '';
+    const ocrSession = createOcrSession();
     
     console.log(`Processing PDF with ${pdf.numPages} pages`);
     
-    for (let pageIndex = 1; pageIndex <= pdf.numPages; pageIndex++) {
-      const page = await pdf.getPage(pageIndex);
-      const textContent = await page.getTextContent();
-      
-      // Extract text items and group by lines
-      const lines: string[] = [];
-      let currentLine = '';
-      let currentY = -1;
-      
-      textContent.items.forEach((item: any) => {
-        if (item.str && item.str.trim()) {
-          // Check if this is a new line based on Y position
-          if (currentY === -1) {
-            currentY = item.transform[5];
-          }
-          
-          const yPos = item.transform[5];
-          const yDiff = Math.abs(yPos - currentY);
-          
-          if (yDiff > 5) { // New line threshold
-            if (currentLine.trim()) {
-              lines.push(currentLine.trim());
+    try {
+      for (let pageIndex = 1; pageIndex <= pdf.numPages; pageIndex++) {
+        const page = await pdf.getPage(pageIndex);
+        const textItems = await getPositionedTextItems(page);
+        
+        // Extract text items and group by lines
+        let lines: string[] = [];
+        let currentLine = '';
+        let currentY = -1;
+        
+        textItems.forEach((item) => {
+          if (item.str && item.str.trim()) {
+            // Check if this is a new line based on Y position
+            if (currentY === -1) {
+              currentY = item.y;
+            }
+            
+            const yPos = item.y;
+            const yDiff = Math.abs(yPos - currentY);
+            
+            if (yDiff > 5) { // New line threshold
+              if (currentLine.trim()) {
+                lines.push(currentLine.trim());
+              }
+              currentLine = item.str;
+              currentY = yPos;
+            } else {
+              currentLine += ' ' + item.str;
             }
-            currentLine = item.str;
-            currentY = yPos;
-          } else {
-            currentLine += ' ' + item.str;
           }
+        });
+        
+        // Add the last line
+        if (currentLine.trim()) {
+          lines.push(currentLine.trim());
         }
-      });
-      
-      // Add the last line
-      if (currentLine.trim()) {
-        lines.push(currentLine.trim());
+        
+        // Scanned pages have no text layer, so fall back to OCR on the rendered image
+        let ocrConfidence: number | undefined;
+        if (needsOcr(lines.join(''))) {
+          console.log(`Page ${pageIndex} has no text layer, running OCR`);
+          const ocrResult = await ocrSession.recognizePage(page);
+          lines = ocrResult.lines;
+          ocrConfidence = ocrResult.confidence;
+          console.log(`OCR recognized ${ocrResult.lines.length} lines on page ${pageIndex} (confidence ${ocrConfidence})`);
+        }
+        
+        const pageText = lines.join('\n');
+        pages.push({
+          pageNum: pageIndex,
+          lines: lines,
+          fullText: pageText,
+          ...(ocrConfidence !== undefined ? { ocrConfidence } : {})
+        });
+        
+        fullText += pageText + '\n\n';
       }
-      
-      const pageText = lines.join('\n');
-      pages.push({
-        pageNum: pageIndex,
-        lines: lines,
-        fullText: pageText
-      });
-      
-      fullText += pageText + '\n\n';
+    } finally {
+      await ocrSession.terminate();
     }
     
     console.log(`Successfully extracted text from ${pages.length} pages`);
@@ -215,19 +279,55 @@ export const processTextFile = async (file: File): Promise<string> => {
   });
 };
 
-export const processFile = async (file: File): Promise<{ content: string; extractedData?: ExtractedTextData }> => {
+export const processFile = async (file: File): Promise<{
+  content: string;
+  extractedData?: ExtractedTextData;
+  metadata?: DocumentMetadata;
+}> => {
   console.log(`Processing file: ${file.name}, type: ${file.type}, size: ${file.size}`);
   
-  if (file.type === 'application/pdf') {
-    const extractedData = await extractTextFromPDF(file);
-    return {
-      content: extractedData.fullText,
-      extractedData
-    };
-  } else if (file.type === 'text/plain' || file.name.endsWith('.txt')) {
-    const content = await processTextFile(file);
-    return { content };
-  } else {
-    throw new Error(`Unsupported file type: ${file.type}`);
+  const format = detectDocumentFormat(file);
+
+  switch (format) {
+    case 'pdf': {
+      const extractedData = await extractTextFromPDF(file);
+      const ocr = summarizeOcr(extractedData.pages);
+      return {
+        content: extractedData.fullText,
+        extractedData,
+        metadata: ocr ? { format, ocr } : { format }
+      };
+    }
+    case 'text': {
+      const content = await processTextFile(file);
+      return { content, metadata: { format } };
+    }
+    case 'docx':
+    case 'rtf':
+    case 'html':
+    case 'eml':
+    case 'msg': {
+      const extractors = {
+        docx: extractTextFromDOCX,
+        rtf: extractTextFromRTF,
+        html: extractTextFromHTML,
+        eml: extractTextFromEML,
+        msg: extractTextFromMSG
+      };
+      try {
+        const { extractedData, metadata } = await extractors[format](file);
+        console.log(`Extracted ${extractedData.totalPages} page(s) from ${format.toUpperCase()} file`);
+        return {
+          content: extractedData.fullText,
+          extractedData,
+          metadata
+        };
+      } catch (error) {
+        console.error(`Error extracting text from ${format.toUpperCase()}:`, error);
+        throw new Error(`Failed to extract text from ${format.toUpperCase()}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    default:
+      throw new Error(`Unsupported file type: ${file.type || file.name}`);
   }
 };
@@ -0,0 +1,107 @@
+import type * as pdfjsLib from 'pdfjs-dist';
+import type { Worker as TesseractWorker } from 'tesseract.js';
+import type { Json } from '@/integrations/supabase/types';
+
+// Pages with fewer extractable characters than this are treated as scanned images
+export const OCR_MIN_TEXT_LENGTH = 20;
+
+// Tesseract reports mean word confidence on a 0-100 scale
+export const LOW_OCR_CONFIDENCE = 70;
+
+// Render at 2x so small print in court filings survives recognition
+const OCR_RENDER_SCALE = 2;
+
+export interface OcrPageResult {
+  lines: string[];
+  confidence: number;
+}
+
+export interface OcrSummary {
+  pages: number[];
+  averageConfidence: number;
+  lowConfidencePages: number[];
+}
+
+export interface OcrSession {
+  recognizePage: (page: pdfjsLib.PDFPageProxy) => Promise<OcrPageResult>;
+  terminate: () => Promise<void>;
+}
+
+export const needsOcr = (pageText: string): boolean => {
+  return pageText.replace(/\s+/g, '').length < OCR_MIN_TEXT_LENGTH;
+};
+
+// The tesseract worker and its WASM/language data are only loaded once a scanned page is found
+export const createOcrSession = (language: string = 'eng'): OcrSession => {
+  let workerPromise: Promise<TesseractWorker> | null = null;
+
+  const getWorker = () => {
+    if (!workerPromise) {
+      workerPromise = import('tesseract.js').then(({ createWorker }) => {
+        console.log(`Starting OCR worker (${language})`);
+        return createWorker(language);
+      });
+    }
+    return workerPromise;
+  };
+
+  const recognizePage = async (page: pdfjsLib.PDFPageProxy): Promise<OcrPageResult> => {
+    const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context is not available for OCR');
+    }
+
+    await page.render({ canvasContext: context, viewport }).promise;
+
+    const worker = await getWorker();
+    const { data } = await worker.recognize(canvas);
+
+    const lines = data.text
+      .split('\n')
+      .map(line => line.replace(/\s+/g, ' ').trim())
+      .filter(line => line.length > 0);
+
+    // Release the bitmap right away; scanned bundles can run to hundreds of pages
+    canvas.width = 0;
+    canvas.height = 0;
+
+    return { lines, confidence: Math.round(data.confidence) };
+  };
+
+  const terminate = async () => {
+    if (!workerPromise) return;
+    const worker = await workerPromise;
+    workerPromise = null;
+    await worker.terminate();
+  };
+
+  return { recognizePage, terminate };
+};
+
+export const summarizeOcr = (
+  pages: Array<{ pageNum: number; ocrConfidence?: number }>
+): OcrSummary | undefined => {
+  const ocrPages = pages.filter(page => page.ocrConfidence !== undefined);
+  if (ocrPages.length === 0) return undefined;
+
+  const total = ocrPages.reduce((sum, page) => sum + (page.ocrConfidence ?? 0), 0);
+
+  return {
+    pages: ocrPages.map(page => page.pageNum),
+    averageConfidence: Math.round(total / ocrPages.length),
+    lowConfidencePages: ocrPages
+      .filter(page => (page.ocrConfidence ?? 0) < LOW_OCR_CONFIDENCE)
+      .map(page => page.pageNum)
+  };
+};
+
+// Read the flagged pages back out of a stored documents.metadata value
+export const getLowConfidencePages = (metadata: Json | null | undefined): number[] => {
+  const ocr = (metadata as { ocr?: Partial<OcrSummary> } | null | undefined)?.ocr;
+  return Array.isArray(ocr?.lowConfidencePages) ? ocr.lowConfidencePages : [];
+};
@@ -0,0 +1,94 @@
+import { PositionedTextItem } from './fileProcessor';
+
+// Portion of a text item covered by a highlight, as fractions of the item's width
+export interface ItemHighlightSegment {
+  item: PositionedTextItem;
+  startFraction: number;
+  endFraction: number;
+}
+
+// Words hyphenated across a line break are joined, so "agree- ment" and "agreement" compare equal
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/(\w)-\s+(\w)/g, '$1$2').replace(/\s+/g, ' ').trim();
+
+const isLineBreak = (previous: PositionedTextItem, item: PositionedTextItem) =>
+  previous.hasEOL || Math.abs(item.y - previous.y) > previous.height / 2;
+
+// Items on the same line are separate words only when there is a visible gap between them
+const hasWordGap = (previous: PositionedTextItem, item: PositionedTextItem) =>
+  item.x - (previous.x + previous.width) > previous.height * 0.15;
+
+// Join the page's text items into one normalized string, remembering where each item starts
+const buildPageIndex = (items: PositionedTextItem[]) => {
+  let text = '';
+  const offsets: Array<{ item: PositionedTextItem; start: number; end: number }> = [];
+  let previous: PositionedTextItem | null = null;
+
+  items.forEach(item => {
+    const itemText = normalize(item.str);
+    if (!itemText) {
+      // Empty items mark line ends; carry the break over to the item before
+      if (previous && item.hasEOL) {
+        previous = { ...previous, hasEOL: true };
+      }
+      return;
+    }
+
+    if (previous) {
+      if (isLineBreak(previous, item)) {
+        if (/\w-$/.test(text)) {
+          // Rejoin a word hyphenated across the line break
+          text = text.slice(0, -1);
+          offsets[offsets.length - 1].end = text.length;
+        } else {
+          text += ' ';
+        }
+      } else if (hasWordGap(previous, item) || /\s$/.test(previous.str) || /^\s/.test(item.str)) {
+        text += ' ';
+      }
+    }
+    const start = text.length;
+    text += itemText;
+    offsets.push({ item, start, end: text.length });
+    previous = item;
+  });
+
+  return { text, offsets };
+};
+
+const locateSpan = (pageText: string, span: string): { start: number; end: number } | null => {
+  const needle = normalize(span).replace(/^["']|["']$/g, '');
+  if (!needle) return null;
+
+  const exact = pageText.indexOf(needle);
+  if (exact >= 0) {
+    return { start: exact, end: exact + needle.length };
+  }
+
+  // LLM spans often drift near the end; anchor on the opening words and keep the span length
+  const prefix = needle.substring(0, Math.min(60, needle.length));
+  const prefixIndex = pageText.indexOf(prefix);
+  if (prefixIndex >= 0) {
+    return { start: prefixIndex, end: Math.min(pageText.length, prefixIndex + needle.length) };
+  }
+
+  return null;
+};
+
+// Find the text items (and the covered part of each) that spell out the given span
+export const findSpanSegments = (items: PositionedTextItem[], span: string): ItemHighlightSegment[] => {
+  const { text, offsets } = buildPageIndex(items);
+  const range = locateSpan(text, span);
+  if (!range) return [];
+
+  return offsets
+    .filter(entry => entry.end > range.start && entry.start < range.end)
+    .map(entry => {
+      const length = Math.max(1, entry.end - entry.start);
+      return {
+        item: entry.item,
+        startFraction: Math.max(0, range.start - entry.start) / length,
+        endFraction: Math.min(length, range.end - entry.start) / length
+      };
+    });
+};
@@ -0,0 +1,144 @@
+import * as Diff from 'diff';
+
+export type RedlineGranularity = 'line' | 'sentence' | 'word';
+
+// moved-from/moved-to mark text that was relocated rather than deleted and rewritten; a pair shares its moveId
+export type RedlineSegmentType = 'equal' | 'inserted' | 'deleted' | 'moved-from' | 'moved-to';
+
+export interface RedlineSegment {
+  type: RedlineSegmentType;
+  text: string;
+  moveId?: number;
+}
+
+export interface RedlineStats {
+  inserted: number;
+  deleted: number;
+  moved: number;
+}
+
+// Shorter matches are too likely to be coincidental ("the Company", "shall") to call a move
+const MIN_MOVE_CHARS = 20;
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+const diffByGranularity = (oldText: string, newText: string, granularity: RedlineGranularity) => {
+  switch (granularity) {
+    case 'line':
+      return Diff.diffLines(oldText, newText);
+    case 'sentence':
+      return Diff.diffSentences(oldText, newText);
+    case 'word':
+      return Diff.diffWordsWithSpace(oldText, newText);
+  }
+};
+
+// Cut a changed block into sentences (keeping their trailing whitespace) so a moved sentence
+// can be matched even when the diff grouped it with edits around it
+const splitSentences = (text: string): string[] =>
+  text.match(/[^.;:!?\n]*(?:[.;:!?]+|\n|$)\s*/g)?.filter(Boolean) || [text];
+
+// Adjacent pieces of the same kind are joined back up after move detection
+const mergeAdjacent = (segments: RedlineSegment[]): RedlineSegment[] =>
+  segments.reduce<RedlineSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type && last.moveId === segment.moveId) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+
+// Pair deleted and inserted sentences with the same wording. Within one change they are text a
+// coarse diff swept up with its neighbours, so the inserted copy is kept as unchanged; across
+// changes they are a move. Each sentence pairs at most once, in document order.
+const detectMoves = (segments: RedlineSegment[]): RedlineSegment[] => {
+  const pieces: RedlineSegment[] = [];
+  const changeOf = new Map<RedlineSegment, number>();
+  let change = 0;
+
+  segments.forEach(segment => {
+    if (segment.type === 'equal') {
+      change++;
+      pieces.push(segment);
+      return;
+    }
+    splitSentences(segment.text).forEach(text => {
+      const piece = { type: segment.type, text };
+      changeOf.set(piece, change);
+      pieces.push(piece);
+    });
+  });
+
+  const insertedByText = new Map<string, RedlineSegment[]>();
+  pieces.forEach(piece => {
+    const key = normalize(piece.text);
+    if (piece.type !== 'inserted' || key.length < MIN_MOVE_CHARS) return;
+    insertedByText.set(key, [...(insertedByText.get(key) || []), piece]);
+  });
+
+  const unchanged = new Set<RedlineSegment>();
+  let nextMoveId = 1;
+  pieces.forEach(piece => {
+    if (piece.type !== 'deleted') return;
+    const candidates = insertedByText.get(normalize(piece.text));
+    if (!candidates || candidates.length === 0) return;
+
+    const sameChange = candidates.findIndex(candidate => changeOf.get(candidate) === changeOf.get(piece));
+    const [target] = candidates.splice(sameChange >= 0 ? sameChange : 0, 1);
+
+    if (sameChange >= 0) {
+      unchanged.add(piece);
+      target.type = 'equal';
+      return;
+    }
+
+    piece.type = 'moved-from';
+    piece.moveId = nextMoveId;
+    target.type = 'moved-to';
+    target.moveId = nextMoveId;
+    nextMoveId++;
+  });
+
+  return mergeAdjacent(pieces.filter(piece => !unchanged.has(piece)));
+};
+
+export const computeRedline = (
+  oldText: string,
+  newText: string,
+  granularity: RedlineGranularity
+): RedlineSegment[] => {
+  const segments = diffByGranularity(oldText, newText, granularity).map(part => ({
+    type: (part.added ? 'inserted' : part.removed ? 'deleted' : 'equal') as RedlineSegmentType,
+    text: part.value,
+  }));
+
+  return detectMoves(segments);
+};
+
+export const getRedlineStats = (segments: RedlineSegment[]): RedlineStats => {
+  const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+  return {
+    inserted: segments.filter(s => s.type === 'inserted').reduce((sum, s) => sum + countWords(s.text), 0),
+    deleted: segments.filter(s => s.type === 'deleted').reduce((sum, s) => sum + countWords(s.text), 0),
+    moved: new Set(segments.filter(s => s.moveId).map(s => s.moveId)).size,
+  };
+};
+
+// Plain-text redline for the clipboard and .txt export: [-deleted-] {+inserted+}, moves numbered
+export const redlineToText = (segments: RedlineSegment[]): string =>
+  segments.map(segment => {
+    switch (segment.type) {
+      case 'equal':
+        return segment.text;
+      case 'inserted':
+        return `{+${segment.text}+}`;
+      case 'deleted':
+        return `[-${segment.text}-]`;
+      case 'moved-from':
+        return `[-(moved ${segment.moveId})${segment.text}-]`;
+      case 'moved-to':
+        return `{+(moved ${segment.moveId})${segment.text}+}`;
+    }
+  }).join('');
@@ -0,0 +1,18 @@
+import * as Y from 'yjs';
+
+// Yjs relative positions point at characters rather than offsets, so they stay attached to the
+// same text while other edits shift it around. Encoded as plain number arrays so they fit JSON
+// payloads and columns.
+
+export const encodeTextPosition = (text: Y.Text, offset: number): number[] =>
+  Array.from(Y.encodeRelativePosition(Y.createRelativePositionFromTypeIndex(text, offset)));
+
+// Null until the update holding the referenced text has arrived
+export const decodeTextPosition = (text: Y.Text, encoded: number[]): number | null => {
+  if (!text.doc) return null;
+  const position = Y.createAbsolutePositionFromRelativePosition(
+    Y.decodeRelativePosition(Uint8Array.from(encoded)),
+    text.doc
+  );
+  return position && position.type === text ? position.index : null;
+};
@@ -0,0 +1,334 @@
+// LLM and embedding providers for the edge functions, selected by environment:
+//
+//   AI_PROVIDER          'openai' (default), 'openai-compatible' (e.g. Ollama) or 'mock'
+//   OPENAI_API_KEY       required for 'openai'
+//   AI_BASE_URL          base URL for 'openai-compatible', e.g. http://localhost:11434/v1
+//   AI_API_KEY           optional bearer token for 'openai-compatible'
+//   AI_EMBEDDING_MODEL   overrides the embedding model
+//   AI_CHAT_MODEL        overrides the model for regular queries
+//   AI_FAST_CHAT_MODEL   overrides the model for short factual queries
+//
+// Vectors from different embedding models are not comparable, so switching the embedding
+// provider or model means re-embedding existing chunks.
+
+// document_embeddings.embedding is vector(1536); every provider must return this many dimensions
+export const EMBEDDING_DIMENSIONS = 1536
+
+export type ChatTier = 'fast' | 'default'
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+// JSON Schema the reply must conform to; see structuredOutput.ts for validation and retries
+export interface ResponseFormat {
+  name: string
+  schema: Record<string, unknown>
+}
+
+export interface ChatOptions {
+  tier?: ChatTier
+  temperature?: number
+  maxTokens?: number
+  responseFormat?: ResponseFormat
+  signal?: AbortSignal
+}
+
+export interface AIProvider {
+  name: string
+  embeddingModel: string
+  embed(inputs: string[]): Promise<number[][]>
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<{ content: string; model: string }>
+  // Same as chat, but hands each piece of the reply to onDelta as it is generated
+  chatStream(
+    messages: ChatMessage[],
+    options: ChatOptions,
+    onDelta: (delta: string) => void
+  ): Promise<{ content: string; model: string }>
+}
+
+export class ProviderRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public retryable: boolean,
+    public retryAfterSeconds = 0
+  ) {
+    super(message)
+  }
+}
+
+// Smaller local models return shorter vectors. Zero-padding leaves cosine similarity unchanged,
+// so they can share the vector(1536) column; longer vectors can't be stored and are rejected.
+function fitDimensions(embedding: number[]): number[] {
+  if (embedding.length === EMBEDDING_DIMENSIONS) return embedding
+  if (embedding.length > EMBEDDING_DIMENSIONS) {
+    throw new Error(`Embedding model returned ${embedding.length} dimensions; at most ${EMBEDDING_DIMENSIONS} are supported`)
+  }
+  return [...embedding, ...new Array(EMBEDDING_DIMENSIONS - embedding.length).fill(0)]
+}
+
+interface OpenAICompatibleConfig {
+  name: string
+  baseUrl: string
+  apiKey?: string
+  embeddingModel: string
+  chatModel: string
+  fastChatModel: string
+  // Only OpenAI's own embedding models accept the dimensions parameter
+  sendDimensions: boolean
+  // Whether a chat model enforces response_format json_schema; others only get JSON mode
+  supportsJsonSchema: (model: string) => boolean
+}
+
+function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): AIProvider {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`
+  }
+
+  const request = async (path: string, body: Record<string, unknown>, signal?: AbortSignal) => {
+    const response = await fetch(`${config.baseUrl}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new ProviderRequestError(
+        `${config.name} API error: ${response.status} ${response.statusText} - ${errorText}`,
+        response.status,
+        response.status === 429 || response.status >= 500,
+        Number(response.headers.get('retry-after')) || 0
+      )
+    }
+
+    return response
+  }
+
+  const post = async (path: string, body: Record<string, unknown>, signal?: AbortSignal) => {
+    const response = await request(path, body, signal)
+    return response.json()
+  }
+
+  // JSON mode only guarantees syntactically valid JSON, so callers still validate the shape
+  const toResponseFormat = (model: string, format: ResponseFormat) => config.supportsJsonSchema(model)
+    ? { type: 'json_schema', json_schema: { name: format.name, schema: format.schema, strict: true } }
+    : { type: 'json_object' }
+
+  const chatBody = (model: string, messages: ChatMessage[], options: ChatOptions) => ({
+    model,
+    messages,
+    temperature: options.temperature ?? 0.1,
+    ...(options.maxTokens ? { max_tokens: options.maxTokens } : {}),
+    ...(options.responseFormat ? { response_format: toResponseFormat(model, options.responseFormat) } : {}),
+  })
+
+  return {
+    name: config.name,
+    embeddingModel: config.embeddingModel,
+
+    async embed(inputs) {
+      const data = await post('/embeddings', {
+        model: config.embeddingModel,
+        input: inputs,
+        ...(config.sendDimensions ? { dimensions: EMBEDDING_DIMENSIONS } : {}),
+      })
+
+      // Items may come back out of order, so place them by index
+      const embeddings: number[][] = new Array(inputs.length)
+      data.data.forEach((item: { index?: number; embedding: number[] }, i: number) => {
+        embeddings[item.index ?? i] = fitDimensions(item.embedding)
+      })
+      return embeddings
+    },
+
+    async chat(messages, options = {}) {
+      const model = options.tier === 'fast' ? config.fastChatModel : config.chatModel
+      const data = await post('/chat/completions', chatBody(model, messages, options), options.signal)
+      return { content: data.choices[0].message.content, model }
+    },
+
+    async chatStream(messages, options, onDelta) {
+      const model = options.tier === 'fast' ? config.fastChatModel : config.chatModel
+      const response = await request('/chat/completions', { ...chatBody(model, messages, options), stream: true }, options.signal)
+      if (!response.body) {
+        throw new Error(`${config.name} returned an empty stream`)
+      }
+
+      // Server-sent events: one "data: {json}" line per delta, terminated by "data: [DONE]"
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+      let buffer = ''
+      let content = ''
+
+      while (true) {
+        const { value, done } = await reader.read()
+        if (done) break
+
+        buffer += value
+        const lines = buffer.split('\n')
+        buffer = lines.pop() ?? ''
+
+        for (const line of lines) {
+          if (!line.startsWith('data:')) continue
+          const payload = line.slice(5).trim()
+          if (payload === '[DONE]') return { content, model }
+
+          const delta = JSON.parse(payload).choices?.[0]?.delta?.content
+          if (delta) {
+            content += delta
+            onDelta(delta)
+          }
+        }
+      }
+
+      return { content, model }
+    },
+  }
+}
+
+// Deterministic offline provider for tests and air-gapped development.
+// Embeddings hash word tokens into buckets, so texts sharing words still score as similar.
+function createMockProvider(): AIProvider {
+  const hashToken = (token: string) => {
+    let hash = 2166136261
+    for (let i = 0; i < token.length; i++) {
+      hash ^= token.charCodeAt(i)
+      hash = Math.imul(hash, 16777619)
+    }
+    return hash >>> 0
+  }
+
+  const embedText = (text: string) => {
+    const vector = new Array(EMBEDDING_DIMENSIONS).fill(0)
+    const tokens = text.toLowerCase().match(/[a-z0-9]+/g) || []
+    for (const token of tokens) {
+      const hash = hashToken(token)
+      vector[hash % EMBEDDING_DIMENSIONS] += (hash >>> 31) ? 1 : -1
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1
+    return vector.map(value => value / norm)
+  }
+
+  const emptyValue = (schema: Record<string, unknown>): unknown => {
+    switch (schema.type) {
+      case 'object': {
+        const properties = (schema.properties || {}) as Record<string, Record<string, unknown>>
+        return Object.fromEntries(Object.entries(properties).map(([key, property]) => [key, emptyValue(property)]))
+      }
+      case 'array':
+        return []
+      case 'number':
+      case 'integer':
+        return 0
+      case 'boolean':
+        return false
+      default:
+        return Array.isArray(schema.enum) ? schema.enum[0] : ''
+    }
+  }
+
+  const provider: AIProvider = {
+    name: 'mock',
+    embeddingModel: 'mock-embedding',
+
+    async embed(inputs) {
+      return inputs.map(embedText)
+    },
+
+    // Echo the opening sentence of the first excerpt as the answer, cited in the search answer schema
+    async chat(messages, options = {}) {
+      const prompt = messages.filter(message => message.role === 'user').map(message => message.content).join('\n')
+      const excerpts = Array.from(
+        prompt.matchAll(/Chunk ID: (\S+)[\s\S]*?Content: "([\s\S]*?)"\n---/g),
+        match => ({ chunkId: match[1], content: match[2] })
+      )
+      const firstSentence = (text: string) => (text.match(/[^.!?\n]+[.!?]?/)?.[0] || text).trim()
+
+      // Without excerpts (e.g. query rewriting) echo the latest user message back unchanged
+      const answer = excerpts.length > 0
+        ? firstSentence(excerpts[0].content)
+        : messages.filter(message => message.role === 'user').pop()?.content || 'No document excerpts were provided.'
+
+      if (!options.responseFormat) {
+        return { content: answer, model: 'mock-chat' }
+      }
+
+      // Other structured replies get the emptiest value their schema allows
+      if (options.responseFormat.name !== 'rag_answer') {
+        return { content: JSON.stringify(emptyValue(options.responseFormat.schema)), model: 'mock-chat' }
+      }
+
+      const citations = excerpts.slice(0, 1).map(excerpt => ({
+        chunk_id: excerpt.chunkId,
+        quote: firstSentence(excerpt.content),
+        legal_metadata: { entities: [], dates: [], section: '', legal_concept: '' },
+      }))
+
+      return {
+        content: JSON.stringify({ answer, citations }),
+        model: 'mock-chat',
+      }
+    },
+
+    // Replay the canned reply in small pieces so streaming clients see more than one delta
+    async chatStream(messages, options, onDelta) {
+      const reply = await provider.chat(messages, options)
+      for (let i = 0; i < reply.content.length; i += 16) {
+        onDelta(reply.content.slice(i, i + 16))
+      }
+      return reply
+    },
+  }
+
+  return provider
+}
+
+export function getAIProvider(): AIProvider {
+  const providerName = (Deno.env.get('AI_PROVIDER') || 'openai').toLowerCase()
+
+  switch (providerName) {
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY')
+      if (!apiKey) {
+        console.error('OpenAI API key not found in environment variables')
+        throw new Error('OpenAI API key not configured')
+      }
+      const embeddingModel = Deno.env.get('AI_EMBEDDING_MODEL') || 'text-embedding-3-small'
+      return createOpenAICompatibleProvider({
+        name: 'OpenAI',
+        baseUrl: 'https://api.openai.com/v1',
+        apiKey,
+        embeddingModel,
+        chatModel: Deno.env.get('AI_CHAT_MODEL') || 'gpt-4o-mini',
+        fastChatModel: Deno.env.get('AI_FAST_CHAT_MODEL') || 'gpt-3.5-turbo',
+        sendDimensions: embeddingModel.startsWith('text-embedding-3'),
+        supportsJsonSchema: model => /^(gpt-4o|gpt-4\.1|o\d)/.test(model),
+      })
+    }
+    case 'openai-compatible': {
+      const baseUrl = Deno.env.get('AI_BASE_URL')
+      if (!baseUrl) {
+        throw new Error('AI_BASE_URL must be set for the openai-compatible provider')
+      }
+      const chatModel = Deno.env.get('AI_CHAT_MODEL') || 'llama3.1'
+      return createOpenAICompatibleProvider({
+        name: 'OpenAI-compatible',
+        baseUrl: baseUrl.replace(/\/+$/, ''),
+        apiKey: Deno.env.get('AI_API_KEY') || undefined,
+        embeddingModel: Deno.env.get('AI_EMBEDDING_MODEL') || 'nomic-embed-text',
+        chatModel,
+        fastChatModel: Deno.env.get('AI_FAST_CHAT_MODEL') || chatModel,
+        sendDimensions: false,
+        supportsJsonSchema: () => false,
+      })
+    }
+    case 'mock':
+      return createMockProvider()
+    default:
+      throw new Error(`Unknown AI_PROVIDER: ${providerName}`)
+  }
+}
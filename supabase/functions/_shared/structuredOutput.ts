@@ -0,0 +1,74 @@
+import { AIProvider, ChatMessage, ChatOptions, ResponseFormat } from './aiProvider.ts'
+
+// Malformed replies are sent back to the model with the validation errors this many times in total
+const MAX_STRUCTURED_ATTEMPTS = 3
+
+// A validator returns the usable value (if any) plus everything wrong with the reply.
+// A value with errors is acceptable as a last resort once the retries are used up.
+export interface ValidationResult<T> {
+  value: T | null
+  errors: string[]
+}
+
+export type Validator<T> = (data: unknown) => ValidationResult<T>
+
+export interface StructuredChatResult<T> {
+  value: T
+  model: string
+  attempts: number
+  errors: string[]
+}
+
+// Models in JSON mode still occasionally wrap the object in a markdown fence
+function parseJson(content: string): unknown {
+  const trimmed = content.trim()
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/)
+  return JSON.parse(fenced ? fenced[1] : trimmed)
+}
+
+// Pass onDelta to stream each attempt's raw reply as it is generated; attempt numbers start at 1,
+// so a change in attempt tells the listener to discard what it has seen so far.
+export async function chatStructured<T>(
+  aiProvider: AIProvider,
+  messages: ChatMessage[],
+  options: ChatOptions & { responseFormat: ResponseFormat },
+  validate: Validator<T>,
+  onDelta?: (delta: string, attempt: number) => void
+): Promise<StructuredChatResult<T>> {
+  const conversation = [...messages]
+  let lastErrors: string[] = []
+
+  for (let attempt = 1; attempt <= MAX_STRUCTURED_ATTEMPTS; attempt++) {
+    const { content, model } = onDelta
+      ? await aiProvider.chatStream(conversation, options, delta => onDelta(delta, attempt))
+      : await aiProvider.chat(conversation, options)
+
+    let result: ValidationResult<T>
+    try {
+      result = validate(parseJson(content))
+    } catch (parseError) {
+      result = { value: null, errors: [`Reply is not valid JSON: ${parseError.message}`] }
+    }
+
+    if (result.errors.length === 0 && result.value !== null) {
+      return { value: result.value, model, attempts: attempt, errors: [] }
+    }
+
+    lastErrors = result.errors
+    console.warn(`Structured output from ${model} failed validation (attempt ${attempt}):`, result.errors)
+
+    if (attempt === MAX_STRUCTURED_ATTEMPTS && result.value !== null) {
+      return { value: result.value, model, attempts: attempt, errors: result.errors }
+    }
+
+    conversation.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your reply did not match the required "${options.responseFormat.name}" JSON schema:\n${result.errors.map(error => `- ${error}`).join('\n')}\n\nReply again with only the corrected JSON object.`
+      }
+    )
+  }
+
+  throw new Error(`Model returned invalid structured output after ${MAX_STRUCTURED_ATTEMPTS} attempts: ${lastErrors.join('; ')}`)
+}
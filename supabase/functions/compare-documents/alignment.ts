@@ -0,0 +1,130 @@
+// A clause of one side of the comparison. Documents without extracted clauses are compared paragraph by paragraph.
+export interface ComparisonClause {
+  index: number
+  heading: string
+  clause_type: string | null
+  text: string
+  page_number: number | null
+}
+
+export type AlignmentStatus = 'unchanged' | 'modified' | 'added' | 'removed'
+
+// "base" is the reference document (e.g. our template), "other" the one compared against it (e.g. the counterparty's draft)
+export interface AlignedRow {
+  status: AlignmentStatus
+  base: ComparisonClause | null
+  other: ComparisonClause | null
+  similarity: number | null
+}
+
+// Weights of the alignment score; a shared clause type nudges otherwise borderline pairs together
+const HEADING_WEIGHT = 0.35
+const EMBEDDING_WEIGHT = 0.65
+const SAME_TYPE_BONUS = 0.1
+
+// Pairs scoring below this are reported as a removal plus an addition rather than a modification
+export const MATCH_THRESHOLD = 0.55
+
+// Drop clause numbering and punctuation so "12. Governing Law" and "Section 9 - GOVERNING LAW" compare equal
+export function normalizeHeading(heading: string): string {
+  return heading
+    .trim()
+    .replace(/^(?:section|article|clause)\s+(?:\d+|[IVXLC]+)(?:\.\d+)*/i, '')
+    .replace(/^(?:\d+(?:\.\d+)*|[IVXLC]+)\.?\s+/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Word overlap (Jaccard) between normalized headings, looking only at the heading's first sentence
+export function headingSimilarity(a: string, b: string): number {
+  const words = (heading: string) =>
+    new Set(normalizeHeading(heading.split(/[.:]\s/)[0]).split(' ').filter(word => word.length > 2))
+  const wordsA = words(a)
+  const wordsB = words(b)
+  if (wordsA.size === 0 || wordsB.size === 0) return 0
+
+  let shared = 0
+  wordsA.forEach(word => { if (wordsB.has(word)) shared++ })
+  return shared / (wordsA.size + wordsB.size - shared)
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase()
+
+// Greedy one-to-one matching on the combined score, best pairs first. The result follows the base
+// document's order, with each added clause placed after the clause it follows in the other document.
+export function alignClauses(
+  base: ComparisonClause[],
+  other: ComparisonClause[],
+  baseEmbeddings: number[][],
+  otherEmbeddings: number[][]
+): AlignedRow[] {
+  const pairs: Array<{ i: number; j: number; score: number }> = []
+  base.forEach((baseClause, i) => {
+    other.forEach((otherClause, j) => {
+      const sameType = baseClause.clause_type && baseClause.clause_type !== 'other' &&
+        baseClause.clause_type === otherClause.clause_type
+      const score = HEADING_WEIGHT * headingSimilarity(baseClause.heading, otherClause.heading) +
+        EMBEDDING_WEIGHT * cosineSimilarity(baseEmbeddings[i], otherEmbeddings[j]) +
+        (sameType ? SAME_TYPE_BONUS : 0)
+      if (score >= MATCH_THRESHOLD) pairs.push({ i, j, score })
+    })
+  })
+  pairs.sort((a, b) => b.score - a.score)
+
+  const baseMatch = new Map<number, { j: number; score: number }>()
+  const otherMatched = new Set<number>()
+  for (const pair of pairs) {
+    if (baseMatch.has(pair.i) || otherMatched.has(pair.j)) continue
+    baseMatch.set(pair.i, { j: pair.j, score: pair.score })
+    otherMatched.add(pair.j)
+  }
+
+  // Unmatched clauses of the other document, keyed by the base row they should follow (-1 = before all)
+  const otherPartner = new Map<number, number>()
+  baseMatch.forEach(({ j }, i) => otherPartner.set(j, i))
+  const additions = new Map<number, ComparisonClause[]>()
+  let previousBase = -1
+  other.forEach((clause, j) => {
+    if (otherPartner.has(j)) {
+      previousBase = otherPartner.get(j)!
+      return
+    }
+    additions.set(previousBase, [...(additions.get(previousBase) || []), clause])
+  })
+
+  const added = (after: number): AlignedRow[] =>
+    (additions.get(after) || []).map(clause => ({ status: 'added', base: null, other: clause, similarity: null }))
+
+  const rows: AlignedRow[] = added(-1)
+  base.forEach((clause, i) => {
+    const match = baseMatch.get(i)
+    if (!match) {
+      rows.push({ status: 'removed', base: clause, other: null, similarity: null })
+    } else {
+      const otherClause = other[match.j]
+      rows.push({
+        status: normalizeText(clause.text) === normalizeText(otherClause.text) ? 'unchanged' : 'modified',
+        base: clause,
+        other: otherClause,
+        similarity: Math.round(Math.min(1, match.score) * 100) / 100
+      })
+    }
+    rows.push(...added(i))
+  })
+
+  return rows
+}
@@ -0,0 +1,129 @@
+import { AIProvider, ChatMessage, ResponseFormat } from '../_shared/aiProvider.ts'
+import { ValidationResult, chatStructured } from '../_shared/structuredOutput.ts'
+import { AlignedRow } from './alignment.ts'
+
+export type ChangeSignificance = 'high' | 'medium' | 'low'
+
+export interface ChangeExplanation {
+  row: number
+  explanation: string
+  significance: ChangeSignificance
+}
+
+export interface ComparisonExplanation {
+  summary: string
+  changes: ChangeExplanation[]
+}
+
+// Keep the prompt bounded on heavily rewritten agreements; later changes go unexplained
+const MAX_EXPLAINED_ROWS = 40
+const MAX_CLAUSE_CHARS = 1500
+
+const SIGNIFICANCE = ['high', 'medium', 'low'] as const
+
+export const COMPARISON_EXPLANATION_FORMAT: ResponseFormat = {
+  name: 'comparison_explanation',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['summary', 'changes'],
+    properties: {
+      summary: { type: 'string', description: 'Two to four sentences on what the changes mean for the base document\'s party' },
+      changes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['row', 'explanation', 'significance'],
+          properties: {
+            row: { type: 'integer', description: 'The change number given in the input' },
+            explanation: { type: 'string', description: 'The substantive effect of the change on rights and obligations, in one or two sentences' },
+            significance: { type: 'string', enum: [...SIGNIFICANCE] }
+          }
+        }
+      }
+    }
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Explanations for rows that weren't asked about are dropped rather than failing the whole reply
+export function validateComparisonExplanation(data: unknown, rowNumbers: Set<number>): ValidationResult<ComparisonExplanation> {
+  if (!isRecord(data) || typeof data.summary !== 'string' || !Array.isArray(data.changes)) {
+    return { value: null, errors: ['Reply must be a JSON object with a "summary" string and a "changes" array'] }
+  }
+
+  const errors: string[] = []
+  const changes: ChangeExplanation[] = []
+
+  data.changes.forEach((raw, i) => {
+    if (!isRecord(raw) || typeof raw.row !== 'number' || typeof raw.explanation !== 'string') {
+      errors.push(`changes[${i}] must have a numeric "row" and a string "explanation"`)
+      return
+    }
+    if (!rowNumbers.has(raw.row)) {
+      errors.push(`changes[${i}] refers to change ${raw.row}, which is not one of the changes given`)
+      return
+    }
+    const significance = SIGNIFICANCE.find(level => level === raw.significance) ?? 'medium'
+    changes.push({ row: raw.row, explanation: raw.explanation.trim(), significance })
+  })
+
+  return { value: { summary: data.summary.trim(), changes }, errors }
+}
+
+const clip = (text: string) => text.length > MAX_CLAUSE_CHARS ? `${text.slice(0, MAX_CLAUSE_CHARS)}...` : text
+
+function renderChange(row: AlignedRow, number: number): string {
+  if (row.status === 'added') {
+    return `[Change ${number}] ADDED in the other document:\n${clip(row.other!.text)}`
+  }
+  if (row.status === 'removed') {
+    return `[Change ${number}] REMOVED from the base document:\n${clip(row.base!.text)}`
+  }
+  return `[Change ${number}] MODIFIED\nBase:\n${clip(row.base!.text)}\nOther:\n${clip(row.other!.text)}`
+}
+
+// Row numbers are the rows' positions in the full alignment, so the caller can attach explanations directly
+export async function explainChanges(
+  aiProvider: AIProvider,
+  rows: AlignedRow[],
+  baseName: string,
+  otherName: string
+): Promise<ComparisonExplanation> {
+  const changed = rows
+    .map((row, number) => ({ row, number }))
+    .filter(({ row }) => row.status !== 'unchanged')
+    .slice(0, MAX_EXPLAINED_ROWS)
+
+  if (changed.length === 0) {
+    return { summary: 'The documents contain the same clauses with no substantive differences.', changes: [] }
+  }
+
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: `You are a lawyer reviewing how one agreement differs from another, clause by clause.
+
+The base document is "${baseName}"; the other document is "${otherName}".
+For each change, explain its substantive legal effect: obligations added, removed, narrowed or broadened, shifts of risk, liability, money or deadlines. Ignore pure wording or formatting changes, marking them "low".
+
+Reply with a JSON object matching the "${COMPARISON_EXPLANATION_FORMAT.name}" schema, using the change numbers given.`
+    },
+    {
+      role: 'user',
+      content: changed.map(({ row, number }) => renderChange(row, number)).join('\n\n')
+    }
+  ]
+
+  const { value } = await chatStructured(
+    aiProvider,
+    messages,
+    { temperature: 0.2, maxTokens: 3000, responseFormat: COMPARISON_EXPLANATION_FORMAT },
+    reply => validateComparisonExplanation(reply, new Set(changed.map(({ number }) => number)))
+  )
+
+  return value
+}
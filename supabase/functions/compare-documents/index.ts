@@ -0,0 +1,222 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AIProvider, getAIProvider } from '../_shared/aiProvider.ts'
+import { ComparisonClause, alignClauses } from './alignment.ts'
+import { ComparisonExplanation, explainChanges } from './explanation.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Texts sent to the embeddings API per request, and how much of each clause is embedded
+const EMBEDDING_BATCH_SIZE = 64
+const EMBEDDING_INPUT_CHARS = 2000
+
+// Fallback units for documents that were never split into clauses
+const MIN_PARAGRAPH_CHARS = 40
+const MAX_PARAGRAPHS = 300
+
+// A line opening a numbered or lettered clause: "1.", "2.3", "4)", "(a)", "b)", "(iv)", "Section 5", "Article II"
+const CLAUSE_START = /^((\d+[.)]|\d+(\.\d+)+\.?|\(?[a-z]\)|\([ivxlc]+\))\s|(section|article|clause)\s+[\divxlc]+\b)/i
+const SENTENCE_END = /[.;:]["')\]]?$/
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+interface ComparedDocument {
+  id: string
+  file_name: string
+  clauses: ComparisonClause[]
+  // 'paragraphs' when the document had no extracted clauses and was split by splitIntoParagraphs instead
+  unit: 'clauses' | 'paragraphs'
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
+    )
+
+    const { data: { user } } = await supabaseClient.auth.getUser()
+    if (!user) {
+      throw new Error('User not authenticated')
+    }
+
+    const { base_document_id, other_document_id, explain } = await req.json()
+    if (!base_document_id || !other_document_id) {
+      throw new Error('base_document_id and other_document_id are required')
+    }
+    if (base_document_id === other_document_id) {
+      throw new Error('Choose two different documents to compare')
+    }
+
+    const aiProvider = getAIProvider()
+
+    const [base, other] = await Promise.all([
+      loadComparedDocument(supabaseClient, base_document_id),
+      loadComparedDocument(supabaseClient, other_document_id)
+    ])
+
+    console.log(`Comparing ${base.file_name} (${base.clauses.length} ${base.unit}) with ${other.file_name} (${other.clauses.length} ${other.unit})`)
+
+    const [baseEmbeddings, otherEmbeddings] = await Promise.all([
+      embedClauses(aiProvider, base.clauses),
+      embedClauses(aiProvider, other.clauses)
+    ])
+
+    const rows = alignClauses(base.clauses, other.clauses, baseEmbeddings, otherEmbeddings)
+
+    // The explanation is optional; a failure there still returns the alignment
+    let explanation: ComparisonExplanation | null = null
+    let explanationError: string | null = null
+    if (explain) {
+      try {
+        explanation = await explainChanges(aiProvider, rows, base.file_name, other.file_name)
+      } catch (error) {
+        console.error('Error explaining comparison:', error)
+        explanationError = error.message
+      }
+    }
+
+    const counts = { unchanged: 0, modified: 0, added: 0, removed: 0 }
+    rows.forEach(row => counts[row.status]++)
+    console.log(`Comparison done: ${JSON.stringify(counts)}`)
+
+    return jsonResponse({
+      base: { id: base.id, file_name: base.file_name, unit: base.unit },
+      other: { id: other.id, file_name: other.file_name, unit: other.unit },
+      rows,
+      counts,
+      explanation,
+      explanation_error: explanationError
+    })
+
+  } catch (error) {
+    console.error('Error comparing documents:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      },
+    )
+  }
+})
+
+function jsonResponse(body: Record<string, unknown>) {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    },
+  )
+}
+
+// Clauses from the clause library when ingestion found any, otherwise the document's paragraphs
+async function loadComparedDocument(supabaseClient: SupabaseClient, documentId: string): Promise<ComparedDocument> {
+  const { data: document, error: documentError } = await supabaseClient
+    .from('documents')
+    .select('id, file_name, content')
+    .eq('id', documentId)
+    .single()
+
+  if (documentError || !document) {
+    throw new Error(`Document not found: ${documentError?.message || documentId}`)
+  }
+
+  const { data: clauses, error: clausesError } = await supabaseClient
+    .from('document_clauses')
+    .select('clause_index, heading, clause_type, text, page_number')
+    .eq('document_id', documentId)
+    .order('clause_index')
+
+  if (clausesError) {
+    throw new Error(`Failed to fetch clauses for ${document.file_name}: ${clausesError.message}`)
+  }
+
+  if (clauses && clauses.length > 0) {
+    return {
+      id: document.id,
+      file_name: document.file_name,
+      unit: 'clauses',
+      clauses: clauses.map(clause => ({
+        index: clause.clause_index,
+        heading: clause.heading,
+        clause_type: clause.clause_type,
+        text: clause.text,
+        page_number: clause.page_number
+      }))
+    }
+  }
+
+  const paragraphs = splitIntoParagraphs(document.content || '').slice(0, MAX_PARAGRAPHS)
+
+  if (paragraphs.length === 0) {
+    throw new Error(`${document.file_name} has no text to compare`)
+  }
+
+  return {
+    id: document.id,
+    file_name: document.file_name,
+    unit: 'paragraphs',
+    clauses: paragraphs.map((paragraph: string, index: number) => {
+      const firstLine = paragraph.split('\n')[0].trim()
+      return {
+        index,
+        heading: firstLine.length > 120 ? `${firstLine.slice(0, 117)}...` : firstLine,
+        clause_type: null,
+        text: paragraph,
+        page_number: null
+      }
+    })
+  }
+}
+
+// Contracts extracted from PDFs often have no blank lines at all, so a paragraph also ends before a line
+// that opens a numbered or lettered clause, and after a line ending a sentence once it has some length.
+// Fragments too short to compare are folded into the paragraph before them rather than dropped.
+function splitIntoParagraphs(content: string): string[] {
+  const paragraphs: string[] = []
+  let lines: string[] = []
+
+  const flush = () => {
+    const paragraph = lines.join('\n').trim()
+    lines = []
+    if (!paragraph) return
+    if (paragraph.length < MIN_PARAGRAPH_CHARS && paragraphs.length > 0) {
+      paragraphs[paragraphs.length - 1] += `\n${paragraph}`
+    } else {
+      paragraphs.push(paragraph)
+    }
+  }
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim()
+    if (!line) {
+      flush()
+      continue
+    }
+    if (CLAUSE_START.test(line)) flush()
+    lines.push(line)
+    if (SENTENCE_END.test(line) && lines.join(' ').length >= MIN_PARAGRAPH_CHARS) flush()
+  }
+  flush()
+
+  return paragraphs.filter(paragraph => paragraph.length >= MIN_PARAGRAPH_CHARS)
+}
+
+async function embedClauses(aiProvider: AIProvider, clauses: ComparisonClause[]): Promise<number[][]> {
+  const inputs = clauses.map(clause => `${clause.heading}\n${clause.text.slice(0, EMBEDDING_INPUT_CHARS)}`)
+  const embeddings: number[][] = []
+  for (let i = 0; i < inputs.length; i += EMBEDDING_BATCH_SIZE) {
+    embeddings.push(...await aiProvider.embed(inputs.slice(i, i + EMBEDDING_BATCH_SIZE)))
+  }
+  return embeddings
+}
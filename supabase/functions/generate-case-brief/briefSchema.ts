@@ -0,0 +1,190 @@
+import { ResponseFormat } from '../_shared/aiProvider.ts'
+import { ValidationResult } from '../_shared/structuredOutput.ts'
+
+export type BriefSection = 'parties' | 'key_dates' | 'claims' | 'obligations' | 'open_issues'
+
+// Fields of an item in each section, with the description the model sees in the schema
+const SECTION_FIELDS: Record<BriefSection, Record<string, string>> = {
+  parties: {
+    name: 'Full name of the person or organisation',
+    role: 'Their role in the matter, e.g. plaintiff, landlord, employer, opposing counsel'
+  },
+  key_dates: {
+    date: 'The date, as YYYY-MM-DD when the full date is known, otherwise as written',
+    event: 'What happened or is due on that date'
+  },
+  claims: {
+    description: 'A claim, allegation or cause of action, including who asserts it against whom'
+  },
+  obligations: {
+    party: 'Who is bound',
+    description: 'What they must do, including amounts and deadlines'
+  },
+  open_issues: {
+    description: 'An unresolved question, dispute, inconsistency or missing document'
+  }
+}
+
+export const BRIEF_SECTIONS = Object.keys(SECTION_FIELDS) as BriefSection[]
+
+// Each section uses the subset of these named in SECTION_FIELDS
+export interface BriefItemFields {
+  name?: string
+  role?: string
+  date?: string
+  event?: string
+  party?: string
+  description?: string
+}
+
+// Map step: facts from one part of one document, each backed by a quote from it
+export type FactItem = BriefItemFields & { quote: string }
+
+export type DocumentFacts = { summary: string } & Record<BriefSection, FactItem[]>
+
+// Reduce step: merged items cite the reference ids of the facts they were built from
+export type DraftItem = BriefItemFields & { sources: string[] }
+
+export type BriefDraft = { summary: string } & Record<BriefSection, DraftItem[]>
+
+export interface BriefCitation {
+  document_id: string
+  file_name: string
+  quote: string
+}
+
+export type BriefItem = BriefItemFields & { citations: BriefCitation[] }
+
+// A document longer than the map step reads, so only its opening part is reflected in the brief
+export interface TruncatedDocument {
+  document_id: string
+  file_name: string
+  read_chars: number
+  total_chars: number
+}
+
+export type CaseBrief = { summary: string; truncated_documents?: TruncatedDocument[] } & Record<BriefSection, BriefItem[]>
+
+function itemSchema(section: BriefSection, citation: Record<string, unknown>) {
+  const fields = SECTION_FIELDS[section]
+  return {
+    type: 'array',
+    items: {
+      type: 'object',
+      additionalProperties: false,
+      required: [...Object.keys(fields), ...Object.keys(citation)],
+      properties: {
+        ...Object.fromEntries(Object.entries(fields).map(([field, description]) => [field, { type: 'string', description }])),
+        ...citation
+      }
+    }
+  }
+}
+
+function briefFormat(name: string, summaryDescription: string, citation: Record<string, unknown>): ResponseFormat {
+  return {
+    name,
+    schema: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['summary', ...BRIEF_SECTIONS],
+      properties: {
+        summary: { type: 'string', description: summaryDescription },
+        ...Object.fromEntries(BRIEF_SECTIONS.map(section => [section, itemSchema(section, citation)]))
+      }
+    }
+  }
+}
+
+export const DOCUMENT_FACTS_FORMAT = briefFormat(
+  'document_facts',
+  'Two or three sentences on what this document is and why it matters to the matter',
+  { quote: { type: 'string', description: 'Short exact text copied from the document that supports this item' } }
+)
+
+export const BRIEF_DRAFT_FORMAT = briefFormat(
+  'case_brief',
+  'One paragraph overview of the matter: who is involved, what happened and where it stands',
+  { sources: { type: 'array', items: { type: 'string' }, description: 'Reference ids, e.g. F3, of every fact this item is based on' } }
+)
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Check the summary and the shape of every item; items with missing fields are dropped and reported.
+// readCitation pulls the citation property off a raw item: a null citation drops the item, and any
+// error is reported either way.
+function validateSections<C>(
+  data: unknown,
+  readCitation: (raw: Record<string, unknown>) => { citation: C | null; error?: string }
+): { value: ({ summary: string } & Record<BriefSection, (BriefItemFields & C)[]>) | null; errors: string[] } {
+  if (!isRecord(data)) {
+    return { value: null, errors: ['Reply must be a JSON object'] }
+  }
+
+  const errors: string[] = []
+  if (typeof data.summary !== 'string') {
+    errors.push('"summary" must be a string')
+  }
+
+  const value = { summary: typeof data.summary === 'string' ? data.summary.trim() : '' } as
+    { summary: string } & Record<BriefSection, (BriefItemFields & C)[]>
+
+  for (const section of BRIEF_SECTIONS) {
+    const rawItems = data[section]
+    value[section] = []
+
+    if (!Array.isArray(rawItems)) {
+      errors.push(`"${section}" must be an array`)
+      continue
+    }
+
+    rawItems.forEach((raw, i) => {
+      const fieldNames = Object.keys(SECTION_FIELDS[section])
+      if (!isRecord(raw) || fieldNames.some(field => typeof raw[field] !== 'string')) {
+        errors.push(`${section}[${i}] must have string fields ${fieldNames.map(field => `"${field}"`).join(', ')}`)
+        return
+      }
+
+      const { citation, error } = readCitation(raw)
+      if (error) {
+        errors.push(`${section}[${i}] ${error}`)
+      }
+      if (!citation) return
+
+      const fields = Object.fromEntries(fieldNames.map(field => [field, (raw[field] as string).trim()]))
+      value[section].push({ ...fields, ...citation })
+    })
+  }
+
+  return { value, errors }
+}
+
+// Quotes are only used to highlight the fact when the document is opened, so a quote that can't be
+// found is blanked rather than sent back to the model
+export function validateDocumentFacts(data: unknown, content: string): ValidationResult<DocumentFacts> {
+  const normalizedContent = content.replace(/\s+/g, ' ')
+
+  return validateSections(data, raw => {
+    const quote = typeof raw.quote === 'string' ? raw.quote.trim() : ''
+    return { citation: { quote: normalizedContent.includes(quote.replace(/\s+/g, ' ')) ? quote : '' } }
+  })
+}
+
+export function validateBriefDraft(data: unknown, knownRefs: Set<string>): ValidationResult<BriefDraft> {
+  return validateSections(data, raw => {
+    const sources = Array.isArray(raw.sources)
+      ? raw.sources.filter((ref): ref is string => typeof ref === 'string').map(ref => ref.trim().toUpperCase())
+      : []
+    const known = sources.filter(ref => knownRefs.has(ref))
+
+    if (known.length === 0) {
+      return { citation: null, error: 'must cite at least one fact reference id from the input in "sources"' }
+    }
+    const unknown = sources.filter(ref => !knownRefs.has(ref))
+    return {
+      citation: { sources: known },
+      error: unknown.length > 0 ? `cites unknown reference ids ${unknown.join(', ')}` : undefined
+    }
+  })
+}
@@ -0,0 +1,638 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AIProvider, ChatMessage, getAIProvider } from '../_shared/aiProvider.ts'
+import { chatStructured } from '../_shared/structuredOutput.ts'
+import {
+  BRIEF_DRAFT_FORMAT,
+  BRIEF_SECTIONS,
+  BriefCitation,
+  BriefItemFields,
+  BriefSection,
+  CaseBrief,
+  DOCUMENT_FACTS_FORMAT,
+  DocumentFacts,
+  TruncatedDocument,
+  validateBriefDraft,
+  validateDocumentFacts
+} from './briefSchema.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Map step: documents are read in sections of about this many characters, one model call each
+const MAP_SECTION_CHARS = 12000
+
+// Very long documents are summarized from their opening sections only; the brief lists them as truncated
+const MAX_SECTIONS_PER_DOCUMENT = 20
+
+// Reduce step: facts are merged in batches whose rendered text stays under this size
+const MAX_REDUCE_INPUT_CHARS = 60000
+
+// Stop starting new model calls well before the edge function's wall-clock limit, then hand off.
+// Map sections and reduce batches are checkpointed as they finish, so the next run picks up there.
+const TIME_BUDGET_MS = 90000
+const LEASE_SECONDS = 150
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined
+
+function runInBackground(promise: Promise<unknown>) {
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(promise)
+  }
+}
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+// Map step output kept per document; reused on refresh while the document's updated_at is unchanged.
+// A long document that ran out of time part way keeps sections_done and the summaries so far.
+// read_chars and total_chars are set when the document was too long to read in full.
+interface DocumentSummary {
+  file_name: string
+  updated_at: string
+  facts: DocumentFacts
+  sections_done?: number
+  section_summaries?: string[]
+  read_chars?: number
+  total_chars?: number
+}
+
+type SourcedItem = BriefItemFields & { citations: BriefCitation[] }
+
+// Input to a reduce call: a summarized document, or a partial brief from an earlier reduce round
+interface ReduceInput {
+  label: string
+  summary: string
+  sections: Record<BriefSection, SourcedItem[]>
+}
+
+// Checkpoint of an unfinished reduce step. key names the document summaries it started from, so a
+// changed document restarts it; level is null in the first round, whose inputs are the documents.
+interface ReduceState {
+  key: string
+  round: number
+  level: ReduceInput[] | null
+  partials: ReduceInput[]
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
+    )
+
+    const { data: { user } } = await supabaseClient.auth.getUser()
+    if (!user) {
+      throw new Error('User not authenticated')
+    }
+
+    // A new request names the scope; a handed-off run continues an existing brief by id
+    const { briefId: continuedBriefId, client_id, folder_id } = await req.json()
+    if (!continuedBriefId && !client_id) {
+      throw new Error('client_id or briefId is required')
+    }
+
+    const aiProvider = getAIProvider()
+    const briefId = continuedBriefId || await findOrCreateBrief(supabaseClient, user.id, client_id, folder_id || null)
+
+    const { data: claimed, error: claimError } = await supabaseClient
+      .rpc('claim_case_brief', { brief_id: briefId, lease_seconds: LEASE_SECONDS })
+
+    if (claimError) {
+      throw new Error(`Failed to claim case brief: ${claimError.message}`)
+    }
+
+    if (!claimed) {
+      console.log(`Case brief ${briefId} is already being generated`)
+      return jsonResponse({ success: true, brief_id: briefId, skipped: true })
+    }
+
+    const { data: brief, error: briefError } = await supabaseClient
+      .from('case_briefs')
+      .select('id, client_id, folder_id, document_summaries, reduce_state')
+      .eq('id', briefId)
+      .single()
+
+    if (briefError || !brief) {
+      throw new Error(`Case brief not found: ${briefError?.message || briefId}`)
+    }
+
+    try {
+      return await generateBrief(supabaseClient, aiProvider, brief)
+    } catch (error) {
+      // Keep the summaries gathered so far; a refresh only redoes what is missing
+      await supabaseClient
+        .from('case_briefs')
+        .update({ status: 'failed', last_error: error.message, locked_until: null, updated_at: new Date().toISOString() })
+        .eq('id', briefId)
+      throw error
+    }
+
+  } catch (error) {
+    console.error('Error generating case brief:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      },
+    )
+  }
+})
+
+function jsonResponse(body: Record<string, unknown>) {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    },
+  )
+}
+
+function leaseExpiry() {
+  return new Date(Date.now() + LEASE_SECONDS * 1000).toISOString()
+}
+
+async function findOrCreateBrief(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  clientId: string,
+  folderId: string | null
+): Promise<string> {
+  const findExisting = async () => {
+    let query = supabaseClient.from('case_briefs').select('id').eq('client_id', clientId)
+    query = folderId ? query.eq('folder_id', folderId) : query.is('folder_id', null)
+    const { data, error } = await query.maybeSingle()
+    if (error) {
+      throw new Error(`Failed to fetch case brief: ${error.message}`)
+    }
+    return data?.id as string | undefined
+  }
+
+  const existingId = await findExisting()
+  if (existingId) return existingId
+
+  const { data, error } = await supabaseClient
+    .from('case_briefs')
+    .insert({ client_id: clientId, folder_id: folderId, user_id: userId })
+    .select('id')
+    .single()
+
+  if (error) {
+    // Another request created it first
+    const createdId = await findExisting()
+    if (createdId) return createdId
+    throw new Error(`Failed to create case brief: ${error.message}`)
+  }
+
+  return data.id
+}
+
+// The folder and everything nested under it
+async function getFolderScope(supabaseClient: SupabaseClient, clientId: string, folderId: string): Promise<string[]> {
+  const { data: folders, error } = await supabaseClient
+    .from('folders')
+    .select('id, parent_folder_id')
+    .eq('client_id', clientId)
+
+  if (error) {
+    throw new Error(`Failed to fetch folders: ${error.message}`)
+  }
+
+  const scope = [folderId]
+  for (let i = 0; i < scope.length; i++) {
+    for (const folder of folders || []) {
+      if (folder.parent_folder_id === scope[i]) scope.push(folder.id)
+    }
+  }
+  return scope
+}
+
+async function generateBrief(
+  supabaseClient: SupabaseClient,
+  aiProvider: AIProvider,
+  brief: { id: string; client_id: string; folder_id: string | null; document_summaries: unknown; reduce_state: unknown }
+) {
+  const startedAt = Date.now()
+  const outOfTime = () => Date.now() - startedAt >= TIME_BUDGET_MS
+
+  let documentsQuery = supabaseClient
+    .from('documents')
+    .select('id, file_name, updated_at')
+    .eq('client_id', brief.client_id)
+    .not('content', 'is', null)
+    .order('created_at')
+
+  if (brief.folder_id) {
+    documentsQuery = documentsQuery.in('folder_id', await getFolderScope(supabaseClient, brief.client_id, brief.folder_id))
+  }
+
+  const { data: documents, error: documentsError } = await documentsQuery
+  if (documentsError) {
+    throw new Error(`Failed to fetch documents: ${documentsError.message}`)
+  }
+
+  // Drop summaries of documents that were deleted, moved out of scope or changed since
+  const previous = (brief.document_summaries || {}) as Record<string, DocumentSummary>
+  const summaries: Record<string, DocumentSummary> = {}
+  for (const document of documents || []) {
+    const summary = previous[document.id]
+    if (summary && summary.updated_at === document.updated_at) {
+      summaries[document.id] = { ...summary, file_name: document.file_name }
+    }
+  }
+
+  const isSummarized = (documentId: string) => !!summaries[documentId] && summaries[documentId].sections_done === undefined
+  const pending = (documents || []).filter(document => !isSummarized(document.id))
+  console.log(`Case brief ${brief.id}: ${documents?.length || 0} documents, ${pending.length} to summarize`)
+
+  const saveProgress = async (extra: Record<string, unknown>) => {
+    const { error } = await supabaseClient
+      .from('case_briefs')
+      .update({
+        document_summaries: summaries,
+        total_documents: documents?.length || 0,
+        processed_documents: (documents || []).filter(document => isSummarized(document.id)).length,
+        updated_at: new Date().toISOString(),
+        ...extra
+      })
+      .eq('id', brief.id)
+
+    if (error) {
+      console.error(`Error updating progress for case brief ${brief.id}:`, error)
+    }
+  }
+
+  // Out of time for this run: release the lease and continue in a fresh invocation
+  const handOff = async (stage: string) => {
+    console.log(`Time budget reached for case brief ${brief.id} during ${stage}, handing off`)
+    await saveProgress({ status: 'pending', locked_until: null })
+
+    runInBackground(
+      supabaseClient.functions.invoke('generate-case-brief', { body: { briefId: brief.id } })
+        .then(({ error }) => {
+          if (error) console.error(`Failed to continue case brief ${brief.id}:`, error)
+        })
+    )
+
+    return jsonResponse({ success: true, brief_id: brief.id, status: 'pending' })
+  }
+
+  await saveProgress({})
+
+  for (const document of pending) {
+    if (outOfTime()) {
+      return await handOff(`the map step (${Object.keys(summaries).length}/${documents?.length})`)
+    }
+
+    summaries[document.id] = await summarizeDocument(
+      supabaseClient,
+      aiProvider,
+      document,
+      summaries[document.id],
+      outOfTime,
+      async (partial) => {
+        summaries[document.id] = partial
+        await saveProgress({ locked_until: leaseExpiry() })
+      }
+    )
+    await saveProgress({ locked_until: leaseExpiry() })
+
+    if (!isSummarized(document.id)) {
+      return await handOff(document.file_name)
+    }
+  }
+
+  if (outOfTime()) {
+    return await handOff('the reduce step')
+  }
+
+  const inputs: ReduceInput[] = (documents || []).map(document => {
+    const { facts } = summaries[document.id]
+    return {
+      label: `Document: ${document.file_name}`,
+      summary: facts.summary,
+      sections: Object.fromEntries(BRIEF_SECTIONS.map(section => [
+        section,
+        facts[section].map(({ quote, ...fields }) => ({
+          ...fields,
+          citations: [{ document_id: document.id, file_name: document.file_name, quote }]
+        }))
+      ])) as Record<BriefSection, SourcedItem[]>
+    }
+  })
+
+  const reduceKey = (documents || []).map(document => `${document.id}:${document.updated_at}`).join(',')
+  const reduced = await reduceBrief(
+    aiProvider,
+    inputs,
+    reduceKey,
+    brief.reduce_state as ReduceState | null,
+    outOfTime,
+    (state) => saveProgress({ reduce_state: state, locked_until: leaseExpiry() })
+  )
+
+  if (!reduced) {
+    return await handOff('the reduce step')
+  }
+
+  const { result, model } = reduced
+
+  const truncated: TruncatedDocument[] = (documents || []).flatMap(document => {
+    const { read_chars, total_chars } = summaries[document.id]
+    return read_chars !== undefined && total_chars !== undefined
+      ? [{ document_id: document.id, file_name: document.file_name, read_chars, total_chars }]
+      : []
+  })
+
+  const caseBrief: CaseBrief = {
+    summary: result.summary,
+    ...(truncated.length > 0 ? { truncated_documents: truncated } : {}),
+    ...Object.fromEntries(BRIEF_SECTIONS.map(section => [section, result.sections[section]]))
+  } as CaseBrief
+
+  await saveProgress({
+    brief: caseBrief,
+    model,
+    status: 'completed',
+    last_error: null,
+    locked_until: null,
+    reduce_state: null,
+    generated_at: new Date().toISOString()
+  })
+
+  console.log(`Case brief ${brief.id} completed from ${inputs.length} documents with ${model}`)
+
+  return jsonResponse({ success: true, brief_id: brief.id, status: 'completed' })
+}
+
+// Split at paragraph breaks where possible so facts aren't cut in half. Text past the section limit is
+// left out, and how much was read is returned so the brief can say so.
+function splitIntoSections(content: string): { sections: string[]; readChars: number; totalChars: number } {
+  const sections: string[] = []
+  const text = content.trim()
+  let remaining = text
+
+  while (remaining.length > 0 && sections.length < MAX_SECTIONS_PER_DOCUMENT) {
+    if (remaining.length <= MAP_SECTION_CHARS) {
+      sections.push(remaining)
+      break
+    }
+
+    const breakAt = remaining.lastIndexOf('\n\n', MAP_SECTION_CHARS)
+    const end = breakAt > MAP_SECTION_CHARS / 2 ? breakAt : MAP_SECTION_CHARS
+    sections.push(remaining.slice(0, end))
+    remaining = remaining.slice(end).trim()
+  }
+
+  return { sections, readChars: text.length - remaining.length, totalChars: text.length }
+}
+
+// Summarize a document section by section, resuming a partial summary from an earlier run. At least
+// one section is done per call; after that it stops when out of time and returns the partial summary,
+// with each finished section passed to checkpoint along the way.
+async function summarizeDocument(
+  supabaseClient: SupabaseClient,
+  aiProvider: AIProvider,
+  document: { id: string; file_name: string; updated_at: string },
+  previous: DocumentSummary | undefined,
+  outOfTime: () => boolean,
+  checkpoint: (partial: DocumentSummary) => Promise<void>
+): Promise<DocumentSummary> {
+  const { data, error } = await supabaseClient
+    .from('documents')
+    .select('content')
+    .eq('id', document.id)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to fetch document content: ${error.message}`)
+  }
+
+  const { sections, readChars, totalChars } = splitIntoSections(data.content || '')
+  const resumeFrom = previous?.sections_done ?? 0
+  const facts = resumeFrom > 0 && previous
+    ? previous.facts
+    : { summary: '', ...Object.fromEntries(BRIEF_SECTIONS.map(section => [section, []])) } as DocumentFacts
+  const sectionSummaries = resumeFrom > 0 ? [...(previous?.section_summaries || [])] : []
+
+  for (let i = resumeFrom; i < sections.length; i++) {
+    if (i > resumeFrom && outOfTime()) {
+      console.log(`Summarized ${i} of ${sections.length} sections of ${document.file_name}, continuing later`)
+      return { file_name: document.file_name, updated_at: document.updated_at, facts, sections_done: i, section_summaries: sectionSummaries }
+    }
+
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `You extract the facts a lawyer needs for a case brief from client documents.
+
+Rules:
+- Only include facts stated in the text; never infer or invent
+- Use the names, dates and amounts exactly as written
+- Every item needs a short quote copied exactly from the text that supports it
+- Leave a list empty when the text has nothing for it
+- Reply with a JSON object matching the "${DOCUMENT_FACTS_FORMAT.name}" schema`
+      },
+      {
+        role: 'user',
+        content: `Document: ${document.file_name}${sections.length > 1 ? ` (part ${i + 1} of ${sections.length})` : ''}
+
+${sections[i]}`
+      }
+    ]
+
+    const { value } = await chatStructured(
+      aiProvider,
+      messages,
+      { tier: 'fast', temperature: 0, maxTokens: 2000, responseFormat: DOCUMENT_FACTS_FORMAT },
+      reply => validateDocumentFacts(reply, sections[i])
+    )
+
+    if (value.summary) sectionSummaries.push(value.summary)
+    for (const section of BRIEF_SECTIONS) {
+      facts[section].push(...value[section])
+    }
+
+    if (i + 1 < sections.length) {
+      await checkpoint({
+        file_name: document.file_name,
+        updated_at: document.updated_at,
+        facts,
+        sections_done: i + 1,
+        section_summaries: sectionSummaries
+      })
+    }
+  }
+
+  facts.summary = sectionSummaries.join(' ')
+  console.log(`Summarized ${document.file_name}: ${sections.length} sections, ${BRIEF_SECTIONS.map(section => `${facts[section].length} ${section}`).join(', ')}`)
+
+  if (readChars < totalChars) {
+    console.log(`Only the first ${readChars} of ${totalChars} characters of ${document.file_name} were summarized`)
+    return { file_name: document.file_name, updated_at: document.updated_at, facts, read_chars: readChars, total_chars: totalChars }
+  }
+
+  return { file_name: document.file_name, updated_at: document.updated_at, facts }
+}
+
+const FIELD_ORDER: (keyof BriefItemFields)[] = ['name', 'role', 'date', 'event', 'party', 'description']
+
+const SECTION_TITLES: Record<BriefSection, string> = {
+  parties: 'Parties',
+  key_dates: 'Key dates',
+  claims: 'Claims',
+  obligations: 'Obligations',
+  open_issues: 'Open issues'
+}
+
+// Render inputs for the model with a reference id on every item, remembering what each id cites
+function renderReduceInputs(inputs: ReduceInput[]) {
+  const refs = new Map<string, BriefCitation[]>()
+  const text = inputs.map(input => {
+    const lines = [`## ${input.label}`, `Summary: ${input.summary || '(none)'}`]
+    for (const section of BRIEF_SECTIONS) {
+      if (input.sections[section].length === 0) continue
+      lines.push(`${SECTION_TITLES[section]}:`)
+      for (const item of input.sections[section]) {
+        const ref = `F${refs.size + 1}`
+        refs.set(ref, item.citations)
+        const fields = FIELD_ORDER.filter(field => item[field]).map(field => `${field}: ${item[field]}`)
+        lines.push(`- [${ref}] ${fields.join('; ')}`)
+      }
+    }
+    return lines.join('\n')
+  }).join('\n\n')
+
+  return { text, refs }
+}
+
+function mergeCitations(citationLists: BriefCitation[][]): BriefCitation[] {
+  const seen = new Set<string>()
+  return citationLists.flat().filter(citation => {
+    const key = `${citation.document_id}\n${citation.quote}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+async function reduceOnce(aiProvider: AIProvider, inputs: ReduceInput[], final: boolean) {
+  const { text, refs } = renderReduceInputs(inputs)
+
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: `You combine facts extracted from a client's legal documents into ${final ? 'a case brief' : 'a partial case brief that will be merged with others'}.
+
+Rules:
+- Merge facts that describe the same party, date, claim, obligation or issue into one item
+- Where documents disagree, keep both versions and add an open issue describing the conflict
+- Only use the facts given; never add anything they don't state
+- Every item must list in "sources" the reference ids (e.g. F3) of all facts it is based on
+- Order key dates chronologically
+- Reply with a JSON object matching the "${BRIEF_DRAFT_FORMAT.name}" schema`
+    },
+    {
+      role: 'user',
+      content: text
+    }
+  ]
+
+  const { value, model, errors } = await chatStructured(
+    aiProvider,
+    messages,
+    { tier: 'default', temperature: 0.1, maxTokens: 4000, responseFormat: BRIEF_DRAFT_FORMAT },
+    reply => validateBriefDraft(reply, new Set(refs.keys()))
+  )
+
+  if (errors.length > 0) {
+    console.warn(`Accepted case brief draft with ${errors.length} validation errors`)
+  }
+
+  const result: ReduceInput = {
+    label: 'Partial brief',
+    summary: value.summary,
+    sections: Object.fromEntries(BRIEF_SECTIONS.map(section => [
+      section,
+      value[section].map(({ sources, ...fields }) => ({
+        ...fields,
+        citations: mergeCitations(sources.map(ref => refs.get(ref) || []))
+      }))
+    ])) as Record<BriefSection, SourcedItem[]>
+  }
+
+  return { result, model }
+}
+
+// Group inputs into batches whose rendered text stays under the size limit. Batches take at least two
+// inputs, so each round at least halves the count even when single inputs exceed the limit.
+function batchReduceInputs(level: ReduceInput[]): ReduceInput[][] {
+  const batches: ReduceInput[][] = []
+  let batch: ReduceInput[] = []
+  let batchSize = 0
+
+  for (const input of level) {
+    const size = renderReduceInputs([input]).text.length
+    if (batch.length >= 2 && batchSize + size > MAX_REDUCE_INPUT_CHARS) {
+      batches.push(batch)
+      batch = []
+      batchSize = 0
+    }
+    batch.push(input)
+    batchSize += size
+  }
+  batches.push(batch)
+
+  return batches
+}
+
+// Merge in rounds until everything fits in one call. Every partial brief is checkpointed, and a saved
+// state for the same documents is resumed. At least one model call is made per run; after that it
+// returns null when out of time so the caller can hand off.
+async function reduceBrief(
+  aiProvider: AIProvider,
+  inputs: ReduceInput[],
+  key: string,
+  saved: ReduceState | null,
+  outOfTime: () => boolean,
+  checkpoint: (state: ReduceState) => Promise<void>
+) {
+  if (inputs.length === 0) {
+    throw new Error('No documents with extracted text to summarize')
+  }
+
+  let state: ReduceState = saved?.key === key ? saved : { key, round: 1, level: null, partials: [] }
+  let calls = 0
+
+  for (;;) {
+    const level = state.level || inputs
+    const batches = batchReduceInputs(level)
+
+    if (batches.length === 1) {
+      if (calls > 0 && outOfTime()) return null
+      return await reduceOnce(aiProvider, batches[0], true)
+    }
+
+    console.log(`Reduce round ${state.round}: merging ${level.length} inputs in ${batches.length} batches, ${state.partials.length} done`)
+    for (let i = state.partials.length; i < batches.length; i++) {
+      if (calls > 0 && outOfTime()) return null
+
+      const { result } = await reduceOnce(aiProvider, batches[i], false)
+      calls++
+      state = { ...state, partials: [...state.partials, { ...result, label: `Partial brief ${i + 1}` }] }
+      await checkpoint(state)
+    }
+
+    state = { key, round: state.round + 1, level: state.partials, partials: [] }
+    await checkpoint(state)
+  }
+}
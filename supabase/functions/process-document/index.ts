@@ -6,6 +6,21 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Rows per insert when storing chunks ahead of embedding
+const CHUNK_INSERT_BATCH_SIZE = 500
+
+// Keep in sync with LOW_OCR_CONFIDENCE in src/utils/ocrProcessor.ts
+const LOW_OCR_CONFIDENCE = 70
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined
+
+// Keep background work alive after the response is sent when the runtime supports it
+function runInBackground(promise: Promise<unknown>) {
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(promise)
+  }
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
@@ -23,7 +38,7 @@ serve(async (req) => {
       throw new Error('User not authenticated')
     }
 
-    const { fileName, fileType, fileSize, content, title, extractedData, clientId, folderId } = await req.json()
+    const { fileName, fileType, fileSize, content, title, extractedData, metadata, clientId, folderId, storagePath, checksum } = await req.json()
 
     console.log('Processing document:', { 
       fileName, 
@@ -31,8 +46,12 @@ serve(async (req) => {
       fileSize, 
       contentLength: content?.length, 
       hasExtractedData: !!extractedData,
+      format: metadata?.format,
+      ocrPages: metadata?.ocr?.pages?.length || 0,
       clientId,
-      folderId
+      folderId,
+      storagePath,
+      checksum
     })
 
     // Insert document record with client and folder assignments
@@ -42,7 +61,8 @@ serve(async (req) => {
       file_name: fileName,
       file_type: fileType,
       file_size: fileSize,
-      content: content
+      content: content,
+      metadata: metadata || {}
     }
 
     // Add client and folder IDs if provided
@@ -53,6 +73,15 @@ serve(async (req) => {
       documentInsert.folder_id = folderId
     }
 
+    // Link the original file stored by the client; it must live under this user's folder
+    if (storagePath) {
+      if (!storagePath.startsWith(`${user.id}/`)) {
+        throw new Error('Original file path does not belong to the current user')
+      }
+      documentInsert.storage_path = storagePath
+      documentInsert.checksum_sha256 = checksum || null
+    }
+
     console.log('Inserting document with data:', documentInsert)
 
     const { data: document, error: docError } = await supabaseClient
@@ -68,9 +97,11 @@ serve(async (req) => {
 
     console.log('Document inserted successfully with ID:', document.id)
 
+    let ingestionJob: Record<string, unknown> | null = null
+
     // Process embeddings if we have content
     if (content && content.trim().length > 0) {
-      console.log('Starting embedding generation for content...')
+      console.log('Chunking content for embedding...')
       
       // Use extracted data if available (for PDFs), otherwise create simple chunks
       let chunks: Array<{
@@ -83,128 +114,65 @@ serve(async (req) => {
       }> = [];
 
       if (extractedData && extractedData.pages) {
-        // Process PDF with page/line tracking
-        console.log(`Processing PDF with ${extractedData.pages.length} pages`)
-        chunks = createChunksFromExtractedData(extractedData, fileName);
+        // Process paged documents (PDF, DOCX, RTF, HTML, email) with page/line tracking
+        console.log(`Processing ${metadata?.format || 'document'} with ${extractedData.pages.length} pages`)
+        chunks = createChunksFromExtractedData(extractedData, fileName, metadata);
       } else {
-        // Fallback for non-PDF files
+        // Fallback for plain text files
         chunks = createSimpleChunks(content, fileName);
       }
 
       console.log(`Split content into ${chunks.length} chunks`)
 
-      // Generate embeddings for each chunk
-      const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
-      if (!openaiApiKey) {
-        console.error('OpenAI API key not found in environment variables')
-        throw new Error('OpenAI API key not configured')
+      // Store every chunk up front without an embedding; the ingestion worker fills them in
+      // batches so large files never run into the edge function's request timeout
+      const chunkRows = chunks.map((chunk, i) => ({
+        document_id: document.id,
+        chunk_index: i,
+        content: chunk.text,
+        embedding: null,
+        page_number: chunk.pageNumber || null,
+        line_start: chunk.lineStart || null,
+        line_end: chunk.lineEnd || null,
+        metadata: chunk.metadata || {}
+      }))
+
+      for (let i = 0; i < chunkRows.length; i += CHUNK_INSERT_BATCH_SIZE) {
+        const { error: chunkError } = await supabaseClient
+          .from('document_embeddings')
+          .insert(chunkRows.slice(i, i + CHUNK_INSERT_BATCH_SIZE))
+
+        if (chunkError) {
+          console.error('Error storing chunks:', chunkError)
+          throw new Error(`Failed to store document chunks: ${chunkError.message}`)
+        }
       }
 
-      let successfulEmbeddings = 0
-
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk = chunks[i]
-        console.log(`Processing chunk ${i + 1}/${chunks.length} (page ${chunk.pageNumber || 'N/A'})`)
-        
-        try {
-          const response = await fetch('https://api.openai.com/v1/embeddings', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${openaiApiKey}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              model: 'text-embedding-3-small',
-              input: chunk.text,
-            }),
-          })
-
-          if (!response.ok) {
-            const errorText = await response.text()
-            console.error(`OpenAI API error for chunk ${i}: ${response.status} ${response.statusText} - ${errorText}`)
-            
-            // If it's a rate limit error, wait and retry once
-            if (response.status === 429) {
-              console.log('Rate limit hit, waiting 5 seconds before retry...')
-              await new Promise(resolve => setTimeout(resolve, 5000))
-              
-              const retryResponse = await fetch('https://api.openai.com/v1/embeddings', {
-                method: 'POST',
-                headers: {
-                  'Authorization': `Bearer ${openaiApiKey}`,
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  model: 'text-embedding-3-small',
-                  input: chunk.text,
-                }),
-              })
-              
-              if (!retryResponse.ok) {
-                console.error(`Retry failed for chunk ${i}: ${retryResponse.status} ${retryResponse.statusText}`)
-                continue
-              }
-              
-              const retryEmbeddingData = await retryResponse.json()
-              const embedding = retryEmbeddingData.data[0].embedding
-
-              const { error: embeddingError } = await supabaseClient
-                .from('document_embeddings')
-                .insert({
-                  document_id: document.id,
-                  chunk_index: i,
-                  content: chunk.text,
-                  embedding: embedding,
-                  page_number: chunk.pageNumber || null,
-                  line_start: chunk.lineStart || null,
-                  line_end: chunk.lineEnd || null,
-                  metadata: chunk.metadata || {}
-                })
-
-              if (embeddingError) {
-                console.error('Error storing embedding for chunk', i, ':', embeddingError)
-              } else {
-                successfulEmbeddings++
-                console.log(`Successfully stored embedding for chunk ${i + 1}`)
-              }
-            }
-            continue
-          }
-
-          const embeddingData = await response.json()
-          const embedding = embeddingData.data[0].embedding
-
-          const { error: embeddingError } = await supabaseClient
-            .from('document_embeddings')
-            .insert({
-              document_id: document.id,
-              chunk_index: i,
-              content: chunk.text,
-              embedding: embedding,
-              page_number: chunk.pageNumber || null,
-              line_start: chunk.lineStart || null,
-              line_end: chunk.lineEnd || null,
-              metadata: chunk.metadata || {}
-            })
-
-          if (embeddingError) {
-            console.error('Error storing embedding for chunk', i, ':', embeddingError)
-          } else {
-            successfulEmbeddings++
-            console.log(`Successfully stored embedding for chunk ${i + 1} (page ${chunk.pageNumber || 'N/A'})`)
-          }
-
-          // Small delay between requests to avoid rate limiting
-          if (i < chunks.length - 1) {
-            await new Promise(resolve => setTimeout(resolve, 200))
-          }
-
-        } catch (chunkError) {
-          console.error(`Error processing chunk ${i}:`, chunkError)
-        }
+      const { data: job, error: jobError } = await supabaseClient
+        .from('ingestion_jobs')
+        .insert({
+          document_id: document.id,
+          user_id: user.id,
+          total_chunks: chunkRows.length
+        })
+        .select()
+        .single()
+
+      if (jobError) {
+        console.error('Error creating ingestion job:', jobError)
+        throw new Error(`Failed to create ingestion job: ${jobError.message}`)
       }
 
-      console.log(`Embedding generation complete. ${successfulEmbeddings}/${chunks.length} embeddings created successfully.`)
+      ingestionJob = job
+      console.log(`Created ingestion job ${job.id} for ${chunkRows.length} chunks`)
+
+      // Start the worker without waiting for it; progress is reported through ingestion_jobs
+      runInBackground(
+        supabaseClient.functions.invoke('process-ingestion-job', { body: { jobId: job.id } })
+          .then(({ error }) => {
+            if (error) console.error(`Failed to start ingestion job ${job.id}:`, error)
+          })
+      )
     } else {
       console.log('No content to process for embeddings')
     }
@@ -214,7 +182,10 @@ serve(async (req) => {
         success: true, 
         document_id: document.id,
         document: document,
-        message: 'Document processed successfully'
+        job: ingestionJob,
+        message: ingestionJob
+          ? 'Document stored; embeddings are being generated in the background'
+          : 'Document processed successfully'
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -234,7 +205,7 @@ serve(async (req) => {
   }
 })
 
-function createChunksFromExtractedData(extractedData: any, fileName: string) {
+function createChunksFromExtractedData(extractedData: any, fileName: string, documentMetadata?: { email?: Record<string, unknown> }) {
   const chunks: any[] = [];
   let chunkIndex = 0;
   const chunkSize = 1000;
@@ -276,7 +247,15 @@ function createChunksFromExtractedData(extractedData: any, fileName: string) {
             documentName: fileName,
             client: extractClientFromFilename(fileName),
             matter: extractMatterFromFilename(fileName),
-            totalPages: extractedData.totalPages
+            totalPages: extractedData.totalPages,
+            // Carry email headers on every chunk so search results can show sender and date
+            ...(documentMetadata?.email ? { email: documentMetadata.email } : {}),
+            // Record OCR confidence for scanned pages so answers can be weighed accordingly
+            ...(typeof page.ocrConfidence === 'number' ? {
+              ocr: true,
+              ocrConfidence: page.ocrConfidence,
+              lowOcrConfidence: page.ocrConfidence < LOW_OCR_CONFIDENCE
+            } : {})
           }
         });
       }
@@ -0,0 +1,237 @@
+import { AIProvider, ChatMessage, ResponseFormat } from '../_shared/aiProvider.ts'
+import { ValidationResult, chatStructured } from '../_shared/structuredOutput.ts'
+
+export const CLAUSE_TYPES = [
+  'definitions',
+  'payment',
+  'term',
+  'termination',
+  'confidentiality',
+  'indemnification',
+  'limitation_of_liability',
+  'warranties',
+  'governing_law',
+  'dispute_resolution',
+  'non_compete',
+  'non_solicitation',
+  'assignment',
+  'force_majeure',
+  'notices',
+  'release',
+  'severability',
+  'entire_agreement',
+  'amendment',
+  'other'
+] as const
+
+export type ClauseType = typeof CLAUSE_TYPES[number]
+
+// A clause as cut from the document text; offsets index into documents.content
+export interface ContractClause {
+  clause_index: number
+  heading: string
+  text: string
+  start_offset: number
+  end_offset: number
+}
+
+export interface ClauseClassification {
+  clause_type: ClauseType
+  title: string
+}
+
+// Clauses sent to the model per classification request, and how much of each one it sees
+export const CLASSIFY_BATCH_SIZE = 12
+const CLASSIFY_EXCERPT_CHARS = 1500
+
+// Stored clause text is capped so one runaway "clause" (e.g. an unnumbered schedule) can't bloat the library
+const MAX_CLAUSE_CHARS = 20000
+const MAX_CLAUSES = 200
+const MIN_CLAUSES = 3
+
+// Top-level clause headings: "Section 4", "ARTICLE IV", "4. Payment", "IV. Term" or a short all-caps line.
+// Sub-clauses such as "4.2" stay inside their parent clause.
+const HEADING_PATTERNS = [
+  /^(?:section|article|clause)\s+(?:\d+|[IVXLC]+)\b(?!\.\d)/i,
+  /^\d{1,3}\.?\s+[A-Z(]/,
+  /^[IVXLC]{1,6}\.\s+[A-Z]/,
+  /^[A-Z][A-Z ,&'/-]{3,60}$/
+]
+
+const CONTRACT_MARKERS = /\b(whereas|hereby agree|the parties agree|in witness whereof|now,? therefore|shall be governed by)\b/i
+
+// Keywords in a clause heading that settle its type when the model leaves a clause out
+const HEADING_KEYWORDS: Array<[ClauseType, RegExp]> = [
+  ['definitions', /\bdefinitions?\b|\binterpretation\b/i],
+  ['governing_law', /\bgoverning law\b|\bchoice of law\b|\bjurisdiction\b/i],
+  ['dispute_resolution', /\bdisputes?\b|\barbitration\b|\bmediation\b/i],
+  ['indemnification', /\bindemni/i],
+  ['limitation_of_liability', /\blimitation of liability\b|\bliability\b/i],
+  ['confidentiality', /\bconfidential|\bnon-?disclosure\b/i],
+  ['non_compete', /\bnon-?compet|\brestrictive covenant/i],
+  ['non_solicitation', /\bnon-?solicit/i],
+  ['termination', /\btermination\b/i],
+  ['term', /\bterm\b|\bduration\b/i],
+  ['payment', /\bpayment|\bcompensation\b|\bfees?\b|\bsettlement amount\b/i],
+  ['warranties', /\bwarrant|\brepresentations?\b/i],
+  ['assignment', /\bassignment\b/i],
+  ['force_majeure', /\bforce majeure\b/i],
+  ['notices', /\bnotices?\b/i],
+  ['release', /\brelease\b|\bwaiver of claims\b/i],
+  ['severability', /\bseverab/i],
+  ['entire_agreement', /\bentire agreement\b|\bintegration\b/i],
+  ['amendment', /\bamendments?\b|\bmodifications?\b/i]
+]
+
+function isHeading(line: string): boolean {
+  const trimmed = line.trim()
+  return trimmed.length > 0 && trimmed.length <= 120 && HEADING_PATTERNS.some(pattern => pattern.test(trimmed))
+}
+
+// Split a contract into its top-level clauses by heading lines. Returns an empty list for text that
+// doesn't read like an agreement or has too few headings to be worth indexing clause by clause.
+export function splitIntoClauses(content: string): ContractClause[] {
+  if (!CONTRACT_MARKERS.test(content) || !/\b(agreement|contract)\b/i.test(content.slice(0, 3000))) {
+    return []
+  }
+
+  const starts: number[] = []
+  let offset = 0
+  for (const line of content.split('\n')) {
+    if (isHeading(line)) starts.push(offset + (line.length - line.trimStart().length))
+    offset += line.length + 1
+  }
+
+  const clauses: ContractClause[] = []
+  starts.forEach((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1] : content.length
+    const text = content.slice(start, end).trim()
+    // A heading with nothing under it (e.g. the title block) isn't a clause
+    if (text.length < 40) return
+
+    const heading = text.split('\n')[0].trim()
+    clauses.push({
+      clause_index: clauses.length,
+      heading: heading.length > 120 ? `${heading.slice(0, 117)}...` : heading,
+      text: text.slice(0, MAX_CLAUSE_CHARS),
+      start_offset: start,
+      end_offset: start + Math.min(text.length, MAX_CLAUSE_CHARS)
+    })
+  })
+
+  return clauses.length >= MIN_CLAUSES ? clauses.slice(0, MAX_CLAUSES) : []
+}
+
+export function classifyByHeading(heading: string): ClauseType {
+  return HEADING_KEYWORDS.find(([, pattern]) => pattern.test(heading))?.[0] ?? 'other'
+}
+
+export const CLAUSE_CLASSIFICATION_FORMAT: ResponseFormat = {
+  name: 'clause_classification',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['clauses'],
+    properties: {
+      clauses: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['index', 'type', 'title'],
+          properties: {
+            index: { type: 'integer', description: 'The clause number given in the input' },
+            type: { type: 'string', enum: [...CLAUSE_TYPES] },
+            title: { type: 'string', description: 'Short descriptive title, e.g. "Mutual indemnification for IP claims"' }
+          }
+        }
+      }
+    }
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Clauses the model skips fall back to their heading keywords, so the value is always complete;
+// the errors still trigger a retry first.
+export function validateClauseClassifications(
+  data: unknown,
+  batch: ContractClause[]
+): ValidationResult<Map<number, ClauseClassification>> {
+  if (!isRecord(data) || !Array.isArray(data.clauses)) {
+    return { value: null, errors: ['Reply must be a JSON object with a "clauses" array'] }
+  }
+
+  const errors: string[] = []
+  const classifications = new Map<number, ClauseClassification>()
+  const expected = new Set(batch.map(clause => clause.clause_index))
+
+  data.clauses.forEach((raw, i) => {
+    if (!isRecord(raw) || typeof raw.index !== 'number') {
+      errors.push(`clauses[${i}] must have a numeric "index"`)
+      return
+    }
+    if (!expected.has(raw.index)) {
+      errors.push(`clauses[${i}] has index ${raw.index}, which is not one of the clauses given`)
+      return
+    }
+
+    const clauseType = CLAUSE_TYPES.find(type => type === raw.type)
+    if (!clauseType) {
+      errors.push(`clauses[${i}] has unknown type "${raw.type}"; use one of ${CLAUSE_TYPES.join(', ')}`)
+      return
+    }
+
+    classifications.set(raw.index, {
+      clause_type: clauseType,
+      title: typeof raw.title === 'string' ? raw.title.trim() : ''
+    })
+  })
+
+  for (const clause of batch) {
+    if (classifications.has(clause.clause_index)) continue
+    errors.push(`Clause ${clause.clause_index} is missing; classify every clause`)
+    classifications.set(clause.clause_index, { clause_type: classifyByHeading(clause.heading), title: '' })
+  }
+
+  return { value: classifications, errors }
+}
+
+export async function classifyClauses(
+  aiProvider: AIProvider,
+  batch: ContractClause[]
+): Promise<Map<number, ClauseClassification>> {
+  const clauses = batch.map(clause => {
+    const excerpt = clause.text.length > CLASSIFY_EXCERPT_CHARS
+      ? `${clause.text.slice(0, CLASSIFY_EXCERPT_CHARS)}...`
+      : clause.text
+    return `[Clause ${clause.clause_index}]\n${excerpt}`
+  }).join('\n\n')
+
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: `You classify the clauses of contracts and settlement agreements for a clause library.
+
+For each clause give:
+- "type": what the clause does, judged by its text rather than only its heading; use "other" if nothing fits
+- "title": a short title a lawyer would recognise, under 10 words
+
+Reply with a JSON object matching the "${CLAUSE_CLASSIFICATION_FORMAT.name}" schema with one entry per clause, using the clause numbers given.`
+    },
+    {
+      role: 'user',
+      content: clauses
+    }
+  ]
+
+  const { value } = await chatStructured(
+    aiProvider,
+    messages,
+    { tier: 'fast', temperature: 0, maxTokens: 1500, responseFormat: CLAUSE_CLASSIFICATION_FORMAT },
+    reply => validateClauseClassifications(reply, batch)
+  )
+
+  return value
+}
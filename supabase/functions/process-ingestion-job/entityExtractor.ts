@@ -0,0 +1,159 @@
+import { AIProvider, ChatMessage, ResponseFormat } from '../_shared/aiProvider.ts'
+import { ValidationResult, chatStructured } from '../_shared/structuredOutput.ts'
+
+export const ENTITY_TYPES = ['person', 'organization', 'court', 'amount', 'case_number', 'statute'] as const
+
+export type EntityType = typeof ENTITY_TYPES[number]
+
+// One occurrence of an entity in a chunk; offsets index into the chunk content
+export interface EntityMention {
+  entity_type: EntityType
+  text: string
+  normalized_value: string
+  role: string | null
+  start_offset: number
+  end_offset: number
+  context: string
+}
+
+// Characters of surrounding text kept with each mention for the entity browser
+const CONTEXT_CHARS = 80
+
+export const DOCUMENT_ENTITIES_FORMAT: ResponseFormat = {
+  name: 'document_entities',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['entities'],
+    properties: {
+      entities: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['type', 'text', 'name', 'role'],
+          properties: {
+            type: { type: 'string', enum: [...ENTITY_TYPES] },
+            text: { type: 'string', description: 'The mention exactly as it appears in the excerpt' },
+            name: {
+              type: 'string',
+              description: 'Canonical form used to group mentions: full name for people, organizations and courts, e.g. "$12,500.00" for amounts, the citation as usually written for case numbers and statutes'
+            },
+            role: {
+              type: 'string',
+              description: 'Role in the matter if the excerpt states it, e.g. plaintiff, counsel for defendant, judge, trustee; otherwise ""'
+            }
+          }
+        }
+      }
+    }
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u
+
+// Whole-word matches only, so "Ann" isn't found inside "Annual" or "Joanne". An edge of the mention that
+// isn't a word character (the "$" of an amount, the "." of "Inc.") needs no boundary there.
+function findOccurrences(content: string, text: string): number[] {
+  const escaped = text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const before = WORD_CHAR.test(text[0]) ? '(?<![\\p{L}\\p{N}_])' : ''
+  const after = WORD_CHAR.test(text[text.length - 1]) ? '(?![\\p{L}\\p{N}_])' : ''
+  const pattern = new RegExp(`${before}${escaped}${after}`, 'gu')
+  return Array.from(content.matchAll(pattern), match => match.index as number)
+}
+
+function contextAround(content: string, start: number, end: number): string {
+  const from = Math.max(0, start - CONTEXT_CHARS)
+  const to = Math.min(content.length, end + CONTEXT_CHARS)
+  return `${from > 0 ? '…' : ''}${content.slice(from, to).replace(/\s+/g, ' ').trim()}${to < content.length ? '…' : ''}`
+}
+
+// Every occurrence of each reported mention becomes its own row, so offsets always point at real text.
+// Mentions that can't be found are reported so the model copies them exactly on the retry.
+export function validateDocumentEntities(data: unknown, content: string): ValidationResult<EntityMention[]> {
+  if (!isRecord(data) || !Array.isArray(data.entities)) {
+    return { value: null, errors: ['Reply must be a JSON object with an "entities" array'] }
+  }
+
+  const errors: string[] = []
+  const mentions: EntityMention[] = []
+  const seen = new Set<string>()
+
+  data.entities.forEach((raw, i) => {
+    if (!isRecord(raw) || typeof raw.text !== 'string' || typeof raw.name !== 'string') {
+      errors.push(`entities[${i}] must have string "type", "text", "name" and "role" fields`)
+      return
+    }
+
+    const entityType = ENTITY_TYPES.find(type => type === raw.type)
+    if (!entityType) {
+      errors.push(`entities[${i}] has unknown type "${raw.type}"; use one of ${ENTITY_TYPES.join(', ')}`)
+      return
+    }
+
+    const text = raw.text.trim()
+    const key = `${entityType}\n${text}`
+    if (!text || seen.has(key)) return
+    seen.add(key)
+
+    const positions = findOccurrences(content, text)
+    if (positions.length === 0) {
+      errors.push(`entities[${i}] text "${text}" does not appear in the excerpt; copy it exactly`)
+      return
+    }
+
+    const role = typeof raw.role === 'string' && raw.role.trim() ? raw.role.trim() : null
+    for (const start of positions) {
+      mentions.push({
+        entity_type: entityType,
+        text,
+        normalized_value: raw.name.replace(/\s+/g, ' ').trim() || text,
+        role,
+        start_offset: start,
+        end_offset: start + text.length,
+        context: contextAround(content, start, start + text.length)
+      })
+    }
+  })
+
+  return { value: mentions, errors }
+}
+
+export async function extractEntities(aiProvider: AIProvider, content: string): Promise<EntityMention[]> {
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: `You index the named entities in excerpts of a client's legal documents.
+
+Find every mention of:
+- person: parties, witnesses, counsel, judges and other individuals
+- organization: companies, agencies, firms and other bodies (courts go under court)
+- court: courts and tribunals
+- amount: sums of money, with currency
+- case_number: docket, case, claim and file numbers
+- statute: statutes, regulations, rules and code sections
+
+Rules:
+- "text" must be copied exactly from the excerpt, including case and punctuation
+- List each distinct mention once; use the same "name" for different spellings of the same entity
+- Skip pronouns and generic references such as "the defendant" unless no name is given
+- Reply with a JSON object matching the "${DOCUMENT_ENTITIES_FORMAT.name}" schema, with an empty "entities" array if there are none`
+    },
+    {
+      role: 'user',
+      content
+    }
+  ]
+
+  const { value } = await chatStructured(
+    aiProvider,
+    messages,
+    { tier: 'fast', temperature: 0, maxTokens: 2000, responseFormat: DOCUMENT_ENTITIES_FORMAT },
+    reply => validateDocumentEntities(reply, content)
+  )
+
+  return value
+}
@@ -0,0 +1,615 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AIProvider, ProviderRequestError, getAIProvider } from '../_shared/aiProvider.ts'
+import { extractTimelineEvents, mayContainDates } from './timelineExtractor.ts'
+import { extractEntities } from './entityExtractor.ts'
+import {
+  CLASSIFY_BATCH_SIZE,
+  ClauseClassification,
+  ContractClause,
+  classifyByHeading,
+  classifyClauses,
+  splitIntoClauses
+} from './clauseExtractor.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Chunks sent to the embeddings API per request
+const EMBEDDING_BATCH_SIZE = 64
+
+// A chunk that fails this many times (to embed, or in an extraction pass) is given up on
+const MAX_CHUNK_ATTEMPTS = 3
+
+// Chunks run through each extraction pass concurrently, one model call each
+const EXTRACTION_BATCH_SIZE = 8
+
+// Retries for a single batch request on rate limits and server errors
+const MAX_REQUEST_RETRIES = 5
+const BASE_BACKOFF_MS = 1000
+const MAX_BACKOFF_MS = 30000
+
+// Stop picking up new batches well before the edge function's wall-clock limit, then hand off
+const TIME_BUDGET_MS = 100000
+const LEASE_SECONDS = 150
+
+// Thrown instead of sleeping through a retry backoff that would run past the time budget
+class OutOfTimeError extends Error {}
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined
+
+function runInBackground(promise: Promise<unknown>) {
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(promise)
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
+    )
+
+    const { data: { user } } = await supabaseClient.auth.getUser()
+    if (!user) {
+      throw new Error('User not authenticated')
+    }
+
+    const { jobId } = await req.json()
+    if (!jobId) {
+      throw new Error('jobId is required')
+    }
+
+    const aiProvider = getAIProvider()
+
+    const { data: job, error: jobError } = await supabaseClient
+      .from('ingestion_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .single()
+
+    if (jobError || !job) {
+      throw new Error(`Ingestion job not found: ${jobError?.message || jobId}`)
+    }
+
+    const { data: claimed, error: claimError } = await supabaseClient
+      .rpc('claim_ingestion_job', { job_id: jobId, lease_seconds: LEASE_SECONDS })
+
+    if (claimError) {
+      throw new Error(`Failed to claim ingestion job: ${claimError.message}`)
+    }
+
+    if (!claimed) {
+      console.log(`Ingestion job ${jobId} is already running or complete`)
+      return jsonResponse({ success: true, skipped: true })
+    }
+
+    console.log(`Claimed ingestion job ${jobId} for document ${job.document_id}`)
+
+    const { data: document, error: documentError } = await supabaseClient
+      .from('documents')
+      .select('client_id, content, clauses_extracted_at')
+      .eq('id', job.document_id)
+      .single()
+
+    if (documentError) {
+      throw new Error(`Failed to fetch document: ${documentError.message}`)
+    }
+
+    const startedAt = Date.now()
+    const deadline = startedAt + TIME_BUDGET_MS
+    let lastError: string | null = null
+    let hasMore = true
+
+    while (hasMore && Date.now() - startedAt < TIME_BUDGET_MS) {
+      const { data: pending, error: pendingError } = await supabaseClient
+        .from('document_embeddings')
+        .select('id, chunk_index, content, embedding_attempts')
+        .eq('document_id', job.document_id)
+        .is('embedding', null)
+        .lt('embedding_attempts', MAX_CHUNK_ATTEMPTS)
+        .order('chunk_index')
+        .limit(EMBEDDING_BATCH_SIZE)
+
+      if (pendingError) {
+        throw new Error(`Failed to load pending chunks: ${pendingError.message}`)
+      }
+
+      if (!pending || pending.length === 0) {
+        hasMore = false
+        break
+      }
+
+      console.log(`Embedding chunks ${pending[0].chunk_index}-${pending[pending.length - 1].chunk_index} for job ${jobId}`)
+
+      try {
+        lastError = await embedChunks(supabaseClient, aiProvider, jobId, pending, deadline) || lastError
+      } catch (error) {
+        if (!(error instanceof OutOfTimeError)) throw error
+        // The provider is backing us off for longer than this run has left; hasMore stays set so we hand off
+        console.log(`No time left to retry embeddings for job ${jobId}, handing off`)
+        break
+      }
+
+      await updateJobProgress(supabaseClient, job, { locked_until: leaseExpiry(), last_error: lastError })
+    }
+
+    // Timeline and entity extraction come after embedding so a slow extraction never holds up search
+    // over the document. Both are per client, so documents outside a client skip them.
+    const passes = document.client_id
+      ? createChunkPasses(supabaseClient, aiProvider, job.document_id, user.id, document.client_id)
+      : []
+    let passIndex = 0
+    // Chunks whose extraction failed in this run; they are retried in the next run, not straight away
+    const failedPassChunks = new Set<string>()
+
+    while (!hasMore && passIndex < passes.length && Date.now() - startedAt < TIME_BUDGET_MS) {
+      const { found, error: passError } = await runChunkPassBatch(supabaseClient, job, passes[passIndex], failedPassChunks)
+      if (!found) passIndex++
+      lastError = passError || lastError
+
+      await updateJobProgress(supabaseClient, job, { locked_until: leaseExpiry(), last_error: lastError })
+    }
+
+    // Clauses are cut from the whole document rather than from chunks, since a clause rarely fits in one
+    const clauses = document.clauses_extracted_at ? [] : splitIntoClauses(document.content || '')
+    let clausesDone = document.clauses_extracted_at !== null
+
+    while (!hasMore && passIndex >= passes.length && !clausesDone && Date.now() - startedAt < TIME_BUDGET_MS) {
+      const { found, error: clauseError } = await runClauseBatch(supabaseClient, aiProvider, job, clauses, user.id, document.client_id)
+      clausesDone = !found
+      lastError = clauseError || lastError
+
+      await updateJobProgress(supabaseClient, job, { locked_until: leaseExpiry(), last_error: lastError })
+    }
+
+    const progress = await updateJobProgress(supabaseClient, job, {})
+
+    if (hasMore || passIndex < passes.length || !clausesDone || failedPassChunks.size > 0) {
+      // Out of time for this run: release the lease and continue in a fresh invocation
+      console.log(`Time budget reached for job ${jobId} (${progress.processed_chunks}/${job.total_chunks}), handing off`)
+      await supabaseClient
+        .from('ingestion_jobs')
+        .update({ status: 'pending', locked_until: null, updated_at: new Date().toISOString() })
+        .eq('id', jobId)
+
+      runInBackground(
+        supabaseClient.functions.invoke('process-ingestion-job', { body: { jobId } })
+          .then(({ error }) => {
+            if (error) console.error(`Failed to continue ingestion job ${jobId}:`, error)
+          })
+      )
+
+      return jsonResponse({ success: true, status: 'pending', ...progress })
+    }
+
+    // Never report a partially indexed document as complete
+    const status = progress.failed_chunks > 0 ? 'failed' : 'completed'
+    const finalError = progress.failed_chunks > 0
+      ? `${progress.failed_chunks} of ${job.total_chunks} chunks could not be embedded${lastError ? `: ${lastError}` : ''}`
+      : null
+
+    await supabaseClient
+      .from('ingestion_jobs')
+      .update({
+        status,
+        last_error: finalError,
+        locked_until: null,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', jobId)
+
+    console.log(`Ingestion job ${jobId} ${status}: ${progress.processed_chunks}/${job.total_chunks} chunks embedded`)
+
+    return jsonResponse({ success: true, status, ...progress, error: finalError })
+
+  } catch (error) {
+    console.error('Error processing ingestion job:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      },
+    )
+  }
+})
+
+function jsonResponse(body: Record<string, unknown>) {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    },
+  )
+}
+
+function leaseExpiry() {
+  return new Date(Date.now() + LEASE_SECONDS * 1000).toISOString()
+}
+
+// Recount progress from the chunk rows so reruns and retries can never drift from reality
+async function updateJobProgress(
+  supabaseClient: ReturnType<typeof createClient>,
+  job: { id: string; document_id: string },
+  extra: Record<string, unknown>
+) {
+  const [{ count: processed }, { count: failed }] = await Promise.all([
+    supabaseClient
+      .from('document_embeddings')
+      .select('id', { count: 'exact', head: true })
+      .eq('document_id', job.document_id)
+      .not('embedding', 'is', null),
+    supabaseClient
+      .from('document_embeddings')
+      .select('id', { count: 'exact', head: true })
+      .eq('document_id', job.document_id)
+      .is('embedding', null)
+      .gte('embedding_attempts', MAX_CHUNK_ATTEMPTS),
+  ])
+
+  const progress = {
+    processed_chunks: processed || 0,
+    failed_chunks: failed || 0
+  }
+
+  const { error } = await supabaseClient
+    .from('ingestion_jobs')
+    .update({ ...progress, ...extra, updated_at: new Date().toISOString() })
+    .eq('id', job.id)
+
+  if (error) {
+    console.error(`Error updating progress for job ${job.id}:`, error)
+  }
+
+  return progress
+}
+
+interface PassChunk {
+  id: string
+  chunk_index: number
+  content: string
+  page_number: number | null
+  line_start: number | null
+}
+
+// A best-effort extraction run over every chunk once it has been embedded. Each pass marks the chunks
+// it has done in its own column, so passes resume independently across worker runs, and counts failed
+// attempts in another so a chunk that keeps failing is eventually left alone.
+interface ChunkPass {
+  name: string
+  column: 'events_extracted_at' | 'entities_extracted_at'
+  attemptsColumn: 'events_extraction_attempts' | 'entities_extraction_attempts'
+  extract: (chunk: PassChunk) => Promise<void>
+}
+
+function createChunkPasses(
+  supabaseClient: ReturnType<typeof createClient>,
+  aiProvider: AIProvider,
+  documentId: string,
+  userId: string,
+  clientId: string
+): ChunkPass[] {
+  return [
+    {
+      name: 'Timeline extraction',
+      column: 'events_extracted_at',
+      attemptsColumn: 'events_extraction_attempts',
+      extract: async (chunk) => {
+        if (!mayContainDates(chunk.content)) return
+
+        const events = await extractTimelineEvents(aiProvider, chunk.content)
+        await clearChunkRows(supabaseClient, 'timeline_events', chunk.id)
+        if (events.length === 0) return
+
+        const { error } = await supabaseClient
+          .from('timeline_events')
+          .insert(events.map(event => ({
+            ...event,
+            client_id: clientId,
+            document_id: documentId,
+            chunk_id: chunk.id,
+            user_id: userId,
+            page_number: chunk.page_number
+          })))
+
+        if (error) {
+          throw new Error(`Failed to store timeline events: ${error.message}`)
+        }
+      }
+    },
+    {
+      name: 'Entity extraction',
+      column: 'entities_extracted_at',
+      attemptsColumn: 'entities_extraction_attempts',
+      extract: async (chunk) => {
+        const mentions = await extractEntities(aiProvider, chunk.content)
+        await clearChunkRows(supabaseClient, 'document_entities', chunk.id)
+        if (mentions.length === 0) return
+
+        const { error } = await supabaseClient
+          .from('document_entities')
+          .insert(mentions.map(mention => ({
+            ...mention,
+            client_id: clientId,
+            document_id: documentId,
+            chunk_id: chunk.id,
+            user_id: userId,
+            page_number: chunk.page_number,
+            line_number: chunk.line_start !== null
+              ? chunk.line_start + (chunk.content.slice(0, mention.start_offset).match(/\n/g)?.length || 0)
+              : null
+          })))
+
+        if (error) {
+          throw new Error(`Failed to store document entities: ${error.message}`)
+        }
+      }
+    }
+  ]
+}
+
+// Drop what an earlier run stored for a chunk before storing it again. That run extracted the chunk but
+// failed to mark it done, and inserting a second time would duplicate its rows.
+async function clearChunkRows(
+  supabaseClient: ReturnType<typeof createClient>,
+  table: 'timeline_events' | 'document_entities',
+  chunkId: string
+) {
+  const { error } = await supabaseClient
+    .from(table)
+    .delete()
+    .eq('chunk_id', chunkId)
+
+  if (error) {
+    throw new Error(`Failed to clear earlier ${table.replace('_', ' ')}: ${error.message}`)
+  }
+}
+
+// Run a pass over the next batch of chunks it hasn't done. Only a successful extraction marks the chunk
+// done; a failure (often a transient rate limit or timeout) counts an attempt and the chunk is skipped for
+// the rest of this run, so a later run retries it until MAX_CHUNK_ATTEMPTS. The document stays searchable either way.
+async function runChunkPassBatch(
+  supabaseClient: ReturnType<typeof createClient>,
+  job: { id: string; document_id: string },
+  pass: ChunkPass,
+  failedChunks: Set<string>
+): Promise<{ found: boolean; error: string | null }> {
+  let query = supabaseClient
+    .from('document_embeddings')
+    .select(`id, chunk_index, content, page_number, line_start, ${pass.attemptsColumn}`)
+    .eq('document_id', job.document_id)
+    .is(pass.column, null)
+    .lt(pass.attemptsColumn, MAX_CHUNK_ATTEMPTS)
+
+  if (failedChunks.size > 0) {
+    query = query.not('id', 'in', `(${Array.from(failedChunks).join(',')})`)
+  }
+
+  const { data: chunks, error: chunksError } = await query
+    .order('chunk_index')
+    .limit(EXTRACTION_BATCH_SIZE)
+
+  if (chunksError) {
+    throw new Error(`Failed to load chunks for ${pass.name.toLowerCase()}: ${chunksError.message}`)
+  }
+
+  if (!chunks || chunks.length === 0) {
+    return { found: false, error: null }
+  }
+
+  let batchError: string | null = null
+
+  // Recording the outcome must not fail quietly: an unmarked chunk is extracted again, and an
+  // uncounted failure is retried forever. Either fails the batch, leaving the job for the next run.
+  const results = await Promise.all(chunks.map(async (chunk: PassChunk & Record<string, unknown>) => {
+    try {
+      await pass.extract(chunk)
+    } catch (error) {
+      console.error(`${pass.name} failed for chunk ${chunk.chunk_index} of job ${job.id}:`, error)
+      batchError = `${pass.name} failed for chunk ${chunk.chunk_index}: ${error.message}`
+      failedChunks.add(chunk.id)
+
+      return await supabaseClient
+        .from('document_embeddings')
+        .update({ [pass.attemptsColumn]: (chunk[pass.attemptsColumn] as number) + 1 })
+        .eq('id', chunk.id)
+    }
+
+    return await supabaseClient
+      .from('document_embeddings')
+      .update({ [pass.column]: new Date().toISOString() })
+      .eq('id', chunk.id)
+  }))
+
+  const recordError = results.find(result => result.error)?.error
+  if (recordError) {
+    throw new Error(`Failed to record ${pass.name.toLowerCase()} progress: ${recordError.message}`)
+  }
+
+  console.log(`${pass.name} done for chunks ${chunks[0].chunk_index}-${chunks[chunks.length - 1].chunk_index} of job ${job.id}`)
+
+  return { found: true, error: batchError }
+}
+
+// Classify and store the next batch of clauses, resuming after the ones already stored. Once every
+// clause is in (or the document isn't a contract) the document is marked so later runs skip it.
+async function runClauseBatch(
+  supabaseClient: ReturnType<typeof createClient>,
+  aiProvider: AIProvider,
+  job: { id: string; document_id: string },
+  clauses: ContractClause[],
+  userId: string,
+  clientId: string | null
+): Promise<{ found: boolean; error: string | null }> {
+  const { count: stored, error: countError } = await supabaseClient
+    .from('document_clauses')
+    .select('id', { count: 'exact', head: true })
+    .eq('document_id', job.document_id)
+
+  if (countError) {
+    throw new Error(`Failed to count stored clauses: ${countError.message}`)
+  }
+
+  const batch = clauses.slice(stored || 0, (stored || 0) + CLASSIFY_BATCH_SIZE)
+
+  if (batch.length === 0) {
+    const { error } = await supabaseClient
+      .from('documents')
+      .update({ clauses_extracted_at: new Date().toISOString() })
+      .eq('id', job.document_id)
+
+    if (error) {
+      throw new Error(`Failed to mark clauses extracted: ${error.message}`)
+    }
+
+    console.log(`Clause extraction done for job ${job.id}: ${clauses.length} clauses`)
+    return { found: false, error: null }
+  }
+
+  // Best effort like the chunk passes: a failed classification still stores the clauses by heading
+  let batchError: string | null = null
+  let classifications = new Map<number, ClauseClassification>()
+  try {
+    classifications = await classifyClauses(aiProvider, batch)
+  } catch (error) {
+    console.error(`Clause classification failed for job ${job.id}:`, error)
+    batchError = `Clause classification failed for clauses ${batch[0].clause_index}-${batch[batch.length - 1].clause_index}: ${error.message}`
+  }
+
+  const { data: pages } = await supabaseClient
+    .from('document_embeddings')
+    .select('content, page_number')
+    .eq('document_id', job.document_id)
+    .not('page_number', 'is', null)
+    .order('chunk_index')
+
+  const { error } = await supabaseClient
+    .from('document_clauses')
+    .insert(batch.map(clause => {
+      const opening = clause.text.slice(0, 60)
+      const classification = classifications.get(clause.clause_index)
+      return {
+        ...clause,
+        clause_type: classification?.clause_type ?? classifyByHeading(clause.heading),
+        title: classification?.title || null,
+        document_id: job.document_id,
+        client_id: clientId,
+        user_id: userId,
+        page_number: pages?.find(chunk => chunk.content.includes(opening))?.page_number ?? null
+      }
+    }))
+
+  if (error) {
+    throw new Error(`Failed to store document clauses: ${error.message}`)
+  }
+
+  console.log(`Classified clauses ${batch[0].clause_index}-${batch[batch.length - 1].clause_index} of job ${job.id}`)
+
+  return { found: true, error: batchError }
+}
+
+interface PendingChunk {
+  id: string
+  chunk_index: number
+  content: string
+  embedding_attempts: number
+}
+
+// Embed and store a batch of chunks, returning the error if any part failed. When the provider rejects
+// the whole request, one bad input is usually to blame, so the batch is halved until the offending chunk
+// is found and only that chunk is charged an attempt; healthy chunks in the same batch still get embedded.
+async function embedChunks(
+  supabaseClient: ReturnType<typeof createClient>,
+  aiProvider: AIProvider,
+  jobId: string,
+  chunks: PendingChunk[],
+  deadline: number
+): Promise<string | null> {
+  let embeddings: number[][]
+  try {
+    embeddings = await createEmbeddings(aiProvider, chunks.map(chunk => chunk.content), deadline)
+  } catch (error) {
+    // Running out of time is not the chunks' fault, so no attempt is charged
+    if (error instanceof OutOfTimeError) throw error
+
+    const rejected = error instanceof ProviderRequestError && !error.retryable
+    if (rejected && chunks.length > 1) {
+      const middle = Math.ceil(chunks.length / 2)
+      const firstError = await embedChunks(supabaseClient, aiProvider, jobId, chunks.slice(0, middle), deadline)
+      const secondError = await embedChunks(supabaseClient, aiProvider, jobId, chunks.slice(middle), deadline)
+      return secondError || firstError
+    }
+
+    console.error(`Embedding failed for chunks ${chunks[0].chunk_index}-${chunks[chunks.length - 1].chunk_index} of job ${jobId}:`, error)
+    await chargeEmbeddingAttempt(supabaseClient, chunks, error.message)
+    return error.message
+  }
+
+  const results = await Promise.all(chunks.map((chunk, i) =>
+    supabaseClient
+      .from('document_embeddings')
+      .update({ embedding: embeddings[i], embedding_error: null })
+      .eq('id', chunk.id)
+  ))
+
+  const storeError = results.find(result => result.error)?.error
+  if (storeError) {
+    const message = `Failed to store embeddings: ${storeError.message}`
+    console.error(`${message} for job ${jobId}`)
+    await chargeEmbeddingAttempt(supabaseClient, chunks, message)
+    return message
+  }
+
+  return null
+}
+
+// Count a failed attempt so a chunk that keeps failing is eventually given up on instead of stalling the job
+async function chargeEmbeddingAttempt(
+  supabaseClient: ReturnType<typeof createClient>,
+  chunks: PendingChunk[],
+  message: string
+) {
+  await Promise.all(chunks.map(chunk =>
+    supabaseClient
+      .from('document_embeddings')
+      .update({ embedding_attempts: chunk.embedding_attempts + 1, embedding_error: message })
+      .eq('id', chunk.id)
+  ))
+}
+
+// Retries until the deadline: a backoff that would end past it throws OutOfTimeError so the job is handed
+// off while this worker still holds the lease, rather than sleeping on and racing the next worker
+async function createEmbeddings(aiProvider: AIProvider, inputs: string[], deadline: number): Promise<number[][]> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await aiProvider.embed(inputs)
+    } catch (error) {
+      // Network failures are retried too; only definite client errors give up immediately
+      const retryable = error instanceof ProviderRequestError ? error.retryable : true
+      if (!retryable || attempt >= MAX_REQUEST_RETRIES) {
+        throw error
+      }
+
+      // Exponential backoff with jitter, honouring Retry-After when the API sends one
+      const retryAfterMs = error instanceof ProviderRequestError ? error.retryAfterSeconds * 1000 : 0
+      const backoffMs = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt)
+      const delay = Math.max(retryAfterMs, backoffMs) + Math.random() * 250
+      if (Date.now() + delay > deadline) {
+        throw new OutOfTimeError(`Embedding retry backoff of ${Math.round(delay)}ms exceeds the time budget: ${error.message}`)
+      }
+      console.log(`${aiProvider.name} embedding request failed (attempt ${attempt + 1}), retrying in ${Math.round(delay)}ms: ${error.message}`)
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { AIProvider, ChatMessage, ResponseFormat } from '../_shared/aiProvider.ts'
+import { ValidationResult, chatStructured } from '../_shared/structuredOutput.ts'
+
+export type DatePrecision = 'day' | 'month' | 'year'
+
+export interface TimelineEvent {
+  event_date: string | null
+  date_precision: DatePrecision
+  date_text: string
+  description: string
+  quote: string | null
+}
+
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?'
+
+// Cheap pre-check so chunks without anything date-like never reach the model:
+// "March 3, 2021", "3 March 2021", "March 2021", 03/04/2021, 2021-03-04 and bare years
+const DATE_PATTERN = new RegExp(
+  [
+    `\\b${MONTH}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}\\b`,
+    `\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH},?\\s+\\d{4}\\b`,
+    `\\b${MONTH}\\s+\\d{4}\\b`,
+    '\\b\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}\\b',
+    '\\b\\d{4}-\\d{2}-\\d{2}\\b',
+    '\\b(?:19|20)\\d{2}\\b'
+  ].join('|'),
+  'i'
+)
+
+export function mayContainDates(text: string): boolean {
+  return DATE_PATTERN.test(text)
+}
+
+export const TIMELINE_EVENTS_FORMAT: ResponseFormat = {
+  name: 'timeline_events',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['events'],
+    properties: {
+      events: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['date', 'date_text', 'description', 'quote'],
+          properties: {
+            date: {
+              type: 'string',
+              description: 'YYYY-MM-DD, or YYYY-MM / YYYY when only the month or year is known, or "" if it cannot be placed on the calendar'
+            },
+            date_text: { type: 'string', description: 'The date exactly as written in the text' },
+            description: { type: 'string', description: 'What happened or is due on that date, in one sentence naming who was involved' },
+            quote: { type: 'string', description: 'Short exact text copied from the excerpt that states the event' }
+          }
+        }
+      }
+    }
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Partial dates are stored as the first day of their month or year, with the precision alongside
+function parseEventDate(date: string): { event_date: string | null; date_precision: DatePrecision } | null {
+  const trimmed = date.trim()
+  if (!trimmed) return { event_date: null, date_precision: 'day' }
+
+  const match = trimmed.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/)
+  if (!match) return null
+
+  const [, year, month, day] = match
+  const isoDate = `${year}-${month || '01'}-${day || '01'}`
+  const parsed = new Date(`${isoDate}T00:00:00Z`)
+  if (Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== isoDate) return null
+
+  return { event_date: isoDate, date_precision: day ? 'day' : month ? 'month' : 'year' }
+}
+
+export function validateTimelineEvents(data: unknown, content: string): ValidationResult<TimelineEvent[]> {
+  if (!isRecord(data) || !Array.isArray(data.events)) {
+    return { value: null, errors: ['Reply must be a JSON object with an "events" array'] }
+  }
+
+  const normalizedContent = content.replace(/\s+/g, ' ')
+  const errors: string[] = []
+  const events: TimelineEvent[] = []
+
+  data.events.forEach((raw, i) => {
+    if (!isRecord(raw) || typeof raw.date !== 'string' || typeof raw.date_text !== 'string' || typeof raw.description !== 'string') {
+      errors.push(`events[${i}] must have string "date", "date_text" and "description" fields`)
+      return
+    }
+
+    const date = parseEventDate(raw.date)
+    if (!date) {
+      errors.push(`events[${i}] date "${raw.date}" is not a valid YYYY-MM-DD, YYYY-MM or YYYY date`)
+      return
+    }
+
+    if (!raw.description.trim() || !raw.date_text.trim()) {
+      errors.push(`events[${i}] needs a non-empty "date_text" and "description"`)
+      return
+    }
+
+    // The quote only drives highlighting, so one that isn't in the chunk is dropped rather than retried
+    const quote = typeof raw.quote === 'string' ? raw.quote.trim() : ''
+    events.push({
+      ...date,
+      date_text: raw.date_text.trim(),
+      description: raw.description.trim(),
+      quote: quote && normalizedContent.includes(quote.replace(/\s+/g, ' ')) ? quote : null
+    })
+  })
+
+  return { value: events, errors }
+}
+
+export async function extractTimelineEvents(aiProvider: AIProvider, content: string): Promise<TimelineEvent[]> {
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: `You build a chronology for a legal matter from excerpts of the client's documents.
+
+List every event in the excerpt that is tied to a specific date: signings, filings, hearings, deadlines, payments, incidents, notices, births, deaths, moves and the like.
+
+Rules:
+- Only include events the excerpt states; never infer dates
+- Skip dates that are not events, such as page headers, print dates or citations to statutes and cases
+- Resolve relative dates ("two weeks later") only when the excerpt gives the reference date
+- Reply with a JSON object matching the "${TIMELINE_EVENTS_FORMAT.name}" schema, with an empty "events" array if there are none`
+    },
+    {
+      role: 'user',
+      content
+    }
+  ]
+
+  const { value } = await chatStructured(
+    aiProvider,
+    messages,
+    { tier: 'fast', temperature: 0, maxTokens: 1500, responseFormat: TIMELINE_EVENTS_FORMAT },
+    reply => validateTimelineEvents(reply, content)
+  )
+
+  return value
+}
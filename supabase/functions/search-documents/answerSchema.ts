@@ -0,0 +1,133 @@
+import { ResponseFormat } from '../_shared/aiProvider.ts'
+import { ValidationResult } from '../_shared/structuredOutput.ts'
+import { matchQuote } from './citationVerifier.ts'
+
+export interface LegalMetadata {
+  entities: string[]
+  dates: string[]
+  section: string
+  legal_concept: string
+}
+
+// A citation checked against the chunk it names. Verified quotes are replaced by the matching source
+// text and carry offsets into the chunk content; unverified ones keep the model's wording and no offsets.
+export interface Citation {
+  chunk_id: string
+  quote: string
+  span_start: number | null
+  span_end: number | null
+  verified: boolean
+  match_score: number
+  legal_metadata: LegalMetadata
+}
+
+export interface RagAnswer {
+  answer: string
+  citations: Citation[]
+}
+
+// Strict mode requires every property to be listed as required and no extras allowed
+export const RAG_ANSWER_FORMAT: ResponseFormat = {
+  name: 'rag_answer',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['answer', 'citations'],
+    properties: {
+      answer: {
+        type: 'string',
+        description: 'Direct answer to the query, citing sources as Document: [filename] | Section: [section] | Lines: [range]'
+      },
+      citations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['chunk_id', 'quote', 'legal_metadata'],
+          properties: {
+            chunk_id: { type: 'string', description: 'Chunk ID of the excerpt being quoted, e.g. C1' },
+            quote: { type: 'string', description: 'Exact text copied from that excerpt which supports the answer' },
+            legal_metadata: {
+              type: 'object',
+              additionalProperties: false,
+              required: ['entities', 'dates', 'section', 'legal_concept'],
+              properties: {
+                entities: { type: 'array', items: { type: 'string' } },
+                dates: { type: 'array', items: { type: 'string' } },
+                section: { type: 'string' },
+                legal_concept: { type: 'string' }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+}
+
+export const chunkId = (index: number) => `C${index + 1}`
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+
+// Resolve every citation against the chunks sent as context. Citations naming an unknown chunk are
+// dropped; quotes that can't be matched are kept as unverified. Both are reported as errors so the
+// model gets a chance to fix them before the answer is accepted.
+export function validateRagAnswer(data: unknown, chunks: { content: string }[]): ValidationResult<RagAnswer> {
+  if (!isRecord(data)) {
+    return { value: null, errors: ['Reply must be a JSON object'] }
+  }
+
+  const errors: string[] = []
+
+  if (typeof data.answer !== 'string' || data.answer.trim().length === 0) {
+    return { value: null, errors: ['"answer" must be a non-empty string'] }
+  }
+
+  if (!Array.isArray(data.citations)) {
+    errors.push('"citations" must be an array')
+  }
+
+  const citations: Citation[] = []
+  const rawCitations = Array.isArray(data.citations) ? data.citations : []
+
+  rawCitations.forEach((raw, i) => {
+    if (!isRecord(raw) || typeof raw.chunk_id !== 'string' || typeof raw.quote !== 'string') {
+      errors.push(`citations[${i}] must have string "chunk_id" and "quote" fields`)
+      return
+    }
+
+    const index = Number(raw.chunk_id.trim().replace(/^C/i, '')) - 1
+    const chunk = Number.isInteger(index) ? chunks[index] : undefined
+    if (!chunk) {
+      errors.push(`citations[${i}] refers to unknown chunk_id "${raw.chunk_id}"; use one of ${chunks.map((_, n) => chunkId(n)).join(', ')}`)
+      return
+    }
+
+    const match = matchQuote(chunk.content, raw.quote)
+    if (!match) {
+      errors.push(`citations[${i}] quote does not appear in ${chunkId(index)}; copy the text exactly from the excerpt`)
+    }
+
+    const metadata = isRecord(raw.legal_metadata) ? raw.legal_metadata : {}
+    citations.push({
+      chunk_id: chunkId(index),
+      quote: match ? chunk.content.slice(match.start, match.end) : raw.quote.trim(),
+      span_start: match?.start ?? null,
+      span_end: match?.end ?? null,
+      verified: !!match,
+      match_score: match?.score ?? 0,
+      legal_metadata: {
+        entities: toStringArray(metadata.entities),
+        dates: toStringArray(metadata.dates),
+        section: typeof metadata.section === 'string' ? metadata.section : '',
+        legal_concept: typeof metadata.legal_concept === 'string' ? metadata.legal_concept : ''
+      }
+    })
+  })
+
+  return { value: { answer: data.answer.trim(), citations }, errors }
+}
@@ -0,0 +1,51 @@
+// Pulls the "answer" string out of the JSON reply while it streams in, so the text can be shown
+// before the citations that follow it have arrived. Each push returns the newly decoded answer text.
+const SIMPLE_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' }
+
+export function createAnswerExtractor() {
+  let raw = ''
+  let position = -1 // Next undecoded character of the answer value; -1 until its opening quote arrives
+  let finished = false
+
+  return (chunk: string): string => {
+    raw += chunk
+    if (finished) return ''
+
+    if (position === -1) {
+      const match = raw.match(/"answer"\s*:\s*"/)
+      if (!match || match.index === undefined) return ''
+      position = match.index + match[0].length
+    }
+
+    let text = ''
+    while (position < raw.length) {
+      const char = raw[position]
+
+      if (char === '"') {
+        finished = true
+        break
+      }
+
+      if (char === '\\') {
+        // Escape sequences can be split across chunks; wait for the rest
+        const escape = raw[position + 1]
+        if (escape === undefined) break
+
+        if (escape === 'u') {
+          if (position + 6 > raw.length) break
+          text += String.fromCharCode(parseInt(raw.slice(position + 2, position + 6), 16))
+          position += 6
+        } else {
+          text += SIMPLE_ESCAPES[escape] ?? escape
+          position += 2
+        }
+        continue
+      }
+
+      text += char
+      position++
+    }
+
+    return text
+  }
+}
@@ -0,0 +1,121 @@
+// Checks that text the model claims to quote actually appears in the chunk it cites.
+// A hallucinated quote in a legal answer is worse than no quote, so anything that can't be
+// matched back to the source is reported as unverified instead of being shown as fact.
+
+// Minimum similarity (1 - edits / quote length) for a fuzzy match to count as verified
+const MIN_FUZZY_SCORE = 0.85
+
+// Quotes longer than this are too expensive to align character by character and must match exactly
+const MAX_FUZZY_QUOTE_LENGTH = 1000
+
+export type MatchMethod = 'exact' | 'normalized' | 'fuzzy'
+
+export interface QuoteMatch {
+  start: number
+  end: number
+  score: number
+  method: MatchMethod
+}
+
+const normalizeChar = (char: string) => char
+  .toLowerCase()
+  .replace(/[‘’]/, "'")
+  .replace(/[“”]/, '"')
+  .replace(/[–—]/, '-')
+
+// Lower-cased text with whitespace runs collapsed, plus the original index of every character kept
+function normalize(text: string) {
+  let normalized = ''
+  const positions: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (normalized.length === 0 || normalized.endsWith(' ')) continue
+      normalized += ' '
+    } else {
+      normalized += normalizeChar(text[i])
+    }
+    positions.push(i)
+  }
+  return { normalized, positions }
+}
+
+// Amounts, ages, dates and section numbers must survive exactly; "age 7" is not "age 8"
+// no matter how similar the rest of the sentence is
+const numbersIn = (text: string) => (text.match(/\d+/g) || []).join(' ')
+
+// Best approximate occurrence of pattern anywhere in text (Sellers' algorithm): edit distance
+// where the match may start and end at any position, tracking where each alignment began
+function approximateSearch(text: string, pattern: string) {
+  let previousCost = new Array(text.length + 1).fill(0)
+  let previousStart = Array.from({ length: text.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= pattern.length; i++) {
+    const cost = new Array(text.length + 1)
+    const start = new Array(text.length + 1)
+    cost[0] = i
+    start[0] = 0
+
+    for (let j = 1; j <= text.length; j++) {
+      const substitution = previousCost[j - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1)
+      const skipPattern = previousCost[j] + 1
+      const skipText = cost[j - 1] + 1
+
+      if (substitution <= skipPattern && substitution <= skipText) {
+        cost[j] = substitution
+        start[j] = previousStart[j - 1]
+      } else if (skipPattern <= skipText) {
+        cost[j] = skipPattern
+        start[j] = previousStart[j]
+      } else {
+        cost[j] = skipText
+        start[j] = start[j - 1]
+      }
+    }
+
+    previousCost = cost
+    previousStart = start
+  }
+
+  let bestEnd = 0
+  for (let j = 1; j <= text.length; j++) {
+    if (previousCost[j] < previousCost[bestEnd]) bestEnd = j
+  }
+
+  return { start: previousStart[bestEnd], end: bestEnd, distance: previousCost[bestEnd] }
+}
+
+// Locate a quote in the chunk: verbatim, then ignoring case, whitespace and typographic quotes,
+// then allowing small edits. Offsets always index into the original content.
+export function matchQuote(content: string, quote: string): QuoteMatch | null {
+  const trimmedQuote = quote.trim()
+  if (!trimmedQuote) return null
+
+  const exact = content.indexOf(trimmedQuote)
+  if (exact !== -1) {
+    return { start: exact, end: exact + trimmedQuote.length, score: 1, method: 'exact' }
+  }
+
+  const target = normalize(trimmedQuote).normalized.trim()
+  const source = normalize(content)
+
+  const toOriginal = (start: number, end: number) => ({
+    start: source.positions[start],
+    end: source.positions[end - 1] + 1
+  })
+
+  const normalizedIndex = source.normalized.indexOf(target)
+  if (normalizedIndex !== -1) {
+    return { ...toOriginal(normalizedIndex, normalizedIndex + target.length), score: 1, method: 'normalized' }
+  }
+
+  if (target.length > MAX_FUZZY_QUOTE_LENGTH) return null
+
+  const { start, end, distance } = approximateSearch(source.normalized, target)
+  const score = 1 - distance / target.length
+  if (end <= start || score < MIN_FUZZY_SCORE) return null
+
+  const span = toOriginal(start, end)
+  if (numbersIn(content.slice(span.start, span.end)) !== numbersIn(trimmedQuote)) return null
+
+  return { ...span, score, method: 'fuzzy' }
+}
@@ -1,11 +1,19 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AIProvider, getAIProvider } from '../_shared/aiProvider.ts'
+import { chatStructured } from '../_shared/structuredOutput.ts'
+import { Citation, RAG_ANSWER_FORMAT, chunkId, validateRagAnswer } from './answerSchema.ts'
+import { createAnswerExtractor } from './answerStream.ts'
+import { condenseQuery, sanitizeHistory } from './queryRewriter.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Chunks handed to the LLM as context
+const MATCH_COUNT = 12
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
@@ -23,7 +31,7 @@ serve(async (req) => {
       throw new Error('User not authenticated')
     }
 
-    const { query, client_id, client_context } = await req.json()
+    const { query, client_id, folder_id, matter, client_context, history, stream } = await req.json()
 
     if (!query || query.trim().length === 0) {
       return new Response(
@@ -36,131 +44,183 @@ serve(async (req) => {
     }
 
     console.log('Processing search query:', query)
-    if (client_id) {
-      console.log('Filtering by client_id:', client_id)
+    if (client_id || folder_id || matter) {
+      console.log('Filtering by:', { client_id, folder_id, matter })
     }
 
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
-    if (!openaiApiKey) {
-      console.error('OpenAI API key not found in environment variables')
-      throw new Error('OpenAI API key not configured')
+    const aiProvider = getAIProvider()
+
+    const request: SearchRequest = { query, client_id, folder_id, matter, client_context, history }
+
+    if (stream) {
+      return streamResponse((emit, signal) => answerQuery(supabaseClient, aiProvider, request, { emit, signal }))
     }
 
-    // Generate embedding for the search query
-    console.log('Generating embedding for search query...')
-    const embeddingResponse = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
+    const result = await answerQuery(supabaseClient, aiProvider, request)
+
+    return new Response(
+      JSON.stringify(result),
+      { 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
       },
-      body: JSON.stringify({
-        model: 'text-embedding-3-small',
-        input: query,
-      }),
-    })
+    )
 
-    if (!embeddingResponse.ok) {
-      const errorText = await embeddingResponse.text()
-      console.error(`OpenAI API error: ${embeddingResponse.status} ${embeddingResponse.statusText} - ${errorText}`)
-      throw new Error(`OpenAI API error: ${embeddingResponse.statusText}`)
-    }
+  } catch (error) {
+    console.error('Error in search-documents function:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      },
+    )
+  }
+})
 
-    const embeddingData = await embeddingResponse.json()
-    const queryEmbedding = embeddingData.data[0].embedding
-
-    // Search for similar embeddings with enhanced metadata and optional client filtering
-    console.log('Fetching document embeddings from database...')
-    let embeddingsQuery = supabaseClient
-      .from('document_embeddings')
-      .select(`
-        *,
-        documents!inner(
-          id,
-          title,
-          file_name,
-          user_id,
-          client_id
-        )
-      `)
-      .eq('documents.user_id', user.id)
-
-    // Add client filter if specified
-    if (client_id) {
-      embeddingsQuery = embeddingsQuery.eq('documents.client_id', client_id)
-    }
+interface SearchRequest {
+  query: string
+  client_id?: string | null
+  folder_id?: string | null
+  matter?: string | null
+  client_context?: string
+  history?: unknown
+}
 
-    const { data: embeddings, error: embeddingsError } = await embeddingsQuery
+// Progress callbacks for streaming mode; signal fires when the client hangs up
+interface StreamControls {
+  emit: (event: string, data: unknown) => void
+  signal: AbortSignal
+}
 
-    if (embeddingsError) {
-      console.error('Database error:', embeddingsError)
-      throw new Error(`Failed to fetch embeddings: ${embeddingsError.message}`)
-    }
+// Server-sent events: "token" carries answer text as it is generated, "reset" means a malformed
+// reply is being regenerated and earlier tokens should be dropped, and "done" carries the same body
+// as the non-streaming response. Failures are reported as an "error" event.
+function streamResponse(run: (emit: StreamControls['emit'], signal: AbortSignal) => Promise<Record<string, unknown>>) {
+  const encoder = new TextEncoder()
+  const abortController = new AbortController()
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const emit = (event: string, data: unknown) => {
+        if (abortController.signal.aborted) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
 
-    if (!embeddings || embeddings.length === 0) {
-      console.log('No embeddings found in database')
-      const message = client_id 
-        ? "I couldn't find any documents for this client. Please upload and process documents first."
-        : "I couldn't find any documents to search through. Please upload and process documents first."
-      
-      return new Response(
-        JSON.stringify({ 
-          results: [],
-          ai_response: message,
-          message: client_id ? 'No documents found for this client' : 'No documents found'
-        }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200,
-        },
-      )
+      try {
+        emit('done', await run(emit, abortController.signal))
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          console.error('Error in search-documents stream:', error)
+          emit('error', { error: error.message })
+        }
+      } finally {
+        if (!abortController.signal.aborted) {
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      // Stop paying for tokens nobody will read
+      console.log('Search stream cancelled by client')
+      abortController.abort()
     }
+  })
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+  })
+}
 
-    // Calculate similarities and get top results
-    const results = embeddings
-      .map(embedding => {
-        const similarity = cosineSimilarity(queryEmbedding, embedding.embedding)
-        return {
-          ...embedding,
-          similarity
-        }
-      })
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, 12) // Reduce to top 12 for better performance
+async function answerQuery(
+  supabaseClient: ReturnType<typeof createClient>,
+  aiProvider: AIProvider,
+  request: SearchRequest,
+  stream?: StreamControls
+): Promise<Record<string, unknown>> {
+  const { query, client_id, folder_id, matter, client_context } = request
+
+  // Follow-up questions are rewritten into a standalone query before retrieval
+  const history = sanitizeHistory(request.history)
+  const standaloneQuery = await condenseQuery(aiProvider, history, query)
+  if (standaloneQuery !== query) {
+    console.log(`Rewrote follow-up using ${history.length} earlier messages:`, standaloneQuery)
+  }
 
-    console.log(`Found ${results.length} document chunks for RAG analysis`)
+  // Generate embedding for the search query
+  console.log(`Generating embedding for search query with ${aiProvider.name}...`)
+  const [queryEmbedding] = await aiProvider.embed([standaloneQuery])
+
+  // Keyword and vector retrieval run in Postgres and are merged with reciprocal rank fusion
+  console.log('Matching document chunks in database (hybrid keyword + semantic)...')
+  const { data: results, error: embeddingsError } = await supabaseClient
+    .rpc('hybrid_match_document_chunks', {
+      query_text: standaloneQuery,
+      query_embedding: queryEmbedding,
+      match_count: MATCH_COUNT,
+      filter_client_id: client_id || null,
+      filter_folder_id: folder_id || null,
+      filter_matter: matter || null
+    })
 
-    // Prepare enhanced context for OpenAI with metadata
-    const documentContext = results.map((result, index) => {
-      const metadata = result.metadata || {};
-      const pageInfo = result.page_number ? `Page ${result.page_number}` : 'Unknown page';
-      const lineInfo = result.line_start && result.line_end ? 
-        `Lines ${result.line_start}-${result.line_end}` : 
-        `Chunk ${result.chunk_index}`;
-      
-      return `Document ${index + 1}:
-Title: ${result.documents.title}
-File: ${result.documents.file_name}
+  if (embeddingsError) {
+    console.error('Database error:', embeddingsError)
+    throw new Error(`Failed to match document chunks: ${embeddingsError.message}`)
+  }
+
+  if (!results || results.length === 0) {
+    console.log('No embeddings found in database')
+    const message = client_id 
+      ? "I couldn't find any documents for this client. Please upload and process documents first."
+      : "I couldn't find any documents to search through. Please upload and process documents first."
+    
+    return {
+      results: [],
+      ai_response: message,
+      standalone_query: standaloneQuery,
+      message: client_id ? 'No documents found for this client' : 'No documents found'
+    }
+  }
+
+  const keywordHits = results.filter(result => result.retrievers.includes('keyword')).length
+  console.log(`Found ${results.length} document chunks for RAG analysis (${keywordHits} via keyword search)`)
+
+  // Prepare enhanced context for the LLM with metadata
+  const documentContext = results.map((result, index) => {
+    const metadata = result.metadata || {};
+    const pageInfo = result.page_number ? `Page ${result.page_number}` : 'Unknown page';
+    const lineInfo = result.line_start && result.line_end ? 
+      `Lines ${result.line_start}-${result.line_end}` : 
+      `Chunk ${result.chunk_index}`;
+    
+    return `Document ${index + 1}:
+Chunk ID: ${chunkId(index)}
+Title: ${result.document_title}
+File: ${result.document_file_name}
 Location: ${pageInfo} | ${lineInfo}
 Content: "${result.content}"
 ---`;
-    }).join('\n\n');
+  }).join('\n\n');
 
-    // Determine model based on query complexity and type
-    const isSimpleQuery = query.length < 50 && (
-      query.toLowerCase().includes('what is') ||
-      query.toLowerCase().includes('when') ||
-      query.toLowerCase().includes('who') ||
-      query.toLowerCase().includes('how much') ||
-      query.toLowerCase().includes('number') ||
-      query.toLowerCase().includes('client number') ||
-      query.toLowerCase().includes('case number')
-    );
+  // Determine model based on query complexity and type
+  const isSimpleQuery = standaloneQuery.length < 50 && (
+    standaloneQuery.toLowerCase().includes('what is') ||
+    standaloneQuery.toLowerCase().includes('when') ||
+    standaloneQuery.toLowerCase().includes('who') ||
+    standaloneQuery.toLowerCase().includes('how much') ||
+    standaloneQuery.toLowerCase().includes('number') ||
+    standaloneQuery.toLowerCase().includes('client number') ||
+    standaloneQuery.toLowerCase().includes('case number')
+  );
 
-    const model = isSimpleQuery ? 'gpt-3.5-turbo' : 'gpt-4o-mini';
+  const chatTier = isSimpleQuery ? 'fast' : 'default';
 
-    // Enhanced system prompt with stricter document referencing requirements
-    const systemPrompt = `You are a legal document assistant helping attorneys manage client cases. 
+  // Enhanced system prompt with stricter document referencing requirements
+  const systemPrompt = `You are a legal document assistant helping attorneys manage client cases. 
 
 ${client_context ? `Current Client Context:\n${client_context}\n` : ''}
 
@@ -195,232 +255,146 @@ A: "$50,000 as stated in Section 3.2"
 Q: "When was the agreement signed?"
 A: "January 15, 2025"
 
-Document excerpts are provided below with their titles and location information.
-
-CRITICAL: You MUST follow this exact format for your response:
-
-1. First, provide your main answer
-2. Then add these two sections EXACTLY as shown:
-
-RELEVANT_SPANS:
-Document 1: "exact text from document 1 that answers the query"
-Document 2: null
-Document 3: "exact text from document 3 that answers the query"
-
-METADATA:
-Document 1: {"entities": ["TechVentures LLC"], "dates": ["January 15, 2025"], "section": "Payment Terms", "legal_concept": "compensation"}
-Document 3: {"entities": ["$125,000"], "dates": [], "section": "Contract Terms", "legal_concept": "total_compensation"}
+Document excerpts are provided below with their chunk IDs, titles and location information.
+
+RESPONSE FORMAT:
+Reply with a single JSON object and nothing else:
+{
+  "answer": "your direct answer, with citations in the format Document: [filename] | Section: [section] | Lines: [range]",
+  "citations": [
+    {
+      "chunk_id": "C1",
+      "quote": "exact text from chunk C1 that answers the query",
+      "legal_metadata": {"entities": ["TechVentures LLC"], "dates": ["January 15, 2025"], "section": "Payment Terms", "legal_concept": "compensation"}
+    }
+  ]
+}
 
-SPAN EXTRACTION RULES:
-- Extract the EXACT sentence/line that directly answers the user's query
-- If a document chunk doesn't contain a direct answer, write "null"
-- For list items, extract just the relevant bullet point
+CITATION RULES:
+- Add one citation for each excerpt that directly supports the answer; leave out excerpts that don't
+- "chunk_id" must be one of the Chunk IDs given with the excerpts
+- "quote" must be copied character for character from that excerpt - the EXACT sentence/line that answers the query
+- For list items, quote just the relevant bullet point
 - Include minimal surrounding context only if needed for clarity
 - Prefer specific facts over general statements
 
-METADATA EXTRACTION:
-Also extract key legal metadata from chunks with relevant spans:
-
-METADATA:
-Document 1: {"entities": ["$25,000", "$50,000", "$45,000"], "dates": [], "section": "Payment Terms", "legal_concept": "compensation"}
-Document 3: {"entities": ["$125,000"], "dates": [], "section": "Contract Terms", "legal_concept": "total_compensation"}
-...
-
-Extract:
+LEGAL METADATA for each citation:
 - entities: People, companies, amounts mentioned
 - dates: Any dates found
 - section: What part of document (Facts, Terms, Procedures, etc.)
-- legal_concept: Main legal topic (compensation, custody, breach, etc.)`;
-
-    // Generate enhanced RAG response using OpenAI with improved system prompt
-    console.log(`Generating RAG response with ${model}...`)
-    const chatResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: model,
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user',
-            content: `Query: ${query}
-
+- legal_concept: Main legal topic (compensation, custody, breach, etc.)
+Use empty arrays or "" when nothing applies.`;
+
+  // In streaming mode the answer text is forwarded as it is generated; citations follow in the final event
+  let streamedAttempt = 1
+  let extractAnswer = createAnswerExtractor()
+  const onDelta = stream && ((delta: string, attempt: number) => {
+    if (attempt !== streamedAttempt) {
+      streamedAttempt = attempt
+      extractAnswer = createAnswerExtractor()
+      stream.emit('reset', { attempt })
+    }
+    const text = extractAnswer(delta)
+    if (text) stream.emit('token', { text })
+  })
+
+  // Generate the RAG answer as schema-checked JSON, retrying with the validation errors if it is malformed
+  console.log(`Generating RAG response with ${aiProvider.name} (${chatTier} tier)${stream ? ', streaming' : ''}...`)
+  const { value: ragAnswer, model, attempts, errors: citationErrors } = await chatStructured(aiProvider, [
+    {
+      role: 'system',
+      content: systemPrompt
+    },
+    // Earlier turns let the answer follow on from the conversation instead of starting cold
+    ...history,
+    {
+      role: 'user',
+      content: `Query: ${query}
+${standaloneQuery !== query ? `(In the context of this conversation: ${standaloneQuery})\n` : ''}
 Document Excerpts:
 ${documentContext}
 
-Provide a direct, concise answer based on these documents. When citing information, use the EXACT format: Document: [filename] | Section: [section] | Lines: [range]`
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 800 // Increased for relevance scores and metadata
-      }),
-    })
-
-    if (!chatResponse.ok) {
-      const errorText = await chatResponse.text()
-      console.error(`OpenAI Chat API error: ${chatResponse.status} ${chatResponse.statusText} - ${errorText}`)
-      throw new Error(`OpenAI Chat API error: ${chatResponse.statusText}`)
+Provide a direct, concise answer based on these documents as a JSON object. When citing information in the answer, use the EXACT format: Document: [filename] | Section: [section] | Lines: [range]`
     }
+  ], {
+    tier: chatTier,
+    temperature: 0.1,
+    maxTokens: 1200, // Room for the answer plus per-citation metadata
+    responseFormat: RAG_ANSWER_FORMAT,
+    signal: stream?.signal
+  }, data => validateRagAnswer(data, results), onDelta)
+  console.log(`RAG response generated by ${model} in ${attempts} attempt(s) with ${ragAnswer.citations.length} citations`)
+  if (citationErrors.length > 0) {
+    console.warn('Accepted answer with citation problems after retries:', citationErrors)
+  }
 
-    const chatData = await chatResponse.json()
-    const fullResponse = chatData.choices[0].message.content
-
-    // Parse LLM response to extract main answer, relevant spans, and metadata
-    const parts = fullResponse.split(/(?:RELEVANT_SPANS:|METADATA:)/);
-    const aiResponse = parts[0].trim();
-    const relevantSpansSection = parts[1];
-    const metadataSection = parts[2];
-    
-    console.log('Parsing LLM response sections:');
-    console.log('- Main response length:', aiResponse.length);
-    console.log('- Has RELEVANT_SPANS section:', !!relevantSpansSection);
-    console.log('- Has METADATA section:', !!metadataSection);
-    console.log('- Full response preview:', fullResponse.substring(0, 500));
-    
-    // Parse relevant spans
-    const relevantSpans = new Map<number, string | null>();
-    if (relevantSpansSection) {
-      console.log('Parsing RELEVANT_SPANS section:', relevantSpansSection.trim());
-      const spanLines = relevantSpansSection.trim().split('\n');
-      spanLines.forEach(line => {
-        const match = line.match(/Document (\d+):\s*(.+)/);
-        if (match) {
-          const docNum = parseInt(match[1]) - 1; // Convert to 0-based index
-          const span = match[2].trim();
-          console.log(`Found span for Document ${docNum + 1}:`, span);
-          // Handle null values
-          if (span.toLowerCase() === 'null' || span === '""' || span === "''") {
-            relevantSpans.set(docNum, null);
-          } else {
-            // Remove quotes if present
-            const cleanSpan = span.replace(/^["']|["']$/g, '');
-            relevantSpans.set(docNum, cleanSpan);
-          }
-        }
-      });
-    } else {
-      console.log('No RELEVANT_SPANS section found - LLM may not be following format');
-    }
+  const unverifiedCount = ragAnswer.citations.filter(citation => !citation.verified).length
+  console.log(`Citation verification: ${ragAnswer.citations.length - unverifiedCount} verified, ${unverifiedCount} unverified`)
 
-    // Parse metadata
-    const chunkMetadata = new Map<number, any>();
-    if (metadataSection) {
-      const metadataLines = metadataSection.trim().split('\n');
-      metadataLines.forEach(line => {
-        const match = line.match(/Document (\d+):\s*(\{.*\})/);
-        if (match) {
-          try {
-            const docNum = parseInt(match[1]) - 1;
-            const metadata = JSON.parse(match[2]);
-            chunkMetadata.set(docNum, metadata);
-          } catch (e) {
-            console.warn('Failed to parse metadata for line:', line);
-          }
-        }
-      });
-    }
+  const aiResponse = ragAnswer.answer
 
-    console.log('Parsed relevant spans:', Object.fromEntries(relevantSpans));
-    console.log('Parsed metadata:', Object.fromEntries(chunkMetadata));
-    console.log('Full LLM response:', fullResponse);
-
-    // If no spans were extracted, use a fallback approach
-    if (relevantSpans.size === 0) {
-      console.log('No spans extracted, trying fallback extraction from main response');
-      
-      // Try to extract quoted content from the main response as spans
-      const quotedContent = aiResponse.match(/\*\*([^*]+)\*\*/g);
-      if (quotedContent) {
-        quotedContent.forEach((quote, index) => {
-          if (index < results.length) {
-            const cleanQuote = quote.replace(/\*\*/g, '').trim();
-            relevantSpans.set(index, cleanQuote);
-            console.log(`Fallback span ${index + 1}:`, cleanQuote);
-          }
-        });
-      }
-    }
+  // Each chunk's best citation becomes its highlighted span, verified ones first; all of them are returned
+  const citationsByChunk = new Map<string, Citation[]>()
+  ragAnswer.citations.forEach(citation => {
+    citationsByChunk.set(citation.chunk_id, [...(citationsByChunk.get(citation.chunk_id) || []), citation])
+  })
+  citationsByChunk.forEach(citations => citations.sort((a, b) => Number(b.verified) - Number(a.verified)))
 
-    // Return enhanced response with detailed source documents and extracted spans
-    const sourceDocuments = results
-      .map((result, index) => ({
+  // Return enhanced response with detailed source documents and extracted spans
+  const sourceDocuments = results
+    .map((result, index) => {
+      const citations = citationsByChunk.get(chunkId(index)) || []
+      return {
         ...result,
-        relevant_span: relevantSpans.get(index) || null,
-        legal_metadata: chunkMetadata.get(index) || {}
-      }))
-      .filter(result => result.similarity > 0.2) // Remove the span requirement for now
-      .sort((a, b) => b.similarity - a.similarity) // Sort by similarity since we're filtering by span relevance
-      .slice(0, 6) // Top 6 sources
-      .map(result => {
-        const metadata = result.metadata || {};
-        return {
-          document_id: result.documents.id,
-          document_title: result.documents.title,
-          document_file_name: result.documents.file_name,
-          content: result.content,
-          similarity: result.similarity,
-          relevant_span: result.relevant_span,
-          legal_metadata: result.legal_metadata,
-          chunk_index: result.chunk_index,
-          page_number: result.page_number,
-          line_start: result.line_start,
-          line_end: result.line_end,
-          client: metadata.client,
-          matter: metadata.matter
-        };
-      });
-
-    const contextMessage = client_id 
-      ? `AI analysis based on ${sourceDocuments.length} relevant document sections from selected client`
-      : `AI analysis based on ${sourceDocuments.length} relevant document sections across all clients`
-
-    console.log(`Generated RAG response with ${sourceDocuments.length} source documents`)
-
-    return new Response(
-      JSON.stringify({ 
-        results: sourceDocuments,
-        ai_response: aiResponse,
-        message: contextMessage
-      }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      },
-    )
-
-  } catch (error) {
-    console.error('Error in search-documents function:', error)
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
-      },
-    )
-  }
-})
-
-// Helper function to calculate cosine similarity
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) {
-    throw new Error('Vectors must have the same length')
-  }
-
-  let dotProduct = 0
-  let normA = 0
-  let normB = 0
-
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i]
-    normA += a[i] * a[i]
-    normB += b[i] * b[i]
+        chunk_id: chunkId(index),
+        citations,
+        relevant_span: citations[0]?.quote || null,
+        span_start: citations[0]?.span_start ?? null,
+        span_end: citations[0]?.span_end ?? null,
+        span_verified: citations[0]?.verified ?? null,
+        legal_metadata: citations[0]?.legal_metadata || null
+      }
+    })
+    // Exact keyword hits are kept even when their embedding similarity is low
+    .filter(result => result.retrievers.includes('keyword') || result.similarity > 0.2)
+    .sort((a, b) => b.rrf_score - a.rrf_score)
+    .slice(0, 6) // Top 6 sources
+    .map(result => {
+      const metadata = result.metadata || {};
+      return {
+        document_id: result.document_id,
+        document_title: result.document_title,
+        document_file_name: result.document_file_name,
+        content: result.content,
+        similarity: result.similarity,
+        chunk_id: result.chunk_id,
+        relevant_span: result.relevant_span,
+        span_start: result.span_start,
+        span_end: result.span_end,
+        span_verified: result.span_verified,
+        citations: result.citations,
+        legal_metadata: result.legal_metadata,
+        chunk_index: result.chunk_index,
+        page_number: result.page_number,
+        line_start: result.line_start,
+        line_end: result.line_end,
+        client: metadata.client,
+        matter: metadata.matter,
+        retrievers: result.retrievers,
+        rrf_score: result.rrf_score
+      };
+    });
+
+  const contextMessage = client_id 
+    ? `AI analysis based on ${sourceDocuments.length} relevant document sections from selected client`
+    : `AI analysis based on ${sourceDocuments.length} relevant document sections across all clients`
+
+  console.log(`Generated RAG response with ${sourceDocuments.length} source documents`)
+
+  return {
+    results: sourceDocuments,
+    ai_response: aiResponse,
+    standalone_query: standaloneQuery,
+    message: contextMessage
   }
-
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB))
 }
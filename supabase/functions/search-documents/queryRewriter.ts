@@ -0,0 +1,76 @@
+import { AIProvider, ChatMessage } from '../_shared/aiProvider.ts'
+
+// Earlier turns considered when rewriting and answering; older ones rarely matter for the follow-up
+const MAX_HISTORY_MESSAGES = 8
+
+// Long answers are cut so the history can't crowd out the document excerpts
+const MAX_HISTORY_MESSAGE_LENGTH = 1500
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+// Keep only well-formed, recent turns from the request body
+export function sanitizeHistory(history: unknown): ConversationTurn[] {
+  if (!Array.isArray(history)) return []
+
+  return history
+    .filter((turn): turn is ConversationTurn => {
+      const candidate = turn as Partial<ConversationTurn> | null
+      return !!candidate &&
+        (candidate.role === 'user' || candidate.role === 'assistant') &&
+        typeof candidate.content === 'string' && candidate.content.trim().length > 0
+    })
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map(turn => ({
+      role: turn.role,
+      content: turn.content.length > MAX_HISTORY_MESSAGE_LENGTH
+        ? `${turn.content.slice(0, MAX_HISTORY_MESSAGE_LENGTH)}...`
+        : turn.content
+    }))
+}
+
+// Rewrite a follow-up like "what about the second child?" into a query that retrieves on its own.
+// Retrieval only ever sees this one string, so references to earlier turns have to be spelled out.
+export async function condenseQuery(
+  aiProvider: AIProvider,
+  history: ConversationTurn[],
+  query: string
+): Promise<string> {
+  if (history.length === 0) return query
+
+  const transcript = history
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+    .join('\n')
+
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: `You rewrite follow-up questions about a client's legal documents into standalone search queries.
+
+Conversation so far:
+${transcript}
+
+Rewrite the user's next message so it can be understood without the conversation:
+- Replace pronouns and references ("he", "that contract", "the second child") with the names, documents or facts they refer to
+- Keep names, dates, amounts, case numbers and legal terms exactly as written
+- If the message is already standalone, return it unchanged
+- Reply with only the rewritten query, no explanation or quotes`
+    },
+    {
+      role: 'user',
+      content: query
+    }
+  ]
+
+  try {
+    const { content } = await aiProvider.chat(messages, { tier: 'fast', temperature: 0, maxTokens: 150 })
+    const rewritten = content.trim().replace(/^["']|["']$/g, '')
+    return rewritten || query
+  } catch (error) {
+    // Searching with the raw follow-up is worse but still better than failing the whole request
+    console.error('Query rewriting failed, searching with the original query:', error)
+    return query
+  }
+}
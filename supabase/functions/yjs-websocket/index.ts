@@ -1,12 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { joinRoom } from './room.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// WebSocket upgrade handler for YJS collaboration
+// Relay for Yjs collaboration: WebSocket clients (y-websocket's WebsocketProvider) join a room
+// per document; plain GET requests report who is currently editing
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -15,113 +17,65 @@ serve(async (req) => {
 
   // Handle WebSocket upgrade
   if (req.headers.get("upgrade") === "websocket") {
-    const { socket, response } = Deno.upgradeWebSocket(req)
-    
-    // Extract document ID from URL
+    // WebsocketProvider appends the room (document ID) to the URL; browsers cannot set headers on
+    // a WebSocket, so the access token travels as a query parameter
     const url = new URL(req.url)
-    const documentId = url.searchParams.get('documentId')
-    
-    if (!documentId) {
+    const documentId = url.searchParams.get('documentId') || url.pathname.split('/').pop()
+    const token = url.searchParams.get('token')
+
+    if (!documentId || documentId === 'yjs-websocket') {
       return new Response('Document ID required', { status: 400, headers: corsHeaders })
     }
+    if (!token) {
+      return new Response('Access token required', { status: 401, headers: corsHeaders })
+    }
 
-    // Initialize Supabase client
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: `Bearer ${token}` } } }
     )
 
-    let userId: string | null = null
-    
-    socket.onopen = () => {
-      console.log(`WebSocket opened for document: ${documentId}`)
+    const { data: { user } } = await supabaseClient.auth.getUser(token)
+    if (!user) {
+      return new Response('User not authenticated', { status: 401, headers: corsHeaders })
     }
 
-    socket.onmessage = async (event) => {
-      try {
-        const data = JSON.parse(event.data)
-        
-        // Handle authentication
-        if (data.type === 'auth') {
-          const { data: { user } } = await supabaseClient.auth.getUser(data.token)
-          userId = user?.id || null
-          
-          if (userId) {
-            // Update collaborative session
-            await supabaseClient
-              .from('collaborative_sessions')
-              .upsert({
-                document_id: documentId,
-                user_id: userId,
-                last_activity: new Date().toISOString(),
-                is_active: true
-              })
-          }
-          
-          socket.send(JSON.stringify({ type: 'auth_success', userId }))
-          return
-        }
-
-        // Handle YJS document updates
-        if (data.type === 'yjs_update') {
-          // Store document changes for audit trail
-          if (userId && data.update) {
-            await supabaseClient
-              .from('document_changes')
-              .insert({
-                document_id: documentId,
-                user_id: userId,
-                change_type: 'yjs_update',
-                timestamp: new Date().toISOString(),
-                metadata: { update: data.update }
-              })
-          }
-          
-          // Broadcast to other clients (this would be handled by a proper YJS WebSocket server)
-          console.log(`YJS update for document ${documentId}:`, data.update)
-        }
-
-        // Handle awareness updates (cursor positions, selections)
-        if (data.type === 'awareness_update') {
-          if (userId) {
-            await supabaseClient
-              .from('collaborative_sessions')
-              .update({
-                cursor_position: data.cursorPosition,
-                selection_start: data.selectionStart,
-                selection_end: data.selectionEnd,
-                last_activity: new Date().toISOString()
-              })
-              .eq('document_id', documentId)
-              .eq('user_id', userId)
-          }
-        }
-
-      } catch (error) {
-        console.error('WebSocket message error:', error)
-        socket.send(JSON.stringify({ type: 'error', message: error.message }))
-      }
+    const [{ data: canRead }, { data: canEdit }] = await Promise.all([
+      supabaseClient.rpc('user_has_document_access', { doc_id: documentId, user_id: user.id, required_permission: 'read' }),
+      supabaseClient.rpc('user_has_document_access', { doc_id: documentId, user_id: user.id, required_permission: 'edit' })
+    ])
+    if (!canRead) {
+      return new Response('No access to this document', { status: 403, headers: corsHeaders })
     }
 
-    socket.onclose = async () => {
-      console.log(`WebSocket closed for document: ${documentId}`)
-      
+    const { socket, response } = Deno.upgradeWebSocket(req)
+    joinRoom(socket, documentId, user.id, canEdit === true)
+
+    socket.addEventListener('open', async () => {
+      await supabaseClient
+        .from('collaborative_sessions')
+        .upsert({
+          document_id: documentId,
+          user_id: user.id,
+          session_start: new Date().toISOString(),
+          session_end: null,
+          last_activity: new Date().toISOString(),
+          is_active: true
+        }, { onConflict: 'document_id,user_id' })
+    })
+
+    socket.addEventListener('close', async () => {
       // Mark session as inactive
-      if (userId) {
-        await supabaseClient
-          .from('collaborative_sessions')
-          .update({
-            is_active: false,
-            session_end: new Date().toISOString()
-          })
-          .eq('document_id', documentId)
-          .eq('user_id', userId)
-      }
-    }
-
-    socket.onerror = (error) => {
-      console.error('WebSocket error:', error)
-    }
+      await supabaseClient
+        .from('collaborative_sessions')
+        .update({
+          is_active: false,
+          session_end: new Date().toISOString()
+        })
+        .eq('document_id', documentId)
+        .eq('user_id', user.id)
+    })
 
     return response
   }
@@ -0,0 +1,538 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { decode as decodeBase64, encode as encodeBase64 } from 'https://deno.land/std@0.168.0/encoding/base64.ts'
+import * as Y from 'https://esm.sh/yjs@13.6.27'
+import * as syncProtocol from 'https://esm.sh/y-protocols@1.0.6/sync?deps=yjs@13.6.27,lib0@0.2.109'
+import * as awarenessProtocol from 'https://esm.sh/y-protocols@1.0.6/awareness?deps=yjs@13.6.27,lib0@0.2.109'
+import * as encoding from 'https://esm.sh/lib0@0.2.109/encoding'
+import * as decoding from 'https://esm.sh/lib0@0.2.109/decoding'
+
+// Message types of the y-websocket protocol spoken by WebsocketProvider on the client
+const MESSAGE_SYNC = 0
+const MESSAGE_AWARENESS = 1
+
+// The shared text every client binds its editor to
+export const CONTENT_TEXT_NAME = 'content'
+
+// Merged state is written at most this often while people are typing, and always when the last one leaves
+const PERSIST_DEBOUNCE_MS = 2000
+
+// Seeding documents.content under a fixed client id means two relay instances seeding the same
+// document at once produce identical items, which Yjs merges instead of duplicating the text
+const SEED_CLIENT_ID = 0
+
+// Origin of changes that arrive from other relay instances or from storage, so they are not echoed back
+const REMOTE_ORIGIN = 'remote'
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+interface RoomConnection {
+  userId: string
+  canEdit: boolean
+  // Awareness client ids announced over this socket, dropped when it closes
+  awarenessClients: Set<number>
+}
+
+// Who may change the document right now; mirrors document_edit_blocked in the database
+interface RoomLock {
+  holderId: string | null
+  expiresAt: number | null
+  snapshotLocked: boolean
+}
+
+export interface Room {
+  documentId: string
+  doc: Y.Doc
+  awareness: awarenessProtocol.Awareness
+  connections: Map<WebSocket, RoomConnection>
+  channel: ReturnType<SupabaseClient['channel']>
+  persistTimer: number | null
+  // Set by an accepted edit or a content reset, cleared once the state is written back
+  dirty: boolean
+  // The content reset the room's text already reflects
+  resetAt: string | null
+  lock: RoomLock
+}
+
+// Rooms live per relay instance; instances serving the same document exchange updates over a
+// Realtime broadcast channel so everyone sees every edit regardless of where their socket landed
+const rooms = new Map<string, Promise<Room>>()
+
+// Persistence and the cross-instance channel outlive any single user's token, so they run with
+// the service role; each socket is checked against the user's own document access before joining
+const serviceClient = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+)
+
+interface CollaborativeState {
+  initialized?: boolean
+  update?: string
+  updated_at?: string
+  // Set by mark_collaborative_state_reset when content was written outside the relay
+  content_reset_at?: string
+}
+
+const decodeStoredState = (state: CollaborativeState | null): Uint8Array | null =>
+  state?.update ? decodeBase64(state.update) : null
+
+// A client id per reset, the same on every instance and never SEED_CLIENT_ID
+function resetClientId(resetAt: string): number {
+  let hash = 0
+  for (let i = 0; i < resetAt.length; i++) {
+    hash = (Math.imul(hash, 31) + resetAt.charCodeAt(i)) >>> 0
+  }
+  return hash || SEED_CLIENT_ID + 1
+}
+
+// Bring the shared text in line with content written outside the relay by replacing only the span
+// between the common prefix and suffix, so edits and comment anchors elsewhere in the text survive.
+// The change is made on a copy under the reset's own client id, so instances applying the same reset
+// to the same text produce identical items. Returns false when the reset is already part of the
+// document, or the text already reads the same (a plain save of what the editor shows).
+function applyContentReset(doc: Y.Doc, content: string, resetAt: string): boolean {
+  const clientId = resetClientId(resetAt)
+  const stateVector = Y.encodeStateVector(doc)
+  if (Y.decodeStateVector(stateVector).has(clientId)) return false
+
+  const current = doc.getText(CONTENT_TEXT_NAME).toString()
+  if (current === content) return false
+
+  let prefix = 0
+  while (prefix < current.length && prefix < content.length && current[prefix] === content[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (
+    suffix < current.length - prefix &&
+    suffix < content.length - prefix &&
+    current[current.length - 1 - suffix] === content[content.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const replacement = new Y.Doc()
+  replacement.clientID = clientId
+  Y.applyUpdate(replacement, Y.encodeStateAsUpdate(doc))
+  const text = replacement.getText(CONTENT_TEXT_NAME)
+  replacement.transact(() => {
+    text.delete(prefix, current.length - prefix - suffix)
+    text.insert(prefix, content.slice(prefix, content.length - suffix))
+  })
+
+  Y.applyUpdate(doc, Y.encodeStateAsUpdate(replacement, stateVector), REMOTE_ORIGIN)
+  replacement.destroy()
+  return true
+}
+
+function send(socket: WebSocket, message: Uint8Array) {
+  if (socket.readyState !== WebSocket.OPEN) return
+  try {
+    socket.send(message)
+  } catch (error) {
+    console.error('Error sending to collaborator socket:', error)
+  }
+}
+
+function broadcast(room: Room, message: Uint8Array, except?: unknown) {
+  room.connections.forEach((_, socket) => {
+    if (socket !== except) send(socket, message)
+  })
+}
+
+function encodeSyncUpdate(update: Uint8Array): Uint8Array {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MESSAGE_SYNC)
+  syncProtocol.writeUpdate(encoder, update)
+  return encoding.toUint8Array(encoder)
+}
+
+function encodeAwareness(awareness: awarenessProtocol.Awareness, clients: number[]): Uint8Array {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MESSAGE_AWARENESS)
+  encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, clients))
+  return encoding.toUint8Array(encoder)
+}
+
+async function loadLock(documentId: string): Promise<RoomLock> {
+  const [{ data: lock, error: lockError }, { count, error: snapshotError }] = await Promise.all([
+    serviceClient
+      .from('document_locks')
+      .select('user_id, expires_at')
+      .eq('document_id', documentId)
+      .eq('is_active', true)
+      .maybeSingle(),
+    serviceClient
+      .from('document_snapshots')
+      .select('id', { count: 'exact', head: true })
+      .eq('document_id', documentId)
+      .eq('is_locked', true)
+  ])
+
+  if (lockError || snapshotError) {
+    throw new Error(`Failed to load locks for ${documentId}: ${(lockError || snapshotError)?.message}`)
+  }
+
+  return {
+    holderId: lock?.user_id ?? null,
+    expiresAt: lock?.expires_at ? new Date(lock.expires_at).getTime() : null,
+    snapshotLocked: (count ?? 0) > 0
+  }
+}
+
+// Locks lapse at expires_at without any row changing, so expiry is checked here rather than on reload
+function canWrite(room: Room, connection: RoomConnection): boolean {
+  if (!connection.canEdit || room.lock.snapshotLocked) return false
+  const { holderId, expiresAt } = room.lock
+  return !holderId || holderId === connection.userId || (expiresAt !== null && expiresAt <= Date.now())
+}
+
+async function refreshLock(room: Room) {
+  try {
+    room.lock = await loadLock(room.documentId)
+  } catch (error) {
+    console.error(`Error refreshing locks for ${room.documentId}:`, error)
+  }
+}
+
+async function loadRoom(documentId: string): Promise<Room> {
+  const { data: document, error } = await serviceClient
+    .from('documents')
+    .select('content, collaborative_state')
+    .eq('id', documentId)
+    .single()
+
+  if (error || !document) {
+    throw new Error(`Failed to load document ${documentId}: ${error?.message || 'not found'}`)
+  }
+
+  const doc = new Y.Doc()
+  const state: CollaborativeState | null = document.collaborative_state
+  const stored = decodeStoredState(state)
+  const resetAt = state?.content_reset_at ?? null
+  let dirty = false
+  if (stored) {
+    Y.applyUpdate(doc, stored, REMOTE_ORIGIN)
+    if (resetAt) {
+      dirty = applyContentReset(doc, document.content || '', resetAt)
+    }
+  } else if (document.content) {
+    const seed = new Y.Doc()
+    seed.clientID = SEED_CLIENT_ID
+    seed.getText(CONTENT_TEXT_NAME).insert(0, document.content)
+    Y.applyUpdate(doc, Y.encodeStateAsUpdate(seed), REMOTE_ORIGIN)
+    seed.destroy()
+    console.log(`Seeded collaborative state for ${documentId} from document content`)
+  }
+
+  const awareness = new awarenessProtocol.Awareness(doc)
+  awareness.setLocalState(null)
+
+  // The cross-instance channel is private so only relay instances (service role) can publish
+  // document updates on it; browsers cannot bypass the access and lock checks made here
+  const room: Room = {
+    documentId,
+    doc,
+    awareness,
+    connections: new Map(),
+    channel: serviceClient.channel(`yjs-${documentId}`, { config: { broadcast: { self: false }, private: true } }),
+    persistTimer: null,
+    dirty,
+    // Applied above, or the text was seeded from content that already includes it
+    resetAt,
+    lock: await loadLock(documentId)
+  }
+
+  doc.on('update', (update: Uint8Array, origin: unknown) => {
+    broadcast(room, encodeSyncUpdate(update), origin)
+    if (origin !== REMOTE_ORIGIN) {
+      room.channel.send({ type: 'broadcast', event: 'update', payload: { update: encodeBase64(update) } })
+      room.dirty = true
+      schedulePersist(room)
+    }
+  })
+
+  awareness.on('update', ({ added, updated, removed }: { added: number[]; updated: number[]; removed: number[] }, origin: unknown) => {
+    const connection = room.connections.get(origin as WebSocket)
+    if (connection) {
+      added.forEach(clientId => connection.awarenessClients.add(clientId))
+      removed.forEach(clientId => connection.awarenessClients.delete(clientId))
+    }
+
+    const changed = [...added, ...updated, ...removed]
+    broadcast(room, encodeAwareness(awareness, changed))
+    if (origin !== REMOTE_ORIGIN) {
+      const update = awarenessProtocol.encodeAwarenessUpdate(awareness, changed)
+      room.channel.send({ type: 'broadcast', event: 'awareness', payload: { update: encodeBase64(update) } })
+    }
+  })
+
+  room.channel
+    .on('broadcast', { event: 'update' }, ({ payload }) => {
+      Y.applyUpdate(doc, decodeBase64(payload.update), REMOTE_ORIGIN)
+    })
+    .on('broadcast', { event: 'sync-request' }, ({ payload }) => {
+      // Another instance just joined the channel; send it whatever it lacks, edits not yet persisted included
+      const update = Y.encodeStateAsUpdate(doc, decodeBase64(payload.stateVector))
+      room.channel.send({ type: 'broadcast', event: 'update', payload: { update: encodeBase64(update) } })
+    })
+    .on('broadcast', { event: 'awareness' }, ({ payload }) => {
+      awarenessProtocol.applyAwarenessUpdate(awareness, decodeBase64(payload.update), REMOTE_ORIGIN)
+    })
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'document_locks', filter: `document_id=eq.${documentId}` }, () => {
+      refreshLock(room)
+    })
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'document_snapshots', filter: `document_id=eq.${documentId}` }, () => {
+      refreshLock(room)
+    })
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'documents', filter: `id=eq.${documentId}` }, ({ new: row }) => {
+      // persistRoom reads the new content and applies the reset, so connected editors see it too
+      const resetAt = (row.collaborative_state as CollaborativeState | null)?.content_reset_at
+      if (resetAt && resetAt !== room.resetAt) {
+        room.dirty = true
+        schedulePersist(room)
+      }
+    })
+
+
+  // Updates other instances broadcast before we joined the channel are only in their memory, or in
+  // storage if they persisted since we loaded, so once subscribed ask them and re-read the stored state
+  await new Promise<void>(resolve => {
+    room.channel.subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        room.channel.send({
+          type: 'broadcast',
+          event: 'sync-request',
+          payload: { stateVector: encodeBase64(Y.encodeStateVector(doc)) }
+        })
+      } else {
+        console.error(`Collaboration channel for ${documentId} is ${status}`)
+      }
+      resolve()
+    })
+  })
+  await mergeStoredState(room)
+
+  if (room.dirty) schedulePersist(room)
+
+  console.log(`Opened collaboration room for ${documentId}`)
+  return room
+}
+
+async function mergeStoredState(room: Room) {
+  const { data: document, error } = await serviceClient
+    .from('documents')
+    .select('collaborative_state')
+    .eq('id', room.documentId)
+    .single()
+
+  if (error) {
+    console.error(`Error re-reading stored state for ${room.documentId}:`, error)
+    return
+  }
+
+  const state: CollaborativeState | null = document?.collaborative_state
+  const stored = decodeStoredState(state)
+  if (stored) {
+    Y.applyUpdate(room.doc, stored, REMOTE_ORIGIN)
+  }
+  // A reset made before we subscribed raised no change event; persistRoom applies it
+  if (state?.content_reset_at && state.content_reset_at !== room.resetAt) {
+    room.dirty = true
+  }
+}
+
+function schedulePersist(room: Room) {
+  if (room.persistTimer !== null) return
+  room.persistTimer = setTimeout(() => {
+    room.persistTimer = null
+    persistRoom(room).catch(error => console.error(`Error persisting ${room.documentId}:`, error))
+  }, PERSIST_DEBOUNCE_MS)
+}
+
+// Merge whatever another instance stored since we loaded, then write the combined state back
+// together with its plain text, so documents.content stays current for search and ingestion.
+// Nothing is written until an edit has been accepted, so a room that was only viewed never
+// overwrites content saved elsewhere in the meantime.
+async function persistRoom(room: Room) {
+  if (!room.dirty) return
+
+  const { data: document, error: loadError } = await serviceClient
+    .from('documents')
+    .select('content, collaborative_state')
+    .eq('id', room.documentId)
+    .single()
+
+  if (loadError) {
+    throw new Error(`Failed to load stored state: ${loadError.message}`)
+  }
+
+  const state: CollaborativeState | null = document?.collaborative_state
+  const stored = decodeStoredState(state)
+  if (stored) {
+    Y.applyUpdate(room.doc, stored, REMOTE_ORIGIN)
+  }
+  if (state?.content_reset_at && state.content_reset_at !== room.resetAt) {
+    applyContentReset(room.doc, document.content || '', state.content_reset_at)
+    room.resetAt = state.content_reset_at
+  }
+
+  // Edits accepted while the write is in flight mark the room dirty again
+  room.dirty = false
+  const now = new Date().toISOString()
+  let save = serviceClient
+    .from('documents')
+    .update({
+      collaborative_state: {
+        initialized: true,
+        update: encodeBase64(Y.encodeStateAsUpdate(room.doc)),
+        updated_at: now
+      },
+      content: room.doc.getText(CONTENT_TEXT_NAME).toString(),
+      updated_at: now
+    })
+    .eq('id', room.documentId)
+
+  // Only write over the state we merged: content written outside the relay since then marks a new
+  // reset, and that has to be applied before this room's text may replace it
+  save = state?.content_reset_at
+    ? save.eq('collaborative_state->>content_reset_at', state.content_reset_at)
+    : save.is('collaborative_state->>content_reset_at', null)
+
+  const { data: saved, error: saveError } = await save.select('id')
+
+  if (saveError) {
+    room.dirty = true
+    throw new Error(`Failed to save collaborative state: ${saveError.message}`)
+  }
+
+  if (!saved || saved.length === 0) {
+    room.dirty = true
+    schedulePersist(room)
+    return
+  }
+
+  console.log(`Persisted collaborative state for ${room.documentId}`)
+}
+
+async function closeRoom(room: Room) {
+  if (room.persistTimer !== null) {
+    clearTimeout(room.persistTimer)
+    room.persistTimer = null
+  }
+
+  try {
+    await persistRoom(room)
+    // Still dirty if a reset landed while writing; the second pass merges it
+    if (room.dirty) await persistRoom(room)
+  } catch (error) {
+    console.error(`Error persisting ${room.documentId} on close:`, error)
+  }
+
+  // Someone may have joined while the final write was in flight
+  if (room.connections.size > 0) return
+
+  if (room.persistTimer !== null) {
+    clearTimeout(room.persistTimer)
+    room.persistTimer = null
+  }
+
+  rooms.delete(room.documentId)
+  await serviceClient.removeChannel(room.channel)
+  room.awareness.destroy()
+  room.doc.destroy()
+  console.log(`Closed collaboration room for ${room.documentId}`)
+}
+
+function handleMessage(room: Room, socket: WebSocket, connection: RoomConnection, message: Uint8Array) {
+  const decoder = decoding.createDecoder(message)
+  const encoder = encoding.createEncoder()
+  const messageType = decoding.readVarUint(decoder)
+
+  switch (messageType) {
+    case MESSAGE_SYNC: {
+      encoding.writeVarUint(encoder, MESSAGE_SYNC)
+      if (canWrite(room, connection)) {
+        syncProtocol.readSyncMessage(decoder, encoder, room.doc, socket)
+      } else if (decoding.readVarUint(decoder) === syncProtocol.messageYjsSyncStep1) {
+        // Read-only collaborators, and everyone but the holder while the document is locked,
+        // receive the document but their updates are dropped
+        syncProtocol.readSyncStep1(decoder, encoder, room.doc)
+      }
+      if (encoding.length(encoder) > 1) {
+        send(socket, encoding.toUint8Array(encoder))
+      }
+      break
+    }
+    case MESSAGE_AWARENESS:
+      awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), socket)
+      break
+    default:
+      console.log(`Ignoring unknown collaboration message type ${messageType}`)
+  }
+}
+
+/**
+ * Attach an authenticated socket to the document's room: sync it with the merged state, relay its
+ * updates to everyone else and persist them
+ */
+export function joinRoom(socket: WebSocket, documentId: string, userId: string, canEdit: boolean) {
+  socket.binaryType = 'arraybuffer'
+
+  if (!rooms.has(documentId)) {
+    const loading = loadRoom(documentId)
+    loading.catch(() => rooms.delete(documentId))
+    rooms.set(documentId, loading)
+  }
+  const roomPromise = rooms.get(documentId)!
+  const connection: RoomConnection = { userId, canEdit, awarenessClients: new Set() }
+
+  socket.onopen = async () => {
+    try {
+      const room = await roomPromise
+      room.connections.set(socket, connection)
+
+      // Ask for anything the client has that we lack (offline edits), then send our state
+      const encoder = encoding.createEncoder()
+      encoding.writeVarUint(encoder, MESSAGE_SYNC)
+      syncProtocol.writeSyncStep1(encoder, room.doc)
+      send(socket, encoding.toUint8Array(encoder))
+
+      const awarenessClients = Array.from(room.awareness.getStates().keys())
+      if (awarenessClients.length > 0) {
+        send(socket, encodeAwareness(room.awareness, awarenessClients))
+      }
+      console.log(`User ${userId} joined ${documentId} (${room.connections.size} connected)`)
+    } catch (error) {
+      console.error(`Error opening room for ${documentId}:`, error)
+      socket.close(1011, 'Failed to load document')
+    }
+  }
+
+  socket.onmessage = async (event) => {
+    if (!(event.data instanceof ArrayBuffer)) return
+    try {
+      const room = await roomPromise
+      handleMessage(room, socket, connection, new Uint8Array(event.data))
+    } catch (error) {
+      console.error(`Error handling collaboration message for ${documentId}:`, error)
+    }
+  }
+
+  socket.onclose = async () => {
+    try {
+      const room = await roomPromise
+      room.connections.delete(socket)
+      awarenessProtocol.removeAwarenessStates(room.awareness, Array.from(connection.awarenessClients), null)
+      console.log(`User ${userId} left ${documentId} (${room.connections.size} connected)`)
+      if (room.connections.size === 0) {
+        await closeRoom(room)
+      }
+    } catch (error) {
+      console.error(`Error closing collaboration socket for ${documentId}:`, error)
+    }
+  }
+
+  socket.onerror = (error) => {
+    console.error('WebSocket error:', error)
+  }
+}
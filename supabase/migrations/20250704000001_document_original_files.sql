@@ -0,0 +1,41 @@
+-- Original File Storage Schema
+-- Keep the uploaded file byte-for-byte alongside the extracted text
+
+-- Private bucket for original uploads, laid out as <user_id>/<document_key>/<file_name>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('document-originals', 'document-originals', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Add original file fields to documents table
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS storage_path TEXT; -- Object path inside document-originals
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS checksum_sha256 VARCHAR(64); -- Hex digest of the original bytes
+
+CREATE INDEX IF NOT EXISTS idx_documents_checksum ON documents(checksum_sha256);
+
+-- Storage policies: the first path segment is the uploading user's id
+CREATE POLICY "Users can upload their own original files" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'document-originals' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can read original files of accessible documents" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'document-originals' AND (
+      (storage.foldername(name))[1] = auth.uid()::text OR
+      EXISTS (
+        SELECT 1 FROM documents d
+        WHERE d.storage_path = storage.objects.name
+        AND user_has_document_access(d.id, auth.uid(), 'read')
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete their own original files" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'document-originals' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+COMMENT ON COLUMN documents.storage_path IS 'Path of the original uploaded file in the document-originals bucket';
+COMMENT ON COLUMN documents.checksum_sha256 IS 'SHA-256 of the original file, used to prove an exhibit is unaltered';
@@ -0,0 +1,9 @@
+-- Document Metadata Schema
+-- Format-specific metadata captured at ingestion (email headers, embedded titles)
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}';
+
+-- Lets us find all correspondence from or to a given address
+CREATE INDEX IF NOT EXISTS idx_documents_metadata ON documents USING GIN(metadata);
+
+COMMENT ON COLUMN documents.metadata IS 'Extraction metadata, e.g. {"format": "eml", "email": {"from": ..., "to": [...], "date": ...}}';
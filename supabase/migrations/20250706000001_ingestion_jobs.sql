@@ -0,0 +1,83 @@
+-- Ingestion Jobs Schema
+-- Background embedding of document chunks with progress tracking and resumable retries
+
+-- One job per uploaded document; the worker updates progress as batches are embedded
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  total_chunks INTEGER NOT NULL DEFAULT 0,
+  processed_chunks INTEGER NOT NULL DEFAULT 0,
+  failed_chunks INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0, -- Number of worker runs that picked up this job
+  last_error TEXT,
+  locked_until TIMESTAMP WITH TIME ZONE, -- Lease held by the running worker
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  metadata JSONB DEFAULT '{}'
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_document_id ON ingestion_jobs(document_id);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_user_status ON ingestion_jobs(user_id, status);
+
+-- Per-chunk progress: chunks are stored up front and embedded later, so a NULL embedding means pending
+ALTER TABLE document_embeddings ADD COLUMN IF NOT EXISTS embedding_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE document_embeddings ADD COLUMN IF NOT EXISTS embedding_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_document_embeddings_pending
+  ON document_embeddings(document_id, chunk_index)
+  WHERE embedding IS NULL;
+
+-- Take the worker lease on a job unless another run still holds it
+CREATE OR REPLACE FUNCTION claim_ingestion_job(job_id UUID, lease_seconds INTEGER DEFAULT 150)
+RETURNS BOOLEAN AS $$
+DECLARE
+  claimed_id UUID;
+BEGIN
+  UPDATE ingestion_jobs
+  SET status = 'processing',
+      attempts = attempts + 1,
+      locked_until = NOW() + make_interval(secs => lease_seconds),
+      updated_at = NOW()
+  WHERE id = job_id
+  AND status <> 'completed'
+  AND (locked_until IS NULL OR locked_until < NOW())
+  RETURNING id INTO claimed_id;
+
+  RETURN claimed_id IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row Level Security (RLS) Policies
+ALTER TABLE ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own ingestion jobs" ON ingestion_jobs
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create ingestion jobs for their documents" ON ingestion_jobs
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND document_id IN (
+      SELECT id FROM documents WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own ingestion jobs" ON ingestion_jobs
+  FOR UPDATE USING (user_id = auth.uid());
+
+-- The worker runs as the uploading user and fills in embeddings after the chunks are inserted
+CREATE POLICY "Users can update embeddings for their documents" ON document_embeddings
+  FOR UPDATE USING (
+    document_id IN (
+      SELECT id FROM documents WHERE user_id = auth.uid()
+    )
+  );
+
+-- Enable realtime so the upload dialog can show live progress
+ALTER publication supabase_realtime ADD TABLE ingestion_jobs;
+
+COMMENT ON TABLE ingestion_jobs IS 'Background embedding jobs; processed_chunks/failed_chunks track progress against total_chunks';
+COMMENT ON COLUMN document_embeddings.embedding_attempts IS 'Failed embedding attempts for this chunk; chunks past the retry limit are counted as failed on the job';
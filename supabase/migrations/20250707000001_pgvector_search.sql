@@ -0,0 +1,89 @@
+-- Vector Search Schema
+-- Move chunk embeddings from JSONB to pgvector and search them in Postgres with an HNSW index
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- Convert existing JSONB arrays in place; pgvector parses the '[x, y, ...]' text form directly
+ALTER TABLE document_embeddings ADD COLUMN IF NOT EXISTS embedding_vector extensions.vector(1536);
+
+UPDATE document_embeddings
+SET embedding_vector = (embedding::text)::extensions.vector
+WHERE embedding IS NOT NULL
+AND jsonb_typeof(embedding) = 'array';
+
+-- Dropping the JSONB column also drops the pending-chunk index built on it
+ALTER TABLE document_embeddings DROP COLUMN embedding;
+ALTER TABLE document_embeddings RENAME COLUMN embedding_vector TO embedding;
+
+CREATE INDEX IF NOT EXISTS idx_document_embeddings_pending
+  ON document_embeddings(document_id, chunk_index)
+  WHERE embedding IS NULL;
+
+-- Approximate nearest neighbour index for cosine distance
+CREATE INDEX IF NOT EXISTS idx_document_embeddings_embedding_hnsw
+  ON document_embeddings USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Nearest chunks to a query embedding across the caller's documents, with optional scoping.
+-- Runs as the caller so the usual RLS policies still decide which documents are visible.
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  query_embedding extensions.vector(1536),
+  match_count INTEGER DEFAULT 12,
+  filter_client_id UUID DEFAULT NULL,
+  filter_folder_id UUID DEFAULT NULL,
+  filter_matter TEXT DEFAULT NULL,
+  min_similarity FLOAT DEFAULT 0
+)
+RETURNS TABLE(
+  id UUID,
+  document_id UUID,
+  chunk_index INTEGER,
+  content TEXT,
+  page_number INTEGER,
+  line_start INTEGER,
+  line_end INTEGER,
+  metadata JSONB,
+  similarity FLOAT,
+  document_title TEXT,
+  document_file_name TEXT,
+  client_id UUID,
+  folder_id UUID
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.document_id,
+    e.chunk_index,
+    e.content,
+    e.page_number,
+    e.line_start,
+    e.line_end,
+    e.metadata,
+    (1 - (e.embedding OPERATOR(extensions.<=>) query_embedding))::FLOAT AS similarity,
+    d.title::TEXT,
+    d.file_name::TEXT,
+    d.client_id,
+    d.folder_id
+  FROM document_embeddings e
+  JOIN documents d ON d.id = e.document_id
+  LEFT JOIN clients c ON c.id = d.client_id
+  WHERE d.user_id = auth.uid()
+  AND e.embedding IS NOT NULL
+  AND (filter_client_id IS NULL OR d.client_id = filter_client_id)
+  AND (filter_folder_id IS NULL OR d.folder_id = filter_folder_id)
+  -- Matter comes from the chunk (parsed from the filename) or the client's matter type
+  AND (
+    filter_matter IS NULL
+    OR e.metadata->>'matter' ILIKE filter_matter
+    OR c.matter_type ILIKE filter_matter
+  )
+  AND 1 - (e.embedding OPERATOR(extensions.<=>) query_embedding) >= min_similarity
+  ORDER BY e.embedding OPERATOR(extensions.<=>) query_embedding
+  LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql STABLE
+-- Filters are applied after the index scan, so widen the candidate list to keep recall up
+SET hnsw.ef_search = 200;
+
+COMMENT ON COLUMN document_embeddings.embedding IS 'text-embedding-3-small vector; NULL while the chunk is waiting on the ingestion worker';
+COMMENT ON FUNCTION match_document_chunks IS 'Cosine similarity search over the caller''s chunks, optionally scoped to a client, folder or matter';
@@ -0,0 +1,126 @@
+-- Hybrid Search Schema
+-- Full-text keyword retrieval alongside vector search, merged with reciprocal rank fusion
+
+-- 'simple' keeps case numbers, statute citations and party names as written instead of stemming them
+ALTER TABLE document_embeddings
+  ADD COLUMN IF NOT EXISTS content_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('simple', content)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_document_embeddings_content_tsv
+  ON document_embeddings USING GIN(content_tsv);
+
+-- Questions arrive in natural language, so requiring every word would almost never match. Keep the
+-- salient terms (words the english dictionary does not discard as stopwords, plus numbers) and OR them;
+-- ts_rank_cd still ranks chunks that contain more of them higher.
+CREATE OR REPLACE FUNCTION keyword_search_query(query_text TEXT)
+RETURNS tsquery AS $$
+  SELECT to_tsquery('simple', string_agg(quote_literal(t.lexeme), ' | '))
+  FROM unnest(to_tsvector('simple', query_text)) t
+  WHERE (length(t.lexeme) > 1 OR t.lexeme ~ '^[0-9]+$')
+  AND to_tsvector('english', t.lexeme) <> ''::tsvector;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Runs keyword and vector retrieval separately and fuses the two rankings:
+-- score = sum over retrievers of 1 / (rrf_k + rank). Each row reports which retrievers found it.
+CREATE OR REPLACE FUNCTION hybrid_match_document_chunks(
+  query_text TEXT,
+  query_embedding extensions.vector(1536),
+  match_count INTEGER DEFAULT 12,
+  filter_client_id UUID DEFAULT NULL,
+  filter_folder_id UUID DEFAULT NULL,
+  filter_matter TEXT DEFAULT NULL,
+  rrf_k INTEGER DEFAULT 60
+)
+RETURNS TABLE(
+  id UUID,
+  document_id UUID,
+  chunk_index INTEGER,
+  content TEXT,
+  page_number INTEGER,
+  line_start INTEGER,
+  line_end INTEGER,
+  metadata JSONB,
+  similarity FLOAT,
+  document_title TEXT,
+  document_file_name TEXT,
+  client_id UUID,
+  folder_id UUID,
+  semantic_rank INTEGER,
+  keyword_rank INTEGER,
+  rrf_score FLOAT,
+  retrievers TEXT[]
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH semantic AS (
+    -- Reuse the vector RPC so this side still goes through the HNSW index
+    SELECT m.id, ROW_NUMBER() OVER (ORDER BY m.similarity DESC)::INTEGER AS rank
+    FROM match_document_chunks(
+      query_embedding,
+      match_count * 2,
+      filter_client_id,
+      filter_folder_id,
+      filter_matter
+    ) m
+  ),
+  keyword AS (
+    SELECT e.id, ROW_NUMBER() OVER (ORDER BY ts_rank_cd(e.content_tsv, keyword_search_query(query_text)) DESC)::INTEGER AS rank
+    FROM document_embeddings e
+    JOIN documents d ON d.id = e.document_id
+    LEFT JOIN clients c ON c.id = d.client_id
+    WHERE d.user_id = auth.uid()
+    AND e.content_tsv @@ keyword_search_query(query_text)
+    AND (filter_client_id IS NULL OR d.client_id = filter_client_id)
+    AND (filter_folder_id IS NULL OR d.folder_id = filter_folder_id)
+    AND (
+      filter_matter IS NULL
+      OR e.metadata->>'matter' ILIKE filter_matter
+      OR c.matter_type ILIKE filter_matter
+    )
+    ORDER BY ts_rank_cd(e.content_tsv, keyword_search_query(query_text)) DESC
+    LIMIT match_count * 2
+  ),
+  fused AS (
+    SELECT
+      COALESCE(sem.id, kw.id) AS chunk_id,
+      sem.rank AS sem_rank,
+      kw.rank AS kw_rank,
+      COALESCE(1.0 / (rrf_k + sem.rank), 0) + COALESCE(1.0 / (rrf_k + kw.rank), 0) AS score
+    FROM semantic sem
+    FULL OUTER JOIN keyword kw ON kw.id = sem.id
+  )
+  SELECT
+    e.id,
+    e.document_id,
+    e.chunk_index,
+    e.content,
+    e.page_number,
+    e.line_start,
+    e.line_end,
+    e.metadata,
+    -- Keyword-only hits may still be waiting on their embedding
+    CASE WHEN e.embedding IS NULL THEN 0
+      ELSE (1 - (e.embedding OPERATOR(extensions.<=>) query_embedding))::FLOAT
+    END,
+    d.title::TEXT,
+    d.file_name::TEXT,
+    d.client_id,
+    d.folder_id,
+    f.sem_rank,
+    f.kw_rank,
+    f.score::FLOAT,
+    ARRAY_REMOVE(ARRAY[
+      CASE WHEN f.sem_rank IS NOT NULL THEN 'semantic' END,
+      CASE WHEN f.kw_rank IS NOT NULL THEN 'keyword' END
+    ], NULL)
+  FROM fused f
+  JOIN document_embeddings e ON e.id = f.chunk_id
+  JOIN documents d ON d.id = e.document_id
+  ORDER BY f.score DESC
+  LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON COLUMN document_embeddings.content_tsv IS 'Full-text index of the chunk for exact-term retrieval';
+COMMENT ON FUNCTION keyword_search_query IS 'OR of the salient terms of a natural-language question, for the keyword retriever';
+COMMENT ON FUNCTION hybrid_match_document_chunks IS 'Keyword + vector chunk search fused with reciprocal rank fusion; retrievers lists which side found each chunk';
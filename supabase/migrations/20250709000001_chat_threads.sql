@@ -0,0 +1,132 @@
+-- Chat Threads Schema
+-- Persist research conversations per client so they survive reloads and can be searched later
+
+-- One thread per conversation; the title is taken from the first question
+CREATE TABLE IF NOT EXISTS chat_threads (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT 'New conversation',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_message_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Questions and answers, with the sources shown for each answer so a reopened thread looks the same
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  thread_id UUID NOT NULL REFERENCES chat_threads(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  query TEXT, -- Question an assistant message answers
+  sources JSONB DEFAULT '[]',
+  document_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  content_tsv tsvector GENERATED ALWAYS AS (to_tsvector('simple', content)) STORED
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_threads_user_client ON chat_threads(user_id, client_id, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_thread_id ON chat_messages(thread_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_content_tsv ON chat_messages USING GIN(content_tsv);
+
+-- Keep the thread list ordered by activity
+CREATE OR REPLACE FUNCTION touch_chat_thread()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE chat_threads
+  SET last_message_at = NEW.created_at,
+      updated_at = NOW()
+  WHERE id = NEW.thread_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER touch_chat_thread_on_message
+  AFTER INSERT ON chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_chat_thread();
+
+-- Threads whose title or messages match the query, newest first, with a highlighted snippet of the
+-- best matching message. Runs as the caller so RLS limits results to their own threads.
+CREATE OR REPLACE FUNCTION search_chat_threads(
+  search_query TEXT,
+  filter_client_id UUID DEFAULT NULL,
+  match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE(
+  id UUID,
+  client_id UUID,
+  title TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  snippet TEXT,
+  rank FLOAT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH matches AS (
+    SELECT DISTINCT ON (m.thread_id)
+      m.thread_id,
+      ts_headline('simple', m.content, websearch_to_tsquery('simple', search_query),
+        'MaxWords=25, MinWords=10, StartSel=**, StopSel=**') AS snippet,
+      ts_rank_cd(m.content_tsv, websearch_to_tsquery('simple', search_query)) AS rank
+    FROM chat_messages m
+    WHERE m.user_id = auth.uid()
+    AND m.content_tsv @@ websearch_to_tsquery('simple', search_query)
+    ORDER BY m.thread_id, ts_rank_cd(m.content_tsv, websearch_to_tsquery('simple', search_query)) DESC
+  )
+  SELECT
+    t.id,
+    t.client_id,
+    t.title,
+    t.created_at,
+    t.last_message_at,
+    mt.snippet,
+    COALESCE(mt.rank, 0)::FLOAT
+  FROM chat_threads t
+  LEFT JOIN matches mt ON mt.thread_id = t.id
+  WHERE t.user_id = auth.uid()
+  AND (filter_client_id IS NULL OR t.client_id = filter_client_id)
+  -- Plain substring match on the title, so % and _ in the query are not wildcards
+  AND (mt.thread_id IS NOT NULL OR position(lower(search_query) IN lower(t.title)) > 0)
+  ORDER BY t.last_message_at DESC
+  LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Row Level Security (RLS) Policies
+ALTER TABLE chat_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own chat threads" ON chat_threads
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create chat threads for their clients" ON chat_threads
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND client_id IN (
+      SELECT id FROM clients WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own chat threads" ON chat_threads
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own chat threads" ON chat_threads
+  FOR DELETE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view their own chat messages" ON chat_messages
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can add messages to their own threads" ON chat_messages
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND thread_id IN (
+      SELECT id FROM chat_threads WHERE user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE chat_threads IS 'Saved document chat conversations, one list per client';
+COMMENT ON TABLE chat_messages IS 'Messages in a chat thread; assistant messages keep the query they answer and the sources shown';
+COMMENT ON FUNCTION search_chat_threads IS 'Full-text search over a user''s chat threads, optionally scoped to a client';
@@ -0,0 +1,71 @@
+-- Case Briefs Schema
+-- Structured overview of a client's file (or one folder of it), built by map-reduce summarization
+
+-- One brief per client and per folder; folder_id NULL covers every document of the client.
+-- The worker fills document_summaries (map step) first, then reduces them into brief.
+CREATE TABLE IF NOT EXISTS case_briefs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  folder_id UUID REFERENCES folders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  brief JSONB, -- Parties, key dates, claims, obligations and open issues, each citing source documents
+  document_summaries JSONB NOT NULL DEFAULT '{}', -- Facts per document id, reused on refresh while the document is unchanged
+  reduce_state JSONB, -- Checkpoint of an unfinished reduce step, resumed by the next worker run
+  total_documents INTEGER NOT NULL DEFAULT 0,
+  processed_documents INTEGER NOT NULL DEFAULT 0,
+  model TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  locked_until TIMESTAMP WITH TIME ZONE, -- Lease held by the running worker
+  generated_at TIMESTAMP WITH TIME ZONE, -- When brief was last rebuilt
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_case_briefs_scope
+  ON case_briefs(client_id, COALESCE(folder_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+-- Take the worker lease on a brief unless another run still holds it
+CREATE OR REPLACE FUNCTION claim_case_brief(brief_id UUID, lease_seconds INTEGER DEFAULT 150)
+RETURNS BOOLEAN AS $$
+DECLARE
+  claimed_id UUID;
+BEGIN
+  UPDATE case_briefs
+  SET status = 'processing',
+      attempts = attempts + 1,
+      last_error = NULL,
+      locked_until = NOW() + make_interval(secs => lease_seconds),
+      updated_at = NOW()
+  WHERE id = brief_id
+  AND (locked_until IS NULL OR locked_until < NOW())
+  RETURNING id INTO claimed_id;
+
+  RETURN claimed_id IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row Level Security (RLS) Policies
+ALTER TABLE case_briefs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own case briefs" ON case_briefs
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create case briefs for their clients" ON case_briefs
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND client_id IN (
+      SELECT id FROM clients WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own case briefs" ON case_briefs
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own case briefs" ON case_briefs
+  FOR DELETE USING (user_id = auth.uid());
+
+COMMENT ON TABLE case_briefs IS 'Generated case briefs per client or folder, with the per-document summaries they were reduced from';
+COMMENT ON FUNCTION claim_case_brief IS 'Lease a case brief to a generate-case-brief worker run; false if another run holds it';
@@ -0,0 +1,57 @@
+-- Timeline Events Schema
+-- Dated events extracted from every chunk at ingestion, for building a client's chronology
+
+-- Set once the ingestion worker has looked for dated events in the chunk, whether or not it found any.
+-- A failed extraction leaves it NULL and counts an attempt, so the chunk is retried a bounded number of times.
+ALTER TABLE document_embeddings ADD COLUMN IF NOT EXISTS events_extracted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE document_embeddings ADD COLUMN IF NOT EXISTS events_extraction_attempts INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_document_embeddings_events_pending
+  ON document_embeddings(document_id, chunk_index)
+  WHERE events_extracted_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS timeline_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  chunk_id UUID REFERENCES document_embeddings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  event_date DATE, -- NULL when the text names a date that can't be pinned to a calendar day, month or year
+  date_precision VARCHAR(10) NOT NULL DEFAULT 'day'
+    CHECK (date_precision IN ('day', 'month', 'year')),
+  date_text TEXT NOT NULL, -- The date as written in the document
+  description TEXT NOT NULL,
+  quote TEXT, -- Supporting text copied from the chunk, used to highlight the source
+  page_number INTEGER,
+  merged_into UUID REFERENCES timeline_events(id) ON DELETE SET NULL, -- Duplicate folded into another event, which lists it as an extra source
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_timeline_events_client_date ON timeline_events(client_id, event_date);
+CREATE INDEX IF NOT EXISTS idx_timeline_events_document_id ON timeline_events(document_id);
+CREATE INDEX IF NOT EXISTS idx_timeline_events_merged_into ON timeline_events(merged_into);
+
+-- Row Level Security (RLS) Policies
+ALTER TABLE timeline_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own timeline events" ON timeline_events
+  FOR SELECT USING (user_id = auth.uid());
+
+-- The ingestion worker runs as the uploading user
+CREATE POLICY "Users can add timeline events for their documents" ON timeline_events
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND document_id IN (
+      SELECT id FROM documents WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own timeline events" ON timeline_events
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own timeline events" ON timeline_events
+  FOR DELETE USING (user_id = auth.uid());
+
+COMMENT ON TABLE timeline_events IS 'Dated events found in document chunks; merged_into groups duplicates under one event';
+COMMENT ON COLUMN document_embeddings.events_extracted_at IS 'When the ingestion worker extracted timeline events from this chunk; NULL means still pending';
@@ -0,0 +1,85 @@
+-- Document Entities Schema
+-- Named entity index filled at ingestion: people, organizations, courts, amounts, case numbers and statutes
+
+-- Set once the ingestion worker has extracted entities from the chunk, whether or not it found any.
+-- Failed extractions count attempts instead, like events_extraction_attempts.
+ALTER TABLE document_embeddings ADD COLUMN IF NOT EXISTS entities_extracted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE document_embeddings ADD COLUMN IF NOT EXISTS entities_extraction_attempts INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_document_embeddings_entities_pending
+  ON document_embeddings(document_id, chunk_index)
+  WHERE entities_extracted_at IS NULL;
+
+-- One row per mention; mentions of the same entity share entity_type and normalized_key
+CREATE TABLE IF NOT EXISTS document_entities (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  chunk_id UUID REFERENCES document_embeddings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  entity_type VARCHAR(20) NOT NULL
+    CHECK (entity_type IN ('person', 'organization', 'court', 'amount', 'case_number', 'statute')),
+  text TEXT NOT NULL, -- The mention as written
+  normalized_value TEXT NOT NULL, -- Canonical form, e.g. the full name behind "Mr. Smith"
+  normalized_key TEXT GENERATED ALWAYS AS (lower(normalized_value)) STORED,
+  role TEXT, -- Role in the matter when the text states it, e.g. plaintiff, counsel for defendant
+  start_offset INTEGER NOT NULL, -- Offsets into the chunk content
+  end_offset INTEGER NOT NULL,
+  context TEXT, -- Surrounding text shown in the entity browser
+  page_number INTEGER,
+  line_number INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_entities_client_entity
+  ON document_entities(client_id, entity_type, normalized_key);
+CREATE INDEX IF NOT EXISTS idx_document_entities_document_id ON document_entities(document_id);
+
+-- Every distinct entity of a client with how often and where it is mentioned
+CREATE OR REPLACE FUNCTION get_client_entities(target_client_id UUID)
+RETURNS TABLE (
+  entity_type VARCHAR(20),
+  normalized_key TEXT,
+  display_name TEXT,
+  roles TEXT[],
+  mention_count BIGINT,
+  document_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    e.entity_type,
+    e.normalized_key,
+    mode() WITHIN GROUP (ORDER BY e.normalized_value) AS display_name,
+    COALESCE(array_agg(DISTINCT e.role) FILTER (WHERE e.role IS NOT NULL), '{}') AS roles,
+    COUNT(*) AS mention_count,
+    COUNT(DISTINCT e.document_id) AS document_count
+  FROM document_entities e
+  WHERE e.client_id = target_client_id
+  GROUP BY e.entity_type, e.normalized_key
+  ORDER BY mention_count DESC, display_name;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Row Level Security (RLS) Policies
+ALTER TABLE document_entities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document entities" ON document_entities
+  FOR SELECT USING (user_id = auth.uid());
+
+-- The ingestion worker runs as the uploading user
+CREATE POLICY "Users can add entities for their documents" ON document_entities
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND document_id IN (
+      SELECT id FROM documents WHERE user_id = auth.uid()
+    )
+  );
+
+-- Lets the worker replace a chunk's entities when it extracts the chunk again
+CREATE POLICY "Users can delete their own document entities" ON document_entities
+  FOR DELETE USING (user_id = auth.uid());
+
+COMMENT ON TABLE document_entities IS 'Named entity mentions per document chunk, grouped by entity_type and normalized_key';
+COMMENT ON COLUMN document_embeddings.entities_extracted_at IS 'When the ingestion worker extracted entities from this chunk; NULL means still pending';
+COMMENT ON FUNCTION get_client_entities IS 'Distinct entities across a client''s documents with mention and document counts';
@@ -0,0 +1,115 @@
+-- Document Clauses Schema
+-- Contracts and settlement agreements split into classified clauses, searchable as a clause library
+
+-- Set once the ingestion worker has split and classified the document, including documents that turn out not to be contracts
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS clauses_extracted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS document_clauses (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  clause_index INTEGER NOT NULL, -- Position within the document
+  clause_type VARCHAR(40) NOT NULL DEFAULT 'other'
+    CHECK (clause_type IN (
+      'definitions', 'payment', 'term', 'termination', 'confidentiality', 'indemnification',
+      'limitation_of_liability', 'warranties', 'governing_law', 'dispute_resolution', 'non_compete',
+      'non_solicitation', 'assignment', 'force_majeure', 'notices', 'release', 'severability',
+      'entire_agreement', 'amendment', 'other'
+    )),
+  heading TEXT NOT NULL, -- First line of the clause as written, e.g. "12. Governing Law"
+  title TEXT, -- Short descriptive title from the classifier
+  text TEXT NOT NULL,
+  start_offset INTEGER NOT NULL, -- Offsets into documents.content
+  end_offset INTEGER NOT NULL,
+  page_number INTEGER,
+  text_tsv tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', heading || ' ' || COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('simple', text), 'B')
+  ) STORED,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(document_id, clause_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_clauses_user_type ON document_clauses(user_id, clause_type);
+CREATE INDEX IF NOT EXISTS idx_document_clauses_client_id ON document_clauses(client_id);
+CREATE INDEX IF NOT EXISTS idx_document_clauses_text_tsv ON document_clauses USING GIN(text_tsv);
+
+-- Clause library search across all of a user's clients. With no search text every clause of the
+-- requested type is listed, most recent documents first.
+CREATE OR REPLACE FUNCTION search_clauses(
+  search_query TEXT DEFAULT NULL,
+  filter_clause_type TEXT DEFAULT NULL,
+  filter_client_id UUID DEFAULT NULL,
+  match_count INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+  id UUID,
+  document_id UUID,
+  client_id UUID,
+  clause_index INTEGER,
+  clause_type VARCHAR(40),
+  heading TEXT,
+  title TEXT,
+  text TEXT,
+  page_number INTEGER,
+  document_file_name TEXT,
+  client_name TEXT,
+  snippet TEXT,
+  rank FLOAT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.document_id,
+    c.client_id,
+    c.clause_index,
+    c.clause_type,
+    c.heading,
+    c.title,
+    c.text,
+    c.page_number,
+    d.file_name::TEXT,
+    cl.name::TEXT,
+    CASE WHEN COALESCE(search_query, '') = '' THEN NULL
+      ELSE ts_headline('simple', c.text, websearch_to_tsquery('simple', search_query),
+        'MaxWords=35, MinWords=15, StartSel=**, StopSel=**')
+    END,
+    CASE WHEN COALESCE(search_query, '') = '' THEN 0
+      ELSE ts_rank_cd(c.text_tsv, websearch_to_tsquery('simple', search_query))
+    END::FLOAT AS rank
+  FROM document_clauses c
+  JOIN documents d ON d.id = c.document_id
+  LEFT JOIN clients cl ON cl.id = c.client_id
+  WHERE c.user_id = auth.uid()
+  AND (filter_clause_type IS NULL OR c.clause_type = filter_clause_type)
+  AND (filter_client_id IS NULL OR c.client_id = filter_client_id)
+  AND (COALESCE(search_query, '') = '' OR c.text_tsv @@ websearch_to_tsquery('simple', search_query))
+  ORDER BY rank DESC, d.created_at DESC, c.clause_index
+  LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Row Level Security (RLS) Policies
+ALTER TABLE document_clauses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document clauses" ON document_clauses
+  FOR SELECT USING (user_id = auth.uid());
+
+-- The ingestion worker runs as the uploading user
+CREATE POLICY "Users can add clauses for their documents" ON document_clauses
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND document_id IN (
+      SELECT id FROM documents WHERE user_id = auth.uid()
+    )
+  );
+
+-- Lets a user correct a misclassified clause
+CREATE POLICY "Users can update their own document clauses" ON document_clauses
+  FOR UPDATE USING (user_id = auth.uid());
+
+COMMENT ON TABLE document_clauses IS 'Top-level clauses of contracts and settlement agreements with their classified type';
+COMMENT ON COLUMN documents.clauses_extracted_at IS 'When the ingestion worker split the document into clauses; NULL means still pending';
+COMMENT ON FUNCTION search_clauses IS 'Clause library search across a user''s documents, optionally by clause type and client';
@@ -0,0 +1,26 @@
+-- Collaborative Presence Schema
+-- One session row per user and document holding their last cursor and selection
+
+-- Keep one row of any duplicates, the most recent, so the unique constraint can be added.
+-- Ties and missing last_activity values are broken by id so exactly one row survives.
+DELETE FROM collaborative_sessions
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, ROW_NUMBER() OVER (
+      PARTITION BY document_id, user_id
+      ORDER BY last_activity DESC NULLS LAST, id
+    ) AS row_number
+    FROM collaborative_sessions
+  ) ranked
+  WHERE ranked.row_number > 1
+);
+
+ALTER TABLE collaborative_sessions
+  ADD CONSTRAINT collaborative_sessions_document_user_key UNIQUE (document_id, user_id);
+
+CREATE INDEX IF NOT EXISTS idx_collaborative_sessions_document_active
+  ON collaborative_sessions(document_id, is_active, last_activity);
+
+COMMENT ON COLUMN collaborative_sessions.cursor_position IS 'Character offset of the caret in the document text';
+COMMENT ON COLUMN collaborative_sessions.selection_start IS 'Character offset where the selection starts; equal to selection_end when nothing is selected';
+COMMENT ON COLUMN collaborative_sessions.user_color IS 'Hex color the user''s caret and selection are drawn in';
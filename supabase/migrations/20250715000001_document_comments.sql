@@ -0,0 +1,227 @@
+-- Document Comments Schema
+-- Inline comment threads anchored to a range of the document text, with replies, @mentions and resolve/reopen
+
+CREATE TABLE IF NOT EXISTS document_comments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  thread_id UUID REFERENCES document_comments(id) ON DELETE CASCADE, -- NULL on the comment that starts a thread
+  author_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id),
+  author_name TEXT NOT NULL,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  mentioned_user_ids UUID[] NOT NULL DEFAULT '{}',
+  -- Thread anchor, set on the first comment only: Yjs relative positions ({"start": [...], "end": [...]})
+  -- that follow the commented text through later edits, plus the text and offset as they were for fallback
+  anchor JSONB,
+  quoted_text TEXT,
+  anchor_offset INTEGER,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CHECK (thread_id IS NOT NULL OR anchor IS NOT NULL)
+);
+
+CREATE INDEX idx_document_comments_document_id ON document_comments(document_id, created_at);
+CREATE INDEX idx_document_comments_thread_id ON document_comments(thread_id);
+CREATE INDEX idx_document_comments_mentions ON document_comments USING GIN (mentioned_user_ids);
+
+-- People who can be @mentioned on a document: the owner and everyone it is actively shared with
+CREATE OR REPLACE FUNCTION get_document_collaborators(doc_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  name TEXT,
+  permission_level TEXT
+) AS $$
+BEGIN
+  IF NOT user_has_document_access(doc_id, auth.uid(), 'read') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.id AS user_id,
+    u.email::TEXT AS email,
+    COALESCE(u.raw_user_meta_data->>'name', split_part(u.email, '@', 1))::TEXT AS name,
+    access.permission_level::TEXT AS permission_level
+  FROM (
+    SELECT d.user_id, 'admin' AS permission_level FROM documents d WHERE d.id = doc_id
+    UNION
+    SELECT s.shared_with, s.permission_level FROM document_shares s
+    WHERE s.document_id = doc_id
+    AND s.is_active = true
+    AND (s.expires_at IS NULL OR s.expires_at > NOW())
+  ) access
+  JOIN auth.users u ON u.id = access.user_id
+  ORDER BY 3;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Signed-in users opening a share link get a share of the link's level, so the same access checks
+-- (comments, the collaboration relay) apply to them as to people shared with directly. The share expires
+-- with the link, an existing higher share is kept, a revoked share stays revoked while one that lapsed
+-- with an earlier link is restored, and only first-time redemptions count against max_uses.
+CREATE OR REPLACE FUNCTION redeem_document_share_link(link_token TEXT)
+RETURNS TABLE (
+  document_id UUID,
+  permission_level TEXT
+) AS $$
+DECLARE
+  link document_share_links%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to redeem a share link';
+  END IF;
+
+  SELECT * INTO link FROM document_share_links l
+  WHERE l.share_token = link_token
+  AND l.is_active = true
+  AND (l.expires_at IS NULL OR l.expires_at > NOW());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid or expired share link';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM document_shares s
+    WHERE s.document_id = link.document_id AND s.shared_with = auth.uid() AND s.is_active = false
+    AND NOT COALESCE((s.metadata->>'link_deactivated')::BOOLEAN, false)
+  ) THEN
+    RAISE EXCEPTION 'Your access to this document has been revoked';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM documents d WHERE d.id = link.document_id AND d.user_id = auth.uid())
+    AND NOT EXISTS (
+      SELECT 1 FROM document_shares s
+      WHERE s.document_id = link.document_id AND s.shared_with = auth.uid() AND s.is_active = true
+    ) THEN
+    IF link.max_uses IS NOT NULL AND link.used_count >= link.max_uses THEN
+      RAISE EXCEPTION 'Share link usage limit exceeded';
+    END IF;
+    UPDATE document_share_links SET used_count = used_count + 1 WHERE id = link.id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM documents d WHERE d.id = link.document_id AND d.user_id = auth.uid()) THEN
+    -- The existing share is active or ended with its link here; it is replaced by the link's only when it
+    -- has ended, expired or grants less
+    INSERT INTO document_shares AS existing (document_id, shared_by, shared_with, permission_level, expires_at, metadata)
+    VALUES (link.document_id, link.created_by, auth.uid(), link.permission_level, link.expires_at, jsonb_build_object('share_link_id', link.id))
+    ON CONFLICT ON CONSTRAINT document_shares_document_id_shared_with_key DO UPDATE
+    SET permission_level = EXCLUDED.permission_level,
+      shared_by = EXCLUDED.shared_by,
+      expires_at = EXCLUDED.expires_at,
+      is_active = true,
+      metadata = (COALESCE(existing.metadata, '{}') - 'link_deactivated') || EXCLUDED.metadata
+    WHERE NOT existing.is_active
+      OR existing.expires_at <= NOW()
+      OR CASE existing.permission_level WHEN 'admin' THEN 4 WHEN 'edit' THEN 3 WHEN 'comment' THEN 2 ELSE 1 END
+        < CASE EXCLUDED.permission_level WHEN 'edit' THEN 3 WHEN 'comment' THEN 2 ELSE 1 END;
+  END IF;
+
+  RETURN QUERY SELECT link.document_id, get_user_document_permission(link.document_id, auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Shares handed out by a link end when the link is switched off. They are flagged so that, unlike a
+-- share the owner removed, redeeming another link for the document restores them
+CREATE OR REPLACE FUNCTION deactivate_share_link_shares()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.is_active AND NOT NEW.is_active THEN
+    UPDATE document_shares
+    SET is_active = false,
+      metadata = COALESCE(metadata, '{}') || jsonb_build_object('link_deactivated', true)
+    WHERE document_id = NEW.document_id
+    AND metadata->>'share_link_id' = NEW.id::TEXT
+    AND is_active = true;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER deactivate_share_link_shares_trigger
+  AFTER UPDATE OF is_active ON document_share_links
+  FOR EACH ROW EXECUTE FUNCTION deactivate_share_link_shares();
+
+-- The author's name comes from their account rather than the client, and a reply has to belong to a
+-- thread on the same document, since access is checked against the reply's own document_id
+CREATE OR REPLACE FUNCTION prepare_document_comment()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT COALESCE(u.raw_user_meta_data->>'name', split_part(u.email, '@', 1))
+  INTO NEW.author_name
+  FROM auth.users u
+  WHERE u.id = NEW.author_id;
+
+  IF NEW.thread_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM document_comments t
+    WHERE t.id = NEW.thread_id
+    AND t.thread_id IS NULL
+    AND t.document_id = NEW.document_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must belong to a thread on the same document';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER prepare_document_comment_trigger
+  BEFORE INSERT ON document_comments
+  FOR EACH ROW EXECUTE FUNCTION prepare_document_comment();
+
+-- Anyone who can comment may resolve or reopen a thread, but only the author may change what a comment
+-- says or what it is anchored to, and nobody may change who wrote it
+CREATE OR REPLACE FUNCTION protect_document_comment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.body IS DISTINCT FROM OLD.body
+    OR NEW.mentioned_user_ids IS DISTINCT FROM OLD.mentioned_user_ids
+    OR NEW.anchor IS DISTINCT FROM OLD.anchor
+    OR NEW.quoted_text IS DISTINCT FROM OLD.quoted_text
+    OR NEW.anchor_offset IS DISTINCT FROM OLD.anchor_offset)
+    AND OLD.author_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the author can edit a comment';
+  END IF;
+
+  NEW.document_id := OLD.document_id;
+  NEW.thread_id := OLD.thread_id;
+  NEW.author_id := OLD.author_id;
+  NEW.author_name := OLD.author_name;
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_document_comment_trigger
+  BEFORE UPDATE ON document_comments
+  FOR EACH ROW EXECUTE FUNCTION protect_document_comment();
+
+-- Row Level Security (RLS) Policies
+ALTER TABLE document_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view comments on documents they can read" ON document_comments
+  FOR SELECT USING (user_has_document_access(document_id, auth.uid(), 'read'));
+
+CREATE POLICY "Users can comment on documents they can comment on" ON document_comments
+  FOR INSERT WITH CHECK (
+    author_id = auth.uid()
+    AND user_has_document_access(document_id, auth.uid(), 'comment')
+  );
+
+CREATE POLICY "Users can update comments on documents they can comment on" ON document_comments
+  FOR UPDATE USING (user_has_document_access(document_id, auth.uid(), 'comment'));
+
+CREATE POLICY "Users can delete their own comments" ON document_comments
+  FOR DELETE USING (author_id = auth.uid());
+
+-- Enable realtime so open editors see new comments
+ALTER publication supabase_realtime ADD TABLE document_comments;
+
+COMMENT ON TABLE document_comments IS 'Inline comment threads on documents; replies point at the first comment through thread_id';
+COMMENT ON COLUMN document_comments.anchor IS 'Yjs relative positions of the commented range in the shared document text';
+COMMENT ON FUNCTION get_document_collaborators IS 'Owner and active share recipients of a document, for @mentions';
+COMMENT ON FUNCTION deactivate_share_link_shares IS 'Deactivates the shares a share link handed out when the link is deactivated';
+COMMENT ON FUNCTION prepare_document_comment IS 'Sets a new comment''s author_name from the author''s account and checks a reply''s thread is on the same document';
+COMMENT ON FUNCTION redeem_document_share_link IS 'Turns a share link into a document share for the signed-in user and returns the document and their permission';
@@ -0,0 +1,77 @@
+-- Document Suggestions Schema
+-- Tracked changes: edits proposed in suggestion mode, kept out of the content until the owner accepts them
+
+CREATE TABLE IF NOT EXISTS document_suggestions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id),
+  author_name TEXT NOT NULL,
+  change_type VARCHAR(50) NOT NULL CHECK (change_type IN ('insert', 'delete', 'replace')),
+  -- Yjs relative positions ({"start": [...], "end": [...]}) of the text being replaced; start = end for inserts
+  anchor JSONB NOT NULL,
+  anchor_offset INTEGER, -- Character position when suggested
+  old_content TEXT NOT NULL DEFAULT '', -- Text the suggestion removes
+  new_content TEXT NOT NULL DEFAULT '', -- Text the suggestion adds
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  resolved_by UUID REFERENCES auth.users(id),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  version_id UUID REFERENCES document_versions(id) ON DELETE SET NULL, -- Version the suggestion was accepted into
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CHECK (old_content <> '' OR new_content <> '')
+);
+
+CREATE INDEX idx_document_suggestions_document_id ON document_suggestions(document_id, status);
+CREATE INDEX idx_document_suggestions_version_id ON document_suggestions(version_id);
+
+-- A suggestion's change is fixed once made; reviewing only records the outcome
+CREATE OR REPLACE FUNCTION protect_document_suggestion()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status <> 'pending' THEN
+    RAISE EXCEPTION 'Suggestion has already been %', OLD.status;
+  END IF;
+
+  NEW.document_id := OLD.document_id;
+  NEW.author_id := OLD.author_id;
+  NEW.author_name := OLD.author_name;
+  NEW.change_type := OLD.change_type;
+  NEW.anchor := OLD.anchor;
+  NEW.anchor_offset := OLD.anchor_offset;
+  NEW.old_content := OLD.old_content;
+  NEW.new_content := OLD.new_content;
+  NEW.resolved_by := auth.uid();
+  NEW.resolved_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_document_suggestion_trigger
+  BEFORE UPDATE ON document_suggestions
+  FOR EACH ROW EXECUTE FUNCTION protect_document_suggestion();
+
+-- Row Level Security (RLS) Policies
+ALTER TABLE document_suggestions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view suggestions on documents they can read" ON document_suggestions
+  FOR SELECT USING (user_has_document_access(document_id, auth.uid(), 'read'));
+
+CREATE POLICY "Users can suggest changes to documents they can edit" ON document_suggestions
+  FOR INSERT WITH CHECK (
+    author_id = auth.uid()
+    AND status = 'pending'
+    AND user_has_document_access(document_id, auth.uid(), 'edit')
+  );
+
+CREATE POLICY "Document owners and admins can review suggestions" ON document_suggestions
+  FOR UPDATE USING (get_user_document_permission(document_id, auth.uid()) = 'admin');
+
+CREATE POLICY "Users can withdraw their pending suggestions" ON document_suggestions
+  FOR DELETE USING (author_id = auth.uid() AND status = 'pending');
+
+-- Enable realtime so open editors see suggestions as they are made and reviewed
+ALTER publication supabase_realtime ADD TABLE document_suggestions;
+
+COMMENT ON TABLE document_suggestions IS 'Tracked changes proposed in suggestion mode, pending until the document owner accepts or rejects them';
+COMMENT ON COLUMN document_suggestions.anchor IS 'Yjs relative positions of the suggested range in the shared document text';
+COMMENT ON COLUMN document_suggestions.version_id IS 'Document version created when the suggestion was accepted';
@@ -0,0 +1,177 @@
+-- Document Lock Enforcement Schema
+-- Exclusive editing locks and locked snapshots enforced in the database, with expiry and takeover
+
+-- Retire locks that have already lapsed, and all but the newest live lock per document. Ties and
+-- missing locked_at values are broken by id so exactly one lock per document stays active.
+UPDATE document_locks SET is_active = false
+WHERE is_active = true
+AND expires_at <= NOW();
+
+UPDATE document_locks SET is_active = false
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, ROW_NUMBER() OVER (
+      PARTITION BY document_id
+      ORDER BY locked_at DESC NULLS LAST, id
+    ) AS row_number
+    FROM document_locks
+    WHERE is_active = true
+  ) ranked
+  WHERE ranked.row_number > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_locks_one_active ON document_locks(document_id) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_document_snapshots_locked ON document_snapshots(document_id) WHERE is_locked = true;
+
+-- Whether someone else's unexpired lock, or a locked snapshot, keeps this user from changing the document
+CREATE OR REPLACE FUNCTION document_edit_blocked(doc_id UUID, user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM document_locks l
+    WHERE l.document_id = doc_id
+    AND l.is_active = true
+    AND (l.expires_at IS NULL OR l.expires_at > NOW())
+    AND l.user_id IS DISTINCT FROM document_edit_blocked.user_id
+  ) OR EXISTS (
+    SELECT 1 FROM document_snapshots s
+    WHERE s.document_id = doc_id
+    AND s.is_locked = true
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- The live lock on a document with who holds it
+CREATE OR REPLACE FUNCTION get_active_document_lock(doc_id UUID)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  holder_name TEXT,
+  holder_email TEXT,
+  lock_type TEXT,
+  locked_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  IF NOT user_has_document_access(doc_id, auth.uid(), 'read') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    l.id,
+    l.user_id,
+    COALESCE(u.raw_user_meta_data->>'name', split_part(u.email, '@', 1))::TEXT,
+    u.email::TEXT,
+    l.lock_type::TEXT,
+    l.locked_at,
+    l.expires_at
+  FROM document_locks l
+  LEFT JOIN auth.users u ON u.id = l.user_id
+  WHERE l.document_id = doc_id
+  AND l.is_active = true
+  AND (l.expires_at IS NULL OR l.expires_at > NOW());
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Take (or renew) the exclusive editing lock. Owners and admins may take over someone else's lock;
+-- everyone else waits for it to be released or to expire.
+CREATE OR REPLACE FUNCTION acquire_document_lock(doc_id UUID, duration_minutes INTEGER DEFAULT 120, take_over BOOLEAN DEFAULT false)
+RETURNS document_locks AS $$
+DECLARE
+  existing document_locks%ROWTYPE;
+  acquired document_locks%ROWTYPE;
+BEGIN
+  IF NOT user_has_document_access(doc_id, auth.uid(), 'edit') THEN
+    RAISE EXCEPTION 'You do not have edit access to this document';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM document_snapshots s WHERE s.document_id = doc_id AND s.is_locked = true) THEN
+    RAISE EXCEPTION 'Document is read-only while a snapshot is locked';
+  END IF;
+
+  -- Expired locks lapse here so their slot is free
+  UPDATE document_locks l SET is_active = false
+  WHERE l.document_id = doc_id AND l.is_active = true AND l.expires_at <= NOW();
+
+  SELECT * INTO existing FROM document_locks l
+  WHERE l.document_id = doc_id AND l.is_active = true
+  FOR UPDATE;
+
+  IF existing.id IS NOT NULL AND existing.user_id = auth.uid() THEN
+    UPDATE document_locks l SET expires_at = NOW() + make_interval(mins => duration_minutes)
+    WHERE l.id = existing.id
+    RETURNING * INTO acquired;
+    RETURN acquired;
+  END IF;
+
+  IF existing.id IS NOT NULL THEN
+    IF NOT take_over OR get_user_document_permission(doc_id, auth.uid()) <> 'admin' THEN
+      RAISE EXCEPTION 'Document is locked by %',
+        COALESCE((SELECT u.email FROM auth.users u WHERE u.id = existing.user_id), 'another user');
+    END IF;
+
+    UPDATE document_locks l
+    SET is_active = false,
+      metadata = COALESCE(l.metadata, '{}') || jsonb_build_object('taken_over_by', auth.uid(), 'taken_over_at', NOW())
+    WHERE l.id = existing.id;
+  END IF;
+
+  INSERT INTO document_locks (document_id, user_id, lock_type, expires_at, metadata)
+  VALUES (
+    doc_id,
+    auth.uid(),
+    'exclusive',
+    NOW() + make_interval(mins => duration_minutes),
+    CASE WHEN existing.id IS NOT NULL THEN jsonb_build_object('took_over_lock_id', existing.id) ELSE '{}'::jsonb END
+  )
+  RETURNING * INTO acquired;
+
+  RETURN acquired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Holders release their own lock; owners and admins can release anyone's
+CREATE OR REPLACE FUNCTION release_document_lock(doc_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE document_locks l SET is_active = false
+  WHERE l.document_id = doc_id
+  AND l.is_active = true
+  AND (l.user_id = auth.uid() OR get_user_document_permission(doc_id, auth.uid()) = 'admin');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Row Level Security (RLS) Policies
+
+-- Locks are readable by anyone who can read the document and only change through the functions above
+CREATE POLICY "Users can view locks on documents they can read" ON document_locks
+  FOR SELECT USING (user_has_document_access(document_id, auth.uid(), 'read'));
+
+CREATE POLICY "Document owners and admins can lock snapshots" ON document_snapshots
+  FOR UPDATE USING (get_user_document_permission(document_id, auth.uid()) = 'admin');
+
+-- Restrictive policies apply on top of the existing ones, so a lock overrides any share
+CREATE POLICY "Locked documents cannot be changed" ON documents
+  AS RESTRICTIVE FOR UPDATE USING (NOT document_edit_blocked(id, auth.uid()));
+
+CREATE POLICY "Locked documents get no new versions" ON document_versions
+  AS RESTRICTIVE FOR INSERT WITH CHECK (NOT document_edit_blocked(document_id, auth.uid()));
+
+CREATE POLICY "Locked documents take no suggestions" ON document_suggestions
+  AS RESTRICTIVE FOR INSERT WITH CHECK (NOT document_edit_blocked(document_id, auth.uid()));
+
+-- Only admins may create a snapshot that is already locked, and nobody may snapshot past another's lock
+CREATE POLICY "Locked documents get no new snapshots" ON document_snapshots
+  AS RESTRICTIVE FOR INSERT WITH CHECK (
+    (NOT COALESCE(is_locked, false) OR get_user_document_permission(document_id, auth.uid()) = 'admin')
+    AND NOT document_edit_blocked(document_id, auth.uid())
+  );
+
+-- Enable realtime so editors and the collaboration relay see locks come and go
+ALTER publication supabase_realtime ADD TABLE document_locks;
+
+COMMENT ON FUNCTION document_edit_blocked IS 'True while another user holds a live lock on the document or one of its snapshots is locked';
+COMMENT ON FUNCTION acquire_document_lock IS 'Takes or renews the exclusive editing lock; admins may take over an existing lock';
+COMMENT ON FUNCTION release_document_lock IS 'Releases the caller''s lock, or any lock for owners and admins';
+COMMENT ON INDEX idx_document_locks_one_active IS 'At most one live lock per document';
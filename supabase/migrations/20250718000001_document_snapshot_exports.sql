@@ -0,0 +1,136 @@
+-- Document Snapshot Exports Schema
+-- Named snapshots taken from the current version of a document, and the exports made of them
+
+CREATE INDEX IF NOT EXISTS idx_version_exports_snapshot_id ON version_exports(snapshot_id);
+
+-- Snapshot the document as it stands. The latest version is reused when it already holds the
+-- current content; otherwise a manual version is recorded first so the snapshot has one to point at.
+CREATE OR REPLACE FUNCTION create_document_snapshot(doc_id UUID, snapshot_label TEXT, snapshot_description TEXT DEFAULT NULL)
+RETURNS document_snapshots AS $$
+DECLARE
+  current_content TEXT;
+  latest document_versions%ROWTYPE;
+  created document_snapshots%ROWTYPE;
+BEGIN
+  IF NOT user_has_document_access(doc_id, auth.uid(), 'edit') THEN
+    RAISE EXCEPTION 'You do not have edit access to this document';
+  END IF;
+
+  -- Taking a snapshot can record a new version, so it is held to the same locks as saving
+  IF document_edit_blocked(doc_id, auth.uid()) THEN
+    RAISE EXCEPTION 'This document is locked and cannot be snapshotted';
+  END IF;
+
+  IF btrim(COALESCE(snapshot_label, '')) = '' THEN
+    RAISE EXCEPTION 'Snapshot label is required';
+  END IF;
+
+  SELECT d.content INTO current_content FROM documents d WHERE d.id = doc_id;
+
+  SELECT * INTO latest FROM document_versions v
+  WHERE v.document_id = doc_id
+  ORDER BY v.version_number DESC
+  LIMIT 1;
+
+  IF latest.id IS NULL OR latest.content IS DISTINCT FROM COALESCE(current_content, '') THEN
+    -- version_number is assigned by trigger_increment_document_version
+    INSERT INTO document_versions (document_id, version_number, content, created_by, change_summary, is_auto_save)
+    VALUES (doc_id, 0, COALESCE(current_content, ''), auth.uid(), 'Snapshot: ' || btrim(snapshot_label), false)
+    RETURNING * INTO latest;
+  END IF;
+
+  INSERT INTO document_snapshots (document_id, version_id, label, description, created_by)
+  VALUES (doc_id, latest.id, btrim(snapshot_label), NULLIF(btrim(snapshot_description), ''), auth.uid())
+  RETURNING * INTO created;
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Snapshots of a document with their version, who took them and how often they were downloaded
+CREATE OR REPLACE FUNCTION get_document_snapshots(doc_id UUID)
+RETURNS TABLE (
+  id UUID,
+  label TEXT,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID,
+  creator_email TEXT,
+  version_id UUID,
+  version_number INTEGER,
+  is_locked BOOLEAN,
+  download_count INTEGER
+) AS $$
+BEGIN
+  IF NOT user_has_document_access(doc_id, auth.uid(), 'read') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.label::TEXT,
+    s.description,
+    s.created_at,
+    s.created_by,
+    u.email::TEXT,
+    s.version_id,
+    v.version_number,
+    COALESCE(s.is_locked, false),
+    COALESCE((SELECT SUM(e.download_count) FROM version_exports e WHERE e.snapshot_id = s.id), 0)::INTEGER
+  FROM document_snapshots s
+  JOIN document_versions v ON v.id = s.version_id
+  LEFT JOIN auth.users u ON u.id = s.created_by
+  WHERE s.document_id = doc_id
+  ORDER BY s.created_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Count a download of a snapshot export. Each user has one export row per snapshot and format
+-- whose download_count goes up every time they download it again.
+CREATE OR REPLACE FUNCTION record_snapshot_export(snap_id UUID, export_format TEXT, file_name TEXT DEFAULT NULL)
+RETURNS version_exports AS $$
+DECLARE
+  doc_id UUID;
+  recorded version_exports%ROWTYPE;
+BEGIN
+  SELECT s.document_id INTO doc_id FROM document_snapshots s WHERE s.id = snap_id;
+
+  IF doc_id IS NULL OR NOT user_has_document_access(doc_id, auth.uid(), 'read') THEN
+    RAISE EXCEPTION 'Snapshot not found';
+  END IF;
+
+  UPDATE version_exports e
+  SET download_count = COALESCE(e.download_count, 0) + 1,
+    exported_at = NOW(),
+    metadata = COALESCE(e.metadata, '{}') || jsonb_build_object('file_name', file_name)
+  WHERE e.snapshot_id = snap_id
+  AND e.export_type = export_format
+  AND e.exported_by = auth.uid()
+  RETURNING * INTO recorded;
+
+  IF recorded.id IS NULL THEN
+    INSERT INTO version_exports (snapshot_id, export_type, exported_by, download_count, metadata)
+    VALUES (snap_id, export_format, auth.uid(), 1, jsonb_build_object('file_name', file_name))
+    RETURNING * INTO recorded;
+  END IF;
+
+  RETURN recorded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Row Level Security (RLS) Policies
+
+-- Exports are readable by anyone who can read the document and only change through record_snapshot_export
+CREATE POLICY "Users can view exports of snapshots they can read" ON version_exports
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM document_snapshots s
+      WHERE s.id = version_exports.snapshot_id
+      AND user_has_document_access(s.document_id, auth.uid(), 'read')
+    )
+  );
+
+COMMENT ON FUNCTION create_document_snapshot IS 'Creates a named snapshot of the document''s current content, recording a version for it when needed';
+COMMENT ON FUNCTION get_document_snapshots IS 'Lists a document''s snapshots with version number, creator and total downloads';
+COMMENT ON FUNCTION record_snapshot_export IS 'Records an export of a snapshot and counts the download';
@@ -0,0 +1,22 @@
+-- Collaborative State Reset Schema
+-- Keeps the collaboration relay's shared document in step with content written outside it
+
+-- The relay always writes collaborative_state together with content, so a content write that leaves it
+-- untouched came from elsewhere: a version restore, a saved version or accepted suggestions. Stamp the
+-- state so the relay replaces its shared text with the new content rather than writing the old text back.
+CREATE OR REPLACE FUNCTION mark_collaborative_state_reset()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content
+    AND NEW.collaborative_state IS NOT DISTINCT FROM OLD.collaborative_state THEN
+    NEW.collaborative_state := COALESCE(OLD.collaborative_state, '{}') || jsonb_build_object('content_reset_at', NOW());
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER mark_collaborative_state_reset_trigger
+  BEFORE UPDATE OF content ON documents
+  FOR EACH ROW EXECUTE FUNCTION mark_collaborative_state_reset();
+
+COMMENT ON FUNCTION mark_collaborative_state_reset IS 'Flags collaborative_state with content_reset_at when content is written outside the collaboration relay';